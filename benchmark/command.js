@@ -466,6 +466,75 @@ async function runTest(count = 1000, useReg = false, state = 'middle', regState
     status.push(res);
 }
 
+// Сравнение поиска строковых слотов через индекс (автомат Ахо — Корасик) и последовательного перебора команд.
+// Запрос содержит слот внутри фразы, поэтому поиск по точному совпадению не срабатывает.
+const substringStatus = [];
+
+async function runSubstringTest(count) {
+    const bot = new Bot();
+    bot.initBotController(TestBotController);
+    bot.use(new AlisaAdapter());
+    bot.setAppConfig({ isLocalStorage: true });
+    bot.setLogger({ error: () => {}, warn: () => {}, maskSecrets: false });
+    for (let j = 0; j < count; j++) {
+        bot.addCommand(`cmd_${j}`, [`команда_${j}_`], (_, controller) => {
+            controller.text = `cmd_${j} выполнена`;
+        });
+    }
+    const queries = {
+        low: 'выполни команда_1_ сейчас',
+        middle: `выполни команда_${Math.round(count / 2)}_ сейчас`,
+        high: `несуществующая команда ${Date.now()}`,
+    };
+    const res = { count };
+    // Первый запуск включает построение индекса
+    const buildStart = performance.now();
+    await bot.run(T_ALISA, getContent(queries.low));
+    res.firstRun = performance.now() - buildStart;
+    for (const state of Object.keys(queries)) {
+        gc();
+        const start = performance.now();
+        await bot.run(T_ALISA, getContent(queries[state]));
+        res[state] = performance.now() - start;
+    }
+
+    // Последовательный перебор, как без индекса
+    const commands = bot.getAppContext().commands;
+    bot.setCustomCommandResolver((text) => {
+        for (const [name, command] of commands) {
+            if (command.slots && command.slots.some((slot) => text.includes(slot))) {
+                return name;
+            }
+        }
+        return null;
+    });
+    for (const state of Object.keys(queries)) {
+        gc();
+        const start = performance.now();
+        await bot.run(T_ALISA, getContent(queries[state]));
+        res[`${state}Linear`] = performance.now() - start;
+    }
+    bot.clearCommands();
+    substringStatus.push(res);
+}
+
+function printSubstringResult() {
+    if (!substringStatus.length) {
+        return;
+    }
+    console.log('\nПОИСК СЛОТА ВНУТРИ ФРАЗЫ: ИНДЕКС АХО — КОРАСИК / ПОСЛЕДОВАТЕЛЬНЫЙ ПЕРЕБОР');
+    console.log('─'.repeat(100));
+    const format = (indexTime, linearTime) =>
+        `${indexTime.toFixed(2)} / ${linearTime.toFixed(2)} мс (x${(linearTime / indexTime).toFixed(1)})`;
+    for (const item of substringStatus) {
+        console.log(`Количество команд: ${item.count.toLocaleString('ru-RU')}`);
+        console.log(`  ├─ Первый запуск с построением индекса: ${item.firstRun.toFixed(2)} мс`);
+        console.log(`  ├─ Команда в начале: ${format(item.low, item.lowLinear)}`);
+        console.log(`  ├─ Команда в середине: ${format(item.middle, item.middleLinear)}`);
+        console.log(`  └─ Команда не найдена: ${format(item.high, item.highLinear)}`);
+    }
+}
+
 function getAvailableMemoryMB() {
     const free = os.freemem();
     // Оставляем 50 МБ на систему и Node.js рантайм
@@ -481,7 +550,9 @@ function predictMemoryUsage(commandCount) {
 async function start() {
     try {
         // Количество команд
-        const counts = [50, 250, 500, 1000, 2e3, 2e4, 5e4, 2e5, 1e6];
+        const counts = [50, 250, 500, 1000, 2e3, 1e4, 2e4, 5e4, 2e5, 1e6];
+        // Количество команд для сравнения поиска через индекс и последовательного перебора
+        const substringCounts = [1e4, 5e4];
         // Исход поиска(требуемая команда в начале списка, требуемая команда в середине списка, требуемая команда не найдена)
         const states = ['low', 'middle', 'high'];
         // Сложность регулярных выражений (low — простая, middle — умеренная, high — сложная(субъективно))
@@ -599,8 +670,18 @@ async function start() {
         } catch (e) {
             console.log(`Упал при выполнении тестов для ${cCountFErr} команд. Ошибка: ${e}`);
         }
+        for (const count of substringCounts) {
+            if (predictMemoryUsage(count) > getAvailableMemoryMB() * 0.9) {
+                console.log(`⚠️ Недостаточно памяти для теста поиска слота (${count} команд).`);
+                break;
+            }
+            console.log(`Запуск теста поиска слота для ${count} команд...`);
+            gc();
+            await runSubstringTest(count);
+        }
         gc();
         printResult();
+        printSubstringResult();
         if (process.platform === 'win32') {
             console.log(
                 '⚠️ Внимание: Node.js на Windows работает менее эффективно, чем на Unix-системах (Linux/macOS). Это может приводить к высокому потреблению памяти и замедлению обработки под нагрузкой.\n' +
@@ -4,3 +4,5 @@
 export * from './interfaces/IRequest';
 // Базовый класс для HTTP-запросов
 export * from './request/Request';
+export * from './request/RequestError';
+export * from './request/CircuitBreaker';
@@ -2,6 +2,7 @@
  * Интерфейсы для работы с HTTP-запросами.
  * Определяют структуру запросов и ответов при взаимодействии с API
  */
+import type { RequestError } from '../request/RequestError';
 
 /**
  * Интерфейс ответа на HTTP-запрос
@@ -50,4 +51,45 @@ export interface IRequestSend<T> {
      * Присутствует только в случае неуспешного выполнения запроса
      */
     err?: string;
+
+    /**
+     * HTTP-статус ответа сервера.
+     * Отсутствует, если ответ от сервера не был получен (например, ошибка сети или превышено время ожидания)
+     */
+    httpStatus?: number;
+
+    /**
+     * Тело ответа сервера с ошибкой (например, JSON с описанием ошибки и временем ожидания перед повторной попыткой).
+     * Присутствует только в случае, если сервер вернул неуспешный HTTP-статус
+     */
+    errorData?: unknown;
+
+    /**
+     * Ошибка запроса с типом ошибки, HTTP-статусом и телом ответа.
+     * Присутствует только в случае неуспешного выполнения запроса
+     */
+    error?: RequestError;
+}
+
+/**
+ * Параметры отдельного HTTP-запроса. Действуют только для одного вызова {@link Request.send}
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const res = await request.send(url, { timeout: 30000, signal: controller.signal });
+ * // ... позже
+ * controller.abort();
+ * ```
+ */
+export interface IRequestSendOptions {
+    /**
+     * Максимальное время ожидания ответа (мс). Если указано, используется вместо `maxTimeQuery`
+     */
+    timeout?: number;
+
+    /**
+     * Сигнал для отмены запроса. Отмененный запрос завершается ошибкой с типом `aborted` и не повторяется
+     */
+    signal?: AbortSignal;
 }
@@ -0,0 +1,124 @@
+import type { ICircuitBreakerPolicy } from '../../core';
+
+/**
+ * Состояние автоматического выключателя:
+ * - `closed` — запросы выполняются;
+ * - `open` — запросы не выполняются;
+ * - `half-open` — время размыкания истекло, выполняется пробный запрос.
+ */
+export type TCircuitState = 'closed' | 'open' | 'half-open';
+
+interface ICircuit {
+    failures: number;
+    openedAt: number | null;
+    isTrial: boolean;
+}
+
+const DEFAULT_POLICY: Required<ICircuitBreakerPolicy> = {
+    failureThreshold: 5,
+    resetTimeout: 30000,
+};
+
+/**
+ * Автоматический выключатель (circuit breaker) для запросов к внешним хостам.
+ * Хранит количество ошибок подряд для каждого хоста и размыкается, когда оно достигает `failureThreshold`.
+ * Используется в {@link Request}, параметры задаются через `bot.setRequestPolicy()`.
+ */
+export class CircuitBreaker {
+    readonly #circuits: Map<string, ICircuit> = new Map();
+
+    /**
+     * Проверяет, можно ли выполнить запрос к хосту. Если время размыкания истекло, разрешает один пробный запрос
+     * @param host - Хост
+     * @param policy - Параметры выключателя
+     */
+    public allow(host: string, policy: ICircuitBreakerPolicy): boolean {
+        const circuit = this.#circuits.get(host);
+        if (!circuit || circuit.openedAt === null) {
+            return true;
+        }
+        if (Date.now() - circuit.openedAt < this.#getPolicy(policy).resetTimeout) {
+            return false;
+        }
+        if (circuit.isTrial) {
+            return false;
+        }
+        circuit.isTrial = true;
+        return true;
+    }
+
+    /**
+     * Отмечает успешный запрос к хосту и замыкает выключатель
+     * @param host - Хост
+     */
+    public success(host: string): void {
+        this.#circuits.delete(host);
+    }
+
+    /**
+     * Завершает пробный запрос, который не дошел до хоста (например, не удалось прочитать файл).
+     * Состояние выключателя не меняется, следующий запрос снова может стать пробным
+     * @param host - Хост
+     */
+    public release(host: string): void {
+        const circuit = this.#circuits.get(host);
+        if (circuit) {
+            circuit.isTrial = false;
+        }
+    }
+
+    /**
+     * Отмечает неудачный запрос к хосту
+     * @param host - Хост
+     * @param policy - Параметры выключателя
+     * @returns true, если выключатель разомкнулся в результате этой ошибки
+     */
+    public failure(host: string, policy: ICircuitBreakerPolicy): boolean {
+        const circuit = this.#circuits.get(host) ?? { failures: 0, openedAt: null, isTrial: false };
+        this.#circuits.set(host, circuit);
+        circuit.failures++;
+        const isTrial = circuit.isTrial;
+        circuit.isTrial = false;
+        if (isTrial || circuit.failures >= this.#getPolicy(policy).failureThreshold) {
+            const isOpened = circuit.openedAt === null || isTrial;
+            circuit.openedAt = Date.now();
+            return isOpened;
+        }
+        return false;
+    }
+
+    /**
+     * Возвращает состояние выключателя для хоста
+     * @param host - Хост
+     * @param policy - Параметры выключателя
+     */
+    public getState(host: string, policy: ICircuitBreakerPolicy = {}): TCircuitState {
+        const circuit = this.#circuits.get(host);
+        if (!circuit || circuit.openedAt === null) {
+            return 'closed';
+        }
+        if (Date.now() - circuit.openedAt < this.#getPolicy(policy).resetTimeout) {
+            return 'open';
+        }
+        return 'half-open';
+    }
+
+    /**
+     * Замыкает выключатель для хоста или для всех хостов
+     * @param host - Хост. Если не указан, сбрасываются все хосты
+     */
+    public reset(host?: string): void {
+        if (host === undefined) {
+            this.#circuits.clear();
+        } else {
+            this.#circuits.delete(host);
+        }
+    }
+
+    #getPolicy(policy: ICircuitBreakerPolicy): Required<ICircuitBreakerPolicy> {
+        return {
+            failureThreshold: policy.failureThreshold ?? DEFAULT_POLICY.failureThreshold,
+            resetTimeout: policy.resetTimeout ?? DEFAULT_POLICY.resetTimeout,
+        };
+    }
+}
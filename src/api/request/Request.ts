@@ -3,9 +3,36 @@
  * Предоставляет функционал для работы с различными типами запросов и ответов
  */
 import { fread, httpBuildQuery, IGetParams, isFile } from '../../utils';
-import { AppContext, EMetric, THttpClient } from '../../core';
-import { IRequestSend } from '../interfaces/IRequest';
+import {
+    AppContext,
+    EMetric,
+    ETraceSpan,
+    getRequestContext,
+    IRequestRetryPolicy,
+    THttpClient,
+} from '../../core';
+import { IRequestSend, IRequestSendOptions } from '../interfaces/IRequest';
 import { basename } from 'path';
+import { RequestError, TRequestErrorCode } from './RequestError';
+import { CircuitBreaker } from './CircuitBreaker';
+
+const DEFAULT_RETRY_POLICY: Required<IRequestRetryPolicy> = {
+    retries: 0,
+    baseDelay: 300,
+    maxDelay: 10000,
+    jitter: 0.2,
+    retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Заголовок с идентификатором входящего запроса
+ */
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Автоматические выключатели для каждого контекста приложения
+ */
+const circuitBreakers: WeakMap<AppContext, CircuitBreaker> = new WeakMap();
 
 /**
  * Класс для отправки HTTP-запросов к API различных платформ. Используется внутри адаптеров для взаимодействия с внешними сервисами.
@@ -74,9 +101,21 @@ export class Request {
      */
     public isBinaryResponse: boolean = false;
 
+    /**
+     * Политика повторных попыток для запросов этого экземпляра.
+     * Если не задана, используется политика из `appContext.requestPolicy`
+     */
+    public retry: IRequestRetryPolicy | null = null;
+
     /** Текст ошибки при выполнении запроса */
     #error: Error | string | null;
 
+    /** Ошибка последней попытки выполнения запроса */
+    #requestError: RequestError | null = null;
+
+    /** Время ожидания перед повторной попыткой, указанное сервером в заголовке Retry-After */
+    #retryAfter: number | undefined;
+
     /**
      * Контекст приложения
      */
@@ -114,28 +153,254 @@ export class Request {
     }
 
     /**
-     * Отправляет HTTP-запрос
+     * Возвращает автоматический выключатель контекста приложения
+     * @param appContext - Контекст приложения
+     */
+    public static getCircuitBreaker(appContext: AppContext): CircuitBreaker {
+        let breaker = circuitBreakers.get(appContext);
+        if (!breaker) {
+            breaker = new CircuitBreaker();
+            circuitBreakers.set(appContext, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * Отправляет HTTP-запрос.
+     * При временной ошибке запрос повторяется согласно политике повторных попыток ({@link retry}
+     * или `appContext.requestPolicy.retry`). Если для хоста разомкнут автоматический выключатель,
+     * запрос не выполняется.
      *
      * @param url - URL для отправки запроса (если не указан, используется this.url)
+     * @param options - Параметры этого запроса: время ожидания ответа и сигнал для отмены
      * @returns  Результат выполнения запроса
      */
-    public async send<T>(url: string | null = null): Promise<IRequestSend<T>> {
+    public send<T>(
+        url: string | null = null,
+        options: IRequestSendOptions = {},
+    ): Promise<IRequestSend<T>> {
         if (url) {
             this.url = url;
         }
+        if (!this.#appContext?.usedTracer) {
+            return this.#send<T>(options);
+        }
+        return this.#appContext.trace(
+            ETraceSpan.REQUEST,
+            {
+                'http.request.method':
+                    this.customRequest ||
+                    (this.post || this.postInString || this.attach ? 'POST' : 'GET'),
+                'server.address': this.#getHost() ?? '',
+            },
+            (span) =>
+                this.#send<T>(options).then((res) => {
+                    if (res.httpStatus !== undefined) {
+                        span.setAttributes({ 'http.response.status_code': res.httpStatus });
+                    }
+                    if (!res.status) {
+                        span.setError(res.error ?? res.err);
+                    }
+                    return res;
+                }),
+        );
+    }
 
-        this.#error = null;
-        const data = (await this.#run()) as T;
+    /**
+     * Отправляет HTTP-запрос с учетом политики повторных попыток
+     * @param options - Параметры запроса
+     */
+    async #send<T>(options: IRequestSendOptions): Promise<IRequestSend<T>> {
+        const policy = this.#getRetryPolicy();
+        let data: T | null;
+        let attempts = 0;
+        for (;;) {
+            attempts++;
+            data = (await this.#attempt(policy, options)) as T | null;
+            if (!this.#requestError || !this.#isRetryable(policy) || attempts > policy.retries) {
+                break;
+            }
+            await this.#wait(this.#getRetryDelay(policy, attempts));
+        }
         this.attachName = 'file';
         this.attach = null;
         this.post = null;
         this.postInString = null;
-        if (this.#error) {
-            return { status: false, data: null, err: this.#error };
+        if (this.#requestError) {
+            const error = this.#requestError;
+            error.attempts = attempts;
+            const res: IRequestSend<T> = {
+                status: false,
+                data: null,
+                err: this.#error as string,
+                error,
+            };
+            if (error.status !== undefined) {
+                res.httpStatus = error.status;
+            }
+            if (error.body !== undefined) {
+                res.errorData = error.body;
+            }
+            return res;
         }
         return { status: true, data };
     }
 
+    /**
+     * Выполняет одну попытку запроса с учетом автоматического выключателя
+     * @param policy - Политика повторных попыток
+     * @param options - Параметры запроса
+     */
+    async #attempt(
+        policy: Required<IRequestRetryPolicy>,
+        options: IRequestSendOptions,
+    ): Promise<unknown> {
+        this.#error = null;
+        this.#requestError = null;
+        this.#retryAfter = undefined;
+        const circuitPolicy = this.#appContext?.requestPolicy?.circuitBreaker;
+        const host = circuitPolicy ? this.#getHost() : null;
+        if (!circuitPolicy || !host || !this.#appContext) {
+            return this.#run(options);
+        }
+        const breaker = Request.getCircuitBreaker(this.#appContext);
+        if (!breaker.allow(host, circuitPolicy)) {
+            this.#setError(
+                `Запросы к "${host}" временно не выполняются из-за большого количества ошибок`,
+                'circuit_open',
+            );
+            return null;
+        }
+        const data = await this.#run(options);
+        // Ошибка заполняется в #run, поэтому тип поля не сужается до null после сброса выше
+        const error = this.#requestError as RequestError | null;
+        if (this.#isRetryable(policy)) {
+            if (breaker.failure(host, circuitPolicy)) {
+                this.#appContext.logWarn(
+                    `Request: Запросы к "${host}" приостановлены из-за большого количества ошибок подряд`,
+                );
+            }
+        } else if (!error || error.code === 'http') {
+            // Хост ответил, пусть и ошибкой клиента (например, 400 или 404), значит он доступен
+            breaker.success(host);
+        } else {
+            breaker.release(host);
+        }
+        return data;
+    }
+
+    /**
+     * Возвращает политику повторных попыток. Не указанные (в том числе явно равные undefined) значения
+     * берутся из политики по умолчанию
+     */
+    #getRetryPolicy(): Required<IRequestRetryPolicy> {
+        const policy = this.retry ?? this.#appContext?.requestPolicy?.retry ?? {};
+        return {
+            retries: policy.retries ?? DEFAULT_RETRY_POLICY.retries,
+            baseDelay: policy.baseDelay ?? DEFAULT_RETRY_POLICY.baseDelay,
+            maxDelay: policy.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+            jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+            retryStatuses: policy.retryStatuses ?? DEFAULT_RETRY_POLICY.retryStatuses,
+        };
+    }
+
+    /**
+     * Проверяет, является ли ошибка последней попытки временной
+     */
+    #isRetryable(policy: Required<IRequestRetryPolicy>): boolean {
+        const error = this.#requestError;
+        if (!error) {
+            return false;
+        }
+        if (error.code === 'network' || error.code === 'timeout') {
+            return true;
+        }
+        return (
+            error.code === 'http' &&
+            error.status !== undefined &&
+            policy.retryStatuses.includes(error.status)
+        );
+    }
+
+    /**
+     * Возвращает задержку перед повторной попыткой
+     * @param policy - Политика повторных попыток
+     * @param attempts - Количество выполненных попыток
+     */
+    #getRetryDelay(policy: Required<IRequestRetryPolicy>, attempts: number): number {
+        if (this.#retryAfter !== undefined) {
+            return Math.min(policy.maxDelay, this.#retryAfter);
+        }
+        const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempts - 1));
+        const jitter = Math.min(1, Math.max(0, policy.jitter));
+        return Math.max(0, Math.round(delay * (1 + jitter * (Math.random() * 2 - 1))));
+    }
+
+    #wait(delay: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    /**
+     * Возвращает хост, к которому выполняется запрос
+     */
+    #getHost(): string | null {
+        try {
+            return this.url ? new URL(this.url).host : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Сохраняет ошибку запроса
+     * @param message - Текст ошибки
+     * @param code - Тип ошибки
+     * @param options - Дополнительные параметры ошибки
+     */
+    #setError(
+        message: string,
+        code: TRequestErrorCode,
+        options: { status?: number; body?: unknown; cause?: unknown } = {},
+    ): void {
+        this.#error = message;
+        this.#requestError = new RequestError(message, code, { ...options, url: this.url });
+    }
+
+    /**
+     * Возвращает тело ответа с ошибкой. Платформы часто передают в нем описание ошибки и время ожидания перед повторной попыткой
+     * @param response - Ответ сервера
+     */
+    async #getErrorData(response: Response): Promise<unknown> {
+        if (!this.isConvertJson || typeof response.json !== 'function') {
+            return undefined;
+        }
+        try {
+            return await response.json();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Возвращает время ожидания из заголовка Retry-After в миллисекундах
+     * @param response - Ответ сервера
+     */
+    #getRetryAfter(response: Response): number | undefined {
+        const value =
+            typeof response.headers?.get === 'function'
+                ? response.headers.get('retry-after')
+                : null;
+        if (!value) {
+            return undefined;
+        }
+        const seconds = Number(value);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(value);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
     /**
      * Формирует URL с GET-параметрами
      *
@@ -160,18 +425,59 @@ export class Request {
         return fetch;
     }
 
+    /**
+     * Возвращает параметры http запроса с учетом параметров этого вызова
+     * @param sendOptions - Параметры запроса
+     */
+    async #getRequestOptions(sendOptions: IRequestSendOptions): Promise<RequestInit | undefined> {
+        const options = await this._getOptions();
+        if (!options) {
+            return options;
+        }
+        this.#setRequestId(options);
+        if (sendOptions.timeout === undefined && !sendOptions.signal) {
+            return options;
+        }
+        const timeout = sendOptions.timeout ?? this.maxTimeQuery;
+        const signals: AbortSignal[] = timeout ? [AbortSignal.timeout(timeout)] : [];
+        if (sendOptions.signal) {
+            signals.push(sendOptions.signal);
+        }
+        options.signal = signals.length ? AbortSignal.any(signals) : undefined;
+        return options;
+    }
+
+    /**
+     * Добавляет заголовок `X-Request-Id` с идентификатором входящего запроса, при обработке которого выполняется
+     * HTTP-запрос. Позволяет связать запросы к внешним сервисам с входящим запросом. Заголовок, указанный явно,
+     * не заменяется
+     * @param options - Параметры запроса
+     */
+    #setRequestId(options: RequestInit): void {
+        const requestId = getRequestContext()?.requestId;
+        if (!requestId) {
+            return;
+        }
+        const headers = new Headers(options.headers);
+        if (!headers.has(REQUEST_ID_HEADER)) {
+            headers.set(REQUEST_ID_HEADER, requestId);
+        }
+        options.headers = headers;
+    }
+
     /**
      * Выполняет HTTP-запрос
+     * @param sendOptions - Параметры запроса
      *
      * @returns Ответ сервера или null в случае ошибки
      */
-    async #run<T>(): Promise<T | string | null> {
+    async #run<T>(sendOptions: IRequestSendOptions): Promise<T | string | null> {
         if (this.url) {
             try {
                 const start = this.#appContext?.usedMetric ? performance.now() : 0;
                 const response = await this.#getHttpClient()(
                     this._getUrl(),
-                    await this._getOptions(),
+                    await this.#getRequestOptions(sendOptions),
                 );
                 if (this.#appContext?.usedMetric) {
                     this.#appContext?.logMetric(EMetric.REQUEST, performance.now() - start, {
@@ -189,12 +495,25 @@ export class Request {
                     }
                     return await response.text();
                 }
-                this.#error = `Не удалось получить данные с "${this.url}". Статус: ${response.status}`;
+                this.#retryAfter = this.#getRetryAfter(response);
+                this.#setError(
+                    `Не удалось получить данные с "${this.url}". Статус: ${response.status}`,
+                    'http',
+                    { status: response.status, body: await this.#getErrorData(response) },
+                );
             } catch (e) {
+                const name = (e as Error)?.name;
+                let code: TRequestErrorCode = 'network';
+                if (sendOptions.signal?.aborted) {
+                    code = 'aborted';
+                } else if (name === 'TimeoutError' || name === 'AbortError') {
+                    code = 'timeout';
+                }
+                this.#setError((e as Error)?.message ?? String(e), code, { cause: e });
                 this.#error = e as Error;
             }
         } else {
-            this.#error = 'Не указан url!';
+            this.#setError('Не указан url!', 'url');
         }
         return null;
     }
@@ -216,7 +535,7 @@ export class Request {
             if (await isFile(this.attach)) {
                 const formData = await this.getAttachFile(this.attach, this.attachName);
                 if (!formData) {
-                    this.#error = `Не удалось прочитать файл: ${this.attach}`;
+                    this.#setError(`Не удалось прочитать файл: ${this.attach}`, 'file');
                     return;
                 }
                 // Добавляем дополнительные поля из this.post в FormData
@@ -230,7 +549,7 @@ export class Request {
                 }
                 post = formData;
             } else {
-                this.#error = `Не удалось найти файл: ${this.attach}`;
+                this.#setError(`Не удалось найти файл: ${this.attach}`, 'file');
                 return;
             }
         } else if (this.post || this.postInString) {
@@ -0,0 +1,86 @@
+/**
+ * Тип ошибки HTTP-запроса:
+ * - `url` — не указан URL запроса;
+ * - `file` — не удалось прочитать прикрепляемый файл;
+ * - `network` — ошибка сети, ответ от сервера не получен;
+ * - `timeout` — превышено время ожидания ответа;
+ * - `http` — сервер вернул неуспешный HTTP-статус;
+ * - `circuit_open` — запрос не выполнялся, так как автоматический выключатель для хоста разомкнут;
+ * - `aborted` — запрос отменен через сигнал, переданный в параметрах запроса.
+ */
+export type TRequestErrorCode =
+    'url' | 'file' | 'network' | 'timeout' | 'http' | 'circuit_open' | 'aborted';
+
+/**
+ * Параметры ошибки HTTP-запроса
+ */
+export interface IRequestErrorOptions {
+    /**
+     * URL запроса
+     */
+    url?: string | null;
+    /**
+     * HTTP-статус ответа
+     */
+    status?: number;
+    /**
+     * Тело ответа сервера
+     */
+    body?: unknown;
+    /**
+     * Исходная ошибка
+     */
+    cause?: unknown;
+}
+
+/**
+ * Ошибка HTTP-запроса. Возвращается в поле `error` результата {@link Request.send}
+ *
+ * @example
+ * ```ts
+ * const res = await request.send('https://example.com');
+ * if (res.error?.code === 'http' && res.error.status === 404) {
+ *     // ...
+ * }
+ * ```
+ */
+export class RequestError extends Error {
+    /**
+     * Тип ошибки
+     */
+    public readonly code: TRequestErrorCode;
+
+    /**
+     * URL запроса
+     */
+    public readonly url: string | null;
+
+    /**
+     * HTTP-статус ответа. Присутствует только для ошибок с типом `http`
+     */
+    public readonly status?: number;
+
+    /**
+     * Тело ответа сервера. Присутствует только для ошибок с типом `http`, если тело удалось прочитать
+     */
+    public readonly body?: unknown;
+
+    /**
+     * Количество выполненных попыток
+     */
+    public attempts: number = 1;
+
+    /**
+     * @param message - Текст ошибки
+     * @param code - Тип ошибки
+     * @param options - Параметры ошибки
+     */
+    constructor(message: string, code: TRequestErrorCode, options: IRequestErrorOptions = {}) {
+        super(message, options.cause === undefined ? undefined : { cause: options.cause });
+        this.name = 'RequestError';
+        this.code = code;
+        this.url = options.url ?? null;
+        this.status = options.status;
+        this.body = options.body;
+    }
+}
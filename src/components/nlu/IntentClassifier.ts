@@ -0,0 +1,218 @@
+import type { IAppIntent } from '../../core';
+import { isRegex } from '../../utils/standard/RegExp';
+import { stemRu } from './Stemmer';
+import {
+    IIntentClassifierClass,
+    IIntentClassifierModel,
+    IIntentClassifierOptions,
+    IIntentPrediction,
+} from './interfaces/IIntentClassifier';
+
+/**
+ * Версия формата модели
+ */
+const MODEL_VERSION = 1;
+
+const REG_WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Локальный классификатор интентов на основе наивного байесовского классификатора.
+ * Признаками служат основы слов (используется стеммер для русского языка) и символьные n-граммы, поэтому классификатор
+ * распознает другие формы слов и устойчив к опечаткам. Работает без сети и GPU.
+ *
+ * Уверенность — вероятность интента, умноженная на корень из доли признаков запроса, известных модели. Поэтому для текста,
+ * не похожего ни на одну фразу, уверенность низкая.
+ *
+ * Модель обучается на фразах из `slots` интентов. Регулярные выражения и интенты с `is_pattern` в обучении не участвуют.
+ * Обученную модель можно сохранить в JSON и загрузить при следующем запуске через `IntentClassifier.fromJSON`.
+ *
+ * @example
+ * ```ts
+ * const classifier = new IntentClassifier().train([
+ *     { name: 'weather', slots: ['какая погода', 'прогноз погоды на завтра'] },
+ *     { name: 'music', slots: ['включи музыку', 'поставь песню'] },
+ * ]);
+ * classifier.classify('погоду покажи'); // -> [{ name: 'weather', confidence: 64.3 }, ...]
+ *
+ * fs.writeFileSync('model.json', JSON.stringify(classifier));
+ * const loaded = IntentClassifier.fromJSON(JSON.parse(fs.readFileSync('model.json', 'utf-8')));
+ * ```
+ */
+export class IntentClassifier {
+    /**
+     * Длина символьных n-грамм
+     */
+    readonly #ngram: number;
+    /**
+     * Параметр сглаживания Лапласа
+     */
+    readonly #alpha: number;
+    /**
+     * Статистика интентов
+     */
+    #classes: IIntentClassifierClass[] = [];
+    /**
+     * Все признаки, встречающиеся в модели
+     */
+    #vocabulary: Set<string> = new Set();
+    /**
+     * Общее количество фраз, на которых обучена модель
+     */
+    #documents = 0;
+
+    /**
+     * @param options - Параметры классификатора
+     */
+    constructor(options: IIntentClassifierOptions = {}) {
+        this.#ngram = options.ngram ?? 3;
+        this.#alpha = options.alpha ?? 1;
+    }
+
+    /**
+     * Восстанавливает классификатор из сохраненной модели
+     * @param model - Модель, полученная через `toJSON`
+     * @returns Классификатор
+     */
+    public static fromJSON(model: IIntentClassifierModel): IntentClassifier {
+        if (model?.version !== MODEL_VERSION || !Array.isArray(model.classes)) {
+            throw new Error(
+                `IntentClassifier - Неподдерживаемый формат модели. Ожидается модель версии ${MODEL_VERSION}, сохраненная через toJSON.`,
+            );
+        }
+        const classifier = new IntentClassifier({ ngram: model.ngram, alpha: model.alpha });
+        classifier.#setClasses(model.classes);
+        return classifier;
+    }
+
+    /**
+     * Обучена ли модель
+     */
+    public get isTrained(): boolean {
+        return this.#classes.length > 0;
+    }
+
+    /**
+     * Обучает модель на фразах интентов. Ранее обученная модель заменяется
+     * @param intents - Интенты, например `appContext.platformParams.intents`
+     * @returns Классификатор
+     */
+    public train(intents: IAppIntent[]): this {
+        const classes = new Map<string, IIntentClassifierClass>();
+        for (const intent of intents) {
+            if (intent.is_pattern || !intent.slots) {
+                continue;
+            }
+            for (const slot of intent.slots) {
+                if (isRegex(slot)) {
+                    continue;
+                }
+                const features = this.#getFeatures(slot);
+                if (!features.length) {
+                    continue;
+                }
+                let data = classes.get(intent.name);
+                if (!data) {
+                    data = { name: intent.name, documents: 0, total: 0, features: {} };
+                    classes.set(intent.name, data);
+                }
+                data.documents++;
+                data.total += features.length;
+                for (const feature of features) {
+                    data.features[feature] = (data.features[feature] ?? 0) + 1;
+                }
+            }
+        }
+        this.#setClasses([...classes.values()]);
+        return this;
+    }
+
+    /**
+     * Определяет наиболее вероятные интенты для текста
+     * @param text - Текст запроса
+     * @param topK - Максимальное количество интентов в результате
+     * @returns Интенты, отсортированные по убыванию уверенности. Пустой массив, если в тексте нет ни одного известного
+     * модели признака
+     */
+    public classify(text: string, topK: number = 3): IIntentPrediction[] {
+        const allFeatures = this.#getFeatures(text);
+        const features = allFeatures.filter((feature) => this.#vocabulary.has(feature));
+        if (!features.length) {
+            return [];
+        }
+        // Вероятность умножается на долю известных модели признаков, чтобы незнакомый текст получал низкую уверенность.
+        // Корень смягчает штраф за слова, которые просто не встречались в обучающих фразах
+        const coverage = Math.sqrt(features.length / allFeatures.length);
+        const vocabularySize = this.#vocabulary.size;
+        const scores = this.#classes.map((data) => {
+            const denominator = Math.log(data.total + this.#alpha * vocabularySize);
+            let score = Math.log(data.documents / this.#documents);
+            for (const feature of features) {
+                score += Math.log((data.features[feature] ?? 0) + this.#alpha) - denominator;
+            }
+            return score;
+        });
+        // Логарифмы вероятностей переводятся в проценты через softmax
+        const max = Math.max(...scores);
+        const probabilities = scores.map((score) => Math.exp(score - max));
+        const sum = probabilities.reduce((acc, value) => acc + value, 0);
+        return this.#classes
+            .map((data, index) => ({
+                name: data.name,
+                confidence: (probabilities[index] / sum) * coverage * 100,
+            }))
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, topK);
+    }
+
+    /**
+     * Возвращает модель для сохранения в JSON
+     */
+    public toJSON(): IIntentClassifierModel {
+        return {
+            version: MODEL_VERSION,
+            ngram: this.#ngram,
+            alpha: this.#alpha,
+            classes: this.#classes,
+        };
+    }
+
+    /**
+     * Устанавливает статистику интентов и пересчитывает словарь признаков
+     * @param classes - Статистика интентов
+     */
+    #setClasses(classes: IIntentClassifierClass[]): void {
+        this.#classes = classes;
+        this.#vocabulary = new Set();
+        this.#documents = 0;
+        for (const data of classes) {
+            this.#documents += data.documents;
+            for (const feature in data.features) {
+                this.#vocabulary.add(feature);
+            }
+        }
+    }
+
+    /**
+     * Выделяет признаки из текста: основы слов с префиксом `w:` и символьные n-граммы слов с префиксом `c:`
+     * @param text - Текст
+     */
+    #getFeatures(text: string): string[] {
+        const features: string[] = [];
+        const words = text.toLowerCase().replace(/ё/g, 'е').match(REG_WORD);
+        if (!words) {
+            return features;
+        }
+        for (const word of words) {
+            features.push(`w:${stemRu(word)}`);
+            const padded = `_${word}_`;
+            if (padded.length <= this.#ngram) {
+                features.push(`c:${padded}`);
+                continue;
+            }
+            for (let i = 0; i + this.#ngram <= padded.length; i++) {
+                features.push(`c:${padded.slice(i, i + this.#ngram)}`);
+            }
+        }
+        return features;
+    }
+}
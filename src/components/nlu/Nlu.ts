@@ -8,6 +8,7 @@ import {
     INluResult,
     INluThisUser,
 } from './interfaces/INlu';
+import { IIntentPrediction } from './interfaces/IIntentClassifier';
 import { Text } from '../../utils';
 
 /**
@@ -693,6 +694,32 @@ export class Nlu {
         return null;
     }
 
+    /**
+     * Получает интенты, для которых известна уверенность, например найденные локальным классификатором
+     * `LocalNluPlugin`. Интенты платформы без уверенности не учитываются.
+     *
+     * @param {number} count - Максимальное количество интентов
+     * @returns {IIntentPrediction[]} Интенты, отсортированные по убыванию уверенности
+     * @example
+     * ```ts
+     * const [top] = nlu.getTopIntents(1);
+     * if (top && top.confidence > 70) {
+     *     console.log(`Интент ${top.name} с уверенностью ${top.confidence}%`);
+     * }
+     * ```
+     */
+    public getTopIntents(count: number = 3): IIntentPrediction[] {
+        const intents: INluIntents | null = this.getIntents();
+        const result: IIntentPrediction[] = [];
+        for (const name in intents) {
+            const confidence = intents[name]?.confidence;
+            if (typeof confidence === 'number') {
+                result.push({ name, confidence });
+            }
+        }
+        return result.sort((a, b) => b.confidence - a.confidence).slice(0, count);
+    }
+
     /**
      * Извлекает ссылки из текста.
      *
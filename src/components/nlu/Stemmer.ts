@@ -0,0 +1,96 @@
+/**
+ * Стеммер для русского языка на основе алгоритма Портера (Snowball).
+ * Отбрасывает окончания и суффиксы, благодаря чему разные формы слова приводятся к одной основе:
+ * «погода», «погоды» и «погоде» → «погод».
+ */
+
+const VOWELS = 'аеиоуыэюя';
+
+const PERFECTIVE_GERUND = /(?:ив|ивши|ившись|ыв|ывши|ывшись|(?<=[ая])(?:в|вши|вшись))$/;
+const REFLEXIVE = /с[яь]$/;
+const ADJECTIVE =
+    /(?:ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const PARTICIPLE = /(?:ивш|ывш|ующ|(?<=[ая])(?:ем|нн|вш|ющ|щ))$/;
+const VERB =
+    /(?:ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю|(?<=[ая])(?:ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно))$/;
+const NOUN =
+    /(?:а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const DERIVATIONAL = /ость?$/;
+const SUPERLATIVE = /ейше?$/;
+
+/**
+ * Возвращает начало области слова, которая идет после первого сочетания гласной с согласной
+ * @param word - Слово
+ * @param start - Позиция, с которой начинается поиск
+ */
+function getRegionStart(word: string, start: number): number {
+    for (let i = start + 1; i < word.length; i++) {
+        if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) {
+            return i + 1;
+        }
+    }
+    return word.length;
+}
+
+/**
+ * Удаляет окончание, если оно есть
+ * @param word - Слово
+ * @param ending - Регулярное выражение окончания
+ * @returns Слово без окончания или null, если окончание не найдено
+ */
+function removeEnding(word: string, ending: RegExp): string | null {
+    const result = word.replace(ending, '');
+    return result === word ? null : result;
+}
+
+/**
+ * Удаляет окончание слова (шаг 1 алгоритма)
+ * @param rv - Часть слова после первой гласной
+ */
+function removeInflection(rv: string): string {
+    const gerund = removeEnding(rv, PERFECTIVE_GERUND);
+    if (gerund !== null) {
+        return gerund;
+    }
+    const word = rv.replace(REFLEXIVE, '');
+    const adjective = removeEnding(word, ADJECTIVE);
+    if (adjective !== null) {
+        return adjective.replace(PARTICIPLE, '');
+    }
+    return removeEnding(word, VERB) ?? word.replace(NOUN, '');
+}
+
+/**
+ * Возвращает основу русского слова
+ * @param word - Слово в нижнем регистре
+ * @returns Основа слова
+ *
+ * @example
+ * ```ts
+ * stemRu('погоды'); // -> 'погод'
+ * stemRu('включить'); // -> 'включ'
+ * ```
+ */
+export function stemRu(word: string): string {
+    const normalized = word.replace(/ё/g, 'е');
+    let rvStart = 0;
+    while (rvStart < normalized.length && !VOWELS.includes(normalized[rvStart])) {
+        rvStart++;
+    }
+    if (++rvStart >= normalized.length) {
+        return normalized;
+    }
+    const prefix = normalized.slice(0, rvStart);
+    let rv = removeInflection(normalized.slice(rvStart)).replace(/и$/, '');
+    // Словообразовательный суффикс удаляется, только если он находится в области R2
+    const r2 = getRegionStart(normalized, getRegionStart(normalized, 0));
+    const derivational = rv.match(DERIVATIONAL);
+    if (derivational && prefix.length + rv.length - derivational[0].length >= r2) {
+        rv = rv.slice(0, -derivational[0].length);
+    }
+    const softSign = removeEnding(rv, /ь$/);
+    if (softSign !== null) {
+        return prefix + softSign;
+    }
+    return prefix + rv.replace(SUPERLATIVE, '').replace(/нн$/, 'н');
+}
@@ -18,6 +18,9 @@
  *   - INluResult: Интерфейс для результатов
  *   - INluThisUser: Интерфейс для информации о пользователе
  *
+ * - IntentClassifier: Локальный классификатор интентов
+ * - stemRu: Стеммер для русского языка
+ *
  * @example
  * ```ts
  * import { Nlu } from './components/nlu';
@@ -53,4 +56,7 @@
  * ```
  */
 export * from './interfaces/INlu';
+export * from './interfaces/IIntentClassifier';
 export * from './Nlu';
+export * from './IntentClassifier';
+export * from './Stemmer';
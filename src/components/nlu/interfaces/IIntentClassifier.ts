@@ -0,0 +1,94 @@
+/**
+ * Интент, найденный классификатором
+ *
+ * @example
+ * ```ts
+ * const prediction: IIntentPrediction = {
+ *     name: 'weather',
+ *     confidence: 87.5,
+ * };
+ * ```
+ */
+export interface IIntentPrediction {
+    /**
+     * Имя интента
+     */
+    name: string;
+    /**
+     * Уверенность классификатора в процентах от 0 до 100
+     */
+    confidence: number;
+}
+
+/**
+ * Параметры классификатора интентов
+ */
+export interface IIntentClassifierOptions {
+    /**
+     * Длина символьных n-грамм
+     * @defaultValue 3
+     */
+    ngram?: number;
+    /**
+     * Параметр сглаживания Лапласа
+     * @defaultValue 1
+     */
+    alpha?: number;
+}
+
+/**
+ * Статистика интента в обученной модели
+ */
+export interface IIntentClassifierClass {
+    /**
+     * Имя интента
+     */
+    name: string;
+    /**
+     * Количество фраз, на которых обучен интент
+     */
+    documents: number;
+    /**
+     * Общее количество признаков во фразах интента
+     */
+    total: number;
+    /**
+     * Количество вхождений каждого признака
+     */
+    features: Record<string, number>;
+}
+
+/**
+ * Обученная модель классификатора интентов. Сохраняется в JSON и загружается через `IntentClassifier.fromJSON`,
+ * чтобы не обучать модель при каждом запуске приложения
+ *
+ * @example
+ * ```ts
+ * const model: IIntentClassifierModel = {
+ *     version: 1,
+ *     ngram: 3,
+ *     alpha: 1,
+ *     classes: [
+ *         { name: 'greeting', documents: 2, total: 12, features: { 'w:привет': 1, 'c:при': 1 } },
+ *     ],
+ * };
+ * ```
+ */
+export interface IIntentClassifierModel {
+    /**
+     * Версия формата модели
+     */
+    version: number;
+    /**
+     * Длина символьных n-грамм
+     */
+    ngram: number;
+    /**
+     * Параметр сглаживания Лапласа
+     */
+    alpha: number;
+    /**
+     * Статистика интентов
+     */
+    classes: IIntentClassifierClass[];
+}
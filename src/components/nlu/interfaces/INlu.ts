@@ -316,6 +316,10 @@ export interface INluIntent {
      * Слоты. В Алисе разработчик сам их задает
      */
     slots: INluSlot[] | INluSlot;
+    /**
+     * Уверенность в процентах от 0 до 100. Заполняется локальным классификатором интентов
+     */
+    confidence?: number;
 }
 
 /**
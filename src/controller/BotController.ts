@@ -5,16 +5,23 @@ import { Buttons, Card, Sound, Nlu } from '../components';
 import { Text, getRegExp, isRegex } from '../utils';
 import {
     AppContext,
-    FALLBACK_COMMAND,
-    HELP_INTENT_NAME,
     IAppIntent,
     ICommandParam,
-    WELCOME_INTENT_NAME,
     TAppType,
+    TSlots,
     EMetric,
+    ETraceSpan,
 } from '../core';
 import { isPromise } from '../utils/isPromise';
-import { IGroupData } from '../core/utils/CommandReg';
+// Константы импортируются напрямую из модулей, так как при импорте через '../core' из-за циклической зависимости
+// они могут быть еще не определены
+import { EBotEvent, FALLBACK_COMMAND, IGroupData } from '../core/utils/CommandReg';
+import { HELP_INTENT_NAME, WELCOME_INTENT_NAME } from '../core/AppContext';
+import { ISceneFrame, SceneManager } from '../core/utils/Scene';
+import { CommandHandlerError, EventHandlerError, StepHandlerError } from '../core/utils/Errors';
+import { updateRequestContext } from '../core/utils/RequestContext';
+import { TCommandParams, extractCommandParams } from '../core/utils/CommandParams';
+import { DEFAULT_FUZZY_THRESHOLD, IFuzzyMatch, findFuzzyCommand } from '../core/utils/FuzzyMatch';
 
 /*
  * magick
@@ -25,6 +32,11 @@ const DEFAULT_FALLBACK_COMMAND = FALLBACK_COMMAND;
 const DEFAULT_HELP_INTENT_NAME = HELP_INTENT_NAME;
 const DEFAULT_WELCOME_INTENT_NAME = WELCOME_INTENT_NAME;
 
+/**
+ * События, которые при отсутствии обработчика обрабатываются как обычное сообщение
+ */
+const MESSAGE_EVENTS: (EBotEvent | null)[] = [EBotEvent.START, EBotEvent.EDIT];
+
 /**
  * Тип статуса операции
  * Определяет результат выполнения операции
@@ -101,6 +113,16 @@ export interface IUserEvent {
          */
         value?: number;
     };
+    /**
+     * Информация об изменении сообщения пользователем.
+     * Заполняется, если пользователь отредактировал ранее отправленное сообщение
+     */
+    edit?: {
+        /**
+         * Идентификатор измененного сообщения
+         */
+        messageId: number | string;
+    };
 }
 
 /**
@@ -163,6 +185,11 @@ export interface IUserData {
      */
     oldIntentName?: string | null;
 
+    /**
+     * Стек сцен пользователя. Заполняется автоматически при работе со сценами через `ctx.scene`.
+     */
+    sceneStack?: ISceneFrame[] | null;
+
     /**
      * Дополнительные пользовательские данные.
      * Может содержать любые поля, специфичные для приложения
@@ -183,6 +210,100 @@ export interface IPlatformData {
     [key: string]: unknown;
 }
 
+/**
+ * Тип вложения, полученного от пользователя
+ *
+ * @remarks
+ * Возможные значения:
+ * - photo: изображение
+ * - voice: голосовое сообщение
+ * - audio: аудиофайл
+ * - video: видео
+ * - document: документ или произвольный файл
+ * - sticker: стикер
+ * - location: геолокация
+ * - contact: контакт
+ */
+export type TInboundAttachmentType =
+    'photo' | 'voice' | 'audio' | 'video' | 'document' | 'sticker' | 'location' | 'contact';
+
+/**
+ * Вложение, полученное от пользователя.
+ * Единый формат для всех платформ, поэтому заполняются только те поля, которые передала платформа.
+ *
+ * @example
+ * ```ts
+ * const photo: IInboundAttachment = {
+ *   type: 'photo',
+ *   fileId: 'AgACAgIAAxkBAAIB',
+ *   mime: 'image/jpeg',
+ *   size: 102400,
+ *   caption: 'Чек',
+ * };
+ * const location: IInboundAttachment = {
+ *   type: 'location',
+ *   coordinates: { lat: 55.75, lon: 37.61 },
+ * };
+ * ```
+ */
+export interface IInboundAttachment {
+    /**
+     * Тип вложения
+     */
+    type: TInboundAttachmentType;
+    /**
+     * Идентификатор файла на стороне платформы.
+     * Используется для скачивания файла через API платформы
+     */
+    fileId?: string;
+    /**
+     * Прямая ссылка на файл, если платформа ее передает
+     */
+    url?: string;
+    /**
+     * MIME-тип файла
+     */
+    mime?: string;
+    /**
+     * Размер файла в байтах
+     */
+    size?: number;
+    /**
+     * Имя файла
+     */
+    name?: string;
+    /**
+     * Подпись к вложению
+     */
+    caption?: string;
+    /**
+     * Координаты. Заполняются для геолокации
+     */
+    coordinates?: {
+        /** Широта */
+        lat: number;
+        /** Долгота */
+        lon: number;
+    };
+    /**
+     * Данные контакта. Заполняются для контакта
+     */
+    contact?: {
+        /** Номер телефона */
+        phone: string;
+        /** Имя */
+        firstName?: string;
+        /** Фамилия */
+        lastName?: string;
+        /** Идентификатор пользователя на платформе */
+        userId?: string | number;
+    };
+    /**
+     * Оригинальные данные вложения от платформы
+     */
+    raw?: unknown;
+}
+
 /**
  * Дополнительные опции для платформ
  */
@@ -362,6 +483,45 @@ export abstract class BotController<
      */
     public userId: string | number | null = null;
 
+    /**
+     * Идентификатор чата, из которого пришло сообщение.
+     * В личном диалоге совпадает с `userId`, в групповом чате - идентификатор беседы.
+     * Если платформа не различает чаты и пользователей, то значение равно null.
+     *
+     * @example
+     * ```ts
+     * this.chatId = -100123456789; // Telegram (группа)
+     * this.chatId = 2000000001;    // VK (беседа)
+     * ```
+     */
+    public chatId: string | number | null = null;
+
+    /**
+     * Флаг, указывающий что сообщение пришло из группового чата.
+     *
+     * @example
+     * ```ts
+     * if (this.isGroupChat) {
+     *     this.text = `Привет всем участникам!`;
+     * }
+     * ```
+     */
+    public isGroupChat: boolean = false;
+
+    /**
+     * Флаг, указывающий что сообщение адресовано боту.
+     * В групповом чате равен true, если бота упомянули, ответили на его сообщение или отправили команду.
+     * Вне групповых чатов всегда true.
+     *
+     * @example
+     * ```ts
+     * if (this.isGroupChat && !this.isBotAddressed) {
+     *     this.skipAutoReply = true;
+     * }
+     * ```
+     */
+    public isBotAddressed: boolean = true;
+
     /**
      * Пользовательский токен авторизации.
      * Используется для авторизованных запросов (например, в Алисе).
@@ -418,6 +578,36 @@ export abstract class BotController<
      */
     public originalUserCommand: string | null = null;
 
+    /**
+     * Параметры, извлеченные из запроса пользователя по шаблону или именованным группам регулярного выражения
+     * команды. Числовые параметры шаблона приводятся к числу.
+     *
+     * @example
+     * ```ts
+     * bot.addCommand('convert', ['перевести {amount:number} в {currency}'], (cmd, ctx) => {
+     *   // "перевести 100 в евро" → { amount: 100, currency: 'евро' }
+     *   ctx.text = `${ctx.params.amount} → ${ctx.params.currency}`;
+     * });
+     * ```
+     */
+    public params: TCommandParams = {};
+
+    /**
+     * Результат нечеткого поиска команды. Заполняется, если включен нечеткий поиск (`bot.setFuzzyMatch()`) и команда
+     * не была найдена обычным поиском. Содержит наиболее похожую команду и процент схожести, даже если он ниже порога,
+     * поэтому в fallback-команде можно уточнить у пользователя, что он имел в виду.
+     *
+     * @example
+     * ```ts
+     * bot.addCommand('*', [], (cmd, ctx) => {
+     *   if (ctx.fuzzyMatch) {
+     *     ctx.text = `Возможно, вы имели в виду «${ctx.fuzzyMatch.slot}»?`;
+     *   }
+     * });
+     * ```
+     */
+    public fuzzyMatch: IFuzzyMatch | null = null;
+
     /**
      * Дополнительные параметры запроса.
      * Может содержать любые дополнительные данные полученные от платформы.
@@ -473,6 +663,20 @@ export abstract class BotController<
      */
     public userEvents: IUserEvent | null = null;
 
+    /**
+     * Событие, не связанное с отправкой сообщения пользователем (подписка, вход в чат и т.д.).
+     * Заполняется адаптером платформы. Если событие не пришло, то значение равно null.
+     *
+     * @see EBotEvent
+     * @example
+     * ```ts
+     * if (this.event === EBotEvent.UNSUBSCRIBE) {
+     *   // пользователь отписался
+     * }
+     * ```
+     */
+    public event: EBotEvent | null = null;
+
     /**
      * Пользовательское локальное хранилище.
      * Используется для временного хранения данных, специфичных для текущего диалога.
@@ -541,6 +745,22 @@ export abstract class BotController<
      */
     public skipAutoReply: boolean = false;
 
+    /**
+     * Флаг, указывающий, что вместо отправки нового сообщения нужно изменить сообщение, с которым взаимодействовал пользователь.
+     * Актуально при нажатии на inline-кнопку, например для постраничной навигации по меню.
+     * Если платформа не поддерживает изменение сообщений, то будет отправлено новое сообщение.
+     *
+     * @example
+     * ```ts
+     * if (this.userCommand === 'next') {
+     *     this.text = 'Страница 2';
+     *     this.buttons.addBtn('Назад', null, 'prev');
+     *     this.editMessage = true;
+     * }
+     * ```
+     */
+    public editMessage: boolean = false;
+
     /**
      * Полученный запрос от платформы.
      * Содержит оригинальный объект запроса.
@@ -555,6 +775,20 @@ export abstract class BotController<
      */
     public requestObject: Record<string, unknown> | string | unknown | null = null;
 
+    /**
+     * Вложения, отправленные пользователем (фото, голосовое сообщение, документ, геолокация и т.д.).
+     * Заполняется адаптером платформы. Если вложений нет, массив пустой.
+     *
+     * @example
+     * ```ts
+     * const photo = this.attachments.find((item) => item.type === 'photo');
+     * if (photo) {
+     *   this.text = 'Чек получен!';
+     * }
+     * ```
+     */
+    public attachments: IInboundAttachment[] = [];
+
     /**
      * Название текущего интента.
      * Определяет следующий шаг диалога.
@@ -659,6 +893,18 @@ export abstract class BotController<
      */
     public oldIntentName: string | null = null;
 
+    /**
+     * Управление сценами пользователя: вход, выход, переход между шагами.
+     * Стек сцен хранится в `userData.sceneStack`.
+     *
+     * @see Scene
+     * @example
+     * ```ts
+     * bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('checkout'));
+     * ```
+     */
+    public readonly scene: SceneManager = new SceneManager(this);
+
     /**
      * Контекст приложения.
      */
@@ -850,6 +1096,27 @@ export abstract class BotController<
         return this;
     }
 
+    /**
+     * Проверяет, отправил ли пользователь вложение.
+     * Работает одинаково для всех платформ, которые заполняют `attachments`.
+     *
+     * @param type - Тип вложения. Если не указан, проверяется наличие любого вложения
+     * @returns true, если вложение найдено
+     *
+     * @example
+     * ```ts
+     * if (this.hasAttachment('photo')) {
+     *   this.text = 'Фото получено!';
+     * }
+     * ```
+     */
+    public hasAttachment(type?: TInboundAttachmentType): boolean {
+        if (type) {
+            return this.attachments.some((attachment) => attachment.type === type);
+        }
+        return this.attachments.length > 0;
+    }
+
     /**
      * Очищает все временные данные необходимые для отправки ответа.
      */
@@ -866,20 +1133,28 @@ export abstract class BotController<
         this.text = '';
         this.tts = null;
         this.userId = null;
+        this.chatId = null;
+        this.isGroupChat = false;
+        this.isBotAddressed = true;
         this.userToken = null;
         this.userMeta = null;
         this.messageId = null;
         this.userCommand = null;
         this.originalUserCommand = null;
+        this.params = {};
+        this.fuzzyMatch = null;
         this.payload = null;
         this.userData = {} as TUserData;
         this.isAuth = false;
         this.userEvents = null;
+        this.event = null;
         this.state = null;
         this.isScreen = false;
         this.isEnd = false;
         this.skipAutoReply = false;
+        this.editMessage = false;
         this.requestObject = null;
+        this.attachments = [];
         this.oldIntentName = null;
         this.thisIntentName = null;
         this.emotion = null;
@@ -928,6 +1203,16 @@ export abstract class BotController<
                 return intent.name;
             }
         }
+        const classifiedIntent = this.#getClassifiedIntent(intents);
+        if (classifiedIntent) {
+            if (this.appContext.usedMetric) {
+                this.appContext.logMetric(EMetric.GET_INTENT, performance.now() - start, {
+                    intent: classifiedIntent,
+                    status: true,
+                });
+            }
+            return classifiedIntent.name;
+        }
         if (this.appContext.usedMetric) {
             this.appContext.logMetric(EMetric.GET_INTENT, performance.now() - start, {
                 status: false,
@@ -936,6 +1221,21 @@ export abstract class BotController<
         return null;
     }
 
+    /**
+     * Возвращает интент, найденный классификатором (например, `LocalNluPlugin`) с наибольшей уверенностью
+     * @param intents - Интенты приложения
+     * @returns Интент или null, если классификатор не нашел ни одного интента приложения
+     */
+    #getClassifiedIntent(intents: IAppIntent[]): IAppIntent | null {
+        if (!this.isNluInit()) {
+            return null;
+        }
+        const [prediction] = this.nlu.getTopIntents(1);
+        return prediction
+            ? intents.find((intent) => intent.name === prediction.name) || null
+            : null;
+    }
+
     /**
      * Запуск кастомной обработки команд.
      * @param startTimer
@@ -1062,21 +1362,40 @@ export abstract class BotController<
         if (this.appContext.command.customCommandResolver) {
             return this.#sendCustomCommandResolver(start);
         }
+        const slotIndex = this.appContext.command.getSlotIndex();
+        const useDirectRegExp = this.appContext.commands.size < 500;
+        const highCommand = this.#searchCommandsByOrder(
+            slotIndex.high,
+            slotIndex.names,
+            useDirectRegExp,
+            start,
+        );
+        if (highCommand !== null) {
+            return highCommand;
+        }
         const exactCommand = this.#getExactCommand(start);
         if (exactCommand !== null) {
             return exactCommand;
         }
 
+        // Строковые слоты ищутся через индекс, а последовательно проверяются только команды с регулярными выражениями,
+        // зарегистрированные раньше найденной команды. Так сохраняется приоритет команд по порядку регистрации
+        const foundOrder = slotIndex.automaton.search(this.userCommand);
+        const lastOrder = foundOrder === -1 ? Infinity : foundOrder;
         let contCount = 0;
-        const useDirectRegExp = this.appContext.commands.size < 500;
-        for (const [commandName, command] of this.appContext.commands) {
-            if (commandName === DEFAULT_FALLBACK_COMMAND || !command || contCount !== 0) {
+        for (const order of slotIndex.sequential) {
+            if (order > lastOrder) {
+                break;
+            }
+            const commandName = slotIndex.names[order];
+            const command = this.appContext.commands.get(commandName);
+            if (!command || contCount !== 0) {
                 if (contCount) {
                     contCount--;
                 }
                 continue;
             }
-            if (!command.slots || command.slots.length === 0) {
+            if (!this.#isCommandAllowed(command)) {
                 continue;
             }
             if (command.isPattern) {
@@ -1091,18 +1410,27 @@ export abstract class BotController<
                     continue;
                 }
             }
-            if (
-                Text.isSayText(
-                    command.regExp || command.slots,
-                    this.userCommand,
-                    command.isPattern,
-                    command.isRegExpString || useDirectRegExp,
-                    this.#getCustomRegExp,
-                )
-            ) {
+            if (this.#isCommandMatched(command, useDirectRegExp)) {
                 return this.#commandCb(commandName, command, start);
             }
         }
+        if (foundOrder !== -1) {
+            const commandName = slotIndex.names[foundOrder];
+            return this.#commandCb(
+                commandName,
+                this.appContext.commands.get(commandName) as ICommandParam,
+                start,
+            );
+        }
+        const lowCommand = this.#searchCommandsByOrder(
+            slotIndex.low,
+            slotIndex.names,
+            useDirectRegExp,
+            start,
+        );
+        if (lowCommand !== null) {
+            return lowCommand;
+        }
         if (this.appContext.usedMetric) {
             this.appContext.logMetric(EMetric.GET_COMMAND, performance.now() - start, {
                 status: false,
@@ -1111,6 +1439,87 @@ export abstract class BotController<
         return null;
     }
 
+    /**
+     * Проверяет, доступна ли команда с учетом платформы, шага и пользовательского условия
+     * @param command - Команда
+     */
+    #isCommandAllowed(command: ICommandParam): boolean {
+        return (
+            (!command.platforms || command.platforms.includes(this.appType as TAppType)) &&
+            (!command.steps || command.steps.includes(this.oldIntentName as string)) &&
+            (!command.when || command.when(this))
+        );
+    }
+
+    /**
+     * Проверяет, совпадает ли запрос пользователя со слотами команды
+     * @param command - Команда
+     * @param useDirectRegExp - Использовать ли регулярное выражение без кэширования
+     */
+    #isCommandMatched(command: ICommandParam, useDirectRegExp: boolean): boolean {
+        return Text.isSayText(
+            command.regExp || (command.slots as TSlots),
+            this.userCommand as string,
+            command.isPattern,
+            command.isRegExpString || useDirectRegExp,
+            this.#getCustomRegExp,
+        );
+    }
+
+    /**
+     * Последовательно проверяет команды в заданном порядке. Используется для команд с приоритетом
+     * @param orders - Порядковые номера команд
+     * @param names - Имена команд по порядковым номерам
+     * @param useDirectRegExp - Использовать ли регулярное выражение без кэширования
+     * @param start - Время начала поиска команды
+     */
+    #searchCommandsByOrder(
+        orders: number[],
+        names: string[],
+        useDirectRegExp: boolean,
+        start: number,
+    ): void | null | Promise<void> {
+        for (const order of orders) {
+            const command = this.appContext.commands.get(names[order]);
+            if (
+                command &&
+                this.#isCommandAllowed(command) &&
+                this.#isCommandMatched(command, useDirectRegExp)
+            ) {
+                return this.#commandCb(names[order], command, start);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Нечеткий поиск команды. Выполняется, если команда не была найдена обычным поиском и включен через
+     * `bot.setFuzzyMatch()`
+     * @returns Результат выполнения команды или null, если схожесть ниже порога
+     */
+    #getFuzzyCommand(): void | null | Promise<void> {
+        const options = this.appContext.command.fuzzyMatch;
+        if (!options || !this.userCommand) {
+            return null;
+        }
+        const start = this.#getStartMetric();
+        this.fuzzyMatch = findFuzzyCommand(
+            this.appContext.commands,
+            this.userCommand,
+            options.scorer,
+            (commandName, command) =>
+                commandName !== DEFAULT_FALLBACK_COMMAND && this.#isCommandAllowed(command),
+        );
+        const threshold = options.threshold ?? DEFAULT_FUZZY_THRESHOLD;
+        if (this.fuzzyMatch && this.fuzzyMatch.confidence >= threshold) {
+            const command = this.appContext.commands.get(this.fuzzyMatch.commandName);
+            if (command) {
+                return this.#commandCb(this.fuzzyMatch.commandName, command, start);
+            }
+        }
+        return null;
+    }
+
     #searchCommandsInGroup(
         groups: IGroupData,
         userCommand: string,
@@ -1187,7 +1596,7 @@ export abstract class BotController<
      * @param command
      */
     #commandExecute(commandName: string, command?: ICommandParam): void | Promise<void> {
-        const errorCb = (e: Error | Record<string, unknown>): void => {
+        const errorCb = (e: Error | Record<string, unknown>): void | Promise<void> => {
             this.appContext.logError(
                 `BotController: Произошла ошибка во время обработки команды "${commandName}". Текст ошибки: "${e}"`,
                 {
@@ -1195,10 +1604,23 @@ export abstract class BotController<
                 },
             );
             this.text = 'Не удалось выполнить команду. Попробуйте ещё раз.';
+            return this.appContext.emitError(new CommandHandlerError(commandName, e), {
+                controller: this,
+                appType: this.appType,
+                response: null,
+            });
         };
+        updateRequestContext({ command: commandName });
         try {
             if (command) {
-                const res = command?.cb?.(this.userCommand as string, this);
+                this.params = command.paramSlots
+                    ? extractCommandParams(command.paramSlots, this.userCommand as string)
+                    : {};
+                const res = this.appContext.trace(
+                    ETraceSpan.HANDLER,
+                    { 'umbot.handler': 'command', 'umbot.command': commandName },
+                    () => command.cb?.(this.userCommand as string, this),
+                );
                 if (isPromise(res)) {
                     return res
                         .then((result) => {
@@ -1213,7 +1635,7 @@ export abstract class BotController<
                 }
             }
         } catch (e) {
-            errorCb(e as Record<string, unknown>);
+            return errorCb(e as Record<string, unknown>);
         }
     }
 
@@ -1229,7 +1651,9 @@ export abstract class BotController<
         isStep: boolean = false,
     ): void {
         const start = this.appContext?.usedMetric ? performance.now() : 0;
-        this.action(commandName, isCommand, isStep);
+        this.appContext.trace(ETraceSpan.HANDLER, { 'umbot.handler': 'action' }, () =>
+            this.action(commandName, isCommand, isStep),
+        );
         if (this.appContext?.usedMetric) {
             this.appContext.logMetric(EMetric.ACTION, performance.now() - start, {
                 commandName,
@@ -1255,7 +1679,12 @@ export abstract class BotController<
                 }
             }
             if (step) {
-                const res = step.cb(this);
+                updateRequestContext({ step: step.stepName });
+                const res = this.appContext.trace(
+                    ETraceSpan.HANDLER,
+                    { 'umbot.handler': 'step', 'umbot.step': step.stepName },
+                    () => step.cb(this),
+                );
                 if (res) {
                     return res
                         .then(() => {
@@ -1268,10 +1697,19 @@ export abstract class BotController<
                                     error,
                                 },
                             );
+                            return this.appContext.emitError(
+                                new StepHandlerError(step.stepName, error),
+                                {
+                                    controller: this,
+                                    appType: this.appType,
+                                    response: null,
+                                },
+                            );
                         });
                 } else if (res === false) {
                     // Если передали false, значит хотят чтобы шаг не выполнялся, и дальше пошла логика с обработкой команд.
                     // Как правило, нужно в случаях, когда был записан какой-то шал, и диалог открыли заново. В таком случае сам шаг отрабатывать не нужно.
+                    updateRequestContext({ step: null });
                     return null;
                 }
                 this._actionMetric(step.stepName, false, true);
@@ -1281,6 +1719,61 @@ export abstract class BotController<
         return null;
     }
 
+    /**
+     * Обработка зарегистрированных событий.
+     * Если в обработчиках не был заполнен текст ответа, то ответ пользователю не отправляется.
+     * @private
+     */
+    #eventResolver(): void | null | Promise<void> {
+        if (this.event === null) {
+            return null;
+        }
+        const handlers = this.appContext.events.get(this.event);
+        if (!handlers?.length && MESSAGE_EVENTS.includes(this.event)) {
+            return null;
+        }
+        // Событие не должно сбрасывать активный шаг пользователя
+        this.thisIntentName = this.oldIntentName;
+        if (!handlers?.length) {
+            this.skipAutoReply = true;
+            return;
+        }
+        const event = this.event;
+        const errorCb = (error: unknown): void | Promise<void> => {
+            this.appContext.logError(
+                `BotController: Произошла ошибка во время обработки события "${event}". Текст ошибки: "${error}"`,
+                {
+                    error,
+                },
+            );
+            return this.appContext.emitError(new EventHandlerError(event, error), {
+                controller: this,
+                appType: this.appType,
+                response: null,
+            });
+        };
+        const done = (): void => {
+            if (!this.text) {
+                this.skipAutoReply = true;
+            }
+        };
+        try {
+            let res: void | Promise<void> = undefined;
+            for (const handler of handlers) {
+                res = isPromise(res) ? res.then(() => handler(this)) : handler(this);
+            }
+            if (isPromise(res)) {
+                return res.catch(errorCb).then(done);
+            }
+        } catch (e) {
+            const res = errorCb(e);
+            if (isPromise(res)) {
+                return res.then(done);
+            }
+        }
+        done();
+    }
+
     /**
      * Основной метод обработки запроса, вызываемый автоматически фреймворком.
      *
@@ -1300,6 +1793,8 @@ export abstract class BotController<
      * **ПОСЛЕДОВАТЕЛЬНОСТЬ ОБРАБОТКИ ВНУТРИ run():**
      * ```
      * run()
+     *   ├── Шаг 0: Если пришло событие (подписка, вход в чат и т.д.)
+     *   │     → Вызывает обработчики, зарегистрированные через bot.on()
      *   ├── Шаг 1: Проверяет есть ли активный шаг
      *   │     → Если есть → вызывает action(stepName, false, true)
      *   ├── Шаг 2: Ищет команду
@@ -1330,6 +1825,10 @@ export abstract class BotController<
      * @returns {void | Promise<void>} Может быть асинхронным
      */
     public run(): void | Promise<void> {
+        const eventResult = this.#eventResolver();
+        if (eventResult !== null) {
+            return eventResult;
+        }
         const stepResult = this.#stepResolver();
         if (stepResult !== null) {
             return stepResult;
@@ -1337,6 +1836,10 @@ export abstract class BotController<
         const commandResult = this._getCommand();
         if (commandResult === null) {
             let intent: string | null = this._getIntent(this.userCommand);
+            const fuzzyResult = intent ? null : this.#getFuzzyCommand();
+            if (fuzzyResult !== null) {
+                return fuzzyResult;
+            }
             const fallbackCommand = this.appContext?.commands.get(DEFAULT_FALLBACK_COMMAND);
             if (!intent && fallbackCommand) {
                 const res = this.#commandExecute(DEFAULT_FALLBACK_COMMAND, fallbackCommand);
@@ -51,18 +51,38 @@
  * });
  * ```
  */
-import { IDatabaseAdapter, IDatabaseInfo, IPlatform } from './interfaces/IBot';
+import {
+    IDatabaseAdapter,
+    IDatabaseInfo,
+    IErrorContext,
+    IPlatform,
+    TErrorHandler,
+} from './interfaces/IBot';
+import { IOutboundQueue } from './interfaces/IOutboundQueue';
 import { ILogger } from './interfaces/ILogger';
+import { ITraceSpan, ITracer, TTraceAttributes } from './interfaces/ITracer';
 import {
     IAppConfig,
     IAppParam,
+    IRequestPolicy,
+    IServerOptions,
     TAppMode,
     THttpClient,
     IDir,
     TAppPlugin,
 } from './interfaces/IAppContext';
 
-import { CommandReg, ICommandParam, IGroupData, IStepParam } from './utils/CommandReg';
+import {
+    CommandReg,
+    EBotEvent,
+    ICommandParam,
+    IGroupData,
+    IStepParam,
+    TEventHandler,
+} from './utils/CommandReg';
+import type { Scene } from './utils/Scene';
+import type { BotError } from './utils/Errors';
+import { getRequestContextLabels } from './utils/RequestContext';
 import { IEnvConfig, loadEnvFile } from '../utils/EnvConfig';
 import { saveData } from '../utils';
 import * as process from 'node:process';
@@ -101,6 +121,14 @@ const PATTERNS = [
     { regex: regToken2, replacement: '***' },
 ];
 
+/**
+ * Спан, который передается в отслеживаемую функцию, если трассировка отключена
+ */
+const EMPTY_TRACE_SPAN: ITraceSpan = {
+    setAttributes: () => {},
+    setError: () => {},
+};
+
 interface IErrWarnData {
     errors: string[];
     warnings: string[];
@@ -196,6 +224,20 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
         return this.command.steps;
     }
 
+    /**
+     * Получение всех зарегистрированных обработчиков событий
+     */
+    public get events(): Map<EBotEvent, TEventHandler[]> {
+        return this.command.events;
+    }
+
+    /**
+     * Получение всех зарегистрированных сцен
+     */
+    public get scenes(): Map<string, Scene> {
+        return this.command.scenes;
+    }
+
     /**
      * Получение всех зарегистрированных команд, которые распределены по группам.
      * В группу добавляются только команды с регулярными выражениями.
@@ -215,6 +257,11 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
      */
     #logger: ILogger | null = null;
 
+    /**
+     * Трассировщик обработки запросов
+     */
+    #tracer: ITracer | null = null;
+
     /**
      * Конфигурация приложения
      */
@@ -223,6 +270,8 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
         json: join(__dirname, '..', '..', 'json'),
         db: { host: '', user: '', pass: '', database: '' },
         isLocalStorage: false,
+        storageScope: 'user',
+        groupChatMode: 'all',
         tokens: {},
         env: '',
     };
@@ -276,16 +325,64 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
      */
     public httpClient: THttpClient = global.fetch;
 
+    /**
+     * Политика выполнения HTTP-запросов: повторные попытки и автоматический выключатель (circuit breaker).
+     * По умолчанию запросы не повторяются
+     */
+    public requestPolicy: IRequestPolicy = {};
+
+    /**
+     * Параметры обработки webhook-запросов и встроенного HTTP-сервера
+     */
+    public serverOptions: IServerOptions = {};
+
     /**
      * Определяет режим работы приложения
      */
     public appMode: TAppMode = 'dev';
 
+    /**
+     * Очередь исходящих сообщений. `Bot` по умолчанию устанавливает `OutboundQueue`.
+     * Если не задана, запросы к API платформ выполняются сразу, без повторных попыток
+     */
+    public outboundQueue: IOutboundQueue | null = null;
+
+    /**
+     * Обработчики ошибок приложения. Регистрируются через `bot.onError()`
+     */
+    public errorHandlers: TErrorHandler[] = [];
+
+    /**
+     * Передает ошибку в обработчики, зарегистрированные через `bot.onError()`.
+     * Ошибки в самих обработчиках записываются в лог и не прерывают выполнение остальных обработчиков.
+     * @param error Ошибка
+     * @param ctx Контекст ошибки
+     * @returns Promise, если есть зарегистрированные обработчики
+     */
+    public emitError(error: BotError, ctx: IErrorContext): void | Promise<void> {
+        if (!this.errorHandlers.length) {
+            return;
+        }
+        return this.errorHandlers.reduce<Promise<void>>(
+            (res, handler) =>
+                res
+                    .then(() => handler(error, ctx))
+                    .catch((e) => {
+                        this.logError(
+                            `AppContext:emitError(): Произошла ошибка в обработчике ошибок: ${(e as Error)?.message ?? e}`,
+                            { error: e },
+                        );
+                    }),
+            Promise.resolve(),
+        );
+    }
+
     /**
      * Закрывает все подключения, для корректного завершения работы приложения
      */
     public async close(): Promise<void> {
         this.#saveErrorData();
+        await this.outboundQueue?.close?.();
         if (this.database.adapter && this.database.isSendConnect) {
             return this.database.adapter.destroy();
         }
@@ -487,14 +584,15 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
      * @param meta
      */
     public logError(str: string, meta?: Record<string, unknown>): void {
+        const data = this.#withRequestContext(meta);
         if (this.#logger?.error) {
             this.#logger.error(
                 this.appMode.includes('strict') ? this.#maskSecrets(str) : str,
-                meta,
+                data,
             );
         } else {
             this.#errWarnLog(
-                `${str}\n${JSON.stringify({ ...meta, trace: new Error().stack }, null, '\t')}`,
+                `${str}\n${JSON.stringify({ ...data, trace: new Error().stack }, null, '\t')}`,
                 true,
             );
         }
@@ -515,10 +613,48 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
      */
     public logMetric(name: string, value: unknown, label: Record<string, unknown>): void {
         if (this.#logger?.metric) {
-            this.#logger.metric(name, value, label);
+            this.#logger.metric(name, value, this.#withRequestContext(label));
         }
     }
 
+    /**
+     * Устанавливает трассировщик обработки запросов. Обычно вызывается плагином трассировки
+     * @param tracer - Трассировщик. Если передан null, трассировка отключается
+     */
+    public setTracer(tracer: ITracer | null): void {
+        this.#tracer = tracer;
+    }
+
+    /**
+     * Возвращает флаг, который говорит о том, что трассировка включена
+     */
+    public get usedTracer(): boolean {
+        return !!this.#tracer;
+    }
+
+    /**
+     * Выполняет функцию внутри спана трассировки. Если трассировщик не установлен, функция просто выполняется
+     * @param name - Название спана
+     * @param attributes - Атрибуты спана
+     * @param fn - Отслеживаемая функция
+     * @returns Результат функции
+     */
+    public trace<T>(name: string, attributes: TTraceAttributes, fn: (span: ITraceSpan) => T): T {
+        if (this.#tracer) {
+            return this.#tracer.trace(name, attributes, fn);
+        }
+        return fn(EMPTY_TRACE_SPAN);
+    }
+
+    /**
+     * Добавляет к метаданным поля контекста текущего запроса, чтобы логи и метрики можно было связать с запросом
+     * @param meta - Метаданные
+     */
+    #withRequestContext(meta?: Record<string, unknown>): Record<string, unknown> | undefined {
+        const context = getRequestContextLabels();
+        return context ? { ...context, ...meta } : meta;
+    }
+
     #saveErrorData(): void {
         if (this.#errWarnData.timeout) {
             clearTimeout(this.#errWarnData.timeout);
@@ -558,15 +694,16 @@ export class AppContext<TDbInfo = IDatabaseInfo, TQuery = unknown> {
      * @param meta
      */
     public logWarn(str: string, meta?: Record<string, unknown>): void {
+        const data = this.#withRequestContext(meta);
         if (this.#logger?.warn) {
             this.#logger.warn(this.appMode.includes('strict') ? this.#maskSecrets(str) : str, {
-                ...meta,
+                ...data,
             });
         } else {
             if (this.appMode === 'dev') {
-                console.warn(this.appMode.includes('strict') ? this.#maskSecrets(str) : str, meta);
+                console.warn(this.appMode.includes('strict') ? this.#maskSecrets(str) : str, data);
             }
-            this.#errWarnLog(`${str}\n${JSON.stringify({ ...meta }, null, '\t')}`, false);
+            this.#errWarnLog(`${str}\n${JSON.stringify({ ...data }, null, '\t')}`, false);
         }
     }
 
@@ -1,7 +1,14 @@
-import { IAppConfig, IAppParam, TAppType, EMetric, TAppMode } from './interfaces/IAppContext';
+import {
+    IAppConfig,
+    IAppParam,
+    TAppType,
+    EMetric,
+    TAppMode,
+    IRequestPolicy,
+    IServerOptions,
+} from './interfaces/IAppContext';
 import {
     IBotResponse,
-    IBotResponseState,
     IDatabaseAdapter,
     IPlatformAdapter,
     IPlugin,
@@ -10,15 +17,62 @@ import {
     TBotContent,
     TBotResponseCb,
     TCommandGroupMode,
+    TErrorHandler,
     TPlugin,
 } from './interfaces/IBot';
 
-import { ICommandParam, TSlots, TCommandResolver, IStepParam } from './utils/CommandReg';
+import {
+    ICommandOptions,
+    ICommandParam,
+    TSlots,
+    TCommandResolver,
+    IStepParam,
+    EBotEvent,
+    TEventHandler,
+} from './utils/CommandReg';
+import type { Scene } from './utils/Scene';
+import { Form, TFormCompleteHandler, TFormFields } from './utils/Form';
+import { ISchedulerOptions, Scheduler, TSchedulePayload, TScheduleWhen } from './utils/Scheduler';
+import { Broadcaster, IBroadcastOptions, IBroadcastResult } from './utils/Broadcast';
+import { OutboundQueue } from './utils/OutboundQueue';
+import { runInRequestContext, updateRequestContext } from './utils/RequestContext';
+import { IFuzzyMatchOptions } from './utils/FuzzyMatch';
+import {
+    BotError,
+    ControllerNotDefinedError,
+    EmptyRequestError,
+    MethodNotAllowedError,
+    InvalidJsonError,
+    InvalidQueryError,
+    InvalidSignatureError,
+    MiddlewareError,
+    PayloadTooLargeError,
+    PlatformNotDetectedError,
+} from './utils/Errors';
+import {
+    IWebhookHandlerOptions,
+    IWebhookHandlers,
+    IWebhookMiddlewareOptions,
+    IWebhookMiddlewares,
+    IWebhookRequest,
+    DEFAULT_ALLOWED_METHODS,
+    DEFAULT_BODY_PARSERS,
+    MAX_REQUEST_SIZE,
+    TNodeWebhookRequest,
+    TReadBody,
+    TWebhookFramework,
+    createAppTypeResolver,
+    createWebhookHandler,
+    createWebhookMiddleware,
+    handleNodeRequest,
+} from './utils/WebhookHandler';
 import { IncomingMessage, ServerResponse, createServer, Server } from 'node:http';
 import { BaseBotController, BotController, IPlatformData, IUserData } from '../controller';
 import { AppContext, T_AUTO } from './AppContext';
 import { UsersData } from '../models';
 import { ILogger } from './interfaces/ILogger';
+import { ETraceSpan } from './interfaces/ITracer';
+import { IOutboundQueue } from './interfaces/IOutboundQueue';
 import { Text, isPromise, keysCount } from '../utils';
 
 /**
@@ -60,8 +114,6 @@ export type TRunResult = object | string;
 
 export * from './interfaces/IBot';
 
-const MAX_REQUEST_SIZE = 1024 * 1024 * 2;
-
 /**
  * Функция для обработки следующего шага в цепочке промежуточных функций
  */
@@ -71,25 +123,6 @@ export type MiddlewareNext = () => Promise<void>;
  */
 export type MiddlewareFn = (ctx: BotController, next: MiddlewareNext) => void | Promise<void>;
 
-function defaultSend(res: ServerResponse, state: IBotResponse): void {
-    res.statusCode = state.statusCode;
-    const isBodyString = typeof state.body === 'string';
-    res.setHeader('Content-Type', isBodyString ? 'text/plain' : 'application/json');
-    res.end(isBodyString ? state.body : JSON.stringify(state.body));
-}
-
-function send(
-    req: IncomingMessage,
-    res: ServerResponse,
-    state: IBotResponseState,
-    responseCb?: TBotResponseCb,
-): void {
-    if (responseCb) {
-        return responseCb(req, res, state);
-    }
-    return defaultSend(res, state);
-}
-
 interface IAppConnectStatus {
     isConnecting: boolean;
     status?: Promise<boolean> | boolean;
@@ -276,6 +309,8 @@ export class Bot<TUserData extends IUserData = IUserData> {
 
     #plugins: (IPlugin | ((bot: Bot) => void))[] = [];
 
+    #scheduler: Scheduler | null = null;
+
     /**
      * Получение корректного контроллера
      * @param botController
@@ -317,6 +352,7 @@ export class Bot<TUserData extends IUserData = IUserData> {
         this.#botControllerClass = this.#getBotController(botController);
         this.#appContext = new AppContext();
         this.#defaultAppType = type || T_AUTO;
+        this.setOutboundQueue(new OutboundQueue());
     }
 
     /**
@@ -346,6 +382,29 @@ export class Bot<TUserData extends IUserData = IUserData> {
         return this;
     }
 
+    /**
+     * Включает нечеткий поиск команд, устойчивый к опечаткам и ошибкам распознавания речи.
+     * Если команда не найдена ни по точному совпадению, ни по подстроке или регулярному выражению, ни среди интентов,
+     * все команды ранжируются по схожести строковых слотов с запросом. Наиболее похожая команда выполняется, если
+     * процент схожести не ниже порога, иначе выполняется fallback-команда `*`. Результат поиска доступен в
+     * `controller.fuzzyMatch`.
+     *
+     * @param options - Параметры нечеткого поиска. При значении `false` нечеткий поиск отключается
+     *
+     * @example
+     * ```ts
+     * bot.setFuzzyMatch({ threshold: 75 });
+     * bot.addCommand('help', ['помощь'], (cmd, ctx) => {
+     *   // Сработает и на «памощь»
+     *   ctx.text = `Помощь (уверенность ${ctx.fuzzyMatch?.confidence ?? 100}%)`;
+     * });
+     * ```
+     */
+    public setFuzzyMatch(options: IFuzzyMatchOptions | false = {}): this {
+        this.#appContext.command.fuzzyMatch = options || null;
+        return this;
+    }
+
     /**
      * Устанавливает кастомный обработчик для определения типа платформы.
      *
@@ -417,14 +476,114 @@ export class Bot<TUserData extends IUserData = IUserData> {
         return this;
     }
 
+    /**
+     * Устанавливает очередь исходящих сообщений. Через очередь чат-платформы (Telegram, VK, Viber, MAX) отправляют
+     * сообщения пользователю: при временной ошибке (превышен лимит запросов, ошибка сервера или сети) отправка повторяется
+     * с увеличивающейся задержкой, а сообщения, которые не удалось отправить, сохраняются в таблицу `DeadLetters`.
+     * Повторные попытки выполняются в фоне, поэтому ответ на webhook не ждет их завершения.
+     *
+     * По умолчанию используется {@link OutboundQueue} с параметрами по умолчанию. Чтобы отправлять сообщения
+     * без повторных попыток, передайте null.
+     * @param queue Очередь исходящих сообщений. Можно использовать {@link OutboundQueue}, {@link DbOutboundQueue} или свою реализацию
+     *
+     * @example
+     * ```ts
+     * bot.setOutboundQueue(new OutboundQueue({ maxAttempts: 5, baseDelay: 1000 }));
+     * // Отключение очереди
+     * bot.setOutboundQueue(null);
+     * ```
+     */
+    public setOutboundQueue(queue: IOutboundQueue | null): this {
+        queue?.init?.(this.#appContext);
+        this.#appContext.outboundQueue = queue;
+        return this;
+    }
+
+    /**
+     * Регистрирует обработчик ошибок приложения.
+     * Обработчик вызывается при ошибках в командах, шагах, событиях и middleware, а также при ошибках обработки
+     * webhook-запроса. Тип ошибки можно определить через `instanceof` (например, `CommandHandlerError`
+     * или {@link InvalidSignatureError}).
+     *
+     * При ошибке в команде пользователю по умолчанию отправляется текст "Не удалось выполнить команду. Попробуйте ещё раз.",
+     * который можно заменить через `ctx.controller`. При ошибке webhook-запроса HTTP-статус и тело ответа можно
+     * изменить через `ctx.response`.
+     * @param handler Обработчик ошибок
+     *
+     * @example
+     * ```ts
+     * bot.onError(async (error, ctx) => {
+     *     await tracker.report(error);
+     *     if (error instanceof CommandHandlerError && ctx.controller) {
+     *         ctx.controller.text = 'Извините, произошла ошибка. Попробуйте позже.';
+     *     }
+     *     if (error instanceof PlatformNotDetectedError && ctx.response) {
+     *         ctx.response.statusCode = 404;
+     *     }
+     * });
+     * ```
+     */
+    public onError(handler: TErrorHandler): this {
+        this.#appContext.errorHandlers.push(handler);
+        return this;
+    }
+
+    /**
+     * Устанавливает политику выполнения HTTP-запросов к API платформ и внешним сервисам:
+     * повторные попытки с экспоненциальной задержкой и автоматический выключатель для каждого хоста.
+     * Политика применяется ко всем запросам, выполняемым через `Request`. Исключение — сообщения, отправляемые через
+     * очередь исходящих сообщений: их повторяет очередь, а повторные попытки из политики не выполняются.
+     * @param policy Политика выполнения запросов
+     *
+     * @example
+     * ```ts
+     * bot.setRequestPolicy({
+     *     retry: { retries: 2, baseDelay: 500, retryStatuses: [429, 502, 503] },
+     *     circuitBreaker: { failureThreshold: 5, resetTimeout: 30000 },
+     * });
+     * ```
+     */
+    public setRequestPolicy(policy: IRequestPolicy): this {
+        this.#appContext.requestPolicy = policy;
+        return this;
+    }
+
+    /**
+     * Устанавливает параметры обработки webhook-запросов и встроенного HTTP-сервера: максимальный размер тела запроса,
+     * допустимые HTTP-методы, функции разбора тела запроса, время ожидания запроса и keep-alive.
+     * Ограничение размера запроса для отдельной платформы задается через `maxBodySize` адаптера.
+     * @param options Параметры сервера
+     *
+     * @example
+     * ```ts
+     * bot.setServerOptions({
+     *     maxBodySize: 512 * 1024,
+     *     allowedMethods: ['POST'],
+     *     bodyParsers: { 'text/plain': (body) => JSON.parse(body) },
+     *     requestTimeout: 10000,
+     *     keepAlive: true,
+     * });
+     *
+     * const alisa = new AlisaAdapter();
+     * alisa.maxBodySize = 64 * 1024;
+     * bot.use(alisa);
+     * ```
+     */
+    public setServerOptions(options: IServerOptions): this {
+        this.#appContext.serverOptions = { ...this.#appContext.serverOptions, ...options };
+        return this;
+    }
+
     /**
      * Регистрирует команду — обработчик, срабатывающий при совпадении входящего текста с одним из шаблонов.
      *
      * Поиск команд оптимизирован:
      * 1. Сначала проверяется точное совпадение
-     * 2. Если точного совпадения нет — выполняется последовательный перебор в порядке регистрации
+     * 2. Строковые слоты ищутся как подстрока через индекс (автомат Ахо — Корасик) за один проход по запросу
+     * 3. Команды с регулярными выражениями проверяются последовательно в порядке регистрации
      *
-     * Первая совпавшая команда выполняется.
+     * Первая совпавшая команда выполняется. Порядок можно изменить через `priority`, а доступность команды ограничить
+     * платформами, шагами и произвольным условием (см. `ICommandOptions`).
      *
      * @param {string} commandName - Уникальное имя команды (например, `'greeting'`). Используется для логирования и отладки.
      * @param {TSlots} slots - Массив шаблонов для сопоставления:
@@ -433,13 +592,20 @@ export class Bot<TUserData extends IUserData = IUserData> {
      *   - Параметр `isPattern` учитывается **только если в `slots` нет RegExp**.
      *   - При наличии хотя бы одного `RegExp`, `isPattern = false` игнорируется, и каждый элемент
      *     обрабатывается согласно своему типу.
+     *   - Строка может содержать параметры вида `{name}` или `{name:type}` (`string`, `word`, `number`, `int`),
+     *     а RegExp — именованные группы. Их значения доступны в `controller.params`.
      * @param {ICommandParam['cb']} cb - Обработчик команды. Принимает:
      *   - `text` — исходный текст от пользователя;
      *   - `controller` — экземпляр `BotController` для формирования ответа (кнопки, текст, шаги, данные и т.д.);
      *
      *   Поддерживает `async`.
-     * @param {boolean} isPattern - Если `true` и в `slots` **нет RegExp**, все строки преобразуются в регулярные выражения.
-     *                   ⚠️ Используйте с осторожностью: возможен ReDoS. Все RegExp проверяются на уязвимости.
+     * @param {boolean | ICommandOptions} options - Флаг `isPattern` или объект параметров команды:
+     *   - `isPattern` — если `true` и в `slots` **нет RegExp**, все строки преобразуются в регулярные выражения.
+     *     ⚠️ Используйте с осторожностью: возможен ReDoS. Все RegExp проверяются на уязвимости.
+     *   - `priority` — приоритет команды. Команды с большим приоритетом проверяются раньше;
+     *   - `platforms` — платформы, на которых доступна команда;
+     *   - `when` — условие доступности команды, например `(ctx) => ctx.isScreen`;
+     *   - `steps` — шаги (`oldIntentName`), в которых доступна команда.
      *
      * @example
      * Простая текстовая команда:
@@ -468,6 +634,19 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * ```
      *
      * @example
+     * Команда с параметрами:
+     * ```ts
+     * bot.addCommand(
+     *   'transfer',
+     *   ['перевести {amount:number} в {currency:word}'],
+     *   (cmd, ctrl) => {
+     *     // «перевести 100 в рубли» → { amount: 100, currency: 'рубли' }
+     *     ctrl.text = `Перевожу ${ctrl.params.amount} в ${ctrl.params.currency}`;
+     *   }
+     * );
+     * ```
+     *
+     * @example
      * Команда с доступом к состоянию:
      * ```ts
      * bot.addCommand(
@@ -498,6 +677,19 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * ```
      *
      * @example
+     * Команда с приоритетом и ограничениями:
+     * ```ts
+     * bot.addCommand('buy', ['купить'], (cmd, ctrl) => {
+     *   ctrl.text = 'Оформляем покупку';
+     * }, {
+     *   priority: 10,
+     *   platforms: [T_TELEGRAM, T_VK],
+     *   when: (ctrl) => ctrl.isAuth,
+     *   steps: ['catalog'],
+     * });
+     * ```
+     *
+     * @example
      * // Fallback: срабатывает, если ни одна команда не подошла:
      * ```ts
      * bot.addCommand('*', [], (text, controller) => {
@@ -508,7 +700,8 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * @remarks
      * Поиск команд оптимизирован:
      * 1. Сначала проверяется точное совпадение
-     * 2. Если точного совпадения нет — выполняется последовательный перебор
+     * 2. Строковые слоты ищутся через индекс, а команды с регулярными выражениями — последовательным перебором.
+     *    Приоритет команд по порядку регистрации сохраняется
      *
      * При регистрации более 300 команд с регулярными выражениями
      * фреймворк автоматически объединяет их в группы для повышения производительности.
@@ -521,9 +714,9 @@ export class Bot<TUserData extends IUserData = IUserData> {
         commandName: string,
         slots: TSlots,
         cb: ICommandParam<TBotController>['cb'],
-        isPattern: boolean = false,
+        options: boolean | ICommandOptions<TBotController> = false,
     ): this {
-        this.#appContext.command.addCommand(commandName, slots, cb, isPattern);
+        this.#appContext.command.addCommand(commandName, slots, cb, options);
         return this;
     }
 
@@ -633,6 +826,136 @@ export class Bot<TUserData extends IUserData = IUserData> {
         return this;
     }
 
+    /**
+     * Регистрирует сцену — изолированную часть диалога со своими командами, обработчиками входа и выхода,
+     * отменой, возвратом назад и временем жизни. Сцена компилируется в шаг (`addStep`),
+     * поэтому команды сцены проверяются раньше глобальных команд.
+     *
+     * Вход в сцену выполняется через `ctx.scene.enter(name)`, выход — через `ctx.scene.leave()`.
+     * Стек сцен хранится в `userData`, поэтому сцены могут быть вложенными.
+     *
+     * @param scene — Сцена или пошаговая форма (`Wizard`).
+     * @returns Текущий экземпляр `Bot`.
+     *
+     * @example
+     * ```ts
+     * bot.addScene(
+     *     new Scene('checkout')
+     *         .onEnter((ctx) => {
+     *             ctx.text = 'Введите адрес доставки';
+     *         })
+     *         .onCancel(['отмена'], (ctx) => {
+     *             ctx.text = 'Оформление заказа отменено';
+     *         }),
+     * );
+     * bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('checkout'));
+     * ```
+     */
+    public addScene<TBotController extends BotController = BotController>(
+        scene: Scene<TBotController>,
+    ): this {
+        this.#appContext.command.addScene(scene as unknown as Scene);
+        return this;
+    }
+
+    /**
+     * Регистрирует форму — сцену, которая последовательно запрашивает у пользователя значения полей,
+     * проверяет их и повторяет вопрос при ошибке. После заполнения всех полей вызывается `onComplete`
+     * с объектом результата. Запуск формы выполняется через `ctx.scene.enter(name)`.
+     *
+     * > 💡 Чтобы добавить отмену или время жизни формы, создайте `new Form(...)` и зарегистрируйте ее через `addScene`.
+     *
+     * @param name — Уникальное имя формы.
+     * @param fields — Поля формы. Порядок полей определяет порядок вопросов.
+     * @param onComplete — Функция, вызываемая после заполнения всех полей.
+     * @returns Текущий экземпляр `Bot`.
+     *
+     * @example
+     * ```ts
+     * bot.addForm(
+     *     'registration',
+     *     {
+     *         name: { prompt: 'Как вас зовут?', type: 'fio' },
+     *         email: { prompt: 'Ваш email?', type: 'email', error: 'Не похоже на email' },
+     *         age: { prompt: 'Сколько вам лет?', type: 'number', validate: (age: number) => age >= 18 },
+     *     },
+     *     (result, ctx) => {
+     *         ctx.text = `Спасибо! Письмо отправлено на ${result.email}`;
+     *     },
+     * );
+     * bot.addCommand('registration', ['регистрация'], (_, ctx) => ctx.scene.enter('registration'));
+     * ```
+     */
+    public addForm<
+        TResult extends object = Record<string, unknown>,
+        TBotController extends BotController = BotController,
+    >(
+        name: string,
+        fields: TFormFields<TResult, TBotController>,
+        onComplete: TFormCompleteHandler<TResult, TBotController>,
+    ): this {
+        return this.addScene(new Form(name, fields, onComplete));
+    }
+
+    /**
+     * Удаляет сцену по имени.
+     *
+     * @param name — Имя сцены.
+     * @returns Текущий экземпляр `Bot`.
+     */
+    public removeScene(name: string): this {
+        this.#appContext.command.removeScene(name);
+        return this;
+    }
+
+    /**
+     * Регистрирует обработчик события, не связанного с отправкой сообщения пользователем:
+     * начало диалога, подписка и отписка, вход и выход из чата, набор текста, редактирование сообщения.
+     *
+     * Адаптеры платформ приводят свои события к единому списку {@link EBotEvent},
+     * поэтому обработчик пишется один раз для всех платформ.
+     * Если в обработчике не заполнен `text`, то ответ пользователю не отправляется.
+     *
+     * > 💡 Если для события `START` или `EDIT` обработчик не зарегистрирован, запрос обрабатывается как обычное сообщение.
+     * > Остальные события без обработчика игнорируются.
+     *
+     * @param event — Событие.
+     * @param handler — Функция, вызываемая при получении события.
+     * @returns Текущий экземпляр `Bot`.
+     *
+     * @example
+     * ```ts
+     * bot.on(EBotEvent.SUBSCRIBE, (ctx) => {
+     *     ctx.text = 'Спасибо за подписку!';
+     * });
+     * bot.on(EBotEvent.UNSUBSCRIBE, async (ctx) => {
+     *     await mailing.remove(ctx.userId);
+     * });
+     * ```
+     */
+    public on<TBotController extends BotController = BotController>(
+        event: EBotEvent,
+        handler: TEventHandler<TBotController>,
+    ): this {
+        this.#appContext.command.addEvent(event, handler);
+        return this;
+    }
+
+    /**
+     * Удаляет обработчик события. Если обработчик не передан, удаляются все обработчики события.
+     *
+     * @param event — Событие.
+     * @param handler — Обработчик, который нужно удалить.
+     * @returns Текущий экземпляр `Bot`.
+     */
+    public off<TBotController extends BotController = BotController>(
+        event: EBotEvent,
+        handler?: TEventHandler<TBotController>,
+    ): this {
+        this.#appContext.command.removeEvent(event, handler as TEventHandler | undefined);
+        return this;
+    }
+
     /**
      * Удаляет **все** зарегистрированные платформы, плагины и middleware службы.
      *
@@ -953,6 +1276,16 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * @param headers - Заголовки запроса
      */
     #getAppType(uBody: unknown, headers?: Record<string, unknown>): TAppType | null {
+        return this.#appContext.trace(ETraceSpan.PLATFORM_DETECT, {}, (span) => {
+            const appType = this.#detectAppType(uBody, headers);
+            if (appType) {
+                span.setAttributes({ 'umbot.platform': appType });
+            }
+            return appType;
+        });
+    }
+
+    #detectAppType(uBody: unknown, headers?: Record<string, unknown>): TAppType | null {
         if (this.#platformResolver) {
             const customType = this.#platformResolver(
                 uBody,
@@ -1008,31 +1341,65 @@ export class Bot<TUserData extends IUserData = IUserData> {
         botController: BotController<TUserData>,
         userData?: UsersData,
         localStateData?: unknown,
+        storageId?: string | number | null,
     ): Promise<boolean> {
         if (botController.platformOptions.usedLocalStorage) {
             botController.state = localStateData as IPlatformData;
         }
         if (userData && !this.#appContext.appConfig.isLocalStorage) {
             const query = {
-                userId: botController.userId,
+                userId: storageId ?? botController.userId,
             };
             if (this.#auth) {
                 query.userId = userData.escapeString(botController.userToken as string);
             }
-            if (await userData.whereOne(query)) {
+            if (
+                await this.#appContext.trace(ETraceSpan.DB_LOAD, {}, () => userData.whereOne(query))
+            ) {
                 botController.userData = userData.data as TUserData;
                 return false;
             } else {
                 if (!botController.userData) {
                     botController.userData = {} as TUserData;
                 }
-                userData.userId = botController.userId;
+                userData.userId = storageId ?? botController.userId;
                 userData.meta = botController.userMeta as Record<string, unknown>;
             }
         }
         return true;
     }
 
+    /**
+     * Возвращает идентификатор, по которому хранятся данные пользователя.
+     * Зависит от опции `storageScope` в конфигурации приложения
+     * @param botController - Контроллер с бизнес-логикой приложения
+     */
+    #getStorageId(botController: BotController<TUserData>): string | number | null {
+        const { userId, chatId } = botController;
+        if (chatId === null || String(chatId) === String(userId)) {
+            return userId;
+        }
+        switch (this.#appContext.appConfig.storageScope) {
+            case 'chat':
+                return chatId;
+            case 'userInChat':
+                return `${chatId}_${userId}`;
+        }
+        return userId;
+    }
+
+    /**
+     * Проверяет, нужно ли пропустить сообщение из группового чата, в котором к боту не обращались
+     * @param botController - Контроллер с бизнес-логикой приложения
+     */
+    #isSkipGroupMessage(botController: BotController<TUserData>): boolean {
+        return (
+            this.#appContext.appConfig.groupChatMode === 'addressed' &&
+            botController.isGroupChat &&
+            !botController.isBotAddressed
+        );
+    }
+
     /**
      * Запуск логики приложения
      * @param botController - Контроллер с бизнес-логикой приложения
@@ -1044,13 +1411,21 @@ export class Bot<TUserData extends IUserData = IUserData> {
         platformClass: IPlatformAdapter,
         appType: TAppType,
     ): Promise<TRunResult> {
+        if (this.#isSkipGroupMessage(botController)) {
+            if (this.#$botController) {
+                this._clearState(botController);
+            }
+            return 'ok';
+        }
         const dbAdapter = this.#appContext.database.adapter
             ? await this.#getDbAdapter(this.#appContext.database.adapter)
             : undefined;
         let userData: UsersData | undefined;
+        let storageId: string | number | null = null;
         if (dbAdapter) {
             userData = new UsersData(this.#appContext);
             botController.userId = userData.escapeString(botController.userId as string | number);
+            storageId = userData.escapeString(this.#getStorageId(botController) as string | number);
             userData.platform = platformClass.platformName;
         }
         botController.platformOptions.usedLocalStorage =
@@ -1066,12 +1441,19 @@ export class Bot<TUserData extends IUserData = IUserData> {
         if (isLocalStorage) {
             botController.userData = localStateData as TUserData;
         } else {
-            isNewUser = await this.#initUserData(botController, userData, localStateData);
+            isNewUser = await this.#initUserData(
+                botController,
+                userData,
+                localStateData,
+                storageId,
+            );
         }
         this.#initNLU(botController);
         const shouldProceed =
             this.#globalMiddlewares.length || this.#platformMiddlewares[appType]?.length
-                ? await this.#runMiddlewares(botController, appType)
+                ? await this.#appContext.trace(ETraceSpan.MIDDLEWARE, {}, () =>
+                      this.#runMiddlewares(botController, appType),
+                  )
                 : true;
         const content = shouldProceed
             ? await this.#getAppContent(botController, platformClass, appType)
@@ -1083,27 +1465,16 @@ export class Bot<TUserData extends IUserData = IUserData> {
                 (!botController.state || botController.state === botController.userData)
             )
         ) {
-            userData.userId = botController.userId;
+            userData.userId = storageId ?? botController.userId;
             userData.data = botController.userData;
-            if (isNewUser) {
-                await userData.save(true).then((res) => {
+            await this.#appContext.trace(ETraceSpan.DB_SAVE, {}, (span) =>
+                this.#saveUserData(botController, userData, isNewUser).then((res) => {
                     if (!res) {
-                        this.#appContext.logError(
-                            `Bot:run(): Произошла ошибка при сохранении данных для нового пользователя "${botController.userId}".`,
-                        );
+                        span.setError('Не удалось сохранить данные пользователя');
                     }
                     return res;
-                });
-            } else {
-                await userData.update().then((res) => {
-                    if (!res) {
-                        this.#appContext.logError(
-                            `Bot:run(): Произошла ошибка при сохранении данных для пользователя: "${botController.userId}".`,
-                        );
-                    }
-                    return res;
-                });
-            }
+                }),
+            );
         }
         if (botController.platformOptions.error) {
             this.#appContext.logError(botController.platformOptions.error);
@@ -1114,6 +1485,38 @@ export class Bot<TUserData extends IUserData = IUserData> {
         return content;
     }
 
+    /**
+     * Сохраняет данные пользователя в базу данных
+     * @param botController - Контроллер с бизнес-логикой приложения
+     * @param userData - Модель данных пользователя
+     * @param isNewUser - Признак нового пользователя
+     * @returns true, если данные сохранены
+     */
+    #saveUserData(
+        botController: BotController<TUserData>,
+        userData: UsersData,
+        isNewUser: boolean,
+    ): Promise<boolean> {
+        if (isNewUser) {
+            return userData.save(true).then((res) => {
+                if (!res) {
+                    this.#appContext.logError(
+                        `Bot:run(): Произошла ошибка при сохранении данных для нового пользователя "${botController.userId}".`,
+                    );
+                }
+                return res;
+            });
+        }
+        return userData.update().then((res) => {
+            if (!res) {
+                this.#appContext.logError(
+                    `Bot:run(): Произошла ошибка при сохранении данных для пользователя: "${botController.userId}".`,
+                );
+            }
+            return res;
+        });
+    }
+
     #setOldIntentName(botController: BotController<TUserData>): void {
         if (
             !botController.oldIntentName &&
@@ -1153,7 +1556,7 @@ export class Bot<TUserData extends IUserData = IUserData> {
                 botController.state.oldIntentName = null;
             }
         }
-        let stateData;
+        let stateData: Record<string, unknown> | null | undefined;
         if (
             this.#appContext.appConfig.isLocalStorage &&
             botController.platformOptions.usedLocalStorage
@@ -1169,15 +1572,14 @@ export class Bot<TUserData extends IUserData = IUserData> {
         } else if (botController.state && keysCount(botController.state)) {
             stateData = botController.state;
         }
-        let content: string | object;
-        if (botController.isSendRating) {
-            content = platformClass.getRatingContext(botController);
-        } else {
-            if (botController.state && userDataLength === 0) {
-                botController.userData = botController.state as TUserData;
-            }
-            content = platformClass.getContent(botController, stateData);
+        if (!botController.isSendRating && botController.state && userDataLength === 0) {
+            botController.userData = botController.state as TUserData;
         }
+        const content = this.#appContext.trace(ETraceSpan.GET_CONTENT, {}, () =>
+            botController.isSendRating
+                ? platformClass.getRatingContext(botController)
+                : platformClass.getContent(botController, stateData),
+        );
         if (botController.platformOptions.usedLocalStorage) {
             const res = platformClass.setLocalStorage(stateData, botController);
             if (res) {
@@ -1196,7 +1598,7 @@ export class Bot<TUserData extends IUserData = IUserData> {
     ): Promise<string | object> {
         this.#setOldIntentName(botController);
 
-        const res = botController.run();
+        const res = this.#appContext.trace(ETraceSpan.RESOLVE, {}, () => botController.run());
         if (res) {
             await res;
         }
@@ -1349,6 +1751,11 @@ export class Bot<TUserData extends IUserData = IUserData> {
                         error: err,
                     },
                 );
+                await this.#appContext.emitError(new MiddlewareError(err), {
+                    controller,
+                    appType,
+                    response: null,
+                });
             }
             if (this.#appContext.usedMetric) {
                 this.#appContext.logMetric(EMetric.MIDDLEWARE, performance.now() - start, {
@@ -1389,10 +1796,15 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * если вы реализуете собственный обработчик запросов, тестируете логику приложения
      * или запускаете его вне HTTP-контекста (например, из консоли или очереди сообщений).
      *
+     * Каждый вызов выполняется в отдельном контексте запроса ({@link getRequestContext}). Идентификатор запроса
+     * из контекста добавляется ко всем логам и метрикам, в том числе к метрикам запросов к API платформ и базе данных.
+     *
      * @param {TAppType | null} [appType] - Тип приложения. Если не указан, будет определен автоматически в зависимости от запроса.
      * @param {string | object} [content] - Входные данные для обработки (например, текст сообщения или объект запроса).
      * @returns {Promise<TRunResult>} Результат обработки запроса
-     * @throws {Error} Если не удаётся определить платформу или отсутствуют данные для обработки.
+     * @throws {BotError} Если не удаётся определить платформу ({@link PlatformNotDetectedError}),
+     * отсутствуют данные для обработки ({@link EmptyRequestError}) или платформа не смогла обработать запрос
+     * ({@link InvalidQueryError}).
      *
      * @example
      * ```ts
@@ -1401,15 +1813,27 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * console.log(result);
      * ```
      */
-    public async run(
+    public run(
         appType: TAppType | null = null,
         content: string | object | null = null,
     ): Promise<TRunResult> {
+        return runInRequestContext({ appType }, () => this.#traceRun(appType, content));
+    }
+
+    /**
+     * Запускает обработку запроса в текущем контексте запроса
+     * @param appType - Тип приложения
+     * @param content - Входные данные для обработки
+     */
+    #traceRun(appType: TAppType | null, content: string | object | null): Promise<TRunResult> {
+        return this.#appContext.trace(ETraceSpan.RUN, {}, () => this.#run(appType, content));
+    }
+
+    async #run(appType: TAppType | null, content: string | object | null): Promise<TRunResult> {
         if (!this.#botControllerClass) {
-            const errMsg =
-                'Не определен класс с логикой приложения. Укажите класс контроллер, передав его в метод initBotController';
-            this.#appContext.logError(errMsg);
-            throw new Error(errMsg);
+            const error = new ControllerNotDefinedError();
+            this.#appContext.logError(error.message);
+            throw error;
         }
         let correctContent = this._content || content;
         if (correctContent && typeof correctContent === 'string') {
@@ -1418,7 +1842,7 @@ export class Bot<TUserData extends IUserData = IUserData> {
         if (!correctContent) {
             const msg = `${appType ? `Для платформы "${appType}"` : 'Пришел не корректный запрос в котором'} передано пустое содержимое, дальнейшая обработка невозможна.`;
             this.#appContext.logError(msg);
-            throw new Error(msg);
+            throw new EmptyRequestError(msg);
         }
         const botController: BotController<TUserData> =
             this.#$botController || new this.#botControllerClass(this.#appContext);
@@ -1433,10 +1857,14 @@ export class Bot<TUserData extends IUserData = IUserData> {
             botController.userToken ??= this.#auth;
 
             platformClass.updateTimeStart(botController);
-            let res = platformClass.setQueryData(correctContent, botController);
+            const query = correctContent;
+            let res = this.#appContext.trace(ETraceSpan.SET_QUERY_DATA, {}, () =>
+                platformClass.setQueryData(query, botController),
+            );
             if (isPromise(res)) {
                 res = await res;
             }
+            updateRequestContext({ appType: botController.appType, userId: botController.userId });
             if (res) {
                 if (botController.platformOptions.sendInInit) {
                     return botController.platformOptions.sendInInit as TRunResult;
@@ -1444,71 +1872,328 @@ export class Bot<TUserData extends IUserData = IUserData> {
                 return this.#runApp(botController, platformClass, botController.appType as string);
             } else {
                 this.#appContext.logError(botController.platformOptions.error as string);
-                throw new Error(botController.platformOptions.error || '');
+                throw new InvalidQueryError(
+                    botController.appType as string,
+                    botController.platformOptions.error || '',
+                );
             }
         } else {
-            const msg =
-                'Не удалось определить платформу, от которой пришел запрос. Дальнейшая обработка невозможна.';
-            this.#appContext.logError(msg);
-            throw new Error(msg);
+            const error = new PlatformNotDetectedError();
+            this.#appContext.logError(error.message);
+            throw error;
         }
     }
 
-    #isWebhookError(
-        req: IncomingMessage,
-        res: ServerResponse,
-        responseCb?: TBotResponseCb,
-    ): boolean {
-        if (req.method !== 'POST') {
-            this.#webhookHandleError(req, res, 400, responseCb);
-            return true;
+    /**
+     * Возвращает максимальный размер тела запроса для платформы
+     * @param appType - Платформа. Если не указана, возвращается общее ограничение
+     */
+    #getMaxBodySize(appType?: string | null): number {
+        const platformSize = appType ? this.#appContext.platforms[appType]?.maxBodySize : null;
+        return platformSize ?? this.#appContext.serverOptions.maxBodySize ?? MAX_REQUEST_SIZE;
+    }
+
+    /**
+     * Возвращает размер тела запроса в байтах
+     */
+    #getBodySize(data: unknown, headers: Record<string, unknown>): number {
+        if (typeof data === 'string') {
+            return Buffer.byteLength(data);
         }
-        const contentLength = req.headers['content-length'];
-        if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
-            this.#webhookHandleError(req, res, 413, responseCb);
-            return true;
+        const contentLength = headers['content-length'];
+        return typeof contentLength === 'string' ? parseInt(contentLength) || 0 : 0;
+    }
+
+    /**
+     * Проверяет метод и размер webhook-запроса
+     * @returns Ошибка или null, если запрос можно обработать
+     */
+    #getWebhookError(request: IWebhookRequest): BotError | null {
+        const method = (request.method ?? 'POST').toUpperCase();
+        const allowedMethods =
+            this.#appContext.serverOptions.allowedMethods ?? DEFAULT_ALLOWED_METHODS;
+        if (!allowedMethods.some((allowed) => allowed.toUpperCase() === method)) {
+            return new MethodNotAllowedError(`Запрос отправлен методом "${method}"`);
         }
-        return false;
+        const maxBodySize = this.#getMaxBodySize(request.appType);
+        if (this.#getBodySize(undefined, request.headers ?? {}) > maxBodySize) {
+            return new PayloadTooLargeError(`Размер запроса превышает ${maxBodySize} байт`);
+        }
+        return null;
     }
 
-    #webhookHandleError(
-        req: IncomingMessage,
-        res: ServerResponse,
-        code: number,
-        responseCb?: TBotResponseCb,
-    ): void {
-        let body = 'Bad Request';
-        let statusCode = code;
-        switch (code) {
-            case 400:
-                body = 'Empty request';
-                break;
-            case 422:
-                statusCode = 400;
-                body = 'Invalid JSON';
-                break;
-            case 413:
-                body = 'Request entity too large';
-                break;
-            case 401:
-                body = 'Invalid token';
-                break;
-            case 404:
-                body = 'Not found';
-                break;
-            case 500:
-                body = 'Internal Server Error';
-                break;
+    /**
+     * Передает ошибку в обработчики `onError` и возвращает ответ с ошибкой
+     */
+    async #getWebhookErrorResponse(error: BotError, appType: string | null): Promise<IBotResponse> {
+        const response: IBotResponse = {
+            statusCode: error.statusCode,
+            body: error.responseBody,
+        };
+        await this.#appContext.emitError(error, { controller: null, appType, response });
+        return response;
+    }
+
+    /**
+     * Разбирает тело webhook-запроса функцией из `bodyParsers` по типу содержимого.
+     * Тело с неизвестным типом содержимого разбирается как JSON
+     * @param body - Тело запроса: строка или уже распарсенный объект
+     * @param headers - Заголовки запроса
+     */
+    #parseWebhookBody(body: unknown, headers: Record<string, unknown>): object | string | null {
+        if (typeof body !== 'string') {
+            return (body as object | null | undefined) ?? null;
         }
-        return send(
-            req,
-            res,
-            {
-                statusCode,
-                body,
-                defaultSend,
-            },
-            responseCb,
+        const contentType = headers['content-type'];
+        const mediaType =
+            typeof contentType === 'string' ? contentType.split(';')[0].trim().toLowerCase() : '';
+        const parsers = { ...DEFAULT_BODY_PARSERS, ...this.#appContext.serverOptions.bodyParsers };
+        const parser = parsers[mediaType] ?? DEFAULT_BODY_PARSERS['application/json'];
+        return parser(body) as object | string | null;
+    }
+
+    /**
+     * Возвращает данные, по которым проверяется подпись запроса: исходное тело запроса, если оно известно,
+     * иначе распарсенный запрос
+     */
+    #getSignaturePayload(request: IWebhookRequest, data: unknown, query: object | string): unknown {
+        if (request.rawBody !== undefined) {
+            return request.rawBody.toString();
+        }
+        return typeof data === 'string' ? data : query;
+    }
+
+    /**
+     * Проверяет размер запроса с учетом ограничения платформы и подпись запроса
+     * @returns Ошибка или null, если запрос можно обработать
+     */
+    #getWebhookQueryError(
+        appType: string | null,
+        request: IWebhookRequest,
+        data: unknown,
+        query: object | string,
+    ): BotError | null {
+        const platform = appType ? this.#appContext.platforms[appType] : undefined;
+        if (!appType || !platform) {
+            return null;
+        }
+        const headers = request.headers ?? {};
+        const maxBodySize = this.#getMaxBodySize(appType);
+        if (this.#getBodySize(data, headers) > maxBodySize) {
+            this.#appContext.logError(
+                `Bot:webhookHandle(): Для платформы "${appType}" размер запроса превышает ${maxBodySize} байт. Дальнейшая обработка запроса остановлена.`,
+            );
+            return new PayloadTooLargeError(`Размер запроса превышает ${maxBodySize} байт`);
+        }
+        if (!platform.isCorrectQuery(this.#getSignaturePayload(request, data, query), headers)) {
+            this.#appContext.logError(
+                `Bot:webhookHandle(): Для платформы "${appType}", пришел запрос с неверным токеном. Дальнейшая обработка запроса остановлена.`,
+                {
+                    headers,
+                },
+            );
+            return new InvalidSignatureError(appType);
+        }
+        return null;
+    }
+
+    /**
+     * Обрабатывает webhook-запрос в отдельном контексте запроса.
+     * Идентификатор запроса берется из заголовка `X-Request-Id`, если он передан
+     * @param request - Запрос
+     * @param readBody - Функция чтения тела запроса, если оно не передано в `request.body`
+     */
+    #processWebhook(request: IWebhookRequest, readBody?: TReadBody): Promise<IBotResponse> {
+        const requestId = request.headers?.['x-request-id'];
+        return runInRequestContext(
+            { requestId: typeof requestId === 'string' && requestId ? requestId : undefined },
+            () =>
+                this.#appContext.trace(
+                    ETraceSpan.WEBHOOK,
+                    { 'http.request.method': request.method ?? 'POST' },
+                    (span) =>
+                        this.#processWebhookRequest(request, readBody).then((response) => {
+                            span.setAttributes({
+                                'http.response.status_code': response.statusCode,
+                            });
+                            if (response.statusCode >= 500) {
+                                span.setError(response.body);
+                            }
+                            return response;
+                        }),
+                ),
+        );
+    }
+
+    /**
+     * Обрабатывает webhook-запрос и формирует ответ
+     * @param request - Запрос
+     * @param readBody - Функция чтения тела запроса, если оно не передано в `request.body`
+     */
+    async #processWebhookRequest(
+        request: IWebhookRequest,
+        readBody?: TReadBody,
+    ): Promise<IBotResponse> {
+        const webhookError = this.#getWebhookError(request);
+        if (webhookError) {
+            return this.#getWebhookErrorResponse(webhookError, null);
+        }
+        let appType: string | null = null;
+        try {
+            if (this.#appContext.usedMetric) {
+                this.#appContext.logMetric(EMetric.START_WEBHOOK, Date.now(), {});
+            }
+            const startTimer = this.#appContext.usedMetric ? performance.now() : 0;
+            const body =
+                request.body === undefined && readBody
+                    ? await readBody(this.#getMaxBodySize(request.appType))
+                    : request.body;
+            const data = Buffer.isBuffer(body) ? body.toString() : body;
+            const headers = request.headers ?? {};
+            const query = this.#parseWebhookBody(data, headers);
+            if (!query) {
+                return this.#getWebhookErrorResponse(
+                    new EmptyRequestError('Передано пустое тело запроса'),
+                    null,
+                );
+            }
+            if (typeof headers.authorization === 'string' && headers.authorization) {
+                this.#auth = headers.authorization.replace('Bearer ', '');
+            }
+
+            appType =
+                request.appType && request.appType !== T_AUTO
+                    ? request.appType
+                    : this.#getAppType(query, headers);
+            const queryError = this.#getWebhookQueryError(appType, request, data, query);
+            if (queryError) {
+                return this.#getWebhookErrorResponse(queryError, appType);
+            }
+            const result = await this.#traceRun(appType, query);
+            const statusCode = result === 'notFound' ? 404 : 200;
+            if (this.#appContext.usedMetric) {
+                this.#appContext.logMetric(EMetric.END_WEBHOOK, performance.now() - startTimer, {
+                    appType,
+                    success: statusCode === 200,
+                });
+            }
+            return { statusCode, body: result };
+        } catch (e) {
+            const error = BotError.from(e);
+            if (error instanceof InvalidJsonError) {
+                this.#appContext.logError(
+                    `Bot:webhookHandle(): Невозможно распарсить тело запроса как JSON. Убедитесь, что платформа "${appType}" отправляет корректные данные: ${error.message}`,
+                    {
+                        file: 'Bot:webhookHandle()',
+                        error: e,
+                    },
+                );
+            } else {
+                this.#appContext.logError(
+                    `Bot:webhookHandle(): Произошла ошибка при работе приложения для платформы "${appType}": ${e instanceof Error ? e.message : JSON.stringify(e)}`,
+                    {
+                        error: e,
+                    },
+                );
+            }
+            return this.#getWebhookErrorResponse(error, appType);
+        }
+    }
+
+    /**
+     * Обрабатывает webhook-запрос, не привязанный к HTTP-серверу, и возвращает ответ.
+     * Подходит для интеграции с произвольным HTTP-фреймворком или окружением, в котором тело запроса уже прочитано.
+     *
+     * @param request - Запрос
+     * @param readBody - Функция чтения тела запроса. Вызывается, если тело не передано в `request.body`
+     * @returns HTTP-статус и тело ответа
+     *
+     * @example
+     * ```ts
+     * const response = await bot.handleRequest({
+     *     method: 'POST',
+     *     headers: req.headers,
+     *     body: req.body,
+     *     appType: T_TELEGRAM,
+     * });
+     * res.status(response.statusCode).send(response.body);
+     * ```
+     */
+    public handleRequest(request: IWebhookRequest, readBody?: TReadBody): Promise<IBotResponse> {
+        return this.#processWebhook(request, readBody);
+    }
+
+    /**
+     * Создает обработчик webhook-запросов для HTTP-фреймворка или облачной функции.
+     * Если тело запроса уже распарсено (`express.json()`, `koa-bodyparser`, Fastify), оно используется без повторного чтения.
+     * Для проверки подписи по исходному телу запроса сохраните его в `req.rawBody`.
+     *
+     * @param options - Параметры обработчика. Через `appType` можно указать платформу, запросы которой принимает обработчик,
+     * тогда платформа не определяется автоматически
+     * @returns Обработчик запросов для указанного фреймворка
+     *
+     * @example
+     * ```ts
+     * // Express
+     * app.use(express.json());
+     * app.post('/tg', bot.createHandler({ appType: T_TELEGRAM }));
+     * app.post('/vk', bot.createHandler({ appType: T_VK }));
+     *
+     * // Fastify
+     * fastify.post('/tg', bot.createHandler({ framework: 'fastify', appType: T_TELEGRAM }));
+     *
+     * // Koa и @koa/router
+     * router.post('/tg', bot.createHandler({ framework: 'koa', appType: T_TELEGRAM }));
+     * ```
+     * @example
+     * ```ts
+     * // Облачные функции. Приложение создается вне обработчика, поэтому контекст приложения и подключение
+     * // к базе данных сохраняются между повторными вызовами функции в том же экземпляре
+     * const bot = new Bot().use(new AlisaAdapter()).initBotController(MyController);
+     *
+     * // Yandex Cloud Functions: HTTP-вызов или прямой вызов навыком Алисы
+     * export const handler = bot.createHandler({ framework: 'yandex' });
+     * // AWS Lambda с API Gateway
+     * export const lambdaHandler = bot.createHandler({ framework: 'lambda' });
+     * // Cloudflare Workers
+     * export default { fetch: bot.createHandler({ framework: 'fetch' }) };
+     * ```
+     */
+    public createHandler<TFramework extends TWebhookFramework = 'node'>(
+        options: IWebhookHandlerOptions<TFramework> = {},
+    ): IWebhookHandlers[TFramework] {
+        return createWebhookHandler(
+            (request, readBody) => this.#processWebhook(request, readBody),
+            options,
+        );
+    }
+
+    /**
+     * Создает middleware, которая обрабатывает webhook-запросы по указанным путям.
+     * Запросы по остальным путям передаются следующему обработчику.
+     *
+     * @param options - Параметры middleware. В `routes` указываются путь и платформа, запросы которой принимаются по этому пути
+     * @returns Middleware для указанного фреймворка
+     *
+     * @example
+     * ```ts
+     * // Express
+     * app.use(express.json());
+     * app.use(bot.middleware({ routes: { '/tg': T_TELEGRAM, '/vk': T_VK, '/webhook': 'auto' } }));
+     *
+     * // Koa
+     * app.use(bodyParser());
+     * app.use(bot.middleware({ framework: 'koa', routes: { '/tg': T_TELEGRAM } }));
+     * ```
+     */
+    public middleware<TFramework extends keyof IWebhookMiddlewares = 'express'>(
+        options: IWebhookMiddlewareOptions<TFramework>,
+    ): IWebhookMiddlewares[TFramework] {
+        return createWebhookMiddleware(
+            createAppTypeResolver(options.routes, (request, readBody) =>
+                this.#processWebhook(request, readBody),
+            ),
+            options,
         );
     }
 
@@ -1517,6 +2202,8 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * Метод автоматически распознаёт платформу по заголовкам или телу запроса и делегирует обработку
      * соответствующему адаптеру. Ответ отправляется автоматически через переданный объект `res`.
      *
+     * Если тело запроса уже распарсено (например, через `express.json()`), оно используется без повторного чтения.
+     *
      * @param req - Объект входящего запроса (IncomingMessage или совместимый)
      * @param res - Объект ответа (ServerResponse или совместимый)
      * @param responseCb - Callback, для пользовательской обработки ответа пользователю. Стоит использовать в том случае, если есть необходимость переопределить стандартный ответ фреймворка.
@@ -1574,78 +2261,16 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * ```
      */
     public async webhookHandle(
-        req: IncomingMessage,
+        req: TNodeWebhookRequest,
         res: ServerResponse,
         responseCb?: TBotResponseCb,
     ): Promise<void> {
-        if (this.#isWebhookError(req, res, responseCb)) {
-            return;
-        }
-        let appType: string | null = null;
-        try {
-            if (this.#appContext.usedMetric) {
-                this.#appContext.logMetric(EMetric.START_WEBHOOK, Date.now(), {});
-            }
-            const startTimer = this.#appContext.usedMetric ? performance.now() : 0;
-            const data = await this.#readRequestData(req);
-            const query = JSON.parse(data) as string | null;
-            if (!query) {
-                return this.#webhookHandleError(req, res, 400, responseCb);
-            }
-            if (req.headers?.authorization) {
-                this.#auth = req.headers.authorization.replace('Bearer ', '');
-            }
-
-            appType = this.#getAppType(query, req.headers);
-            if (appType && this.#appContext.platforms[appType]) {
-                if (!this.#appContext.platforms[appType].isCorrectQuery(data, req.headers)) {
-                    this.#appContext.logError(
-                        `Bot:webhookHandle(): Для платформы "${appType}", пришел запрос с неверным токеном. Дальнейшая обработка запроса остановлена.`,
-                        {
-                            res,
-                            req,
-                        },
-                    );
-                    return this.#webhookHandleError(req, res, 401, responseCb);
-                }
-            }
-            const result = await this.run(appType, query);
-            const statusCode = result === 'notFound' ? 404 : 200;
-            if (this.#appContext.usedMetric) {
-                this.#appContext.logMetric(EMetric.END_WEBHOOK, performance.now() - startTimer, {
-                    appType,
-                    success: statusCode === 200,
-                });
-            }
-            return send(
-                req,
-                res,
-                {
-                    statusCode,
-                    body: result,
-                    defaultSend,
-                },
-                responseCb,
-            );
-        } catch (error) {
-            if (error instanceof SyntaxError) {
-                this.#appContext.logError(
-                    `Bot:webhookHandle(): Невозможно распарсить тело запроса как JSON. Убедитесь, что платформа "${appType}" отправляет корректные данные: ${error.message}`,
-                    {
-                        file: 'Bot:webhookHandle()',
-                        error,
-                    },
-                );
-                return this.#webhookHandleError(req, res, 422, responseCb);
-            }
-            this.#appContext.logError(
-                `Bot:webhookHandle(): Произошла ошибка при работе приложения для платформы "${appType}": ${error instanceof Error ? error.message : JSON.stringify(error)}`,
-                {
-                    error,
-                },
-            );
-            return this.#webhookHandleError(req, res, 500, responseCb);
-        }
+        return handleNodeRequest(
+            (request, readBody) => this.#processWebhook(request, readBody),
+            req,
+            res,
+            { responseCb },
+        );
     }
 
     /**
@@ -1706,7 +2331,9 @@ export class Bot<TUserData extends IUserData = IUserData> {
             this.#serverInst = undefined;
         }
 
+        const { requestTimeout, keepAlive, keepAliveTimeout } = this.#appContext.serverOptions;
         this.#serverInst = createServer(
+            { requestTimeout, keepAlive },
             async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
                 if (req.method === 'GET' && req.url === '/health') {
                     res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -1716,6 +2343,9 @@ export class Bot<TUserData extends IUserData = IUserData> {
                 return this.webhookHandle(req, res, responseCb);
             },
         );
+        if (keepAliveTimeout !== undefined) {
+            this.#serverInst.keepAliveTimeout = keepAliveTimeout;
+        }
 
         this.#serverInst.listen(port, hostname, () => {
             this.#appContext.log(`Server running at //${hostname}:${port}/`);
@@ -1732,6 +2362,35 @@ export class Bot<TUserData extends IUserData = IUserData> {
         return this.#serverInst;
     }
 
+    /**
+     * Запускает получение обновлений от платформы без webhook (например, long polling для Telegram).
+     * Удобно для локальной разработки, когда нет публичного HTTPS-адреса.
+     * Получение обновлений останавливается при вызове {@link close}.
+     *
+     * @param appType - Платформа, для которой необходимо запустить получение обновлений
+     * @returns true, если получение обновлений запущено, false - если платформа не подключена или не поддерживает такой режим
+     *
+     * @example
+     * ```ts
+     * import { Bot } from 'umbot';
+     * import { TelegramAdapter, T_TELEGRAM } from 'umbot/plugins';
+     *
+     * const bot = new Bot();
+     * bot.use(new TelegramAdapter('YOUR_BOT_TOKEN'));
+     * bot.startPolling(T_TELEGRAM);
+     * ```
+     */
+    public startPolling(appType: TAppType): boolean {
+        const platform = this.#appContext.platforms[appType];
+        if (!platform?.startPolling) {
+            this.#appContext.logError(
+                `Bot:startPolling(): Платформа "${appType}" не подключена или не поддерживает получение обновлений без webhook.`,
+            );
+            return false;
+        }
+        return platform.startPolling(this);
+    }
+
     /**
      * Вызывается при завершении приложения через комбинацию клавиш
      * @private
@@ -1748,27 +2407,6 @@ export class Bot<TUserData extends IUserData = IUserData> {
         process.exit(0);
     }
 
-    /**
-     * Обработка запросов webhook сервера
-     * @param req
-     */
-    #readRequestData(req: IncomingMessage): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const chunks: Buffer[] = [];
-            let totalLength = 0;
-            req.on('data', (chunk: Buffer) => {
-                chunks.push(chunk);
-                totalLength += chunk.length;
-                if (totalLength > MAX_REQUEST_SIZE) {
-                    req.destroy(new Error('Request too large'));
-                    reject(new Error('Request too large'));
-                }
-            });
-            req.on('end', () => resolve(Buffer.concat(chunks).toString()));
-            req.on('error', reject);
-        });
-    }
-
     /**
      * Корректно завершает работу встроенного HTTP-сервера (если он был запущен через {@link start}).
      * Ожидает завершения всех текущих запросов, освобождает сетевые ресурсы и отменяет
@@ -1792,6 +2430,13 @@ export class Bot<TUserData extends IUserData = IUserData> {
             this.#serverInst.close();
             this.#serverInst = undefined;
         }
+        // Останавливаем получение обновлений до уничтожения плагинов, чтобы не обработать запрос после закрытия
+        for (const platform of Object.values(this.#appContext.platforms)) {
+            if (platform.stopPolling) {
+                await platform.stopPolling();
+            }
+        }
+        this.#scheduler?.stop();
         // Также необходимо почистить все подключенные плагины.
         this.clearUse();
         await this.#appContext.close();
@@ -1802,7 +2447,9 @@ export class Bot<TUserData extends IUserData = IUserData> {
      * Этот метод используется для активных рассылок — когда голосовой навык или чат-бот инициирует диалог первым (например, уведомление).
      * В методе реализована механика преобразования текстового значения `controllerOrText` в контроллер, а также базовый механизм для отправки ответа.
      *
-     * Если платформа не поддерживает возможность начать диалог самостоятельно, то вернется false
+     * Если платформа не поддерживает возможность начать диалог самостоятельно или не приняла сообщение, то вернется false.
+     * Если сообщение не удалось отправить сразу и очередь исходящих сообщений отправит его повторно в фоне,
+     * вернется `IOutboundQueued` (см. `isOutboundQueued`)
      * @param userId Ид пользователя, которому нужно отправить сообщение
      * @param controllerOrText Контроллер приложения или текст. Если необходимо отправить просто текст, можно передать строку, в случае, если необходимо передать картинку звук и тд, то необходимо корректно заполнить контроллер.
      * @param platform Платформа, на которую необходимо отправить запрос
@@ -1817,4 +2464,97 @@ export class Bot<TUserData extends IUserData = IUserData> {
         }
         return false;
     }
+
+    #getScheduler(): Scheduler {
+        this.#scheduler ??= new Scheduler(this.#appContext, (userId, controllerOrText, platform) =>
+            this.send(userId, controllerOrText, platform),
+        );
+        return this.#scheduler;
+    }
+
+    /**
+     * Планирует отправку сообщения пользователю: разовую (в указанное время или через задержку) или периодическую (по cron-выражению).
+     * Задачи сохраняются через подключенный адаптер базы данных и переживают перезапуск приложения.
+     * Отправка выполняется после запуска планировщика через {@link startScheduler}.
+     *
+     * Голосовые платформы не поддерживают отправку сообщений без запроса пользователя, поэтому для них задача не создается.
+     * @param userId Ид пользователя, которому нужно отправить сообщение
+     * @param platform Платформа, на которую необходимо отправить сообщение
+     * @param when Дата отправки, задержка в миллисекундах или cron-выражение
+     * @param payload Текст сообщения или объект с текстом, tts и кнопками
+     * @returns Идентификатор задачи или null, если задачу запланировать нельзя
+     *
+     * @example
+     * ```ts
+     * // Напоминание через час
+     * await bot.schedule(userId, T_TELEGRAM, 60 * 60 * 1000, 'Не забудьте оплатить заказ');
+     * // Каждый будний день в 9:00
+     * await bot.schedule(userId, T_TELEGRAM, '0 9 * * 1-5', { text: 'Доброе утро!', buttons: ['Погода'] });
+     *
+     * await bot.startScheduler();
+     * ```
+     */
+    public schedule(
+        userId: string | number,
+        platform: TAppType,
+        when: TScheduleWhen,
+        payload: TSchedulePayload,
+    ): Promise<string | null> {
+        return this.#getScheduler().schedule(userId, platform, when, payload);
+    }
+
+    /**
+     * Отменяет запланированную отправку сообщения
+     * @param jobId Идентификатор задачи, полученный из {@link schedule}
+     * @returns true, если задача была найдена и отменена
+     */
+    public cancelSchedule(jobId: string): Promise<boolean> {
+        return this.#getScheduler().cancel(jobId);
+    }
+
+    /**
+     * Запускает планировщик отложенных сообщений. Перед запуском загружаются задачи, сохраненные в базе данных.
+     * Планировщик останавливается при вызове {@link close}.
+     * @param options Параметры планировщика: интервал проверки, количество и задержка повторных попыток
+     */
+    public async startScheduler(options?: ISchedulerOptions): Promise<void> {
+        if (this.#appContext.database.adapter) {
+            await this.#getDbAdapter(this.#appContext.database.adapter);
+        }
+        await this.#getScheduler().start(options);
+    }
+
+    /**
+     * Рассылка сообщения всем сохраненным пользователям платформы.
+     * Пользователи выбираются из базы данных постранично, скорость отправки ограничивается `limit` платформы.
+     * Статус доставки каждому пользователю сохраняется в базу данных, поэтому прерванную рассылку можно продолжить,
+     * повторно вызвав метод с тем же `id`: пользователи, которым сообщение уже отправлено или передано в очередь
+     * исходящих сообщений, будут пропущены.
+     *
+     * Для рассылки необходимо подключить адаптер базы данных. Голосовые платформы не поддерживают рассылки.
+     * @param options Параметры рассылки
+     * @returns Результат рассылки или null, если рассылку выполнить нельзя или не удалось получить получателей.
+     * Во втором случае рассылку можно продолжить, повторно вызвав метод с тем же `id`
+     *
+     * @example
+     * ```ts
+     * // Подсчет получателей без отправки
+     * const { total } = await bot.broadcast({ platform: T_TELEGRAM, message: 'Новости', dryRun: true });
+     *
+     * const result = await bot.broadcast({
+     *     id: 'news-2026-06',
+     *     platform: T_TELEGRAM,
+     *     filter: (user) => typeof user.data === 'object' && user.data?.subscribed === true,
+     *     message: { text: 'Вышло обновление!', buttons: ['Подробнее'] },
+     * });
+     * ```
+     */
+    public async broadcast(options: IBroadcastOptions): Promise<IBroadcastResult | null> {
+        if (this.#appContext.database.adapter) {
+            await this.#getDbAdapter(this.#appContext.database.adapter);
+        }
+        return new Broadcaster(this.#appContext, (userId, controllerOrText, platform) =>
+            this.send(userId, controllerOrText, platform),
+        ).run(options);
+    }
 }
@@ -0,0 +1,229 @@
+import { ServerResponse } from 'node:http';
+import { Bot, TBotControllerClass } from './Bot';
+import { IAppConfig, IAppParam, ITokenPlatform } from './interfaces/IAppContext';
+import { IBotResponse, IPlatformAdapter, TBotResponseCb } from './interfaces/IBot';
+import {
+    IWebhookHandlerOptions,
+    IWebhookHandlers,
+    IWebhookMiddlewares,
+    IWebhookRequest,
+    IWebhookRoutingOptions,
+    TNodeWebhookRequest,
+    TReadBody,
+    TWebhookFramework,
+    TWebhookProcessor,
+    createWebhookHandler,
+    createWebhookMiddleware,
+    getWebhookPath,
+    handleNodeRequest,
+} from './utils/WebhookHandler';
+
+/**
+ * Описание приложения, которое обрабатывает запросы по пути маршрута
+ */
+export interface IBotRoute {
+    /**
+     * Адаптер платформы. Для каждого маршрута нужен отдельный экземпляр адаптера
+     */
+    platform: IPlatformAdapter;
+    /**
+     * Класс контроллера с логикой приложения
+     */
+    controller: TBotControllerClass;
+    /**
+     * Токены и секреты платформы. Имеют приоритет над `config.tokens`
+     */
+    tokens?: ITokenPlatform[string];
+    /**
+     * Конфигурация приложения
+     */
+    config?: Partial<IAppConfig>;
+    /**
+     * Параметры приложения
+     */
+    params?: IAppParam;
+    /**
+     * Дополнительная настройка приложения: команды, базы данных, middleware и т.д.
+     * @param bot - Приложение маршрута
+     */
+    setup?: (bot: Bot) => void;
+}
+
+/**
+ * Параметры обработчика запросов роутера
+ */
+export type TBotRouterHandlerOptions<TFramework extends TWebhookFramework = TWebhookFramework> =
+    Omit<IWebhookHandlerOptions<TFramework>, 'appType'>;
+
+const NOT_FOUND_RESPONSE: IBotResponse = { statusCode: 404, body: 'Not Found' };
+
+/**
+ * Роутер, который позволяет обслуживать несколько приложений в одном процессе.
+ * Каждый путь связан с отдельным экземпляром {@link Bot} со своим контекстом приложения, поэтому на разных путях
+ * могут работать, например, несколько Telegram-ботов с разными токенами и разной логикой.
+ *
+ * @example
+ * ```ts
+ * import { BotRouter } from 'umbot';
+ * import { TelegramAdapter, VkAdapter } from 'umbot/plugins';
+ *
+ * const router = new BotRouter();
+ * router.add('/brand-a/tg', {
+ *     platform: new TelegramAdapter('TOKEN_A'),
+ *     controller: BrandAController,
+ * });
+ * router.add('/brand-b/tg', {
+ *     platform: new TelegramAdapter('TOKEN_B'),
+ *     controller: BrandBController,
+ *     setup: (bot) => bot.addCommand('help', ['помощь'], () => 'Помощь бренда B'),
+ * });
+ * router.add('/brand-b/vk', new Bot().initBotController(BrandBController).use(new VkAdapter()));
+ *
+ * // Express
+ * app.use(express.json());
+ * app.use(router.middleware());
+ *
+ * // node:http
+ * createServer(router.createHandler()).listen(3000);
+ * ```
+ */
+export class BotRouter {
+    /**
+     * Приложения по путям
+     */
+    readonly #routes: Map<string, Bot> = new Map();
+
+    /**
+     * Добавляет маршрут. Если маршрут с таким путем уже существует, он заменяется
+     * @param path - Путь, по которому приходят запросы
+     * @param route - Приложение или описание приложения, из которого оно будет создано
+     * @returns Приложение маршрута
+     */
+    public add(path: string, route: Bot | IBotRoute): Bot {
+        const bot = route instanceof Bot ? route : this.#createBot(route);
+        this.#routes.set(getWebhookPath(path), bot);
+        return bot;
+    }
+
+    /**
+     * Возвращает приложение по пути маршрута
+     * @param path - Путь маршрута
+     */
+    public get(path: string): Bot | undefined {
+        return this.#routes.get(getWebhookPath(path));
+    }
+
+    /**
+     * Удаляет маршрут и завершает работу его приложения
+     * @param path - Путь маршрута
+     * @returns true, если маршрут был удален
+     */
+    public async remove(path: string): Promise<boolean> {
+        const normalizedPath = getWebhookPath(path);
+        const bot = this.#routes.get(normalizedPath);
+        if (!bot) {
+            return false;
+        }
+        this.#routes.delete(normalizedPath);
+        await bot.close();
+        return true;
+    }
+
+    /**
+     * Возвращает пути всех маршрутов
+     */
+    public get paths(): string[] {
+        return [...this.#routes.keys()];
+    }
+
+    #createBot(route: IBotRoute): Bot {
+        const bot = new Bot(route.platform.platformName, route.controller);
+        bot.setAppConfig({
+            ...route.config,
+            tokens: {
+                ...route.config?.tokens,
+                [route.platform.platformName]: {
+                    ...route.config?.tokens?.[route.platform.platformName],
+                    ...route.tokens,
+                },
+            },
+        });
+        if (route.params) {
+            bot.setPlatformParams(route.params);
+        }
+        bot.use(route.platform);
+        route.setup?.(bot);
+        return bot;
+    }
+
+    #resolve(path: string): TWebhookProcessor | undefined {
+        const bot = this.#routes.get(path);
+        if (!bot) {
+            return undefined;
+        }
+        return (request, readBody) => bot.handleRequest(request, readBody);
+    }
+
+    /**
+     * Обрабатывает webhook-запрос приложением, которое связано с путем запроса
+     * @param request - Запрос. Путь указывается в `request.path`
+     * @param readBody - Функция чтения тела запроса. Вызывается, если тело не передано в `request.body`
+     * @returns HTTP-статус и тело ответа. Если маршрут не найден, возвращается статус 404
+     */
+    public handleRequest(request: IWebhookRequest, readBody?: TReadBody): Promise<IBotResponse> {
+        const processor = this.#resolve(getWebhookPath(request.path));
+        if (!processor) {
+            return Promise.resolve({ ...NOT_FOUND_RESPONSE });
+        }
+        return processor(request, readBody);
+    }
+
+    /**
+     * Обрабатывает запрос node:http или Express и отправляет ответ
+     * @param req - Объект входящего запроса
+     * @param res - Объект ответа
+     * @param responseCb - Пользовательская обработка ответа
+     */
+    public webhookHandle(
+        req: TNodeWebhookRequest,
+        res: ServerResponse,
+        responseCb?: TBotResponseCb,
+    ): Promise<void> {
+        return handleNodeRequest(
+            (request, readBody) => this.handleRequest(request, readBody),
+            req,
+            res,
+            { responseCb },
+        );
+    }
+
+    /**
+     * Создает обработчик запросов для HTTP-фреймворка. Запросы по неизвестным путям получают ответ со статусом 404
+     * @param options - Параметры обработчика
+     */
+    public createHandler<TFramework extends TWebhookFramework = 'node'>(
+        options: TBotRouterHandlerOptions<TFramework> = {},
+    ): IWebhookHandlers[TFramework] {
+        return createWebhookHandler(
+            (request, readBody) => this.handleRequest(request, readBody),
+            options,
+        );
+    }
+
+    /**
+     * Создает middleware для Express или Koa. Запросы по неизвестным путям передаются следующему обработчику
+     * @param options - Параметры middleware
+     */
+    public middleware<TFramework extends keyof IWebhookMiddlewares = 'express'>(
+        options: IWebhookRoutingOptions<TFramework> = {},
+    ): IWebhookMiddlewares[TFramework] {
+        return createWebhookMiddleware((path) => this.#resolve(path), options);
+    }
+
+    /**
+     * Завершает работу всех приложений роутера
+     */
+    public async close(): Promise<void> {
+        await Promise.all([...this.#routes.values()].map((bot) => bot.close()));
+    }
+}
@@ -8,13 +8,116 @@
  */
 export * from './interfaces/IBot';
 export * from './interfaces/ILogger';
+export * from './interfaces/ITracer';
+export * from './interfaces/IOutboundQueue';
 export * from './interfaces/IAppContext';
 export * from './Bot';
+export * from './BotRouter';
 export * from './AppContext';
 export {
     FALLBACK_COMMAND,
+    type ICommandOptions,
     type ICommandParam,
     type TCommandResolver,
     type TSlots,
     type IStepParam,
+    EBotEvent,
+    type TEventHandler,
 } from './utils/CommandReg';
+export {
+    type TCommandParams,
+    type TCommandParamType,
+    type ICommandParamSlot,
+} from './utils/CommandParams';
+export {
+    type IFuzzyMatch,
+    type IFuzzyMatchOptions,
+    type TFuzzyScorer,
+    DEFAULT_FUZZY_THRESHOLD,
+    fuzzyScore,
+} from './utils/FuzzyMatch';
+export {
+    Scene,
+    Wizard,
+    SceneManager,
+    SCENE_STEP_PREFIX,
+    type ISceneFrame,
+    type TSceneHandler,
+} from './utils/Scene';
+export {
+    Form,
+    DEFAULT_FORM_ERROR,
+    type IFormField,
+    type TFormFields,
+    type TFormFieldType,
+    type TFormCompleteHandler,
+} from './utils/Form';
+export {
+    Scheduler,
+    type IScheduledJob,
+    type IScheduleMessage,
+    type ISchedulerOptions,
+    type TSchedulePayload,
+    type TScheduleWhen,
+    type TSchedulerSender,
+} from './utils/Scheduler';
+export {
+    Broadcaster,
+    type IBroadcastOptions,
+    type IBroadcastResult,
+    type IBroadcastUser,
+    type TBroadcastMessage,
+} from './utils/Broadcast';
+export {
+    BotError,
+    ControllerNotDefinedError,
+    EmptyRequestError,
+    MethodNotAllowedError,
+    InvalidJsonError,
+    PayloadTooLargeError,
+    InvalidSignatureError,
+    PlatformNotDetectedError,
+    InvalidQueryError,
+    CommandHandlerError,
+    StepHandlerError,
+    EventHandlerError,
+    MiddlewareError,
+    type IBotErrorOptions,
+} from './utils/Errors';
+export {
+    MAX_REQUEST_SIZE,
+    DEFAULT_ALLOWED_METHODS,
+    DEFAULT_BODY_PARSERS,
+    type TReadBody,
+    type IWebhookRequest,
+    type IWebhookHandlerOptions,
+    type IWebhookMiddlewareOptions,
+    type IWebhookRoutingOptions,
+    type IWebhookHandlers,
+    type IWebhookMiddlewares,
+    type TWebhookFramework,
+    type TWebhookHandler,
+    type TNodeWebhookRequest,
+    type TExpressMiddleware,
+    type IFastifyRequest,
+    type IFastifyReply,
+    type TFastifyWebhookHandler,
+    type IKoaContext,
+    type TKoaNext,
+    type TKoaWebhookHandler,
+    type TKoaMiddleware,
+} from './utils/WebhookHandler';
+export {
+    type IServerlessEvent,
+    type IServerlessResponse,
+    type TLambdaHandler,
+    type TYandexFunctionHandler,
+    type TFetchHandler,
+} from './utils/Serverless';
+export { getRequestContext, type IRequestContext } from './utils/RequestContext';
+export {
+    OutboundQueue,
+    DbOutboundQueue,
+    isOutboundQueued,
+    type IOutboundQueueOptions,
+} from './utils/OutboundQueue';
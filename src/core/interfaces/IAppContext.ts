@@ -18,6 +18,19 @@ import { INlu } from '../../components';
  * - `strict_prod` — строгий продакшн: запрещены любые отклонения от спецификации платформ, включена полная валидация.
  */
 export type TAppMode = 'dev' | 'prod' | 'strict_prod';
+/**
+ * Область хранения пользовательских данных (`userData`).
+ * - `user` — данные привязаны к пользователю, независимо от чата.
+ * - `chat` — данные общие для всех участников чата.
+ * - `userInChat` — у каждого пользователя свои данные в каждом чате.
+ */
+export type TStorageScope = 'user' | 'chat' | 'userInChat';
+/**
+ * Режим обработки сообщений из групповых чатов.
+ * - `all` — обрабатываются все сообщения.
+ * - `addressed` — обрабатываются только сообщения, адресованные боту (упоминание, ответ на сообщение бота, команда).
+ */
+export type TGroupChatMode = 'all' | 'addressed';
 /**
  * Тип для HTTP-клиента, используемого в приложении.
  *
@@ -39,6 +52,125 @@ export type TAppMode = 'dev' | 'prod' | 'strict_prod';
  */
 export type THttpClient = (url: URL | RequestInfo, init?: RequestInit) => Promise<Response>;
 
+/**
+ * Политика повторных попыток HTTP-запроса.
+ * Задержка перед повторной попыткой растет экспоненциально: `baseDelay * 2^(попытка - 1)`, но не больше `maxDelay`.
+ * Если сервер вернул заголовок `Retry-After`, используется указанное в нем время.
+ */
+export interface IRequestRetryPolicy {
+    /**
+     * Количество повторных попыток после первой неудачной. По умолчанию 0 — запрос не повторяется
+     */
+    retries?: number;
+    /**
+     * Задержка перед первой повторной попыткой в миллисекундах. По умолчанию 300
+     */
+    baseDelay?: number;
+    /**
+     * Максимальная задержка между попытками в миллисекундах. По умолчанию 10000
+     */
+    maxDelay?: number;
+    /**
+     * Случайное отклонение задержки в долях от ее значения (от 0 до 1). По умолчанию 0.2 — задержка отклоняется на ±20%
+     */
+    jitter?: number;
+    /**
+     * HTTP-статусы, при которых запрос повторяется. По умолчанию 408, 425, 429, 500, 502, 503 и 504.
+     * Ошибки сети и превышение времени ожидания повторяются всегда
+     */
+    retryStatuses?: number[];
+}
+
+/**
+ * Параметры автоматического выключателя (circuit breaker).
+ * Если запросы к одному хосту подряд завершаются ошибкой, выключатель размыкается и следующие запросы к этому хосту
+ * сразу завершаются ошибкой, не дожидаясь ответа сервера. По истечении `resetTimeout` выполняется пробный запрос:
+ * при успехе выключатель замыкается, при ошибке снова размыкается.
+ */
+export interface ICircuitBreakerPolicy {
+    /**
+     * Количество ошибок подряд, после которого выключатель размыкается. По умолчанию 5
+     */
+    failureThreshold?: number;
+    /**
+     * Время в миллисекундах, на которое размыкается выключатель. По умолчанию 30000
+     */
+    resetTimeout?: number;
+}
+
+/**
+ * Политика выполнения HTTP-запросов к API платформ и внешним сервисам.
+ *
+ * @example
+ * ```ts
+ * bot.setRequestPolicy({
+ *     retry: { retries: 2, baseDelay: 500 },
+ *     circuitBreaker: { failureThreshold: 5, resetTimeout: 30000 },
+ * });
+ * ```
+ */
+export interface IRequestPolicy {
+    /**
+     * Политика повторных попыток. Используется для всех запросов, если у запроса не задана своя политика
+     */
+    retry?: IRequestRetryPolicy;
+    /**
+     * Параметры автоматического выключателя для каждого хоста. Если не заданы, выключатель не используется
+     */
+    circuitBreaker?: ICircuitBreakerPolicy | null;
+}
+
+/**
+ * Функция разбора тела webhook-запроса
+ * @param body - Тело запроса
+ * @returns Распарсенный запрос
+ */
+export type TBodyParser = (body: string) => unknown;
+
+/**
+ * Параметры обработки webhook-запросов и встроенного HTTP-сервера
+ *
+ * @example
+ * ```ts
+ * bot.setServerOptions({
+ *     maxBodySize: 512 * 1024,
+ *     allowedMethods: ['POST', 'PUT'],
+ *     bodyParsers: { 'text/xml': (body) => parseXml(body) },
+ *     requestTimeout: 10000,
+ * });
+ * ```
+ */
+export interface IServerOptions {
+    /**
+     * Максимальный размер тела запроса в байтах. По умолчанию 2 МБ.
+     * Для отдельной платформы ограничение задается через `maxBodySize` адаптера
+     */
+    maxBodySize?: number;
+    /**
+     * Допустимые HTTP-методы. По умолчанию `['POST']`.
+     * На запросы с другими методами возвращается статус 405
+     */
+    allowedMethods?: string[];
+    /**
+     * Функции разбора тела запроса по типу содержимого (`Content-Type`). Дополняют и переопределяют стандартные функции
+     * для `application/json` и `application/x-www-form-urlencoded`.
+     * Тело запроса с неизвестным типом содержимого разбирается как JSON
+     */
+    bodyParsers?: Record<string, TBodyParser>;
+    /**
+     * Время ожидания получения запроса встроенным HTTP-сервером в миллисекундах. Применяется при вызове `bot.start()`
+     */
+    requestTimeout?: number;
+    /**
+     * Включает TCP keep-alive для соединений встроенного HTTP-сервера. Применяется при вызове `bot.start()`
+     */
+    keepAlive?: boolean;
+    /**
+     * Время ожидания следующего запроса в keep-alive соединении в миллисекундах. Применяется при вызове `bot.start()`
+     */
+    keepAliveTimeout?: number;
+}
+
 /**
  * @interface IDir
  * Интерфейс для работы с директориями
@@ -272,6 +404,18 @@ export interface IAppConfig {
      * Рекомендуется подключать адаптер для работы с базой данных, иначе данные для некоторых платформ могут потеряться.
      */
     isLocalStorage?: boolean;
+    /**
+     * Область хранения пользовательских данных в базе данных.
+     * Определяет, по какому идентификатору загружаются и сохраняются данные из `userData`.
+     * По умолчанию `user`.
+     */
+    storageScope?: TStorageScope;
+    /**
+     * Режим обработки сообщений из групповых чатов.
+     * При значении `addressed` бот не реагирует на сообщения, в которых к нему не обращались.
+     * По умолчанию `all`.
+     */
+    groupChatMode?: TGroupChatMode;
     /**
      * Путь к файлу с переменными окружения(.env).
      * Если указан путь к .env-файлу, фреймворк попытается загрузить переменные из него. Если файл не найден — используются переменные из process.env.
@@ -405,8 +549,7 @@ export type IAppPluginFn<TArgs extends unknown[] = unknown[], TResult = unknown>
  * Общий тип, который объединяет IAppPlugin и IAppPluginFn
  */
 export type TAppPluginData<TArgs extends unknown[] = unknown[], TResult = unknown> =
-    | IAppPlugin<TArgs, TResult>
-    | IAppPluginFn<TArgs, TResult>;
+    IAppPlugin<TArgs, TResult> | IAppPluginFn<TArgs, TResult>;
 
 /**
  * Тип для подключения любого пользовательского плагина.
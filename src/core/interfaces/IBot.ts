@@ -9,6 +9,8 @@ import { IncomingMessage, ServerResponse } from 'node:http';
 import { IButtonType, Buttons, IImageType, ISound } from '../../components';
 import { IModelRes, TQueryCb, IQuery, IQueryData } from '../../models';
 import { Bot } from '../Bot';
+import { IOutboundMessage, TOutboundResult } from './IOutboundQueue';
+import type { BotError } from '../utils/Errors';
 
 /**
  * Тип содержимого запроса к голосовому навыку или боту
@@ -89,6 +91,34 @@ export type TBotResponseCb = (
     state: IBotResponseState,
 ) => void;
 
+/**
+ * Контекст ошибки, передаваемый в обработчик `bot.onError()`
+ */
+export interface IErrorContext {
+    /**
+     * Контроллер, при обработке запроса которого произошла ошибка.
+     * Равен null, если ошибка произошла до создания контроллера (например, при разборе webhook-запроса)
+     */
+    controller: BotController | null;
+    /**
+     * Платформа, от которой пришел запрос. Равна null, если платформу определить не удалось
+     */
+    appType: string | null;
+    /**
+     * Ответ на webhook-запрос. Обработчик может изменить HTTP-статус и тело ответа.
+     * Равен null, если ошибка произошла при обработке команды, шага, события или middleware —
+     * в этом случае ответ пользователю задается через `controller`
+     */
+    response: IBotResponse | null;
+}
+
+/**
+ * Обработчик ошибок приложения
+ * @param error Ошибка
+ * @param ctx Контекст ошибки
+ */
+export type TErrorHandler = (error: BotError, ctx: IErrorContext) => void | Promise<void>;
+
 /**
  * Интерфейс для плагина в виде объекта.
  */
@@ -296,6 +326,29 @@ export interface IPlatformAdapter<TQuery = unknown> extends IPlugin {
      */
     send(userId: string | number, controllerOrText: BotController | string): unknown | boolean;
 
+    /**
+     * Запускает получение обновлений от платформы без webhook (например, long polling).
+     * Определяется только для платформ, которые поддерживают такой режим работы.
+     * Каждое полученное обновление необходимо передать в `bot.run(platformName, update)`.
+     * @param bot Экземпляр приложения
+     * @returns true, если получение обновлений запущено
+     */
+    startPolling?(bot: Bot): boolean;
+
+    /**
+     * Выполняет запрос к API платформы из очереди исходящих сообщений.
+     * Определяется только для платформ, которые поддерживают очередь исходящих сообщений.
+     * Метод должен определить, является ли ошибка временной (запрос нужно повторить) или постоянной.
+     * @param message Исходящее сообщение
+     */
+    executeOutbound?(message: IOutboundMessage): Promise<TOutboundResult>;
+
+    /**
+     * Останавливает получение обновлений, запущенное через {@link startPolling}.
+     * Вызывается автоматически при `bot.close()`.
+     */
+    stopPolling?(): Promise<void>;
+
     /**
      * Определяет лимит платформы.
      * В значение указывается количество запросов, которое можно отправить платформе за 1 секунду.
@@ -303,6 +356,12 @@ export interface IPlatformAdapter<TQuery = unknown> extends IPlugin {
      * По умолчанию null
      */
     limit: number | null;
+
+    /**
+     * Максимальный размер тела запроса от платформы в байтах.
+     * Если не указан, используется `maxBodySize` из `bot.setServerOptions()`
+     */
+    maxBodySize?: number | null;
 }
 
 /**
@@ -359,6 +418,23 @@ export interface IDatabaseAdapter extends IPlugin {
      * @param isOne Определяет нужно ли вернуть только 1 найденную запись, либо отдать все доступные данные.
      */
     select: (selectData: IQuery, where: IQueryData | null, isOne: boolean) => Promise<IModelRes>;
+    /**
+     * Выполняет постраничную выборку, отсортированную по первичному ключу.
+     * Возвращает не больше `limit` записей, первичный ключ которых больше `cursor`.
+     * Используется для обхода больших таблиц (например, при рассылке).
+     *
+     * Необязательный метод. Если адаптер его не реализует, модель выполняет обычную выборку и разбивает ее на страницы сама.
+     * @param selectData Дополнительная информация для запроса. Содержит информацию о таблице и структуре.
+     * @param where Сам запрос
+     * @param cursor Значение первичного ключа последней записи предыдущей страницы. Для первой страницы null
+     * @param limit Максимальное количество записей на странице
+     */
+    selectPage?: (
+        selectData: IQuery,
+        where: IQueryData | null,
+        cursor: string | number | null,
+        limit: number,
+    ) => Promise<IModelRes>;
     /**
      * Выполняет INSERT-запрос.
      * @param insertData Дополнительная информация для запроса. Содержит сам запроса, а также название таблицы и прочие данные.
@@ -0,0 +1,108 @@
+import type { AppContext } from '../AppContext';
+import type { TAppType } from './IAppContext';
+
+/**
+ * Исходящее сообщение — запрос к API платформы, который выполняется через очередь.
+ * Содержит только сериализуемые данные, чтобы сообщение можно было сохранить в базу данных.
+ * Токены доступа в параметры не добавляются, они подставляются платформой при выполнении запроса.
+ * Токен, с которым был создан запрос, хранится в поле `token` и в базу данных не сохраняется.
+ */
+export interface IOutboundMessage {
+    /**
+     * Уникальный идентификатор сообщения
+     */
+    id: string;
+    /**
+     * Платформа, к API которой выполняется запрос
+     */
+    platform: TAppType;
+    /**
+     * Метод API платформы (например, `sendMessage` для Telegram или `messages.send` для VK)
+     */
+    method: string;
+    /**
+     * Параметры запроса
+     */
+    params: Record<string, unknown>;
+    /**
+     * Токен доступа, с которым был создан запрос (например, переданный через `initToken`).
+     * Не сохраняется в базу данных. Если не указан, используется токен из настроек приложения
+     */
+    token?: string | null;
+    /**
+     * Количество выполненных попыток
+     */
+    attempts: number;
+    /**
+     * Время создания сообщения в миллисекундах
+     */
+    createdAt: number;
+    /**
+     * Текст последней ошибки
+     */
+    error?: string;
+}
+
+/**
+ * Результат выполнения исходящего сообщения:
+ * - `ok` — запрос выполнен, `data` содержит ответ платформы;
+ * - `retry` — временная ошибка (превышен лимит запросов, ошибка сервера или сети), запрос нужно повторить.
+ *   В `retryAfter` платформа может указать время ожидания в миллисекундах;
+ * - `fail` — постоянная ошибка, повторять запрос бессмысленно.
+ */
+export type TOutboundResult =
+    | { status: 'ok'; data: unknown }
+    | { status: 'retry'; error: string; retryAfter?: number }
+    | { status: 'fail'; error: string };
+
+/**
+ * Результат добавления сообщения в очередь, если его не удалось отправить сразу и оно будет отправлено повторно в фоне.
+ * Сообщение принято очередью, поэтому отправлять его еще раз не нужно
+ */
+export interface IOutboundQueued {
+    /**
+     * Статус сообщения
+     */
+    status: 'queued';
+    /**
+     * Идентификатор сообщения в очереди
+     */
+    messageId: string;
+}
+
+/**
+ * Данные для добавления сообщения в очередь
+ */
+export type TOutboundMessageData = Pick<
+    IOutboundMessage,
+    'platform' | 'method' | 'params' | 'token'
+>;
+
+/**
+ * Очередь исходящих сообщений.
+ * Через очередь чат-платформы отправляют ответы пользователю, что позволяет повторять запросы при временных ошибках.
+ * Устанавливается через `bot.setOutboundQueue()`.
+ *
+ * Для выполнения сообщения очередь вызывает `executeOutbound` адаптера платформы.
+ */
+export interface IOutboundQueue {
+    /**
+     * Вызывается при подключении очереди к приложению
+     * @param appContext - Контекст приложения
+     */
+    init?(appContext: AppContext): void;
+
+    /**
+     * Добавляет сообщение в очередь. Метод вызывается при формировании ответа на webhook, поэтому не должен ждать
+     * повторных попыток отправки
+     * @param message - Данные сообщения
+     * @returns Ответ платформы, {@link IOutboundQueued}, если сообщение будет отправлено повторно в фоне,
+     * или null, если сообщение не удалось отправить
+     */
+    push(message: TOutboundMessageData): Promise<unknown>;
+
+    /**
+     * Вызывается при завершении работы приложения
+     */
+    close?(): void | Promise<void>;
+}
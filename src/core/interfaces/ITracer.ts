@@ -0,0 +1,86 @@
+/**
+ * Названия участков обработки запроса, для которых создаются спаны трассировки
+ */
+export enum ETraceSpan {
+    /**
+     * Обработка webhook-запроса
+     */
+    WEBHOOK = 'umbot.webhook',
+    /**
+     * Обработка запроса приложением (`bot.run`)
+     */
+    RUN = 'umbot.run',
+    /**
+     * Определение платформы
+     */
+    PLATFORM_DETECT = 'umbot.platform.detect',
+    /**
+     * Разбор запроса адаптером платформы (`setQueryData`)
+     */
+    SET_QUERY_DATA = 'umbot.platform.set_query_data',
+    /**
+     * Выполнение цепочки middleware
+     */
+    MIDDLEWARE = 'umbot.middleware',
+    /**
+     * Поиск шага или команды, которые обработают запрос
+     */
+    RESOLVE = 'umbot.resolve',
+    /**
+     * Выполнение обработчика команды, шага или метода `action`
+     */
+    HANDLER = 'umbot.handler',
+    /**
+     * Загрузка данных пользователя из базы данных
+     */
+    DB_LOAD = 'umbot.db.load',
+    /**
+     * Сохранение данных пользователя в базу данных
+     */
+    DB_SAVE = 'umbot.db.save',
+    /**
+     * Запрос к API платформы или внешнему сервису
+     */
+    REQUEST = 'umbot.request',
+    /**
+     * Формирование ответа адаптером платформы (`getContent`)
+     */
+    GET_CONTENT = 'umbot.platform.get_content',
+}
+
+/**
+ * Атрибуты спана
+ */
+export type TTraceAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Спан, который передается в отслеживаемую функцию
+ */
+export interface ITraceSpan {
+    /**
+     * Добавляет атрибуты спана
+     * @param attributes - Атрибуты
+     */
+    setAttributes(attributes: TTraceAttributes): void;
+
+    /**
+     * Отмечает спан как завершившийся с ошибкой
+     * @param error - Ошибка
+     */
+    setError(error: unknown): void;
+}
+
+/**
+ * Интерфейс для своей реализации трассировки обработки запросов
+ */
+export interface ITracer {
+    /**
+     * Выполняет функцию внутри спана. Если функция возвращает Promise, спан завершается после его выполнения.
+     * Если функция выбрасывает исключение, спан отмечается как завершившийся с ошибкой
+     * @param name - Название спана
+     * @param attributes - Атрибуты спана
+     * @param fn - Отслеживаемая функция
+     * @returns Результат функции
+     */
+    trace<T>(name: string, attributes: TTraceAttributes, fn: (span: ITraceSpan) => T): T;
+}
@@ -0,0 +1,201 @@
+/**
+ * Начальная вместимость массивов узлов
+ */
+const INITIAL_CAPACITY = 64;
+/**
+ * Приоритет узла, в котором не заканчивается ни одна подстрока
+ */
+const NO_PRIORITY = 0x7fffffff;
+
+/**
+ * Автомат Ахо — Корасик для поиска подстрок в тексте за один проход.
+ * Каждой подстроке задается приоритет. При поиске возвращается наименьший приоритет среди всех подстрок, которые
+ * встречаются в тексте, поэтому время поиска зависит только от длины текста, а не от количества подстрок.
+ *
+ * Узлы хранятся в типизированных массивах, а дочерние узлы — в виде односвязного списка, благодаря чему автомат на
+ * десятки тысяч подстрок занимает немного памяти.
+ *
+ * @example
+ * ```ts
+ * const automaton = new AhoCorasick();
+ * automaton.add('погода', 0);
+ * automaton.add('помощь', 1);
+ * automaton.search('какая сегодня погода'); // -> 0
+ * automaton.search('привет'); // -> -1
+ * ```
+ * @internal Используется только внутри фреймворка
+ */
+export class AhoCorasick {
+    /**
+     * Код символа, по которому осуществляется переход в узел
+     */
+    #code: Uint16Array = new Uint16Array(INITIAL_CAPACITY);
+    /**
+     * Первый дочерний узел
+     */
+    #firstChild: Int32Array = new Int32Array(INITIAL_CAPACITY).fill(-1);
+    /**
+     * Следующий узел с тем же родителем
+     */
+    #nextSibling: Int32Array = new Int32Array(INITIAL_CAPACITY).fill(-1);
+    /**
+     * Наименьший приоритет среди подстрок, которые заканчиваются в узле или в его суффиксах
+     */
+    #priority: Int32Array = new Int32Array(INITIAL_CAPACITY).fill(NO_PRIORITY);
+    /**
+     * Количество узлов
+     */
+    #size = 1;
+    /**
+     * Переходы из корня. Вынесены отдельно, так как к корню автомат возвращается чаще всего
+     */
+    readonly #rootChildren = new Map<number, number>();
+    /**
+     * Суффиксные ссылки
+     */
+    #fail: Int32Array = new Int32Array(1);
+    #isBuilt = true;
+
+    /**
+     * Количество узлов автомата
+     */
+    public get size(): number {
+        return this.#size;
+    }
+
+    /**
+     * Добавляет подстроку
+     * @param pattern - Подстрока
+     * @param priority - Приоритет. Чем меньше значение, тем выше приоритет
+     */
+    public add(pattern: string, priority: number): void {
+        let node = 0;
+        for (let i = 0; i < pattern.length; i++) {
+            const code = pattern.charCodeAt(i);
+            let next = this.#getChild(node, code);
+            if (next === -1) {
+                if (this.#size === this.#code.length) {
+                    this.#grow();
+                }
+                next = this.#size++;
+                this.#code[next] = code;
+                this.#nextSibling[next] = this.#firstChild[node];
+                this.#firstChild[node] = next;
+                if (node === 0) {
+                    this.#rootChildren.set(code, next);
+                }
+            }
+            node = next;
+        }
+        if (priority < this.#priority[node]) {
+            this.#priority[node] = priority;
+        }
+        this.#isBuilt = false;
+    }
+
+    /**
+     * Строит суффиксные ссылки. Вызывается автоматически при первом поиске после добавления подстрок
+     */
+    public build(): void {
+        const size = this.#size;
+        const fail = new Int32Array(size);
+        const queue = new Int32Array(size);
+        let tail = 0;
+        for (let child = this.#firstChild[0]; child !== -1; child = this.#nextSibling[child]) {
+            queue[tail++] = child;
+        }
+        // Обход в ширину: суффиксная ссылка узла всегда ведет в узел меньшей глубины
+        for (let head = 0; head < tail; head++) {
+            const node = queue[head];
+            if (this.#priority[fail[node]] < this.#priority[node]) {
+                this.#priority[node] = this.#priority[fail[node]];
+            }
+            for (
+                let child = this.#firstChild[node];
+                child !== -1;
+                child = this.#nextSibling[child]
+            ) {
+                const code = this.#code[child];
+                let state = fail[node];
+                let next = this.#getChild(state, code);
+                while (next === -1 && state !== 0) {
+                    state = fail[state];
+                    next = this.#getChild(state, code);
+                }
+                fail[child] = next === -1 ? 0 : next;
+                queue[tail++] = child;
+            }
+        }
+        this.#fail = fail;
+        this.#isBuilt = true;
+    }
+
+    /**
+     * Ищет подстроки в тексте
+     * @param text - Текст
+     * @returns Наименьший приоритет среди найденных подстрок или -1, если ни одна подстрока не найдена
+     */
+    public search(text: string): number {
+        if (!this.#isBuilt) {
+            this.build();
+        }
+        let best = this.#priority[0];
+        let state = 0;
+        for (let i = 0; i < text.length; i++) {
+            const code = text.charCodeAt(i);
+            let next = this.#getChild(state, code);
+            while (next === -1 && state !== 0) {
+                state = this.#fail[state];
+                next = this.#getChild(state, code);
+            }
+            state = next === -1 ? 0 : next;
+            if (this.#priority[state] < best) {
+                best = this.#priority[state];
+            }
+        }
+        return best === NO_PRIORITY ? -1 : best;
+    }
+
+    /**
+     * Увеличивает вместимость массивов узлов в 2 раза
+     */
+    #grow(): void {
+        const capacity = this.#code.length * 2;
+        const code = new Uint16Array(capacity);
+        code.set(this.#code);
+        this.#code = code;
+        this.#firstChild = this.#growArray(this.#firstChild, capacity, -1);
+        this.#nextSibling = this.#growArray(this.#nextSibling, capacity, -1);
+        this.#priority = this.#growArray(this.#priority, capacity, NO_PRIORITY);
+    }
+
+    /**
+     * Копирует массив в новый массив большего размера
+     * @param array - Исходный массив
+     * @param capacity - Новый размер
+     * @param value - Значение для новых элементов
+     */
+    #growArray(array: Int32Array, capacity: number, value: number): Int32Array {
+        const result = new Int32Array(capacity).fill(value, array.length);
+        result.set(array);
+        return result;
+    }
+
+    /**
+     * Возвращает дочерний узел по коду символа
+     * @param node - Узел
+     * @param code - Код символа
+     * @returns Дочерний узел или -1, если перехода нет
+     */
+    #getChild(node: number, code: number): number {
+        if (node === 0) {
+            return this.#rootChildren.get(code) ?? -1;
+        }
+        for (let child = this.#firstChild[node]; child !== -1; child = this.#nextSibling[child]) {
+            if (this.#code[child] === code) {
+                return child;
+            }
+        }
+        return -1;
+    }
+}
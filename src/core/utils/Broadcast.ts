@@ -0,0 +1,331 @@
+import { randomUUID } from 'node:crypto';
+import type { AppContext } from '../AppContext';
+import type { TAppType } from '../interfaces/IAppContext';
+import type { IDbResult } from '../interfaces/IBot';
+import { BotController } from '../../controller';
+import {
+    BroadcastDeliveries,
+    Broadcasts,
+    TDataType,
+    TDeliveryStatus,
+    TMetaType,
+    UsersData,
+} from '../../models';
+import { isOutboundQueued } from './OutboundQueue';
+import { createMessageContent, TSchedulePayload, TSchedulerSender } from './Scheduler';
+
+/**
+ * Получатель рассылки
+ */
+export interface IBroadcastUser {
+    /**
+     * Идентификатор пользователя
+     */
+    userId: string | number;
+    /**
+     * Данные пользователя (`userData`)
+     */
+    data: TDataType;
+    /**
+     * Метаданные пользователя
+     */
+    meta: TMetaType;
+}
+
+/**
+ * Сообщение рассылки: текст, объект с текстом и кнопками ({@link TSchedulePayload}), контроллер
+ * или функция, которая формирует сообщение для конкретного пользователя
+ */
+export type TBroadcastMessage =
+    TSchedulePayload | BotController | ((user: IBroadcastUser) => TSchedulePayload | BotController);
+
+/**
+ * Параметры рассылки
+ */
+export interface IBroadcastOptions {
+    /**
+     * Идентификатор рассылки. Если рассылка с таким идентификатором была прервана, она продолжится с места остановки.
+     * Если не указан, генерируется автоматически
+     */
+    id?: string;
+    /**
+     * Платформа, пользователям которой отправляется сообщение
+     */
+    platform: TAppType;
+    /**
+     * Сообщение
+     */
+    message: TBroadcastMessage;
+    /**
+     * Функция отбора получателей. Если вернуть false, сообщение пользователю не отправляется
+     * @param user - Получатель
+     */
+    filter?: (user: IBroadcastUser) => boolean | Promise<boolean>;
+    /**
+     * Если true, сообщения не отправляются, а только подсчитывается количество получателей
+     */
+    dryRun?: boolean;
+    /**
+     * Количество пользователей, загружаемых из базы данных за один запрос. По умолчанию 100
+     */
+    pageSize?: number;
+    /**
+     * Максимальное количество сообщений в секунду. По умолчанию используется `limit` платформы
+     */
+    limit?: number | null;
+}
+
+/**
+ * Результат рассылки
+ */
+export interface IBroadcastResult {
+    /**
+     * Идентификатор рассылки
+     */
+    id: string;
+    /**
+     * Количество получателей
+     */
+    total: number;
+    /**
+     * Количество успешно отправленных сообщений, включая сообщения, которые очередь исходящих сообщений
+     * отправит повторно в фоне
+     */
+    sent: number;
+    /**
+     * Количество сообщений, которые не удалось отправить
+     */
+    failed: number;
+    /**
+     * Количество получателей, которым сообщение было отправлено до перезапуска рассылки
+     */
+    skipped: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Рассылка сообщения всем сохраненным пользователям платформы.
+ *
+ * Пользователи выбираются из таблицы `UsersData` постранично (по первичному ключу), поэтому рассылка не загружает
+ * всю таблицу в память. Скорость отправки ограничивается `limit` платформы.
+ * Статус доставки каждому пользователю сохраняется в таблицу {@link BroadcastDeliveries},
+ * а прогресс рассылки — в таблицу {@link Broadcasts}, поэтому после сбоя рассылку можно продолжить,
+ * повторно вызвав ее с тем же идентификатором.
+ *
+ * Используется через `bot.broadcast()`.
+ */
+export class Broadcaster {
+    readonly #appContext: AppContext;
+    readonly #sender: TSchedulerSender;
+    #lastSendTime: number = 0;
+
+    /**
+     * @param appContext - Контекст приложения
+     * @param sender - Функция отправки сообщения
+     */
+    constructor(appContext: AppContext, sender: TSchedulerSender) {
+        this.#appContext = appContext;
+        this.#sender = sender;
+    }
+
+    /**
+     * Выполняет рассылку
+     * @param options - Параметры рассылки
+     * @returns Результат рассылки или null, если рассылку выполнить нельзя или не удалось получить получателей
+     */
+    public async run(options: IBroadcastOptions): Promise<IBroadcastResult | null> {
+        if (!this.#isAvailable(options.platform)) {
+            return null;
+        }
+        const result: IBroadcastResult = {
+            id: options.id ?? randomUUID(),
+            total: 0,
+            sent: 0,
+            failed: 0,
+            skipped: 0,
+        };
+        let cursor: string | number | null = null;
+        if (!options.dryRun && options.id) {
+            const state = new Broadcasts(this.#appContext);
+            if (await state.whereOne({ broadcastId: options.id })) {
+                result.total = Number(state.state.total) || 0;
+                result.sent = Number(state.state.sent) || 0;
+                result.failed = Number(state.state.failed) || 0;
+                result.skipped = Number(state.state.skipped) || 0;
+                if (state.state.status === 'done') {
+                    return result;
+                }
+                cursor = state.state.cursor ?? null;
+            }
+        }
+        const interval = this.#getInterval(options);
+        const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+        const users = new UsersData(this.#appContext);
+        let isLastPage = false;
+        while (!isLastPage) {
+            const res = await users.wherePage({ platform: options.platform }, cursor, pageSize);
+            if (!res.status) {
+                // Рассылка остается незавершенной, чтобы при повторном запуске продолжить ее с текущей страницы
+                this.#appContext.logError(
+                    `Broadcaster:run(): Не удалось получить получателей рассылки "${result.id}": ${res.error}`,
+                );
+                if (!options.dryRun) {
+                    await this.#saveState(options.platform, result, cursor, false);
+                }
+                return null;
+            }
+            const records = (Array.isArray(res.data) ? res.data : []) as IDbResult[];
+            for (const record of records) {
+                await this.#process(record, result, options, interval);
+            }
+            isLastPage = records.length < pageSize;
+            if (records.length) {
+                cursor = records[records.length - 1].userId as string | number;
+            }
+            if (!options.dryRun) {
+                await this.#saveState(options.platform, result, cursor, isLastPage);
+            }
+        }
+        return result;
+    }
+
+    #isAvailable(platform: TAppType): boolean {
+        const adapter = this.#appContext.platforms[platform];
+        if (!adapter) {
+            this.#appContext.logError(`Broadcaster:run(): Платформа "${platform}" не подключена.`);
+            return false;
+        }
+        if (adapter.isVoice) {
+            this.#appContext.logError(
+                `Broadcaster:run(): Платформа "${platform}" не поддерживает отправку сообщений без запроса пользователя.`,
+            );
+            return false;
+        }
+        if (!this.#appContext.database.adapter) {
+            this.#appContext.logError(
+                'Broadcaster:run(): Для рассылки необходимо подключить адаптер базы данных.',
+            );
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Возвращает минимальный интервал между отправкой сообщений в миллисекундах
+     */
+    #getInterval(options: IBroadcastOptions): number {
+        const limit =
+            options.limit === undefined
+                ? this.#appContext.platforms[options.platform]?.limit
+                : options.limit;
+        return limit ? 1000 / limit : 0;
+    }
+
+    async #process(
+        record: IDbResult,
+        result: IBroadcastResult,
+        options: IBroadcastOptions,
+        interval: number,
+    ): Promise<void> {
+        const userData = new UsersData(this.#appContext);
+        userData.init(record);
+        const user: IBroadcastUser = {
+            userId: userData.userId as string | number,
+            data: userData.data,
+            meta: userData.meta,
+        };
+        if (options.filter && !(await options.filter(user))) {
+            return;
+        }
+        result.total++;
+        if (options.dryRun) {
+            return;
+        }
+        const delivery = new BroadcastDeliveries(this.#appContext);
+        const deliveryId = BroadcastDeliveries.getDeliveryId(result.id, user.userId);
+        if ((await delivery.whereOne({ deliveryId })) && delivery.state.status !== 'failed') {
+            result.skipped++;
+            return;
+        }
+        await this.#throttle(interval);
+        const { status, error } = await this.#send(user, options);
+        if (status === 'failed') {
+            result.failed++;
+        } else {
+            result.sent++;
+        }
+        delivery.state = {
+            deliveryId,
+            broadcastId: result.id,
+            userId: user.userId,
+            status,
+            error,
+            updatedAt: Date.now(),
+        };
+        await delivery.save();
+    }
+
+    /**
+     * Отправляет сообщение пользователю
+     * @returns Статус доставки и текст ошибки, если сообщение не удалось отправить
+     */
+    async #send(
+        user: IBroadcastUser,
+        options: IBroadcastOptions,
+    ): Promise<{ status: TDeliveryStatus; error: string | null }> {
+        try {
+            const message =
+                typeof options.message === 'function' ? options.message(user) : options.message;
+            let content: BotController | string;
+            if (message instanceof BotController) {
+                // Один и тот же контроллер может использоваться для всех получателей, поэтому получатель
+                // задается перед каждой отправкой
+                message.userId = user.userId;
+                message.chatId = null;
+                content = message;
+            } else {
+                content = createMessageContent(this.#appContext, message);
+            }
+            const res = await this.#sender(user.userId, content, options.platform);
+            if (res === false) {
+                return { status: 'failed', error: 'Платформа не смогла отправить сообщение' };
+            }
+            return { status: isOutboundQueued(res) ? 'queued' : 'sent', error: null };
+        } catch (e) {
+            return { status: 'failed', error: (e as Error).message };
+        }
+    }
+
+    /**
+     * Ожидает, пока с момента предыдущей отправки не пройдет `interval` миллисекунд
+     */
+    async #throttle(interval: number): Promise<void> {
+        const delay = this.#lastSendTime + interval - Date.now();
+        if (delay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        this.#lastSendTime = Date.now();
+    }
+
+    async #saveState(
+        platform: TAppType,
+        result: IBroadcastResult,
+        cursor: string | number | null,
+        isDone: boolean,
+    ): Promise<void> {
+        const state = new Broadcasts(this.#appContext);
+        state.state = {
+            broadcastId: result.id,
+            platform,
+            status: isDone ? 'done' : 'running',
+            cursor,
+            total: result.total,
+            sent: result.sent,
+            failed: result.failed,
+            skipped: result.skipped,
+            updatedAt: Date.now(),
+        };
+        await state.save();
+    }
+}
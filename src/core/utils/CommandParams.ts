@@ -0,0 +1,140 @@
+/**
+ * Тип параметра шаблона команды:
+ * - `string` — любой текст (по умолчанию);
+ * - `word` — одно слово;
+ * - `number` — число, в том числе дробное. Дробная часть может отделяться точкой или запятой;
+ * - `int` — целое число.
+ */
+export type TCommandParamType = 'string' | 'word' | 'number' | 'int';
+
+/**
+ * Параметры, извлеченные из запроса пользователя
+ */
+export type TCommandParams = Record<string, string | number>;
+
+/**
+ * Слот команды, из которого извлекаются параметры
+ */
+export interface ICommandParamSlot {
+    /**
+     * Регулярное выражение с именованными группами
+     */
+    regExp: RegExp;
+    /**
+     * Типы параметров шаблона
+     */
+    types: Record<string, TCommandParamType>;
+}
+
+/**
+ * Скомпилированный шаблон слота
+ */
+interface ISlotTemplate {
+    source: string;
+    types: Record<string, TCommandParamType>;
+}
+
+const PARAM_PATTERNS: Record<TCommandParamType, string> = {
+    string: '[^\\n]+',
+    word: '[^\\s]+',
+    number: '-?\\d+[.,]?\\d*',
+    int: '-?\\d+',
+};
+
+const REG_TEMPLATE_PARAM = /\{([A-Za-z_]\w*):?([A-Za-z]*)\}/g;
+const REG_NAMED_GROUP = /\(\?<([A-Za-z_$][\w$]*)>/g;
+const REG_NAMED_BACKREF = /\\k<([A-Za-z_$][\w$]*)>/g;
+const REG_ESCAPE = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Преобразует шаблон слота вида `перевести {amount:number} в {currency}` в регулярное выражение с именованными группами
+ * @param slot - Слот команды
+ * @param isPattern - Является ли слот регулярным выражением. Если нет, текст вне параметров экранируется
+ * @returns Скомпилированный шаблон или null, если слот не содержит параметров
+ */
+export function compileSlotTemplate(slot: string, isPattern: boolean): ISlotTemplate | null {
+    if (!slot.includes('{')) {
+        return null;
+    }
+    const types: Record<string, TCommandParamType> = {};
+    let source = '';
+    let lastIndex = 0;
+    for (const match of slot.matchAll(REG_TEMPLATE_PARAM)) {
+        const [placeholder, name, type] = match;
+        const paramType: TCommandParamType =
+            type && type in PARAM_PATTERNS ? (type as TCommandParamType) : 'string';
+        const text = slot.slice(lastIndex, match.index);
+        source += isPattern ? text : text.replace(REG_ESCAPE, '\\$&');
+        source += `(?<${name}>${PARAM_PATTERNS[paramType]})`;
+        types[name] = paramType;
+        lastIndex = (match.index as number) + placeholder.length;
+    }
+    if (!lastIndex) {
+        return null;
+    }
+    const text = slot.slice(lastIndex);
+    source += isPattern ? text : text.replace(REG_ESCAPE, '\\$&');
+    return { source, types };
+}
+
+/**
+ * Проверяет, содержит ли регулярное выражение именованные группы
+ * @param source - Исходный текст регулярного выражения
+ */
+export function hasNamedGroups(source: string): boolean {
+    REG_NAMED_GROUP.lastIndex = 0;
+    return REG_NAMED_GROUP.test(source);
+}
+
+/**
+ * Добавляет префикс к именам групп регулярного выражения.
+ * Нужен для объединения нескольких регулярных выражений в одно, так как имена групп не должны повторяться
+ * @param source - Исходный текст регулярного выражения
+ * @param prefix - Префикс
+ */
+export function prefixGroupNames(source: string, prefix: string): string {
+    return source
+        .replace(REG_NAMED_GROUP, `(?<${prefix}$1>`)
+        .replace(REG_NAMED_BACKREF, `\\k<${prefix}$1>`);
+}
+
+/**
+ * Приводит значение параметра к его типу
+ * @param value - Значение
+ * @param type - Тип параметра
+ */
+function convertParam(value: string, type: TCommandParamType | undefined): string | number {
+    if (type === 'number') {
+        return parseFloat(value.replace(',', '.'));
+    }
+    if (type === 'int') {
+        return parseInt(value, 10);
+    }
+    return value.trim();
+}
+
+/**
+ * Извлекает параметры из текста по первому подходящему слоту
+ * @param paramSlots - Слоты с параметрами
+ * @param text - Текст запроса
+ * @returns Параметры с приведенными типами
+ */
+export function extractCommandParams(
+    paramSlots: ICommandParamSlot[],
+    text: string,
+): TCommandParams {
+    for (const { regExp, types } of paramSlots) {
+        regExp.lastIndex = 0;
+        const groups = regExp.exec(text)?.groups;
+        if (groups) {
+            const params: TCommandParams = {};
+            for (const [name, value] of Object.entries(groups)) {
+                if (value !== undefined) {
+                    params[name] = convertParam(value, types[name]);
+                }
+            }
+            return params;
+        }
+    }
+    return {};
+}
@@ -3,8 +3,17 @@ import { getRegExp, __$usedRe2, isRegex, TPatternRegExp } from '../../utils/stan
 import { isRegexLikelySafe } from './utils';
 import os from 'os';
 import { BotController } from '../../controller';
-import { TAppPlugin } from '../interfaces/IAppContext';
+import { TAppPlugin, TAppType } from '../interfaces/IAppContext';
 import { TCommandGroupMode } from '../interfaces/IBot';
+import type { Scene } from './Scene';
+import {
+    ICommandParamSlot,
+    compileSlotTemplate,
+    hasNamedGroups,
+    prefixGroupNames,
+} from './CommandParams';
+import { IFuzzyMatchOptions } from './FuzzyMatch';
+import { AhoCorasick } from './AhoCorasick';
 
 export interface IGroupData {
     commands: string[];
@@ -87,6 +96,48 @@ interface IGroup {
  */
 export type TSlots = TPatternRegExp[];
 
+/**
+ * Дополнительные параметры команды, передаваемые в `addCommand`.
+ * Ограничения (`platforms`, `when`, `steps`) проверяются при поиске команды: если команда не подходит под ограничения,
+ * поиск продолжается среди остальных команд.
+ *
+ * @example
+ * ```ts
+ * bot.addCommand('pay', ['оплатить'], handler, {
+ *   priority: 10,
+ *   platforms: [T_TELEGRAM, T_VK],
+ *   when: (ctx) => ctx.isAuth,
+ * });
+ * ```
+ */
+export interface ICommandOptions<TBotController extends BotController = BotController> {
+    /**
+     * Если true, строки в slots интерпретируются как регулярные выражения
+     * @defaultValue false
+     */
+    isPattern?: boolean;
+    /**
+     * Приоритет команды. Команды с большим приоритетом проверяются раньше, при одинаковом приоритете — в порядке
+     * регистрации. Команды с положительным приоритетом проверяются раньше точного совпадения, с отрицательным — после
+     * всех остальных команд
+     * @defaultValue 0
+     */
+    priority?: number;
+    /**
+     * Платформы, на которых доступна команда. Если не заданы, команда доступна на всех платформах
+     */
+    platforms?: TAppType[];
+    /**
+     * Условие, при котором доступна команда. Например, только для авторизованных пользователей или устройств с экраном
+     * @param botController - Контроллер приложения
+     */
+    when?: (botController: TBotController) => boolean;
+    /**
+     * Шаги, в которых доступна команда. Команда срабатывает, только если `oldIntentName` совпадает с одним из шагов
+     */
+    steps?: string[];
+}
+
 /**
  * Параметры команды
  *
@@ -104,7 +155,9 @@ export type TSlots = TPatternRegExp[];
  * };
  * ```
  */
-export interface ICommandParam<TBotController extends BotController = BotController> {
+export interface ICommandParam<
+    TBotController extends BotController = BotController,
+> extends ICommandOptions<TBotController> {
     /**
      * Триггеры активации команды
      *
@@ -141,6 +194,10 @@ export interface ICommandParam<TBotController extends BotController = BotControl
      */
     regExp?: RegExp;
     isRegExpString: boolean;
+    /**
+     * Слоты, из которых извлекаются параметры команды (`ctx.params`)
+     */
+    paramSlots?: ICommandParamSlot[];
 }
 
 /**
@@ -188,6 +245,43 @@ export interface IStepParam<TBotController extends BotController = BotController
     cb: (botController: TBotController) => void | Promise<void> | false;
 }
 
+/**
+ * Событие, не связанное с отправкой сообщения пользователем.
+ * Адаптеры платформ приводят собственные события к этому списку, благодаря чему обработчик пишется один раз для всех платформ.
+ *
+ * - `START` — пользователь начал диалог с ботом (Viber `conversation_started`, MAX `bot_started`).
+ * - `SUBSCRIBE` — пользователь подписался на бота или разрешил ему писать (Viber `subscribed`, VK `message_allow`, Telegram `my_chat_member` в личном чате).
+ * - `UNSUBSCRIBE` — пользователь отписался или заблокировал бота (Viber `unsubscribed`, VK `message_deny`, Telegram `my_chat_member` в личном чате).
+ * - `JOIN` — пользователь или бот добавлен в чат или сообщество (VK `group_join`, Telegram `new_chat_members`, MAX `user_added`).
+ * - `LEAVE` — пользователь или бот покинул чат или сообщество (VK `group_leave`, Telegram `left_chat_member`, MAX `user_removed`).
+ * - `TYPING` — пользователь набирает сообщение (VK `message_typing_state`).
+ * - `EDIT` — пользователь отредактировал сообщение (Telegram `edited_message`).
+ */
+export enum EBotEvent {
+    START = 'start',
+    SUBSCRIBE = 'subscribe',
+    UNSUBSCRIBE = 'unsubscribe',
+    JOIN = 'join',
+    LEAVE = 'leave',
+    TYPING = 'typing',
+    EDIT = 'edit',
+}
+
+/**
+ * Функция-обработчик события.
+ * Если в обработчике не был заполнен `text`, то ответ пользователю не отправляется.
+ *
+ * @example
+ * ```ts
+ * const onUnsubscribe: TEventHandler = async (ctx) => {
+ *   await removeUserFromMailing(ctx.userId);
+ * };
+ * ```
+ */
+export type TEventHandler<TBotController extends BotController = BotController> = (
+    botController: TBotController,
+) => void | Promise<void>;
+
 /**
  * Тип для функции обработки кастомного обработчика команд.
  * Кастомный обработчик может быть как синхронным, так и асинхронным. В случае успешного нахождения команды, возвращается название этой команды. В противном случае возвращается null
@@ -200,6 +294,47 @@ export type TCommandResolver = (
     commands: Map<string, ICommandParam>,
 ) => string | null | Promise<string | null>;
 
+/**
+ * Проверяет, заданы ли у команды ограничения, которые проверяются при поиске
+ * @param options - Параметры команды
+ */
+export function hasCommandGuards<TBotController extends BotController = BotController>(
+    options: ICommandOptions<TBotController>,
+): boolean {
+    return !!(options.platforms || options.when || options.steps);
+}
+
+/**
+ * Индекс для поиска команд по строковым слотам
+ */
+export interface ISlotIndex {
+    /**
+     * Автомат для поиска строковых слотов. Приоритет слота — порядковый номер команды
+     */
+    automaton: AhoCorasick;
+    /**
+     * Имена команд по порядковому номеру
+     */
+    names: string[];
+    /**
+     * Порядковые номера команд, которые нужно проверять последовательно: команды с регулярными выражениями или
+     * ограничениями
+     */
+    sequential: number[];
+    /**
+     * Порядковые номера команд с положительным приоритетом, отсортированные по убыванию приоритета
+     */
+    high: number[];
+    /**
+     * Порядковые номера команд с отрицательным приоритетом, отсортированные по убыванию приоритета
+     */
+    low: number[];
+    /**
+     * Количество команд, по которым построен индекс
+     */
+    size: number;
+}
+
 /**
  * Класс, который берет на себя всю обязанность за регистрацию команд и шагов
  * @internal Используется только внутри фреймворка
@@ -219,10 +354,19 @@ export class CommandReg {
     public commands: Map<string, ICommandParam> = new Map();
 
     readonly #exactMatchMap = new Map<string, string>();
+    #slotIndex: ISlotIndex | null = null;
     /**
      * Добавленные шаги для обработки
      */
     public steps: Map<string, IStepParam> = new Map();
+    /**
+     * Добавленные обработчики событий
+     */
+    public events: Map<EBotEvent, TEventHandler[]> = new Map();
+    /**
+     * Добавленные сцены
+     */
+    public scenes: Map<string, Scene> = new Map();
     /**
      * Флаг строгого режима работы приложения.
      * В строгом режиме работы, все ReDOS регулярные выражения не будут добавляться.
@@ -236,6 +380,11 @@ export class CommandReg {
      */
     public customCommandResolver: TCommandResolver | undefined;
 
+    /**
+     * Параметры нечеткого поиска команд. Если не заданы, нечеткий поиск не выполняется
+     */
+    public fuzzyMatch: IFuzzyMatchOptions | null = null;
+
     private readonly logError: TLoggerCb;
     private readonly logWarn: TLoggerCb;
     private readonly plugins: TAppPlugin;
@@ -250,6 +399,67 @@ export class CommandReg {
         return this.#exactMatchMap.get(userCommand);
     }
 
+    /**
+     * Возвращает индекс строковых слотов. Индекс строится при первом обращении после изменения списка команд.
+     * Строковые слоты всех команд без `isPattern` добавляются в автомат Ахо — Корасик, поэтому поиск подстроки
+     * выполняется за один проход по запросу, независимо от количества команд. Команды с регулярными выражениями
+     * проверяются последовательно, но только те, что зарегистрированы раньше найденной по подстроке команды.
+     */
+    getSlotIndex(): ISlotIndex {
+        if (this.#slotIndex && this.#slotIndex.size === this.commands.size) {
+            return this.#slotIndex;
+        }
+        const index: ISlotIndex = {
+            automaton: new AhoCorasick(),
+            // Массив создается сразу нужного размера, чтобы не расходовать память на его расширение
+            names: new Array<string>(this.commands.size),
+            sequential: [],
+            high: [],
+            low: [],
+            size: this.commands.size,
+        };
+        const priorities: number[] = [];
+        let count = 0;
+        // Обход через forEach не создает объект на каждый элемент, в отличие от for...of с деструктуризацией
+        this.commands.forEach((command, commandName) => {
+            const slots = command.slots;
+            if (commandName === FALLBACK_COMMAND || !slots?.length) {
+                return;
+            }
+            const order = count++;
+            index.names[order] = commandName;
+            if (command.priority) {
+                priorities[order] = command.priority;
+                index[command.priority > 0 ? 'high' : 'low'].push(order);
+                return;
+            }
+            // Команды с ограничениями проверяются последовательно, так как индекс не учитывает ограничения
+            if (command.isPattern || hasCommandGuards(command)) {
+                index.sequential.push(order);
+                return;
+            }
+            let isSequential = false;
+            for (let i = 0; i < slots.length; i++) {
+                const slot = slots[i];
+                if (isRegex(slot)) {
+                    isSequential = true;
+                } else {
+                    index.automaton.add(slot, order);
+                }
+            }
+            if (isSequential) {
+                index.sequential.push(order);
+            }
+        });
+        index.names.length = count;
+        const byPriority = (a: number, b: number): number => priorities[b] - priorities[a] || a - b;
+        index.high.sort(byPriority);
+        index.low.sort(byPriority);
+        index.automaton.build();
+        this.#slotIndex = index;
+        return index;
+    }
+
     /**
      * Возвращает кастомный обработчик для обработки регулярных выражений
      */
@@ -325,10 +535,10 @@ export class CommandReg {
         isRegUp: boolean = true,
     ): void {
         group.butchRegexp ??= [];
+        const groupIndex = group.butchRegexp.length;
         const parts = slots.map((s) => {
-            return `(${typeof s === 'string' ? s : s.source})`;
+            return `(${prefixGroupNames(typeof s === 'string' ? s : s.source, `_${groupIndex}`)})`;
         });
-        const groupIndex = group.butchRegexp.length;
         // Для уменьшения длины регулярного выражения, а также для исключения случая,
         // когда имя команды может быть не корректным для имени группы, сами задаем корректное имя с учетом индекса
         const pat = `(?<_${groupIndex}>${parts?.join('|')})`;
@@ -425,9 +635,9 @@ export class CommandReg {
             } else {
                 const butchRegexp = [];
                 const parts = slots.map((s) => {
-                    return `(${typeof s === 'string' ? s : s.source})`;
+                    return `(${prefixGroupNames(typeof s === 'string' ? s : s.source, '_0')})`;
                 });
-                butchRegexp.push(`(?<${commandName}>${parts?.join('|')})`);
+                butchRegexp.push(`(?<_0>${parts?.join('|')})`);
                 const regExp = getRegExp(`${butchRegexp.join('|')}`, 'ium', this.getCustomRegExp());
                 this.#noFullGroups = {
                     name: commandName,
@@ -545,6 +755,8 @@ export class CommandReg {
      *   - Если в slots присутствует хотя бы один RegExp, параметр isPattern игнорируется. Каждый элемент обрабатывается по своему типу:
      *        - string → как литерал (поиск подстроки),
      *        - RegExp → как регулярное выражение
+     *   - Строка может содержать параметры вида `{name}` или `{name:type}`, а RegExp — именованные группы.
+     *     Значения параметров доступны в `ctrl.params`.
      * @param {ICommandParam['cb']} cb - Функция-обработчик команды
      * @param {boolean} isPattern - Использовать регулярные выражения (по умолчанию false)
      *
@@ -598,7 +810,8 @@ export class CommandReg {
      * @remarks
      * Поиск команд оптимизирован:
      * 1. Сначала проверяется точное совпадение
-     * 2. Если точного совпадения нет — выполняется последовательный перебор
+     * 2. Строковые слоты ищутся через индекс (`getSlotIndex`), а команды с регулярными выражениями — последовательным
+     *    перебором. Приоритет команд по порядку регистрации сохраняется
      *
      * При регистрации более 300 команд с регулярными выражениями
      * фреймворк автоматически объединяет их в группы для повышения производительности.
@@ -611,13 +824,19 @@ export class CommandReg {
         commandName: string,
         slots: TSlots,
         cb: ICommandParam<TBotController>['cb'],
-        isPattern: boolean = false,
+        options: boolean | ICommandOptions<TBotController> = false,
     ): void {
+        // Для boolean-параметра объекты не создаются, чтобы не увеличивать потребление памяти на каждую команду
+        const commandOptions = typeof options === 'object' ? options : null;
+        const isPattern = typeof options === 'boolean' ? options : !!options.isPattern;
+        const isSeparate =
+            !!commandOptions && (!!commandOptions.priority || hasCommandGuards(commandOptions));
         if (this.commands.get(commandName)) {
             this.logWarn(
                 `Команда с названием "${commandName === FALLBACK_COMMAND ? '* (fallback command)' : commandName}" уже создавалась ранее. Ранее созданная команда будет перезаписана. Рекомендуется проверить корректность регистрации команды`,
             );
         }
+        this.#slotIndex = null;
         if (commandName === FALLBACK_COMMAND) {
             this.commands.set(commandName, {
                 slots: undefined,
@@ -636,13 +855,20 @@ export class CommandReg {
                 `Задано ${this.commands.size} команд, скорее всего команды задаются через цикл, который возможно отработал некорректно. Проверьте корректность работы приложения, а также корректность добавленных команд.`,
             );
         }
-        let correctSlots: TSlots = this.strictMode ? [] : slots;
+        const { slots: commandSlots, paramSlots } = this.#prepareParamSlots(slots, isPattern);
+        let correctSlots: TSlots = this.strictMode ? [] : commandSlots;
         let regExp;
         let groupName;
         if (isPattern) {
-            correctSlots = this.isDangerRegex(slots).slots;
+            correctSlots = this.isDangerRegex(commandSlots).slots;
             if (correctSlots.length) {
-                groupName = this.#addRegexpInGroup(commandName, correctSlots, true);
+                // Команды с приоритетом или ограничениями проверяются отдельно, поэтому не объединяются в группы
+                if (isSeparate) {
+                    this.#addRegexpInGroup(commandName, correctSlots, false);
+                    groupName = commandName;
+                } else {
+                    groupName = this.#addRegexpInGroup(commandName, correctSlots, true);
+                }
                 if (groupName === commandName) {
                     this.#regExpCommandCount++;
                     if (this.#regExpCommandCount < MAX_COUNT_FOR_REG) {
@@ -654,34 +880,104 @@ export class CommandReg {
             }
         } else {
             this.#addRegexpInGroup(commandName, correctSlots, false);
-            for (let i = 0; i < slots.length; i++) {
-                const slot = slots[i];
-                if (isRegex(slot)) {
-                    const res = this.isDangerRegex(slot);
-                    if (res.status && this.strictMode) {
-                        correctSlots.push(slot);
-                    }
-                } else {
-                    if (this.strictMode) {
-                        correctSlots.push(slot);
-                    }
-                    const tCommandName = this.#exactMatchMap.get(slot);
-                    if (!tCommandName) {
-                        this.#exactMatchMap.set(slot, commandName);
-                    }
-                }
-            }
+            this.#addStringSlots(
+                commandName,
+                commandSlots,
+                correctSlots,
+                // Команды с приоритетом или ограничениями не должны находиться по точному совпадению в обход проверок
+                !isSeparate,
+            );
         }
         if (correctSlots.length) {
-            this.commands.set(commandName, {
+            const command: ICommandParam = {
                 slots: correctSlots,
                 isPattern,
                 cb: cb as ICommandParam['cb'],
                 regExp,
                 isRegExpString: typeof regExp !== 'string',
                 __$groupName: groupName,
-            });
+                paramSlots,
+            };
+            if (commandOptions && isSeparate) {
+                command.priority = commandOptions.priority;
+                command.platforms = commandOptions.platforms;
+                command.when = commandOptions.when as ICommandParam['when'];
+                command.steps = commandOptions.steps;
+            }
+            this.commands.set(commandName, command);
+        }
+    }
+
+    /**
+     * Обрабатывает слоты команды без регулярных выражений: проверяет RegExp-слоты на ReDoS и добавляет строки в индекс
+     * точного совпадения
+     * @param commandName - Имя команды
+     * @param slots - Слоты команды
+     * @param correctSlots - Безопасные слоты. Заполняется в строгом режиме
+     * @param useExactMatch - Добавлять ли строковые слоты в индекс точного совпадения
+     */
+    #addStringSlots(
+        commandName: string,
+        slots: TSlots,
+        correctSlots: TSlots,
+        useExactMatch: boolean,
+    ): void {
+        for (let i = 0; i < slots.length; i++) {
+            const slot = slots[i];
+            if (isRegex(slot)) {
+                const res = this.isDangerRegex(slot);
+                if (res.status && this.strictMode) {
+                    correctSlots.push(slot);
+                }
+            } else {
+                if (this.strictMode) {
+                    correctSlots.push(slot);
+                }
+                if (useExactMatch && !this.#exactMatchMap.get(slot)) {
+                    this.#exactMatchMap.set(slot, commandName);
+                }
+            }
+        }
+    }
+
+    /**
+     * Подготавливает слоты с параметрами. Шаблоны вида `{amount:number}` преобразуются в именованные группы,
+     * а имена групп делаются уникальными, чтобы слоты можно было объединить в одно регулярное выражение
+     * @param slots - Слоты команды
+     * @param isPattern - Являются ли строковые слоты регулярными выражениями
+     * @returns Слоты для поиска команды и слоты для извлечения параметров
+     */
+    #prepareParamSlots(
+        slots: TSlots,
+        isPattern: boolean,
+    ): { slots: TSlots; paramSlots?: ICommandParamSlot[] } {
+        const hasParams = slots.some((slot) =>
+            isRegex(slot)
+                ? hasNamedGroups(slot.source)
+                : slot.includes('{') || (isPattern && hasNamedGroups(slot)),
+        );
+        if (!hasParams) {
+            return { slots };
         }
+        const paramSlots: ICommandParamSlot[] = [];
+        const commandSlots = slots.map((slot, index) => {
+            const isReg = isRegex(slot);
+            const template = isReg ? null : compileSlotTemplate(slot, isPattern);
+            const source = template?.source ?? (isReg ? slot.source : slot);
+            if (!template && ((!isPattern && !isReg) || !hasNamedGroups(source))) {
+                return slot;
+            }
+            const flags = isReg ? slot.flags : 'ium';
+            paramSlots.push({
+                regExp: getRegExp(source, flags, this.getCustomRegExp()),
+                types: template?.types ?? {},
+            });
+            const uniqueSource = prefixGroupNames(source, `_${index}_`);
+            return isPattern && !isReg
+                ? uniqueSource
+                : getRegExp(uniqueSource, flags, this.getCustomRegExp());
+        });
+        return paramSlots.length ? { slots: commandSlots, paramSlots } : { slots };
     }
 
     /**
@@ -689,6 +985,7 @@ export class CommandReg {
      * @param commandName - Имя команды
      */
     public removeCommand(commandName: string): void {
+        this.#slotIndex = null;
         if (commandName === FALLBACK_COMMAND) {
             this.commands.delete(commandName);
             return;
@@ -702,7 +999,7 @@ export class CommandReg {
                 }
             }
             command?.slots?.forEach((slot) => {
-                if (!isRegex(slot)) {
+                if (!isRegex(slot) && this.#exactMatchMap.get(slot) === commandName) {
                     this.#exactMatchMap.delete(slot);
                 }
             });
@@ -720,6 +1017,7 @@ export class CommandReg {
         this.#regExpCommandCount = 0;
         this.regexpGroup.clear();
         this.#exactMatchMap.clear();
+        this.#slotIndex = null;
         this.#oldGroupName = undefined;
         this.#oldFnGroup = undefined;
         clearTimeout(this.#timeOutReg);
@@ -790,4 +1088,72 @@ export class CommandReg {
         this.steps.clear();
         return this;
     }
+
+    /**
+     * Регистрирует сцену. Сцена компилируется в шаг с именем `scene.stepName`.
+     *
+     * @param scene — Сцена.
+     */
+    public addScene(scene: Scene): this {
+        this.scenes.set(scene.name, scene);
+        return this.addStep(scene.stepName, (botController) => scene.run(botController));
+    }
+
+    /**
+     * Удаляет сцену и соответствующий ей шаг.
+     *
+     * @param name — Имя сцены.
+     */
+    public removeScene(name: string): this {
+        const scene = this.scenes.get(name);
+        if (scene) {
+            this.steps.delete(scene.stepName);
+            this.scenes.delete(name);
+        }
+        return this;
+    }
+
+    /**
+     * Регистрирует обработчик события.
+     * На одно событие можно зарегистрировать несколько обработчиков, они выполняются в порядке добавления.
+     *
+     * @param event — Событие.
+     * @param handler — Функция, вызываемая при получении события.
+     */
+    public addEvent<TBotController extends BotController = BotController>(
+        event: EBotEvent,
+        handler: TEventHandler<TBotController>,
+    ): this {
+        const handlers = this.events.get(event) || [];
+        handlers.push(handler as TEventHandler);
+        this.events.set(event, handlers);
+        return this;
+    }
+
+    /**
+     * Удаляет обработчик события. Если обработчик не передан, удаляются все обработчики события.
+     *
+     * @param event — Событие.
+     * @param handler — Обработчик, который нужно удалить.
+     */
+    public removeEvent(event: EBotEvent, handler?: TEventHandler): this {
+        const handlers = this.events.get(event);
+        if (handler && handlers) {
+            const filtered = handlers.filter((cb) => cb !== handler);
+            if (filtered.length) {
+                this.events.set(event, filtered);
+                return this;
+            }
+        }
+        this.events.delete(event);
+        return this;
+    }
+
+    /**
+     * Удаляет **все** зарегистрированные обработчики событий.
+     */
+    public clearEvents(): this {
+        this.events.clear();
+        return this;
+    }
 }
@@ -0,0 +1,259 @@
+/**
+ * Параметры ошибки приложения
+ */
+export interface IBotErrorOptions {
+    /**
+     * Исходная ошибка
+     */
+    cause?: unknown;
+}
+
+/**
+ * Базовая ошибка приложения.
+ * Содержит HTTP-статус и тело ответа, которые отправляются платформе, если ошибка произошла при обработке webhook-запроса.
+ * Все ошибки приложения передаются в обработчики, зарегистрированные через `bot.onError()`.
+ *
+ * @example
+ * ```ts
+ * bot.onError((error, ctx) => {
+ *     if (error instanceof CommandHandlerError && ctx.controller) {
+ *         ctx.controller.text = 'Извините, что-то пошло не так';
+ *     }
+ * });
+ * ```
+ */
+export class BotError extends Error {
+    public name: string = 'BotError';
+
+    /**
+     * HTTP-статус ответа
+     */
+    public readonly statusCode: number = 500;
+
+    /**
+     * Тело ответа
+     */
+    public readonly responseBody: string = 'Internal Server Error';
+
+    /**
+     * @param message - Текст ошибки
+     * @param options - Параметры ошибки
+     */
+    constructor(message: string, options: IBotErrorOptions = {}) {
+        super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    }
+
+    /**
+     * Преобразует произвольную ошибку в {@link BotError}
+     * @param error - Ошибка
+     */
+    public static from(error: unknown): BotError {
+        if (error instanceof BotError) {
+            return error;
+        }
+        if (error instanceof SyntaxError) {
+            return new InvalidJsonError(error.message, { cause: error });
+        }
+        return new BotError(error instanceof Error ? error.message : String(error), {
+            cause: error,
+        });
+    }
+}
+
+/**
+ * Не указан класс контроллера с логикой приложения
+ */
+export class ControllerNotDefinedError extends BotError {
+    public name: string = 'ControllerNotDefinedError';
+
+    constructor(
+        message: string = 'Не определен класс с логикой приложения. Укажите класс контроллер, передав его в метод initBotController',
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Запрос не содержит данных
+ */
+export class EmptyRequestError extends BotError {
+    public name: string = 'EmptyRequestError';
+    public readonly statusCode: number = 400;
+    public readonly responseBody: string = 'Empty request';
+}
+
+/**
+ * Запрос отправлен недопустимым HTTP-методом
+ */
+export class MethodNotAllowedError extends BotError {
+    public name: string = 'MethodNotAllowedError';
+    public readonly statusCode: number = 405;
+    public readonly responseBody: string = 'Method Not Allowed';
+}
+
+/**
+ * Тело запроса не является корректным JSON
+ */
+export class InvalidJsonError extends BotError {
+    public name: string = 'InvalidJsonError';
+    public readonly statusCode: number = 400;
+    public readonly responseBody: string = 'Invalid JSON';
+}
+
+/**
+ * Размер запроса превышает допустимый
+ */
+export class PayloadTooLargeError extends BotError {
+    public name: string = 'PayloadTooLargeError';
+    public readonly statusCode: number = 413;
+    public readonly responseBody: string = 'Request entity too large';
+}
+
+/**
+ * Запрос не прошел проверку подписи или токена платформы
+ */
+export class InvalidSignatureError extends BotError {
+    public name: string = 'InvalidSignatureError';
+    public readonly statusCode: number = 401;
+    public readonly responseBody: string = 'Invalid token';
+
+    /**
+     * Платформа, от которой пришел запрос
+     */
+    public readonly platform: string;
+
+    /**
+     * @param platform - Платформа, от которой пришел запрос
+     * @param options - Параметры ошибки
+     */
+    constructor(platform: string, options?: IBotErrorOptions) {
+        super(`Для платформы "${platform}" пришел запрос с неверным токеном.`, options);
+        this.platform = platform;
+    }
+}
+
+/**
+ * Не удалось определить платформу, от которой пришел запрос
+ */
+export class PlatformNotDetectedError extends BotError {
+    public name: string = 'PlatformNotDetectedError';
+    public readonly statusCode: number = 400;
+    public readonly responseBody: string = 'Bad Request';
+
+    constructor(
+        message: string = 'Не удалось определить платформу, от которой пришел запрос. Дальнейшая обработка невозможна.',
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Адаптер платформы не смог обработать запрос
+ */
+export class InvalidQueryError extends BotError {
+    public name: string = 'InvalidQueryError';
+    public readonly statusCode: number = 400;
+    public readonly responseBody: string = 'Bad Request';
+
+    /**
+     * Платформа, от которой пришел запрос
+     */
+    public readonly platform: string;
+
+    /**
+     * @param platform - Платформа, от которой пришел запрос
+     * @param message - Текст ошибки
+     */
+    constructor(platform: string, message: string) {
+        super(message);
+        this.platform = platform;
+    }
+}
+
+/**
+ * Ошибка в обработчике команды
+ */
+export class CommandHandlerError extends BotError {
+    public name: string = 'CommandHandlerError';
+
+    /**
+     * Название команды
+     */
+    public readonly commandName: string;
+
+    /**
+     * @param commandName - Название команды
+     * @param cause - Исходная ошибка
+     */
+    constructor(commandName: string, cause: unknown) {
+        super(
+            `Произошла ошибка во время обработки команды "${commandName}": ${getErrorMessage(cause)}`,
+            { cause },
+        );
+        this.commandName = commandName;
+    }
+}
+
+/**
+ * Ошибка в обработчике шага
+ */
+export class StepHandlerError extends BotError {
+    public name: string = 'StepHandlerError';
+
+    /**
+     * Название шага
+     */
+    public readonly stepName: string;
+
+    /**
+     * @param stepName - Название шага
+     * @param cause - Исходная ошибка
+     */
+    constructor(stepName: string, cause: unknown) {
+        super(`Произошла ошибка во время обработки шага "${stepName}": ${getErrorMessage(cause)}`, {
+            cause,
+        });
+        this.stepName = stepName;
+    }
+}
+
+/**
+ * Ошибка в обработчике события, зарегистрированном через `bot.on()`
+ */
+export class EventHandlerError extends BotError {
+    public name: string = 'EventHandlerError';
+
+    /**
+     * Событие
+     */
+    public readonly event: string;
+
+    /**
+     * @param event - Событие
+     * @param cause - Исходная ошибка
+     */
+    constructor(event: string, cause: unknown) {
+        super(`Произошла ошибка во время обработки события "${event}": ${getErrorMessage(cause)}`, {
+            cause,
+        });
+        this.event = event;
+    }
+}
+
+/**
+ * Ошибка в промежуточной функции (middleware)
+ */
+export class MiddlewareError extends BotError {
+    public name: string = 'MiddlewareError';
+
+    /**
+     * @param cause - Исходная ошибка
+     */
+    constructor(cause: unknown) {
+        super(`Произошла ошибка при обработке middleware: ${getErrorMessage(cause)}`, { cause });
+    }
+}
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,272 @@
+import type { BotController } from '../../controller';
+import type { INluDateTime } from '../../components/nlu/interfaces/INlu';
+import { Nlu } from '../../components/nlu/Nlu';
+import { Text } from '../../utils/standard/Text';
+import { chain, ISceneFrame, Scene, TSceneResult } from './Scene';
+
+/**
+ * Текст, который отправляется, если значение поля не удалось распознать, а текст ошибки не задан
+ */
+export const DEFAULT_FORM_ERROR = 'Не удалось распознать ответ. Попробуйте ещё раз.';
+
+/**
+ * Тип поля формы. Определяет, как значение извлекается из запроса пользователя:
+ * - `text` — текст запроса как есть;
+ * - `number` — число (`Nlu.getNumber` или первое число в тексте);
+ * - `date` — дата (`Nlu.getDateTime` или дата в формате `дд.мм.гггг`);
+ * - `email` — email (`Nlu.getEMail`);
+ * - `phone` — номер телефона (`Nlu.getPhone`);
+ * - `fio` — ФИО (`Nlu.getFio`);
+ * - `choice` — один из вариантов `choices`. Варианты отображаются кнопками.
+ */
+export type TFormFieldType = 'text' | 'number' | 'date' | 'email' | 'phone' | 'fio' | 'choice';
+
+/**
+ * Поле формы
+ *
+ * @example
+ * ```ts
+ * const age: IFormField<number> = {
+ *     prompt: 'Сколько вам лет?',
+ *     type: 'number',
+ *     validate: (value) => (value >= 18 ? true : 'Регистрация доступна с 18 лет'),
+ *     error: 'Назовите возраст числом',
+ * };
+ * ```
+ */
+export interface IFormField<
+    TValue = unknown,
+    TBotController extends BotController = BotController,
+> {
+    /**
+     * Вопрос пользователю. Если передан массив, выбирается случайный вариант
+     */
+    prompt: string | string[];
+    /**
+     * Тип поля. По умолчанию `text`
+     */
+    type?: TFormFieldType;
+    /**
+     * Варианты ответа для поля с типом `choice`
+     */
+    choices?: string[];
+    /**
+     * Собственный способ извлечения значения из запроса. Если вернуть null или undefined, значение считается нераспознанным
+     * @param botController - Контроллер приложения
+     */
+    extract?: (botController: TBotController) => TValue | null | undefined;
+    /**
+     * Проверка значения. Если вернуть false, пользователю отправляется `error`.
+     * Если вернуть строку, она отправляется пользователю как текст ошибки
+     * @param value - Распознанное значение
+     * @param botController - Контроллер приложения
+     */
+    validate?: (value: TValue, botController: TBotController) => boolean | string;
+    /**
+     * Текст, который отправляется, если значение не распознано или не прошло проверку.
+     * Если не задан, отправляется {@link DEFAULT_FORM_ERROR} и вопрос повторяется
+     */
+    error?: string | string[];
+}
+
+/**
+ * Поля формы. Порядок полей определяет порядок вопросов
+ */
+export type TFormFields<TResult, TBotController extends BotController = BotController> = {
+    [K in keyof TResult]: IFormField<TResult[K], TBotController>;
+};
+
+/**
+ * Функция, вызываемая после заполнения всех полей формы
+ */
+export type TFormCompleteHandler<TResult, TBotController extends BotController = BotController> = (
+    result: TResult,
+    botController: TBotController,
+) => void | Promise<void>;
+
+/**
+ * Возвращает дату из текста в формате `дд.мм.гггг`
+ */
+function getDate(text: string): INluDateTime | null {
+    const match = text.match(/(\d{1,2})[./-](\d{1,2})/);
+    if (!match) {
+        return null;
+    }
+    const date: INluDateTime = { day: +match[1], month: +match[2] };
+    const year = text.match(/\d{1,2}[./-]\d{1,2}[./-](\d{4})/);
+    if (year) {
+        date.year = +year[1];
+    }
+    return date;
+}
+
+/**
+ * Проверяет, что вариант ответа указан в тексте отдельным словом или фразой
+ */
+function isSayChoice(choice: string, text: string): boolean {
+    const value = choice.toLowerCase();
+    if (text === value) {
+        return true;
+    }
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
+
+/**
+ * Способы извлечения значения для каждого типа поля
+ */
+const FORM_EXTRACTORS: Record<TFormFieldType, (ctx: BotController, field: IFormField) => unknown> =
+    {
+        text: (ctx) => ctx.originalUserCommand || ctx.userCommand || null,
+        number: (ctx) => {
+            const number = ctx.nlu.getNumber();
+            if (number.status && number.result) {
+                return number.result[0];
+            }
+            const match = (ctx.userCommand || '').match(/-?\d+[.,]\d+|-?\d+/);
+            return match ? parseFloat(match[0].replace(',', '.')) : null;
+        },
+        date: (ctx) => {
+            const dateTime = ctx.nlu.getDateTime();
+            if (dateTime.status && dateTime.result) {
+                return dateTime.result[0];
+            }
+            return getDate(ctx.userCommand || '');
+        },
+        email: (ctx) => Nlu.getEMail(ctx.originalUserCommand || ctx.userCommand || '').result?.[0],
+        phone: (ctx) => Nlu.getPhone(ctx.originalUserCommand || ctx.userCommand || '').result?.[0],
+        fio: (ctx) => ctx.nlu.getFio().result?.[0],
+        choice: (ctx, field) =>
+            field.choices?.find((choice) => isSayChoice(choice, ctx.userCommand || '')),
+    };
+
+/**
+ * Форма — сцена, которая последовательно запрашивает у пользователя значения полей,
+ * проверяет их и повторяет вопрос при ошибке. После заполнения всех полей пользователь выходит из формы,
+ * и вызывается `onComplete` с объектом результата.
+ *
+ * Форма является сценой, поэтому для нее доступны `onCancel`, `onTimeout`, `addCommand` и другие методы {@link Scene}.
+ * Запуск формы выполняется через `ctx.scene.enter(name)`.
+ *
+ * @example
+ * ```ts
+ * interface IOrder {
+ *     count: number;
+ *     phone: string;
+ * }
+ *
+ * const order = new Form<IOrder>(
+ *     'order',
+ *     {
+ *         count: { prompt: 'Сколько штук?', type: 'number', validate: (value) => value > 0 },
+ *         phone: { prompt: 'Ваш телефон?', type: 'phone', error: 'Не похоже на номер телефона' },
+ *     },
+ *     (result, ctx) => {
+ *         ctx.text = `Заказ на ${result.count} шт. оформлен`;
+ *     },
+ * ).onCancel(['отмена'], (ctx) => {
+ *     ctx.text = 'Заказ отменен';
+ * });
+ *
+ * bot.addScene(order);
+ * bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('order'));
+ * ```
+ */
+export class Form<
+    TResult extends object = Record<string, unknown>,
+    TBotController extends BotController = BotController,
+> extends Scene<TBotController> {
+    readonly #fields: [string, IFormField<unknown, TBotController>][];
+    readonly #onComplete: TFormCompleteHandler<TResult, TBotController>;
+
+    /**
+     * @param name - Уникальное имя формы
+     * @param fields - Поля формы
+     * @param onComplete - Функция, вызываемая после заполнения всех полей
+     */
+    constructor(
+        name: string,
+        fields: TFormFields<TResult, TBotController>,
+        onComplete: TFormCompleteHandler<TResult, TBotController>,
+    ) {
+        super(name);
+        this.#fields = Object.entries(fields) as [string, IFormField<unknown, TBotController>][];
+        this.#onComplete = onComplete;
+    }
+
+    /**
+     * Вызывает обработчик входа в форму и задает первый вопрос
+     * @internal Используется только внутри фреймворка
+     */
+    public enter(botController: TBotController): void | Promise<void> {
+        const frame = botController.scene.frame;
+        if (frame) {
+            frame.data = {};
+        }
+        return chain(super.enter(botController), () => this.#prompt(botController, 0));
+    }
+
+    protected _handleMessage(botController: TBotController, frame: ISceneFrame): TSceneResult {
+        const current = this.#fields[frame.step];
+        if (!current) {
+            return super._handleMessage(botController, frame);
+        }
+        const [key, field] = current;
+        const value = field.extract
+            ? field.extract(botController)
+            : FORM_EXTRACTORS[field.type || 'text'](botController, field as IFormField);
+        const check =
+            value === null || value === undefined
+                ? false
+                : (field.validate?.(value, botController) ?? true);
+        if (check !== true) {
+            this.#error(botController, field, check);
+            return;
+        }
+        frame.data = { ...frame.data, [key]: value };
+        frame.step++;
+        if (frame.step < this.#fields.length) {
+            this.#prompt(botController, frame.step);
+            return;
+        }
+        const result = frame.data as TResult;
+        return chain(botController.scene.leave(), () => this.#onComplete(result, botController));
+    }
+
+    /**
+     * Задает вопрос для поля формы
+     */
+    #prompt(botController: TBotController, index: number): void {
+        const field = this.#fields[index]?.[1];
+        if (!field) {
+            return;
+        }
+        const prompt = Text.getText(field.prompt);
+        botController.text = botController.text ? `${botController.text}\n${prompt}` : prompt;
+        this.#addChoices(botController, field);
+    }
+
+    /**
+     * Сообщает об ошибке и повторяет вопрос
+     */
+    #error(
+        botController: TBotController,
+        field: IFormField<unknown, TBotController>,
+        check: boolean | string,
+    ): void {
+        if (typeof check === 'string') {
+            botController.text = check;
+        } else if (field.error) {
+            botController.text = Text.getText(field.error);
+        } else {
+            botController.text = `${DEFAULT_FORM_ERROR}\n${Text.getText(field.prompt)}`;
+        }
+        this.#addChoices(botController, field);
+    }
+
+    #addChoices(botController: TBotController, field: IFormField<unknown, TBotController>): void {
+        if (field.type === 'choice' && field.choices) {
+            field.choices.forEach((choice) => botController.buttons.addBtn(choice));
+        }
+    }
+}
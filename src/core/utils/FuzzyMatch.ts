@@ -0,0 +1,116 @@
+import { similarText } from '../../utils/standard/util';
+import type { ICommandParam } from './CommandReg';
+
+/**
+ * Функция оценки схожести запроса пользователя со слотом команды
+ * @param userCommand - Запрос пользователя в нижнем регистре
+ * @param slot - Слот команды
+ * @returns Процент схожести от 0 до 100
+ */
+export type TFuzzyScorer = (userCommand: string, slot: string) => number;
+
+/**
+ * Параметры нечеткого поиска команд
+ */
+export interface IFuzzyMatchOptions {
+    /**
+     * Минимальный процент схожести, при котором команда считается найденной
+     * @defaultValue 80
+     */
+    threshold?: number;
+    /**
+     * Своя функция оценки схожести. По умолчанию используется `fuzzyScore`
+     */
+    scorer?: TFuzzyScorer;
+}
+
+/**
+ * Результат нечеткого поиска команды
+ */
+export interface IFuzzyMatch {
+    /**
+     * Имя наиболее похожей команды
+     */
+    commandName: string;
+    /**
+     * Слот команды, с которым совпал запрос
+     */
+    slot: string;
+    /**
+     * Процент схожести от 0 до 100
+     */
+    confidence: number;
+}
+
+/**
+ * Порог схожести по умолчанию
+ */
+export const DEFAULT_FUZZY_THRESHOLD = 80;
+
+const REG_SPACES = /\s+/;
+
+/**
+ * Оценивает схожесть запроса со слотом. Запрос сравнивается со слотом целиком, а также по фрагментам из того же
+ * количества слов, что и в слоте. Благодаря этому опечатка находится и внутри длинной фразы.
+ *
+ * @param userCommand - Запрос пользователя
+ * @param slot - Слот команды
+ * @returns Процент схожести от 0 до 100
+ *
+ * @example
+ * ```ts
+ * fuzzyScore('памощь пожалуйста', 'помощь'); // -> ~83
+ * ```
+ */
+export function fuzzyScore(userCommand: string, slot: string): number {
+    let score = similarText(userCommand, slot);
+    const words = userCommand.split(REG_SPACES);
+    const size = slot.split(REG_SPACES).length;
+    if (size < words.length) {
+        for (let i = 0; i + size <= words.length && score < 100; i++) {
+            score = Math.max(score, similarText(words.slice(i, i + size).join(' '), slot));
+        }
+    }
+    return score;
+}
+
+/**
+ * Ищет наиболее похожую команду. Учитываются только строковые слоты команд без регулярных выражений.
+ * При одинаковой схожести выбирается команда, зарегистрированная раньше.
+ *
+ * @param commands - Зарегистрированные команды
+ * @param userCommand - Запрос пользователя
+ * @param scorer - Функция оценки схожести
+ * @param isAllowed - Функция, определяющая, нужно ли учитывать команду
+ * @returns Наиболее похожая команда или null, если ни один слот не похож на запрос
+ */
+export function findFuzzyCommand(
+    commands: Map<string, ICommandParam>,
+    userCommand: string,
+    scorer: TFuzzyScorer = fuzzyScore,
+    isAllowed?: (commandName: string, command: ICommandParam) => boolean,
+): IFuzzyMatch | null {
+    let bestMatch: IFuzzyMatch | null = null;
+    for (const [commandName, command] of commands) {
+        if (
+            command.isPattern ||
+            !command.slots ||
+            (isAllowed && !isAllowed(commandName, command))
+        ) {
+            continue;
+        }
+        for (const slot of command.slots) {
+            if (typeof slot !== 'string') {
+                continue;
+            }
+            const confidence = scorer(userCommand, slot);
+            if (confidence > (bestMatch?.confidence ?? 0)) {
+                bestMatch = { commandName, slot, confidence };
+                if (confidence >= 100) {
+                    return bestMatch;
+                }
+            }
+        }
+    }
+    return bestMatch;
+}
@@ -0,0 +1,362 @@
+import { randomUUID } from 'node:crypto';
+import type { AppContext } from '../AppContext';
+import type { IDbResult } from '../interfaces/IBot';
+import type {
+    IOutboundMessage,
+    IOutboundQueue,
+    IOutboundQueued,
+    TOutboundMessageData,
+    TOutboundResult,
+} from '../interfaces/IOutboundQueue';
+import { DeadLetters, OutboundMessages } from '../../models';
+
+/**
+ * Параметры очереди исходящих сообщений
+ */
+export interface IOutboundQueueOptions {
+    /**
+     * Максимальное количество попыток отправки сообщения. По умолчанию 5
+     */
+    maxAttempts?: number;
+    /**
+     * Задержка перед первой повторной попыткой в миллисекундах. Каждая следующая задержка увеличивается в 2 раза.
+     * По умолчанию 500
+     */
+    baseDelay?: number;
+    /**
+     * Максимальная задержка между попытками в миллисекундах. Ограничивает и время ожидания, указанное платформой.
+     * По умолчанию 30000
+     */
+    maxDelay?: number;
+}
+
+const DEFAULT_OPTIONS: Required<IOutboundQueueOptions> = {
+    maxAttempts: 5,
+    baseDelay: 500,
+    maxDelay: 30000,
+};
+
+/**
+ * Максимальное количество неотправленных сообщений, хранящихся в памяти
+ */
+const MAX_DEAD_LETTERS = 1000;
+
+/**
+ * Проверяет, что сообщение принято очередью исходящих сообщений и будет отправлено повторно в фоне
+ * @param value - Результат отправки сообщения
+ */
+export function isOutboundQueued(value: unknown): value is IOutboundQueued {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        (value as IOutboundQueued).status === 'queued' &&
+        typeof (value as IOutboundQueued).messageId === 'string'
+    );
+}
+
+/**
+ * Очередь исходящих сообщений, которая хранит сообщения в памяти.
+ *
+ * Сообщение отправляется сразу. При временной ошибке (превышен лимит запросов, ошибка сервера или сети)
+ * выполняется повторная попытка с экспоненциально увеличивающейся задержкой. Если платформа указала время ожидания
+ * (например, `retry_after` в Telegram), используется оно, но не больше `maxDelay`.
+ * Повторные попытки выполняются в фоне, поэтому ответ на webhook не ждет их завершения.
+ * Политика повторных попыток HTTP-запросов (`requestPolicy.retry`) для сообщений из очереди не применяется,
+ * чтобы попытки не умножались.
+ * Сообщения, которые не удалось отправить, сохраняются в таблицу {@link DeadLetters} (если подключена база данных)
+ * и доступны через {@link deadLetters}.
+ *
+ * @example
+ * ```ts
+ * bot.setOutboundQueue(new OutboundQueue({ maxAttempts: 3 }));
+ * ```
+ */
+export class OutboundQueue implements IOutboundQueue {
+    /**
+     * Контекст приложения
+     */
+    protected _appContext: AppContext | null = null;
+    readonly #options: Required<IOutboundQueueOptions>;
+    readonly #deadLetters: IOutboundMessage[] = [];
+    readonly #timers: Map<ReturnType<typeof setTimeout>, (isDone: boolean) => void> = new Map();
+
+    /**
+     * @param options - Параметры очереди
+     */
+    constructor(options: IOutboundQueueOptions = {}) {
+        this.#options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Сообщения, которые не удалось отправить с момента запуска приложения
+     */
+    public get deadLetters(): IOutboundMessage[] {
+        return [...this.#deadLetters];
+    }
+
+    /**
+     * Вызывается при подключении очереди к приложению
+     * @param appContext - Контекст приложения
+     */
+    public init(appContext: AppContext): void {
+        this._appContext = appContext;
+    }
+
+    /**
+     * Добавляет сообщение в очередь и выполняет первую попытку отправки.
+     * Если попытка завершилась временной ошибкой, повторные попытки выполняются в фоне
+     * @param data - Данные сообщения
+     * @returns Ответ платформы, {@link IOutboundQueued}, если сообщение будет отправлено повторно в фоне,
+     * или null, если сообщение не удалось отправить
+     */
+    public async push(data: TOutboundMessageData): Promise<unknown> {
+        const message: IOutboundMessage = {
+            ...data,
+            id: randomUUID(),
+            attempts: 0,
+            createdAt: Date.now(),
+        };
+        await this._save(message);
+        const res = await this.#execute(message);
+        if (res.status === 'ok') {
+            await this._remove(message);
+            return res.data;
+        }
+        const delay = await this.#onError(message, res);
+        if (delay === null) {
+            return null;
+        }
+        this._process(message, delay).catch((e) => {
+            this._appContext?.logError(
+                `OutboundQueue: Произошла ошибка при повторной отправке сообщения "${message.method}": ${(e as Error).message}`,
+                { error: e },
+            );
+        });
+        const queued: IOutboundQueued = { status: 'queued', messageId: message.id };
+        return queued;
+    }
+
+    /**
+     * Отменяет ожидание повторных попыток. Сообщения, ожидающие повторной отправки, не отправляются
+     */
+    public close(): void {
+        this.#timers.forEach((resolve, timer) => {
+            clearTimeout(timer);
+            resolve(false);
+        });
+        this.#timers.clear();
+    }
+
+    /**
+     * Возвращает задержку перед следующей попыткой
+     * @param message - Сообщение
+     * @param retryAfter - Время ожидания, указанное платформой
+     */
+    public getDelay(message: IOutboundMessage, retryAfter?: number): number {
+        if (retryAfter !== undefined) {
+            return Math.min(this.#options.maxDelay, retryAfter);
+        }
+        return Math.min(
+            this.#options.maxDelay,
+            this.#options.baseDelay * 2 ** Math.max(0, message.attempts - 1),
+        );
+    }
+
+    /**
+     * Отправляет сообщение, повторяя попытки при временных ошибках
+     * @param message - Сообщение
+     * @param delay - Задержка перед первой попыткой в миллисекундах
+     */
+    protected async _process(message: IOutboundMessage, delay: number = 0): Promise<unknown> {
+        let wait = delay;
+        for (;;) {
+            if (wait > 0 && !(await this.#wait(wait))) {
+                return null;
+            }
+            const res = await this.#execute(message);
+            if (res.status === 'ok') {
+                await this._remove(message);
+                return res.data;
+            }
+            const retryDelay = await this.#onError(message, res);
+            if (retryDelay === null) {
+                return null;
+            }
+            wait = retryDelay;
+        }
+    }
+
+    /**
+     * Сохраняет сообщение перед отправкой и после неудачной попытки. В памяти сохранять нечего
+     * @param _message - Сообщение
+     */
+    protected _save(_message: IOutboundMessage): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /**
+     * Удаляет отправленное сообщение
+     * @param _message - Сообщение
+     */
+    protected _remove(_message: IOutboundMessage): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /**
+     * Сохраняет сообщение, которое не удалось отправить
+     * @param message - Сообщение
+     */
+    protected async _deadLetter(message: IOutboundMessage): Promise<void> {
+        this._appContext?.logError(
+            `OutboundQueue: Не удалось отправить сообщение "${message.method}" на платформу "${message.platform}" после ${message.attempts} попыток: ${message.error}`,
+        );
+        this.#deadLetters.push(message);
+        if (this.#deadLetters.length > MAX_DEAD_LETTERS) {
+            this.#deadLetters.shift();
+        }
+        await this._remove(message);
+        if (this._appContext?.database.adapter) {
+            await toModel(new DeadLetters(this._appContext), message).save(true);
+        }
+    }
+
+    /**
+     * Обрабатывает неудачную попытку отправки
+     * @param message - Сообщение
+     * @param res - Результат попытки
+     * @returns Задержка перед повторной попыткой или null, если повторять отправку не нужно
+     */
+    async #onError(
+        message: IOutboundMessage,
+        res: Exclude<TOutboundResult, { status: 'ok' }>,
+    ): Promise<number | null> {
+        message.attempts++;
+        message.error = res.error;
+        if (res.status === 'fail' || message.attempts >= this.#options.maxAttempts) {
+            await this._deadLetter(message);
+            return null;
+        }
+        await this._save(message);
+        return this.getDelay(message, res.retryAfter);
+    }
+
+    async #execute(message: IOutboundMessage): Promise<TOutboundResult> {
+        const platform = this._appContext?.platforms[message.platform];
+        if (!platform?.executeOutbound) {
+            return {
+                status: 'fail',
+                error: `Платформа "${message.platform}" не поддерживает очередь исходящих сообщений`,
+            };
+        }
+        try {
+            return await platform.executeOutbound(message);
+        } catch (e) {
+            return { status: 'retry', error: (e as Error).message };
+        }
+    }
+
+    /**
+     * Ожидает указанное время
+     * @returns false, если ожидание было прервано закрытием очереди
+     */
+    #wait(delay: number): Promise<boolean> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.#timers.delete(timer);
+                resolve(true);
+            }, delay);
+            this.#timers.set(timer, resolve);
+        });
+    }
+}
+
+/**
+ * Заполняет модель данными сообщения
+ */
+function toModel<TModel extends OutboundMessages>(
+    model: TModel,
+    message: IOutboundMessage,
+): TModel {
+    model.state = {
+        messageId: message.id,
+        platform: message.platform,
+        method: message.method,
+        params: JSON.stringify(message.params),
+        attempts: message.attempts,
+        error: message.error ?? null,
+        createdAt: message.createdAt,
+    };
+    return model;
+}
+
+/**
+ * Очередь исходящих сообщений, которая хранит сообщения в базе данных (таблица {@link OutboundMessages}).
+ * Сообщение сохраняется до первой попытки отправки и удаляется после успешной отправки,
+ * поэтому сообщения, не отправленные из-за перезапуска приложения, можно отправить повторно через {@link restore}.
+ *
+ * Для работы необходимо подключить адаптер базы данных.
+ *
+ * @example
+ * ```ts
+ * const queue = new DbOutboundQueue({ maxAttempts: 5 });
+ * bot.use(new MongoAdapter(options));
+ * bot.setOutboundQueue(queue);
+ * // Отправка сообщений, которые не удалось отправить до перезапуска
+ * await queue.restore();
+ * ```
+ */
+export class DbOutboundQueue extends OutboundQueue {
+    /**
+     * Отправляет сообщения, сохраненные в базе данных
+     */
+    public async restore(): Promise<void> {
+        if (!this._appContext) {
+            return;
+        }
+        const res = await new OutboundMessages(this._appContext).where();
+        if (!res.status || !res.data) {
+            return;
+        }
+        const records = (
+            Array.isArray(res.data) ? res.data : Object.values(res.data)
+        ) as IDbResult[];
+        const messages = records
+            .map((record) => fromRecord(record))
+            .filter((message): message is IOutboundMessage => message !== null);
+        await Promise.all(messages.map((message) => this._process(message)));
+    }
+
+    protected async _save(message: IOutboundMessage): Promise<void> {
+        if (this._appContext?.database.adapter) {
+            await toModel(new OutboundMessages(this._appContext), message).save();
+        }
+    }
+
+    protected async _remove(message: IOutboundMessage): Promise<void> {
+        if (this._appContext?.database.adapter) {
+            await toModel(new OutboundMessages(this._appContext), message).remove();
+        }
+    }
+}
+
+/**
+ * Восстанавливает сообщение из записи базы данных
+ */
+function fromRecord(record: IDbResult): IOutboundMessage | null {
+    if (!record.messageId || !record.platform || !record.method) {
+        return null;
+    }
+    try {
+        return {
+            id: String(record.messageId),
+            platform: String(record.platform),
+            method: String(record.method),
+            params: JSON.parse(String(record.params || '{}')) as Record<string, unknown>,
+            attempts: Number(record.attempts) || 0,
+            createdAt: Number(record.createdAt) || 0,
+            error: typeof record.error === 'string' ? record.error : undefined,
+        };
+    } catch {
+        return null;
+    }
+}
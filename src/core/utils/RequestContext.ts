@@ -0,0 +1,104 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { TAppType } from '../interfaces/IAppContext';
+
+/**
+ * Контекст обработки одного входящего запроса.
+ * Создается в `Bot.run` и доступен во всем коде, который выполняется в рамках обработки запроса:
+ * в логах, метриках, middleware, обработчиках команд, запросах к API платформ и операциях с базой данных
+ */
+export interface IRequestContext {
+    /**
+     * Идентификатор запроса. Берется из заголовка `X-Request-Id` или генерируется автоматически.
+     * Передается в заголовке `X-Request-Id` HTTP-запросов, выполняемых через `Request`
+     */
+    requestId: string;
+    /**
+     * Платформа, от которой пришел запрос
+     */
+    appType: TAppType | null;
+    /**
+     * Идентификатор пользователя
+     */
+    userId: string | number | null;
+    /**
+     * Время начала обработки запроса в миллисекундах
+     */
+    startTime: number;
+    /**
+     * Название команды, которая обработала запрос
+     */
+    command: string | null;
+    /**
+     * Название шага, который обработал запрос
+     */
+    step: string | null;
+}
+
+const storage = new AsyncLocalStorage<IRequestContext>();
+
+/**
+ * Возвращает контекст текущего запроса
+ * @returns Контекст запроса или undefined, если код выполняется вне обработки запроса
+ *
+ * @example
+ * ```ts
+ * bot.use((ctx, next) => {
+ *     console.log(`[${getRequestContext()?.requestId}] ${ctx.userCommand}`);
+ *     return next();
+ * });
+ * ```
+ */
+export function getRequestContext(): IRequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Выполняет функцию в новом контексте запроса.
+ * Идентификатор и время начала запроса наследуются из текущего контекста, если они не переданы явно
+ * @param context - Начальные значения контекста
+ * @param callback - Функция, которая выполняется в контексте запроса
+ */
+export function runInRequestContext<T>(context: Partial<IRequestContext>, callback: () => T): T {
+    const parent = storage.getStore();
+    return storage.run(
+        {
+            requestId: context.requestId ?? parent?.requestId ?? randomUUID(),
+            appType: context.appType ?? null,
+            userId: context.userId ?? null,
+            startTime: context.startTime ?? parent?.startTime ?? Date.now(),
+            command: context.command ?? null,
+            step: context.step ?? null,
+        },
+        callback,
+    );
+}
+
+/**
+ * Обновляет контекст текущего запроса. Если код выполняется вне обработки запроса, ничего не делает
+ * @param context - Новые значения контекста
+ */
+export function updateRequestContext(context: Partial<IRequestContext>): void {
+    const current = storage.getStore();
+    if (current) {
+        Object.assign(current, context);
+    }
+}
+
+/**
+ * Возвращает заполненные поля контекста текущего запроса для добавления в логи и метрики
+ * @returns Поля контекста или undefined, если код выполняется вне обработки запроса
+ */
+export function getRequestContextLabels(): Record<string, unknown> | undefined {
+    const current = storage.getStore();
+    if (!current) {
+        return undefined;
+    }
+    const labels: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(current)) {
+        if (value !== null && key !== 'startTime') {
+            labels[key] = value;
+        }
+    }
+    return labels;
+}
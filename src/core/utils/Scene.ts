@@ -0,0 +1,468 @@
+import type { BotController } from '../../controller';
+import { Text } from '../../utils/standard/Text';
+import { isPromise } from '../../utils/isPromise';
+import type { ICommandParam, TSlots } from './CommandReg';
+
+/**
+ * Префикс имени шага, на который компилируется сцена
+ */
+export const SCENE_STEP_PREFIX = 'scene:';
+
+/**
+ * Состояние сцены в стеке сцен пользователя.
+ * Стек хранится в `userData.sceneStack`, последний элемент — активная сцена.
+ */
+export interface ISceneFrame {
+    /**
+     * Имя сцены
+     */
+    name: string;
+    /**
+     * Номер текущего шага. Актуально для {@link Wizard}
+     */
+    step: number;
+    /**
+     * Время последнего обращения к сцене в миллисекундах
+     */
+    updatedAt: number;
+    /**
+     * Данные, собранные в сцене. Например, значения полей формы
+     */
+    data?: Record<string, unknown>;
+}
+
+/**
+ * Функция-обработчик сцены
+ */
+export type TSceneHandler<TBotController extends BotController = BotController> = (
+    botController: TBotController,
+) => void | Promise<void>;
+
+/**
+ * Результат обработки сообщения сценой.
+ * `false` означает, что сцена не обработала сообщение, и оно передается командам приложения.
+ */
+export type TSceneResult = void | false | Promise<void>;
+
+interface ISceneCommand<TBotController extends BotController> {
+    slots: TSlots;
+    isPattern: boolean;
+    cb: ICommandParam<TBotController>['cb'];
+}
+
+interface ISceneAction<TBotController extends BotController> {
+    slots: TSlots;
+    handler?: TSceneHandler<TBotController>;
+}
+
+/**
+ * Вызывает `next` после завершения `res`, сохраняя синхронное выполнение, если `res` не промис
+ * @internal Используется только внутри фреймворка
+ */
+export function chain(res: unknown, next: () => void | Promise<void>): void | Promise<void> {
+    return isPromise(res) ? res.then(next) : next();
+}
+
+/**
+ * Сцена — изолированная часть диалога (оформление заказа, регистрация и т.д.) со своими командами,
+ * обработчиками входа и выхода, отменой, возвратом назад и временем жизни.
+ *
+ * Сцена компилируется в шаг (`addStep`) с именем `scene:<name>`, поэтому пока пользователь находится в сцене,
+ * его сообщения в первую очередь обрабатываются командами сцены, и только потом глобальными командами.
+ * Благодаря этому команда «отмена» внутри сцены не конфликтует с глобальной командой «отмена».
+ *
+ * Сцены могут быть вложенными: вход в сцену из другой сцены кладет ее в стек, а выход возвращает пользователя в родительскую сцену.
+ *
+ * @example
+ * ```ts
+ * const checkout = new Scene('checkout')
+ *     .onEnter((ctx) => {
+ *         ctx.text = 'Введите адрес доставки';
+ *     })
+ *     .onCancel(['отмена'], (ctx) => {
+ *         ctx.text = 'Заказ отменен';
+ *     })
+ *     .addCommand('pay', ['оплатить'], async (_, ctx) => {
+ *         await ctx.scene.leave();
+ *         return 'Заказ оплачен';
+ *     })
+ *     .onMessage((ctx) => {
+ *         ctx.text = 'Скажите «оплатить» или «отмена»';
+ *     });
+ *
+ * bot.addScene(checkout);
+ * bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('checkout'));
+ * ```
+ */
+export class Scene<TBotController extends BotController = BotController> {
+    /**
+     * Имя сцены
+     */
+    public readonly name: string;
+    /**
+     * Имя шага, на который компилируется сцена
+     */
+    public readonly stepName: string;
+
+    #enterHandler: TSceneHandler<TBotController> | undefined;
+    #leaveHandler: TSceneHandler<TBotController> | undefined;
+    #messageHandler: TSceneHandler<TBotController> | undefined;
+    #cancel: ISceneAction<TBotController> | undefined;
+    #back: ISceneAction<TBotController> | undefined;
+    #timeout: { ms: number; handler?: TSceneHandler<TBotController> } | undefined;
+    readonly #commands: Map<string, ISceneCommand<TBotController>> = new Map();
+
+    /**
+     * @param name - Уникальное имя сцены
+     */
+    constructor(name: string) {
+        this.name = name;
+        this.stepName = SCENE_STEP_PREFIX + name;
+    }
+
+    /**
+     * Устанавливает обработчик входа в сцену
+     * @param handler - Функция, вызываемая при входе в сцену
+     */
+    public onEnter(handler: TSceneHandler<TBotController>): this {
+        this.#enterHandler = handler;
+        return this;
+    }
+
+    /**
+     * Устанавливает обработчик выхода из сцены
+     * @param handler - Функция, вызываемая при выходе из сцены
+     */
+    public onLeave(handler: TSceneHandler<TBotController>): this {
+        this.#leaveHandler = handler;
+        return this;
+    }
+
+    /**
+     * Устанавливает обработчик сообщений, для которых не нашлось команды сцены.
+     * Если обработчик не задан, сообщение обрабатывается глобальными командами, а сцена остается активной.
+     * @param handler - Функция, вызываемая при получении сообщения
+     */
+    public onMessage(handler: TSceneHandler<TBotController>): this {
+        this.#messageHandler = handler;
+        return this;
+    }
+
+    /**
+     * Устанавливает фразы для отмены сцены. При совпадении пользователь выходит из сцены,
+     * после чего вызывается обработчик.
+     * @param slots - Фразы или регулярные выражения для отмены
+     * @param handler - Функция, вызываемая после выхода из сцены
+     */
+    public onCancel(slots: TSlots, handler?: TSceneHandler<TBotController>): this {
+        this.#cancel = { slots, handler };
+        return this;
+    }
+
+    /**
+     * Устанавливает фразы для возврата назад. При совпадении пользователь возвращается на предыдущий шаг
+     * (см. {@link SceneManager.back}), после чего вызывается обработчик.
+     * @param slots - Фразы или регулярные выражения для возврата назад
+     * @param handler - Функция, вызываемая после возврата
+     */
+    public onBack(slots: TSlots, handler?: TSceneHandler<TBotController>): this {
+        this.#back = { slots, handler };
+        return this;
+    }
+
+    /**
+     * Устанавливает время жизни сцены. Если пользователь не писал дольше указанного времени,
+     * сцена закрывается без вызова обработчика выхода, и вызывается обработчик истечения времени.
+     * Если обработчик не задан, сообщение обрабатывается глобальными командами.
+     * @param ms - Время жизни сцены в миллисекундах
+     * @param handler - Функция, вызываемая при истечении времени
+     */
+    public onTimeout(ms: number, handler?: TSceneHandler<TBotController>): this {
+        this.#timeout = { ms, handler };
+        return this;
+    }
+
+    /**
+     * Добавляет команду, которая обрабатывается только внутри сцены.
+     * Команды сцены проверяются раньше глобальных команд.
+     *
+     * @param commandName - Уникальное имя команды внутри сцены
+     * @param slots - Триггеры активации команды
+     * @param cb - Функция-обработчик команды. Если вернуть строку, она будет установлена как ответ
+     * @param isPattern - Флаг использования регулярных выражений
+     */
+    public addCommand(
+        commandName: string,
+        slots: TSlots,
+        cb: ICommandParam<TBotController>['cb'],
+        isPattern: boolean = false,
+    ): this {
+        this.#commands.set(commandName, { slots, isPattern, cb });
+        return this;
+    }
+
+    /**
+     * Удаляет команду сцены
+     * @param commandName - Имя команды
+     */
+    public removeCommand(commandName: string): this {
+        this.#commands.delete(commandName);
+        return this;
+    }
+
+    /**
+     * Вызывает обработчик входа в сцену
+     * @internal Используется только внутри фреймворка
+     */
+    public enter(botController: TBotController): void | Promise<void> {
+        return this.#enterHandler?.(botController);
+    }
+
+    /**
+     * Вызывает обработчик выхода из сцены
+     * @internal Используется только внутри фреймворка
+     */
+    public leave(botController: TBotController): void | Promise<void> {
+        return this.#leaveHandler?.(botController);
+    }
+
+    /**
+     * Обрабатывает сообщение пользователя, находящегося в сцене
+     * @internal Используется только внутри фреймворка
+     */
+    public run(botController: TBotController): TSceneResult {
+        const frame = botController.scene.frame;
+        if (!frame || frame.name !== this.name) {
+            return false;
+        }
+        if (this.#timeout && Date.now() - frame.updatedAt > this.#timeout.ms) {
+            botController.scene.drop();
+            return this.#timeout.handler ? this.#timeout.handler(botController) : false;
+        }
+        frame.updatedAt = Date.now();
+        botController.thisIntentName = this.stepName;
+
+        if (this.#cancel && this.#isSay(this.#cancel.slots, botController)) {
+            const handler = this.#cancel.handler;
+            return chain(botController.scene.leave(), () => handler?.(botController));
+        }
+        if (this.#back && this.#isSay(this.#back.slots, botController)) {
+            const handler = this.#back.handler;
+            return chain(botController.scene.back(), () => handler?.(botController));
+        }
+        for (const command of this.#commands.values()) {
+            if (this.#isSay(command.slots, botController, command.isPattern)) {
+                return this.#commandExecute(command, botController);
+            }
+        }
+        return this._handleMessage(botController, frame);
+    }
+
+    /**
+     * Обрабатывает сообщение, для которого не нашлось команды сцены
+     * @param botController - Контроллер приложения
+     * @param _frame - Состояние сцены
+     */
+    protected _handleMessage(botController: TBotController, _frame: ISceneFrame): TSceneResult {
+        return this.#messageHandler ? this.#messageHandler(botController) : false;
+    }
+
+    #isSay(slots: TSlots, botController: TBotController, isPattern: boolean = false): boolean {
+        return Text.isSayText(slots, botController.userCommand || '', isPattern);
+    }
+
+    #commandExecute(
+        command: ISceneCommand<TBotController>,
+        botController: TBotController,
+    ): void | Promise<void> {
+        const setText = (result: void | string): void => {
+            if (result) {
+                botController.text = result;
+            }
+        };
+        const res = command.cb(botController.userCommand || '', botController);
+        if (isPromise(res)) {
+            return res.then(setText);
+        }
+        setText(res);
+    }
+}
+
+/**
+ * Сцена, состоящая из последовательных шагов (пошаговая форма).
+ * Каждое сообщение пользователя обрабатывается текущим шагом. Для перехода к следующему шагу
+ * необходимо вызвать `ctx.scene.next()`, для возврата — `ctx.scene.back()`.
+ *
+ * @example
+ * ```ts
+ * const registration = new Wizard('registration', [
+ *     (ctx) => {
+ *         ctx.userData.name = ctx.originalUserCommand;
+ *         ctx.text = 'Введите email';
+ *         ctx.scene.next();
+ *     },
+ *     (ctx) => {
+ *         ctx.userData.email = ctx.userCommand;
+ *         ctx.text = 'Спасибо за регистрацию!';
+ *         return ctx.scene.leave();
+ *     },
+ * ]).onEnter((ctx) => {
+ *     ctx.text = 'Как вас зовут?';
+ * });
+ * ```
+ */
+export class Wizard<
+    TBotController extends BotController = BotController,
+> extends Scene<TBotController> {
+    readonly #steps: TSceneHandler<TBotController>[];
+
+    /**
+     * @param name - Уникальное имя сцены
+     * @param steps - Обработчики шагов
+     */
+    constructor(name: string, steps: TSceneHandler<TBotController>[]) {
+        super(name);
+        this.#steps = steps;
+    }
+
+    /**
+     * Количество шагов
+     */
+    public get stepsCount(): number {
+        return this.#steps.length;
+    }
+
+    protected _handleMessage(botController: TBotController, frame: ISceneFrame): TSceneResult {
+        const step = this.#steps[frame.step];
+        return step ? step(botController) : super._handleMessage(botController, frame);
+    }
+}
+
+/**
+ * Управление сценами пользователя. Доступно в контроллере через `ctx.scene`.
+ * Стек сцен хранится в `userData.sceneStack`, поэтому сохраняется между запросами.
+ */
+export class SceneManager {
+    readonly #botController: BotController;
+
+    constructor(botController: BotController) {
+        this.#botController = botController;
+    }
+
+    /**
+     * Стек сцен пользователя. Последний элемент — активная сцена
+     */
+    public get stack(): ISceneFrame[] {
+        return this.#botController.userData.sceneStack || [];
+    }
+
+    /**
+     * Состояние активной сцены
+     */
+    public get frame(): ISceneFrame | null {
+        const stack = this.stack;
+        return stack.length ? stack[stack.length - 1] : null;
+    }
+
+    /**
+     * Имя активной сцены
+     */
+    public get current(): string | null {
+        return this.frame?.name ?? null;
+    }
+
+    /**
+     * Номер текущего шага активной сцены
+     */
+    public get step(): number {
+        return this.frame?.step ?? 0;
+    }
+
+    /**
+     * Входит в сцену. Если пользователь уже находится в сцене, новая сцена становится вложенной.
+     * @param name - Имя сцены
+     */
+    public enter(name: string): void | Promise<void> {
+        const scene = this.#botController.appContext.scenes.get(name);
+        if (!scene) {
+            this.#botController.appContext.logError(
+                `SceneManager.enter(): Сцена "${name}" не зарегистрирована`,
+            );
+            return;
+        }
+        this.#botController.userData.sceneStack = [
+            ...this.stack,
+            { name, step: 0, updatedAt: Date.now() },
+        ];
+        this.#botController.thisIntentName = scene.stepName;
+        return scene.enter(this.#botController);
+    }
+
+    /**
+     * Выходит из активной сцены и возвращает пользователя в родительскую сцену, если она есть.
+     * Вызывает обработчик выхода из сцены.
+     */
+    public leave(): void | Promise<void> {
+        const frame = this.drop();
+        if (frame) {
+            return this.#botController.appContext.scenes
+                .get(frame.name)
+                ?.leave(this.#botController);
+        }
+    }
+
+    /**
+     * Удаляет активную сцену из стека без вызова обработчика выхода.
+     * @returns Состояние удаленной сцены
+     */
+    public drop(): ISceneFrame | null {
+        const frame = this.frame;
+        if (!frame) {
+            return null;
+        }
+        const stack = this.stack.slice(0, -1);
+        this.#botController.userData.sceneStack = stack.length ? stack : null;
+        const parent = stack.length ? stack[stack.length - 1] : null;
+        this.#botController.thisIntentName = parent ? SCENE_STEP_PREFIX + parent.name : null;
+        return frame;
+    }
+
+    /**
+     * Выходит из всех сцен, начиная с активной
+     */
+    public leaveAll(): void | Promise<void> {
+        if (!this.frame) {
+            return;
+        }
+        return chain(this.leave(), () => this.leaveAll());
+    }
+
+    /**
+     * Переходит к следующему шагу активной сцены
+     */
+    public next(): void {
+        this.goTo(this.step + 1);
+    }
+
+    /**
+     * Возвращается к предыдущему шагу активной сцены. Если активен первый шаг, выходит из сцены.
+     */
+    public back(): void | Promise<void> {
+        if (this.step > 0) {
+            this.goTo(this.step - 1);
+            return;
+        }
+        return this.leave();
+    }
+
+    /**
+     * Переходит к указанному шагу активной сцены
+     * @param step - Номер шага
+     */
+    public goTo(step: number): void {
+        const frame = this.frame;
+        if (frame) {
+            frame.step = step;
+        }
+    }
+}
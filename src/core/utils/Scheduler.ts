@@ -0,0 +1,439 @@
+import { randomUUID } from 'node:crypto';
+import type { AppContext } from '../AppContext';
+import type { TAppType } from '../interfaces/IAppContext';
+import type { IDbResult } from '../interfaces/IBot';
+import { BaseBotController, BotController } from '../../controller';
+import { ScheduledJobs } from '../../models/ScheduledJobs';
+import { getNextCronDate, parseCron } from '../../utils/standard/Cron';
+
+/**
+ * Содержимое отложенного сообщения
+ */
+export interface IScheduleMessage {
+    /**
+     * Текст сообщения
+     */
+    text: string;
+    /**
+     * Текст для озвучивания
+     */
+    tts?: string;
+    /**
+     * Кнопки, добавляемые к сообщению
+     */
+    buttons?: string[];
+}
+
+/**
+ * Содержимое отложенного сообщения: текст или {@link IScheduleMessage}
+ */
+export type TSchedulePayload = string | IScheduleMessage;
+
+/**
+ * Время отправки сообщения:
+ * - `Date` — конкретная дата;
+ * - `number` — задержка в миллисекундах от текущего момента;
+ * - `string` — cron-выражение для периодической отправки (например, `0 9 * * 1-5`).
+ */
+export type TScheduleWhen = Date | number | string;
+
+/**
+ * Отложенная задача
+ */
+export interface IScheduledJob {
+    /**
+     * Уникальный идентификатор задачи
+     */
+    jobId: string;
+    /**
+     * Идентификатор пользователя
+     */
+    userId: string | number;
+    /**
+     * Платформа, на которую отправляется сообщение
+     */
+    platform: TAppType;
+    /**
+     * Содержимое сообщения
+     */
+    payload: TSchedulePayload;
+    /**
+     * Время следующей отправки в миллисекундах
+     */
+    runAt: number;
+    /**
+     * Cron-выражение. Для разовых задач равно null
+     */
+    cron: string | null;
+    /**
+     * Количество неудачных попыток отправки подряд
+     */
+    attempts: number;
+}
+
+/**
+ * Параметры планировщика
+ */
+export interface ISchedulerOptions {
+    /**
+     * Интервал проверки задач в миллисекундах. По умолчанию 1000
+     */
+    interval?: number;
+    /**
+     * Максимальное количество попыток отправки. По умолчанию 3
+     */
+    maxAttempts?: number;
+    /**
+     * Базовая задержка перед повторной попыткой в миллисекундах. С каждой попыткой задержка увеличивается.
+     * По умолчанию 60000
+     */
+    retryDelay?: number;
+}
+
+/**
+ * Функция отправки сообщения пользователю
+ */
+export type TSchedulerSender = (
+    userId: string | number,
+    controllerOrText: BotController | string,
+    platform: TAppType,
+) => Promise<unknown>;
+
+/**
+ * Преобразует содержимое сообщения в текст или контроллер, который можно передать в `bot.send()`
+ * @param appContext - Контекст приложения
+ * @param payload - Содержимое сообщения
+ * @internal Используется только внутри фреймворка
+ */
+export function createMessageContent(
+    appContext: AppContext,
+    payload: TSchedulePayload,
+): BotController | string {
+    if (typeof payload === 'string') {
+        return payload;
+    }
+    const controller = new BaseBotController(appContext);
+    controller.text = payload.text;
+    if (payload.tts) {
+        controller.tts = payload.tts;
+    }
+    payload.buttons?.forEach((button) => controller.buttons.addBtn(button));
+    return controller;
+}
+
+const DEFAULT_OPTIONS: Required<ISchedulerOptions> = {
+    interval: 1000,
+    maxAttempts: 3,
+    retryDelay: 60000,
+};
+
+/**
+ * Планировщик отложенных и периодических сообщений.
+ *
+ * Задачи сохраняются через подключенный адаптер базы данных (таблица {@link ScheduledJobs}),
+ * поэтому переживают перезапуск приложения. Если адаптер не подключен, задачи хранятся только в памяти.
+ * За одну проверку на платформу отправляется не больше сообщений, чем позволяет ее `limit`,
+ * остальные сообщения отправляются при следующих проверках.
+ * При ошибке отправки выполняется повторная попытка с увеличивающейся задержкой.
+ *
+ * Используется через `bot.schedule()` и `bot.startScheduler()`.
+ */
+export class Scheduler {
+    readonly #appContext: AppContext;
+    readonly #sender: TSchedulerSender;
+    readonly #jobs: Map<string, IScheduledJob> = new Map();
+    #options: Required<ISchedulerOptions> = DEFAULT_OPTIONS;
+    #timer: ReturnType<typeof setInterval> | null = null;
+    #isTicking: boolean = false;
+
+    /**
+     * @param appContext - Контекст приложения
+     * @param sender - Функция отправки сообщения
+     */
+    constructor(appContext: AppContext, sender: TSchedulerSender) {
+        this.#appContext = appContext;
+        this.#sender = sender;
+    }
+
+    /**
+     * Список запланированных задач
+     */
+    public get jobs(): IScheduledJob[] {
+        return [...this.#jobs.values()];
+    }
+
+    /**
+     * Флаг того, что планировщик запущен
+     */
+    public get isStarted(): boolean {
+        return this.#timer !== null;
+    }
+
+    /**
+     * Планирует отправку сообщения
+     * @param userId - Идентификатор пользователя
+     * @param platform - Платформа, на которую отправляется сообщение
+     * @param when - Время отправки
+     * @param payload - Содержимое сообщения
+     * @returns Идентификатор задачи или null, если задачу запланировать нельзя
+     */
+    public async schedule(
+        userId: string | number,
+        platform: TAppType,
+        when: TScheduleWhen,
+        payload: TSchedulePayload,
+    ): Promise<string | null> {
+        const adapter = this.#appContext.platforms[platform];
+        if (!adapter) {
+            this.#appContext.logError(
+                `Scheduler:schedule(): Платформа "${platform}" не подключена.`,
+            );
+            return null;
+        }
+        if (adapter.isVoice) {
+            this.#appContext.logError(
+                `Scheduler:schedule(): Платформа "${platform}" не поддерживает отправку сообщений без запроса пользователя.`,
+            );
+            return null;
+        }
+        const cron = typeof when === 'string' ? when : null;
+        const runAt = this.#getRunAt(when);
+        if (runAt === null) {
+            this.#appContext.logError(
+                `Scheduler:schedule(): Некорректное время отправки "${String(when)}".`,
+            );
+            return null;
+        }
+        const job: IScheduledJob = {
+            jobId: randomUUID(),
+            userId,
+            platform,
+            payload,
+            runAt,
+            cron,
+            attempts: 0,
+        };
+        this.#jobs.set(job.jobId, job);
+        await this.#save(job, true);
+        return job.jobId;
+    }
+
+    /**
+     * Отменяет задачу. Задача удаляется и из базы данных, даже если она еще не была загружена в память
+     * @param jobId - Идентификатор задачи
+     * @returns true, если задача была найдена
+     */
+    public async cancel(jobId: string): Promise<boolean> {
+        const job = this.#jobs.get(jobId);
+        if (job) {
+            await this.#remove(job);
+            return true;
+        }
+        if (!this.#appContext.database.adapter) {
+            return false;
+        }
+        const model = new ScheduledJobs(this.#appContext);
+        if (!(await model.whereOne({ jobId }))) {
+            return false;
+        }
+        await model.remove();
+        return true;
+    }
+
+    /**
+     * Загружает сохраненные задачи и запускает периодическую проверку
+     * @param options - Параметры планировщика
+     */
+    public async start(options: ISchedulerOptions = {}): Promise<void> {
+        this.stop();
+        this.#options = { ...DEFAULT_OPTIONS, ...options };
+        await this.load();
+        this.#timer = setInterval(() => {
+            void this.tick();
+        }, this.#options.interval);
+        this.#timer.unref();
+    }
+
+    /**
+     * Останавливает периодическую проверку. Сохраненные задачи не удаляются
+     */
+    public stop(): void {
+        if (this.#timer) {
+            clearInterval(this.#timer);
+            this.#timer = null;
+        }
+    }
+
+    /**
+     * Загружает задачи из базы данных
+     */
+    public async load(): Promise<void> {
+        const model = new ScheduledJobs(this.#appContext);
+        const res = await model.where();
+        if (!res.status || !res.data) {
+            return;
+        }
+        const records = (
+            Array.isArray(res.data) ? res.data : Object.values(res.data)
+        ) as IDbResult[];
+        for (const record of records) {
+            const job = this.#fromRecord(record);
+            if (job && !this.#jobs.has(job.jobId)) {
+                this.#jobs.set(job.jobId, job);
+            }
+        }
+    }
+
+    /**
+     * Отправляет все сообщения, время которых наступило
+     * @param now - Текущее время в миллисекундах
+     */
+    public async tick(now: number = Date.now()): Promise<void> {
+        if (this.#isTicking) {
+            return;
+        }
+        this.#isTicking = true;
+        try {
+            const sent: Record<string, number> = {};
+            const due = this.jobs
+                .filter((job) => job.runAt <= now)
+                .sort((a, b) => a.runAt - b.runAt);
+            for (const job of due) {
+                const count = sent[job.platform] ?? 0;
+                if (count >= this.#getPlatformLimit(job.platform)) {
+                    continue;
+                }
+                sent[job.platform] = count + 1;
+                await this.#run(job, now);
+            }
+        } finally {
+            this.#isTicking = false;
+        }
+    }
+
+    /**
+     * Возвращает количество сообщений, которое можно отправить на платформу за одну проверку
+     */
+    #getPlatformLimit(platform: TAppType): number {
+        const limit = this.#appContext.platforms[platform]?.limit;
+        if (!limit) {
+            return Infinity;
+        }
+        return Math.max(1, Math.floor((limit * this.#options.interval) / 1000));
+    }
+
+    #getRunAt(when: TScheduleWhen, from: number = Date.now()): number | null {
+        if (when instanceof Date) {
+            return isNaN(when.getTime()) ? null : when.getTime();
+        }
+        if (typeof when === 'number') {
+            return Number.isFinite(when) ? from + Math.max(0, when) : null;
+        }
+        const parsed = parseCron(when);
+        return parsed ? (getNextCronDate(parsed, new Date(from))?.getTime() ?? null) : null;
+    }
+
+    async #run(job: IScheduledJob, now: number): Promise<void> {
+        const isSend = await this.#send(job);
+        await this.#complete(job, isSend, now);
+    }
+
+    async #send(job: IScheduledJob): Promise<boolean> {
+        try {
+            return (
+                (await this.#sender(
+                    job.userId,
+                    createMessageContent(this.#appContext, job.payload),
+                    job.platform,
+                )) !== false
+            );
+        } catch (e) {
+            this.#appContext.logError(
+                `Scheduler:run(): Ошибка при отправке сообщения задачи "${job.jobId}": ${(e as Error).message}`,
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Обновляет задачу после попытки отправки: планирует повтор при ошибке или переходит к следующему срабатыванию
+     */
+    #complete(job: IScheduledJob, isSend: boolean, now: number): Promise<void> {
+        if (isSend) {
+            job.attempts = 0;
+            return this.#next(job, now);
+        }
+        job.attempts++;
+        if (job.attempts < this.#options.maxAttempts) {
+            job.runAt = now + this.#options.retryDelay * job.attempts;
+            return this.#save(job);
+        }
+        this.#appContext.logError(
+            `Scheduler:run(): Не удалось отправить сообщение задачи "${job.jobId}" после ${job.attempts} попыток.`,
+        );
+        job.attempts = 0;
+        return this.#next(job, now);
+    }
+
+    /**
+     * Переносит периодическую задачу на следующее срабатывание, а разовую удаляет
+     */
+    async #next(job: IScheduledJob, now: number): Promise<void> {
+        const runAt = job.cron ? this.#getRunAt(job.cron, now) : null;
+        if (runAt === null) {
+            await this.#remove(job);
+            return;
+        }
+        job.runAt = runAt;
+        await this.#save(job);
+    }
+
+    #getModel(job: IScheduledJob): ScheduledJobs {
+        const model = new ScheduledJobs(this.#appContext);
+        model.state = {
+            jobId: job.jobId,
+            userId: job.userId,
+            platform: job.platform,
+            payload: JSON.stringify(job.payload),
+            runAt: job.runAt,
+            cron: job.cron,
+            attempts: job.attempts,
+        };
+        return model;
+    }
+
+    async #save(job: IScheduledJob, isNew: boolean = false): Promise<void> {
+        if (this.#appContext.database.adapter) {
+            await this.#getModel(job).save(isNew);
+        }
+    }
+
+    async #remove(job: IScheduledJob): Promise<void> {
+        this.#jobs.delete(job.jobId);
+        if (this.#appContext.database.adapter) {
+            await this.#getModel(job).remove();
+        }
+    }
+
+    #fromRecord(record: IDbResult): IScheduledJob | null {
+        if (!record.jobId || !record.platform || typeof record.payload !== 'string') {
+            return null;
+        }
+        try {
+            return {
+                jobId: String(record.jobId),
+                userId: record.userId as string | number,
+                platform: record.platform as TAppType,
+                payload: JSON.parse(record.payload) as TSchedulePayload,
+                runAt: Number(record.runAt) || 0,
+                cron: typeof record.cron === 'string' && record.cron ? record.cron : null,
+                attempts: Number(record.attempts) || 0,
+            };
+        } catch {
+            this.#appContext.logError(
+                `Scheduler:load(): Не удалось прочитать задачу "${String(record.jobId)}".`,
+            );
+            return null;
+        }
+    }
+}
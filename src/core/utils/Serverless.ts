@@ -0,0 +1,196 @@
+import type { IBotResponse } from '../interfaces/IBot';
+import type { TAppType } from '../interfaces/IAppContext';
+import type { TWebhookProcessor } from './WebhookHandler';
+
+/**
+ * Событие HTTP-вызова облачной функции: AWS API Gateway (форматы 1.0 и 2.0) или Yandex Cloud Functions
+ */
+export interface IServerlessEvent {
+    /**
+     * HTTP-метод (AWS API Gateway 1.0, Yandex Cloud Functions)
+     */
+    httpMethod?: string;
+    /**
+     * Контекст запроса. В AWS API Gateway 2.0 содержит HTTP-метод и путь
+     */
+    requestContext?: {
+        httpMethod?: string;
+        http?: {
+            method?: string;
+            path?: string;
+        };
+    };
+    /**
+     * Заголовки запроса
+     */
+    headers?: Record<string, string | undefined> | null;
+    /**
+     * Заголовки запроса с несколькими значениями
+     */
+    multiValueHeaders?: Record<string, string[] | undefined> | null;
+    /**
+     * Тело запроса
+     */
+    body?: string | null;
+    /**
+     * Признак того, что тело запроса закодировано в base64
+     */
+    isBase64Encoded?: boolean;
+    /**
+     * Путь запроса (AWS API Gateway 1.0, Yandex Cloud Functions)
+     */
+    path?: string;
+    /**
+     * Путь запроса (AWS API Gateway 2.0)
+     */
+    rawPath?: string;
+}
+
+/**
+ * Ответ облачной функции на HTTP-вызов
+ */
+export interface IServerlessResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: string;
+    isBase64Encoded: boolean;
+}
+
+/**
+ * Обработчик AWS Lambda
+ */
+export type TLambdaHandler = (event: IServerlessEvent) => Promise<IServerlessResponse>;
+
+/**
+ * Обработчик Yandex Cloud Functions.
+ * Для HTTP-вызова возвращает {@link IServerlessResponse}, для прямого вызова навыком Алисы — тело ответа платформы
+ */
+export type TYandexFunctionHandler = (
+    event: IServerlessEvent | object,
+) => Promise<IServerlessResponse | IBotResponse['body']>;
+
+/**
+ * Обработчик в стиле WHATWG fetch (Cloudflare Workers, Deno, Bun и т.д.)
+ */
+export type TFetchHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Приводит заголовки к нижнему регистру и объединяет заголовки с несколькими значениями
+ * @param event - Событие облачной функции
+ */
+function getServerlessHeaders(event: IServerlessEvent): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, values] of Object.entries(event.multiValueHeaders ?? {})) {
+        if (values?.length) {
+            headers[name.toLowerCase()] = values.join(', ');
+        }
+    }
+    for (const [name, value] of Object.entries(event.headers ?? {})) {
+        if (value !== undefined) {
+            headers[name.toLowerCase()] = value;
+        }
+    }
+    return headers;
+}
+
+function getServerlessBody(event: IServerlessEvent): string | undefined {
+    if (typeof event.body !== 'string') {
+        return undefined;
+    }
+    return event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+}
+
+function getResponseBody(response: IBotResponse): { body: string; contentType: string } {
+    if (typeof response.body === 'string') {
+        return { body: response.body, contentType: 'text/plain' };
+    }
+    return { body: JSON.stringify(response.body), contentType: 'application/json' };
+}
+
+/**
+ * Проверяет, является ли событие HTTP-вызовом облачной функции
+ * @param event - Событие облачной функции
+ */
+export function isServerlessHttpEvent(event: object): event is IServerlessEvent {
+    const httpEvent = event as IServerlessEvent;
+    return (
+        typeof httpEvent.httpMethod === 'string' ||
+        typeof httpEvent.requestContext?.http?.method === 'string' ||
+        'body' in event
+    );
+}
+
+/**
+ * Обрабатывает HTTP-вызов облачной функции
+ * @param processor - Функция обработки запроса
+ * @param event - Событие облачной функции
+ * @param appType - Платформа, от которой пришел запрос
+ */
+export async function handleServerlessEvent(
+    processor: TWebhookProcessor,
+    event: IServerlessEvent,
+    appType?: TAppType,
+): Promise<IServerlessResponse> {
+    const body = getServerlessBody(event);
+    const response = await processor({
+        method: event.httpMethod ?? event.requestContext?.http?.method ?? 'POST',
+        headers: getServerlessHeaders(event),
+        body: body ?? null,
+        rawBody: body,
+        appType,
+        path: event.rawPath ?? event.path ?? event.requestContext?.http?.path,
+    });
+    const { body: responseBody, contentType } = getResponseBody(response);
+    return {
+        statusCode: response.statusCode,
+        headers: { 'Content-Type': contentType },
+        body: responseBody,
+        isBase64Encoded: false,
+    };
+}
+
+/**
+ * Обрабатывает вызов Yandex Cloud Functions. Поддерживает как HTTP-вызов, так и прямой вызов навыком Алисы,
+ * при котором событие содержит запрос платформы, а функция возвращает ответ платформы
+ * @param processor - Функция обработки запроса
+ * @param event - Событие облачной функции
+ * @param appType - Платформа, от которой пришел запрос
+ */
+export async function handleYandexFunctionEvent(
+    processor: TWebhookProcessor,
+    event: IServerlessEvent | object,
+    appType?: TAppType,
+): Promise<IServerlessResponse | IBotResponse['body']> {
+    if (isServerlessHttpEvent(event)) {
+        return handleServerlessEvent(processor, event, appType);
+    }
+    const response = await processor({ method: 'POST', body: event, appType });
+    return response.body;
+}
+
+/**
+ * Обрабатывает запрос в стиле WHATWG fetch
+ * @param processor - Функция обработки запроса
+ * @param request - Запрос
+ * @param appType - Платформа, от которой пришел запрос
+ */
+export async function handleFetchRequest(
+    processor: TWebhookProcessor,
+    request: Request,
+    appType?: TAppType,
+): Promise<Response> {
+    const response = await processor(
+        {
+            method: request.method,
+            headers: Object.fromEntries(request.headers.entries()),
+            appType,
+            path: new URL(request.url).pathname,
+        },
+        () => request.text(),
+    );
+    const { body, contentType } = getResponseBody(response);
+    return new Response(body, {
+        status: response.statusCode,
+        headers: { 'Content-Type': contentType },
+    });
+}
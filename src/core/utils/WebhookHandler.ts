@@ -0,0 +1,432 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { TAppType, TBodyParser } from '../interfaces/IAppContext';
+import type { IBotResponse, IBotResponseState, TBotResponseCb } from '../interfaces/IBot';
+import { PayloadTooLargeError } from './Errors';
+import {
+    TFetchHandler,
+    TLambdaHandler,
+    TYandexFunctionHandler,
+    handleFetchRequest,
+    handleServerlessEvent,
+    handleYandexFunctionEvent,
+} from './Serverless';
+
+/**
+ * Максимальный размер тела webhook-запроса в байтах по умолчанию
+ */
+export const MAX_REQUEST_SIZE = 1024 * 1024 * 2;
+
+/**
+ * Допустимые HTTP-методы webhook-запроса по умолчанию
+ */
+export const DEFAULT_ALLOWED_METHODS = ['POST'];
+
+/**
+ * Функции разбора тела webhook-запроса по умолчанию
+ */
+export const DEFAULT_BODY_PARSERS: Record<string, TBodyParser> = {
+    'application/json': (body) => JSON.parse(body),
+    'application/x-www-form-urlencoded': (body) => Object.fromEntries(new URLSearchParams(body)),
+};
+
+/**
+ * Webhook-запрос, не привязанный к конкретному HTTP-серверу
+ */
+export interface IWebhookRequest {
+    /**
+     * HTTP-метод запроса. По умолчанию POST
+     */
+    method?: string;
+    /**
+     * Заголовки запроса
+     */
+    headers?: Record<string, unknown>;
+    /**
+     * Тело запроса: строка с JSON, Buffer или уже распарсенный объект
+     */
+    body?: unknown;
+    /**
+     * Исходное тело запроса. Используется для проверки подписи, если тело уже распарсено.
+     * Если не указано, подпись проверяется по `JSON.stringify(body)`
+     */
+    rawBody?: string | Buffer;
+    /**
+     * Платформа, от которой пришел запрос. Если не указана или равна `auto`, платформа определяется автоматически
+     */
+    appType?: TAppType;
+    /**
+     * Путь запроса. Используется {@link BotRouter} для выбора приложения
+     */
+    path?: string;
+}
+
+/**
+ * Функция чтения тела webhook-запроса
+ * @param maxBodySize - Максимальный размер тела запроса в байтах
+ */
+export type TReadBody = (maxBodySize: number) => Promise<string>;
+
+/**
+ * Функция обработки webhook-запроса
+ * @param request - Запрос
+ * @param readBody - Функция чтения тела запроса. Вызывается, если тело запроса не передано в `request.body`
+ */
+export type TWebhookProcessor = (
+    request: IWebhookRequest,
+    readBody?: TReadBody,
+) => Promise<IBotResponse>;
+
+/**
+ * Функция выбора обработчика по пути запроса
+ * @param path - Путь запроса без параметров и завершающего слэша
+ * @returns Обработчик или undefined, если путь не обрабатывается
+ */
+export type TWebhookResolver = (path: string) => TWebhookProcessor | undefined;
+
+/**
+ * Запрос node:http или Express. Поля `body` и `rawBody` заполняются парсерами тела запроса (например, `express.json()`)
+ */
+export type TNodeWebhookRequest = IncomingMessage & {
+    body?: unknown;
+    rawBody?: string | Buffer;
+    path?: string;
+};
+
+/**
+ * Обработчик запросов для node:http и Express
+ */
+export type TWebhookHandler = (req: TNodeWebhookRequest, res: ServerResponse) => Promise<void>;
+
+/**
+ * Запрос Fastify
+ */
+export interface IFastifyRequest {
+    method: string;
+    url?: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+    rawBody?: string | Buffer;
+}
+
+/**
+ * Ответ Fastify
+ */
+export interface IFastifyReply {
+    code(statusCode: number): unknown;
+    send(payload?: unknown): unknown;
+}
+
+/**
+ * Обработчик маршрута Fastify
+ */
+export type TFastifyWebhookHandler = (
+    request: IFastifyRequest,
+    reply: IFastifyReply,
+) => Promise<unknown>;
+
+/**
+ * Контекст Koa. Поля `request.body` и `request.rawBody` заполняются парсером тела запроса (например, `koa-bodyparser`)
+ */
+export interface IKoaContext {
+    method: string;
+    path: string;
+    headers: Record<string, unknown>;
+    req: IncomingMessage;
+    request: {
+        body?: unknown;
+        rawBody?: string;
+    };
+    status: number;
+    body: unknown;
+}
+
+/**
+ * Функция вызова следующей middleware в Koa
+ */
+export type TKoaNext = () => Promise<unknown>;
+
+/**
+ * Обработчик маршрута Koa
+ */
+export type TKoaWebhookHandler = (ctx: IKoaContext, next?: TKoaNext) => Promise<void>;
+
+/**
+ * Middleware для Express и Connect
+ */
+export type TExpressMiddleware = (
+    req: TNodeWebhookRequest,
+    res: ServerResponse,
+    next: (err?: unknown) => void,
+) => Promise<void>;
+
+/**
+ * Middleware для Koa
+ */
+export type TKoaMiddleware = (ctx: IKoaContext, next: TKoaNext) => Promise<unknown>;
+
+/**
+ * Обработчики запросов для поддерживаемых HTTP-фреймворков и облачных функций
+ */
+export interface IWebhookHandlers {
+    node: TWebhookHandler;
+    express: TWebhookHandler;
+    fastify: TFastifyWebhookHandler;
+    koa: TKoaWebhookHandler;
+    lambda: TLambdaHandler;
+    yandex: TYandexFunctionHandler;
+    fetch: TFetchHandler;
+}
+
+/**
+ * Middleware для поддерживаемых HTTP-фреймворков
+ */
+export interface IWebhookMiddlewares {
+    express: TExpressMiddleware;
+    koa: TKoaMiddleware;
+}
+
+/**
+ * HTTP-фреймворк или окружение облачной функции, для которого создается обработчик:
+ * - `node`, `express` — node:http и Express;
+ * - `fastify` — Fastify;
+ * - `koa` — Koa;
+ * - `lambda` — AWS Lambda с API Gateway;
+ * - `yandex` — Yandex Cloud Functions;
+ * - `fetch` — окружения со стандартными `Request` и `Response` (Cloudflare Workers, Deno, Bun).
+ */
+export type TWebhookFramework = keyof IWebhookHandlers;
+
+/**
+ * Параметры обработчика webhook-запросов
+ */
+export interface IWebhookHandlerOptions<TFramework extends TWebhookFramework = TWebhookFramework> {
+    /**
+     * HTTP-фреймворк или окружение облачной функции. По умолчанию `node` (подходит и для Express)
+     */
+    framework?: TFramework;
+    /**
+     * Платформа, запросы которой принимает обработчик. Если не указана, платформа определяется автоматически
+     */
+    appType?: TAppType;
+    /**
+     * Пользовательская обработка ответа. Используется только для node:http и Express
+     */
+    responseCb?: TBotResponseCb;
+}
+
+/**
+ * Параметры middleware, которая выбирает обработчик по пути запроса
+ */
+export interface IWebhookRoutingOptions<
+    TFramework extends keyof IWebhookMiddlewares = keyof IWebhookMiddlewares,
+> {
+    /**
+     * HTTP-фреймворк. По умолчанию `express`
+     */
+    framework?: TFramework;
+    /**
+     * Пользовательская обработка ответа. Используется только для Express
+     */
+    responseCb?: TBotResponseCb;
+}
+
+/**
+ * Параметры middleware для обработки webhook-запросов
+ */
+export interface IWebhookMiddlewareOptions<
+    TFramework extends keyof IWebhookMiddlewares = keyof IWebhookMiddlewares,
+> extends IWebhookRoutingOptions<TFramework> {
+    /**
+     * Маршруты: путь и платформа, запросы которой принимаются по этому пути.
+     * Для автоматического определения платформы укажите `auto`.
+     * Запросы по остальным путям передаются следующему обработчику
+     */
+    routes: Record<string, TAppType>;
+}
+
+function defaultSend(res: ServerResponse, state: IBotResponse): void {
+    res.statusCode = state.statusCode;
+    const isBodyString = typeof state.body === 'string';
+    res.setHeader('Content-Type', isBodyString ? 'text/plain' : 'application/json');
+    res.end(isBodyString ? state.body : JSON.stringify(state.body));
+}
+
+function send(
+    req: IncomingMessage,
+    res: ServerResponse,
+    state: IBotResponseState,
+    responseCb?: TBotResponseCb,
+): void {
+    if (responseCb) {
+        return responseCb(req, res, state);
+    }
+    return defaultSend(res, state);
+}
+
+/**
+ * Читает тело запроса из потока
+ * @param req - Объект входящего запроса
+ * @param maxBodySize - Максимальный размер тела запроса в байтах
+ */
+export function readRequestBody(
+    req: IncomingMessage,
+    maxBodySize: number = MAX_REQUEST_SIZE,
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let totalLength = 0;
+        req.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+            totalLength += chunk.length;
+            if (totalLength > maxBodySize) {
+                const error = new PayloadTooLargeError(
+                    `Размер запроса превышает ${maxBodySize} байт`,
+                );
+                req.destroy(error);
+                reject(error);
+            }
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Возвращает путь запроса без параметров и завершающего слэша
+ * @param url - URL или путь запроса
+ */
+export function getWebhookPath(url: string | undefined): string {
+    const path = (url ?? '/').split('?')[0];
+    return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Создает функцию выбора обработчика, которая передает запросы по указанным путям в обработчик с нужной платформой
+ * @param routes - Маршруты: путь и платформа
+ * @param processor - Функция обработки запроса
+ */
+export function createAppTypeResolver(
+    routes: Record<string, TAppType>,
+    processor: TWebhookProcessor,
+): TWebhookResolver {
+    const appTypes = new Map(
+        Object.entries(routes).map(([path, appType]) => [getWebhookPath(path), appType]),
+    );
+    return (path) => {
+        const appType = appTypes.get(path);
+        if (appType === undefined) {
+            return undefined;
+        }
+        return (request, readBody) => processor({ ...request, appType }, readBody);
+    };
+}
+
+/**
+ * Обрабатывает запрос node:http или Express и отправляет ответ
+ * @param processor - Функция обработки запроса
+ * @param req - Объект входящего запроса
+ * @param res - Объект ответа
+ * @param options - Параметры обработчика
+ */
+export async function handleNodeRequest(
+    processor: TWebhookProcessor,
+    req: TNodeWebhookRequest,
+    res: ServerResponse,
+    options: IWebhookHandlerOptions = {},
+): Promise<void> {
+    const response = await processor(
+        {
+            method: req.method,
+            headers: req.headers,
+            body: req.body,
+            rawBody: req.rawBody,
+            appType: options.appType,
+            path: getWebhookPath(req.path ?? req.url),
+        },
+        (maxBodySize) => readRequestBody(req, maxBodySize),
+    );
+    return send(req, res, { ...response, defaultSend }, options.responseCb);
+}
+
+function handleKoaRequest(
+    processor: TWebhookProcessor,
+    ctx: IKoaContext,
+    appType?: TAppType,
+): Promise<void> {
+    return processor(
+        {
+            method: ctx.method,
+            headers: ctx.headers,
+            body: ctx.request.body,
+            rawBody: ctx.request.rawBody,
+            appType,
+            path: getWebhookPath(ctx.path),
+        },
+        (maxBodySize) => readRequestBody(ctx.req, maxBodySize),
+    ).then((response) => {
+        ctx.status = response.statusCode;
+        ctx.body = response.body;
+    });
+}
+
+/**
+ * Создает обработчик webhook-запросов для указанного HTTP-фреймворка или облачной функции
+ * @param processor - Функция обработки запроса
+ * @param options - Параметры обработчика
+ */
+export function createWebhookHandler<TFramework extends TWebhookFramework>(
+    processor: TWebhookProcessor,
+    options: IWebhookHandlerOptions<TFramework>,
+): IWebhookHandlers[TFramework] {
+    const handlers: IWebhookHandlers = {
+        node: (req, res) => handleNodeRequest(processor, req, res, options),
+        express: (req, res) => handleNodeRequest(processor, req, res, options),
+        fastify: async (request, reply) => {
+            const response = await processor({
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
+                rawBody: request.rawBody,
+                appType: options.appType,
+                path: getWebhookPath(request.url),
+            });
+            reply.code(response.statusCode);
+            return reply.send(response.body);
+        },
+        koa: (ctx) => handleKoaRequest(processor, ctx, options.appType),
+        lambda: (event) => handleServerlessEvent(processor, event, options.appType),
+        yandex: (event) => handleYandexFunctionEvent(processor, event, options.appType),
+        fetch: (request) => handleFetchRequest(processor, request, options.appType),
+    };
+    return handlers[(options.framework ?? 'node') as TFramework];
+}
+
+/**
+ * Создает middleware, которая обрабатывает webhook-запросы по путям, для которых найден обработчик.
+ * Запросы по остальным путям передаются следующему обработчику
+ * @param resolve - Функция выбора обработчика по пути запроса
+ * @param options - Параметры middleware
+ */
+export function createWebhookMiddleware<TFramework extends keyof IWebhookMiddlewares>(
+    resolve: TWebhookResolver,
+    options: IWebhookRoutingOptions<TFramework>,
+): IWebhookMiddlewares[TFramework] {
+    const middlewares: IWebhookMiddlewares = {
+        express: (req, res, next) => {
+            const processor = resolve(getWebhookPath(req.path ?? req.url));
+            if (!processor) {
+                next();
+                return Promise.resolve();
+            }
+            return handleNodeRequest(processor, req, res, { responseCb: options.responseCb });
+        },
+        koa: (ctx, next) => {
+            const processor = resolve(getWebhookPath(ctx.path));
+            if (!processor) {
+                return next();
+            }
+            return handleKoaRequest(processor, ctx);
+        },
+    };
+    return middlewares[(options.framework ?? 'express') as TFramework];
+}
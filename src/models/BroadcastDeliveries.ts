@@ -0,0 +1,141 @@
+import { IModelRules } from './interface';
+
+import { IModelState, Model } from './db/Model';
+import { AppContext } from '../core';
+import { TKey } from './db';
+
+const RULES: IModelRules[] = [
+    {
+        name: ['deliveryId', 'broadcastId', 'userId', 'status'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['error'],
+        type: 'text',
+    },
+    {
+        name: ['updatedAt'],
+        type: 'integer',
+    },
+];
+
+const ATTRS_LABEL = {
+    deliveryId: 'ID',
+    broadcastId: 'Broadcast ID',
+    userId: 'User ID',
+    status: 'Status',
+    error: 'Error',
+    updatedAt: 'Updated at',
+};
+
+/**
+ * Статус доставки сообщения рассылки пользователю:
+ * - `sent` — сообщение отправлено;
+ * - `queued` — сообщение не удалось отправить сразу, очередь исходящих сообщений отправит его повторно в фоне;
+ * - `failed` — сообщение не удалось отправить.
+ */
+export type TDeliveryStatus = 'sent' | 'queued' | 'failed';
+
+/**
+ * Интерфейс для внутреннего состояния модели доставки сообщений рассылки.
+ */
+export interface IBroadcastDeliveryModelState extends IModelState {
+    /**
+     * Идентификатор доставки в формате `<broadcastId>:<userId>`
+     */
+    deliveryId: string | null;
+    /**
+     * Идентификатор рассылки
+     */
+    broadcastId: string | null;
+    /**
+     * Идентификатор пользователя
+     */
+    userId: string | number | null;
+    /**
+     * Статус доставки
+     */
+    status: TDeliveryStatus;
+    /**
+     * Текст ошибки, если сообщение не удалось отправить
+     */
+    error: string | null;
+    /**
+     * Время попытки отправки в миллисекундах
+     */
+    updatedAt: number;
+}
+
+/**
+ * Модель для хранения статуса доставки сообщения рассылки каждому пользователю.
+ *
+ * @example
+ * ```ts
+ * const delivery = new BroadcastDeliveries(appContext);
+ * await delivery.whereOne({ deliveryId: BroadcastDeliveries.getDeliveryId(broadcastId, userId) });
+ * console.log(delivery.state.status);
+ * ```
+ */
+export class BroadcastDeliveries extends Model<IBroadcastDeliveryModelState> {
+    /**
+     * Название таблицы для хранения статусов доставки.
+     * @readonly
+     */
+    public static readonly TABLE_NAME = 'BroadcastDeliveries';
+
+    /**
+     * Возвращает идентификатор доставки
+     * @param broadcastId - Идентификатор рассылки
+     * @param userId - Идентификатор пользователя
+     */
+    public static getDeliveryId(broadcastId: string, userId: string | number): string {
+        return `${broadcastId}:${userId}`;
+    }
+
+    /**
+     * Создает экземпляр модели доставки сообщений рассылки.
+     */
+    public constructor(appContext: AppContext) {
+        super(appContext);
+        this.state = {
+            deliveryId: null,
+            broadcastId: null,
+            userId: null,
+            status: 'sent',
+            error: null,
+            updatedAt: 0,
+        };
+    }
+
+    protected getId(): TKey {
+        return 'deliveryId';
+    }
+
+    /**
+     * Возвращает название таблицы/файла для хранения данных.
+     *
+     * @return {string} Название таблицы для хранения статусов доставки
+     */
+    public tableName(): string {
+        return BroadcastDeliveries.TABLE_NAME;
+    }
+
+    /**
+     * Определяет правила валидации полей модели.
+     *
+     * @return {IModelRules[]} Массив правил валидации
+     */
+    public rules(): IModelRules[] {
+        return RULES;
+    }
+
+    /**
+     * Возвращает описания атрибутов модели.
+     *
+     * @return {IBroadcastDeliveryModelState} Описания атрибутов
+     */
+    public attributeLabels(): IBroadcastDeliveryModelState {
+        return ATTRS_LABEL as unknown as IBroadcastDeliveryModelState;
+    }
+}
@@ -0,0 +1,144 @@
+import { IModelRules } from './interface';
+
+import { IModelState, Model } from './db/Model';
+import { AppContext } from '../core';
+import { TKey } from './db';
+
+const RULES: IModelRules[] = [
+    {
+        name: ['broadcastId', 'platform', 'status'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['cursor'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['total', 'sent', 'failed', 'skipped', 'updatedAt'],
+        type: 'integer',
+    },
+];
+
+const ATTRS_LABEL = {
+    broadcastId: 'ID',
+    platform: 'Platform name',
+    status: 'Status',
+    cursor: 'Cursor',
+    total: 'Total',
+    sent: 'Sent',
+    failed: 'Failed',
+    skipped: 'Skipped',
+    updatedAt: 'Updated at',
+};
+
+/**
+ * Статус рассылки:
+ * - `running` — рассылка выполняется или была прервана;
+ * - `done` — рассылка завершена.
+ */
+export type TBroadcastStatus = 'running' | 'done';
+
+/**
+ * Интерфейс для внутреннего состояния модели рассылок.
+ */
+export interface IBroadcastModelState extends IModelState {
+    /**
+     * Уникальный идентификатор рассылки
+     */
+    broadcastId: string | null;
+    /**
+     * Платформа, на которую выполняется рассылка
+     */
+    platform: string;
+    /**
+     * Статус рассылки
+     */
+    status: TBroadcastStatus;
+    /**
+     * Идентификатор последнего обработанного пользователя. Используется для продолжения рассылки после сбоя
+     */
+    cursor: string | number | null;
+    /**
+     * Количество получателей, обработанных рассылкой
+     */
+    total: number;
+    /**
+     * Количество успешно отправленных сообщений
+     */
+    sent: number;
+    /**
+     * Количество сообщений, которые не удалось отправить
+     */
+    failed: number;
+    /**
+     * Количество получателей, которым сообщение было отправлено до перезапуска рассылки
+     */
+    skipped: number;
+    /**
+     * Время последнего обновления в миллисекундах
+     */
+    updatedAt: number;
+}
+
+/**
+ * Модель для хранения состояния рассылок.
+ * Используется в `bot.broadcast()`, чтобы прерванную рассылку можно было продолжить с места остановки.
+ */
+export class Broadcasts extends Model<IBroadcastModelState> {
+    /**
+     * Название таблицы для хранения рассылок.
+     * @readonly
+     */
+    public static readonly TABLE_NAME = 'Broadcasts';
+
+    /**
+     * Создает экземпляр модели рассылок.
+     */
+    public constructor(appContext: AppContext) {
+        super(appContext);
+        this.state = {
+            broadcastId: null,
+            platform: 'unknown',
+            status: 'running',
+            cursor: null,
+            total: 0,
+            sent: 0,
+            failed: 0,
+            skipped: 0,
+            updatedAt: 0,
+        };
+    }
+
+    protected getId(): TKey {
+        return 'broadcastId';
+    }
+
+    /**
+     * Возвращает название таблицы/файла для хранения данных.
+     *
+     * @return {string} Название таблицы для хранения рассылок
+     */
+    public tableName(): string {
+        return Broadcasts.TABLE_NAME;
+    }
+
+    /**
+     * Определяет правила валидации полей модели.
+     *
+     * @return {IModelRules[]} Массив правил валидации
+     */
+    public rules(): IModelRules[] {
+        return RULES;
+    }
+
+    /**
+     * Возвращает описания атрибутов модели.
+     *
+     * @return {IBroadcastModelState} Описания атрибутов
+     */
+    public attributeLabels(): IBroadcastModelState {
+        return ATTRS_LABEL as unknown as IBroadcastModelState;
+    }
+}
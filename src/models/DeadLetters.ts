@@ -0,0 +1,29 @@
+import { OutboundMessages } from './OutboundMessages';
+
+/**
+ * Модель для хранения исходящих сообщений, которые не удалось отправить (dead letter).
+ * Сообщение попадает сюда, если платформа вернула постоянную ошибку или исчерпаны все попытки отправки.
+ * Структура совпадает с {@link OutboundMessages}, в поле `error` хранится текст последней ошибки.
+ *
+ * @example
+ * ```ts
+ * const deadLetters = new DeadLetters(appContext);
+ * const res = await deadLetters.where({ platform: T_TELEGRAM });
+ * ```
+ */
+export class DeadLetters extends OutboundMessages {
+    /**
+     * Название таблицы для хранения неотправленных сообщений.
+     * @readonly
+     */
+    public static readonly TABLE_NAME: string = 'DeadLetters';
+
+    /**
+     * Возвращает название таблицы/файла для хранения данных.
+     *
+     * @return {string} Название таблицы для хранения неотправленных сообщений
+     */
+    public tableName(): string {
+        return DeadLetters.TABLE_NAME;
+    }
+}
@@ -0,0 +1,124 @@
+import { IModelRules } from './interface';
+
+import { IModelState, Model } from './db/Model';
+import { AppContext } from '../core';
+import { TKey } from './db';
+
+const RULES: IModelRules[] = [
+    {
+        name: ['messageId', 'platform', 'method'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['params', 'error'],
+        type: 'text',
+    },
+    {
+        name: ['attempts', 'createdAt'],
+        type: 'integer',
+    },
+];
+
+const ATTRS_LABEL = {
+    messageId: 'ID',
+    platform: 'Platform name',
+    method: 'Method',
+    params: 'Params',
+    attempts: 'Attempts',
+    error: 'Error',
+    createdAt: 'Created at',
+};
+
+/**
+ * Интерфейс для внутреннего состояния модели исходящих сообщений.
+ */
+export interface IOutboundMessageModelState extends IModelState {
+    /**
+     * Уникальный идентификатор сообщения
+     */
+    messageId: string | null;
+    /**
+     * Платформа, к API которой выполняется запрос
+     */
+    platform: string;
+    /**
+     * Метод API платформы
+     */
+    method: string;
+    /**
+     * Параметры запроса в JSON
+     */
+    params: string | null;
+    /**
+     * Количество выполненных попыток
+     */
+    attempts: number;
+    /**
+     * Текст последней ошибки
+     */
+    error: string | null;
+    /**
+     * Время создания сообщения в миллисекундах
+     */
+    createdAt: number;
+}
+
+/**
+ * Модель для хранения исходящих сообщений, которые еще не удалось отправить.
+ * Используется очередью `DbOutboundQueue`, чтобы сообщения не терялись при перезапуске приложения.
+ */
+export class OutboundMessages extends Model<IOutboundMessageModelState> {
+    /**
+     * Название таблицы для хранения исходящих сообщений.
+     * @readonly
+     */
+    public static readonly TABLE_NAME: string = 'OutboundMessages';
+
+    /**
+     * Создает экземпляр модели исходящих сообщений.
+     */
+    public constructor(appContext: AppContext) {
+        super(appContext);
+        this.state = {
+            messageId: null,
+            platform: 'unknown',
+            method: '',
+            params: null,
+            attempts: 0,
+            error: null,
+            createdAt: 0,
+        };
+    }
+
+    protected getId(): TKey {
+        return 'messageId';
+    }
+
+    /**
+     * Возвращает название таблицы/файла для хранения данных.
+     *
+     * @return {string} Название таблицы для хранения исходящих сообщений
+     */
+    public tableName(): string {
+        return OutboundMessages.TABLE_NAME;
+    }
+
+    /**
+     * Определяет правила валидации полей модели.
+     *
+     * @return {IModelRules[]} Массив правил валидации
+     */
+    public rules(): IModelRules[] {
+        return RULES;
+    }
+
+    /**
+     * Возвращает описания атрибутов модели.
+     *
+     * @return {IOutboundMessageModelState} Описания атрибутов
+     */
+    public attributeLabels(): IOutboundMessageModelState {
+        return ATTRS_LABEL as unknown as IOutboundMessageModelState;
+    }
+}
@@ -0,0 +1,135 @@
+import { IModelRules } from './interface';
+
+import { IModelState, Model } from './db/Model';
+import { AppContext } from '../core';
+import { TKey } from './db';
+
+const RULES: IModelRules[] = [
+    {
+        name: ['jobId', 'platform', 'cron'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['userId'],
+        type: 'string',
+        max: 250,
+    },
+    {
+        name: ['payload'],
+        type: 'text',
+    },
+    {
+        name: ['runAt', 'attempts'],
+        type: 'integer',
+    },
+];
+
+const ATTRS_LABEL = {
+    jobId: 'ID',
+    userId: 'User ID',
+    platform: 'Platform name',
+    payload: 'Payload',
+    runAt: 'Run at',
+    cron: 'Cron expression',
+    attempts: 'Attempts',
+};
+
+/**
+ * Интерфейс для внутреннего состояния модели отложенных сообщений.
+ */
+export interface IScheduledJobModelState extends IModelState {
+    /**
+     * Уникальный идентификатор задачи
+     */
+    jobId: string | null;
+    /**
+     * Идентификатор пользователя, которому отправляется сообщение
+     */
+    userId: string | number | null;
+    /**
+     * Платформа, на которую отправляется сообщение
+     */
+    platform: string;
+    /**
+     * Содержимое сообщения в JSON
+     */
+    payload: string | null;
+    /**
+     * Время следующей отправки в миллисекундах
+     */
+    runAt: number;
+    /**
+     * Cron-выражение для периодических задач. Для разовых задач равно null
+     */
+    cron: string | null;
+    /**
+     * Количество неудачных попыток отправки подряд
+     */
+    attempts: number;
+}
+
+/**
+ * Модель для хранения отложенных и периодических сообщений.
+ * Используется планировщиком (`bot.schedule()`), чтобы задачи сохранялись между перезапусками приложения.
+ *
+ * @example
+ * ```ts
+ * const jobs = new ScheduledJobs(appContext);
+ * const res = await jobs.where();
+ * ```
+ */
+export class ScheduledJobs extends Model<IScheduledJobModelState> {
+    /**
+     * Название таблицы для хранения задач.
+     * @readonly
+     */
+    public static readonly TABLE_NAME = 'ScheduledJobs';
+
+    /**
+     * Создает экземпляр модели отложенных сообщений.
+     */
+    public constructor(appContext: AppContext) {
+        super(appContext);
+        this.state = {
+            jobId: null,
+            userId: null,
+            platform: 'unknown',
+            payload: null,
+            runAt: 0,
+            cron: null,
+            attempts: 0,
+        };
+    }
+
+    protected getId(): TKey {
+        return 'jobId';
+    }
+
+    /**
+     * Возвращает название таблицы/файла для хранения данных.
+     *
+     * @return {string} Название таблицы для хранения задач
+     */
+    public tableName(): string {
+        return ScheduledJobs.TABLE_NAME;
+    }
+
+    /**
+     * Определяет правила валидации полей модели.
+     *
+     * @return {IModelRules[]} Массив правил валидации
+     */
+    public rules(): IModelRules[] {
+        return RULES;
+    }
+
+    /**
+     * Возвращает описания атрибутов модели.
+     *
+     * @return {IScheduledJobModelState} Описания атрибутов
+     */
+    public attributeLabels(): IScheduledJobModelState {
+        return ATTRS_LABEL as unknown as IScheduledJobModelState;
+    }
+}
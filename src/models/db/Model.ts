@@ -12,6 +12,21 @@ import { IDataValue, IModelRes, IModelRules, TQueryCb } from '../interface';
 import { IQueryData, IQuery, getQueryData, TKey } from './QueryData';
 import { AppContext, IDbResult } from '../../core';
 
+/**
+ * Сравнивает значения первичных ключей. Числа сравниваются как числа, остальные значения — как строки
+ */
+function compareKeys(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    const strA = String(a);
+    const strB = String(b);
+    if (strA === strB) {
+        return 0;
+    }
+    return strA > strB ? 1 : -1;
+}
+
 export interface IModelState {
     [key: string]: unknown;
 }
@@ -458,6 +473,57 @@ export abstract class Model<TState extends IModelState> {
         };
     }
 
+    /**
+     * Выполняет постраничную выборку, отсортированную по первичному ключу.
+     * Возвращает не больше `limit` записей, первичный ключ которых больше `cursor`.
+     * Если адаптер базы данных не поддерживает постраничную выборку, выбираются все записи, и страница формируется из них.
+     *
+     * @example
+     * ```ts
+     * let cursor = null;
+     * let res = await model.wherePage({ platform: T_TELEGRAM }, cursor, 100);
+     * while (res.status && Array.isArray(res.data) && res.data.length) {
+     *   cursor = res.data[res.data.length - 1].userId;
+     *   res = await model.wherePage({ platform: T_TELEGRAM }, cursor, 100);
+     * }
+     * ```
+     *
+     * @param where - Условия запроса
+     * @param cursor - Значение первичного ключа последней записи предыдущей страницы. Для первой страницы null
+     * @param limit - Максимальное количество записей на странице
+     * @returns Promise с результатом запроса. В data всегда содержится массив записей
+     */
+    public async wherePage(
+        where: string | IQueryData = '1',
+        cursor: string | number | null = null,
+        limit: number = 100,
+    ): Promise<IModelRes> {
+        const select: IQueryData | null = typeof where === 'string' ? getQueryData(where) : where;
+        const adapter = this._appContext.database.adapter;
+        if (!adapter) {
+            return {
+                status: false,
+                error: 'Не указан источник для базы данных',
+            };
+        }
+        if (adapter.selectPage) {
+            return adapter.selectPage(this.queryData, select, cursor, limit);
+        }
+        const res = await this.where(select || '1');
+        if (!res.status || !res.data) {
+            return { status: true, data: [] };
+        }
+        const idName = this.queryData.primaryKeyName as string;
+        const records = (
+            Array.isArray(res.data) ? res.data : Object.values(res.data)
+        ) as IDbResult[];
+        const data = records
+            .filter((record) => cursor === null || compareKeys(record[idName], cursor) > 0)
+            .sort((a, b) => compareKeys(a[idName], b[idName]))
+            .slice(0, limit);
+        return { status: true, data: data as IDataValue[] };
+    }
+
     /**
      * Выполняет запрос с выборкой одной записи
      *
@@ -32,3 +32,8 @@ export * from './interface';
 export * from './ImageTokens';
 export * from './SoundTokens';
 export * from './UsersData';
+export * from './ScheduledJobs';
+export * from './Broadcasts';
+export * from './BroadcastDeliveries';
+export * from './OutboundMessages';
+export * from './DeadLetters';
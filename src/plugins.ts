@@ -5,6 +5,7 @@
  * ## 📦 Что входит в модуль
  * - **Адаптеры платформ**: Алиса, Маруся, Сбер Салют (SmartApp), Telegram, Viber, VK, MAX.
  * - **Адаптеры баз данных**: MongoDB, файловая БД (для разработки).
+ * - **Трассировка**: {@link OpenTelemetryPlugin} — спаны OpenTelemetry для всех этапов обработки запроса.
  * - **Готовые наборы**: {@link voicePlatforms}, {@link botPlatforms}, {@link fullPlatforms} — подключают сразу все нужные платформы одной строкой.
  *
  * ## 🚀 Рекомендации
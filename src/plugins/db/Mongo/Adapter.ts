@@ -351,6 +351,46 @@ export class MongoAdapter extends Base<IMongoDbInfo> {
         };
     }
 
+    /**
+     * Выполняет постраничную выборку, отсортированную по первичному ключу.
+     * @param selectData Дополнительная информация для запроса. Содержит информацию о таблице и структуре.
+     * @param where Сам запрос
+     * @param cursor Значение первичного ключа последней записи предыдущей страницы
+     * @param limit Максимальное количество записей на странице
+     */
+    public async selectPage(
+        selectData: IQuery,
+        where: IQueryData | null,
+        cursor: string | number | null,
+        limit: number,
+    ): Promise<IModelRes> {
+        const primaryKey = selectData.primaryKeyName as string;
+        const filter: IQueryData = { ...where };
+        if (cursor !== null) {
+            filter[primaryKey] = { $gt: cursor };
+        }
+        const results = await this.query(async (_client, db: Db) => {
+            try {
+                const data = await db
+                    .collection(selectData.tableName)
+                    .find(filter as Filter<Document>)
+                    .sort({ [primaryKey]: 1 })
+                    .limit(limit)
+                    .toArray();
+                return { status: true, data: data as IModelRes['data'] };
+            } catch (err) {
+                return { status: false, error: err as Error };
+            }
+        });
+        if (results) {
+            return { status: true, data: results as IModelRes['data'] };
+        }
+        return {
+            status: false,
+            error: 'Не удалось получить данные',
+        };
+    }
+
     /**
      * Проверяет, установлено ли соединение с БД.
      */
@@ -17,6 +17,7 @@ export * as SmartAppCard from './platforms/SmartApp/Card';
 export { T_SMART_APP } from './platforms/SmartApp/constants';
 
 export { TelegramAdapter } from './platforms/Telegram/Adapter';
+export { TelegramPolling, type ITelegramPollingOptions } from './platforms/Telegram/Polling';
 export * from './platforms/Telegram/interfaces/ITelegramPlatform';
 export * as TelegramButton from './platforms/Telegram/Button';
 export * as TelegramSound from './platforms/Telegram/Sound';
@@ -68,3 +69,12 @@ export { botPlatforms } from './platforms/botPlatforms';
 export { adapters } from './platforms/adapters';
 
 export * from './db';
+
+export {
+    OpenTelemetryPlugin,
+    type IOpenTelemetryOptions,
+    type IOpenTelemetrySpan,
+    type IOpenTelemetryTracer,
+} from './tracing/OpenTelemetry';
+
+export { LocalNluPlugin, type ILocalNluOptions } from './nlu/LocalNlu';
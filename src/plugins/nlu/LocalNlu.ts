@@ -0,0 +1,158 @@
+import {
+    AppContext,
+    Bot,
+    IAppIntent,
+    IIntentClassifierModel,
+    IIntentClassifierOptions,
+    INlu,
+    INluIntents,
+    IntentClassifier,
+} from '../../index';
+import { BasePlugin } from '../Base';
+
+/**
+ * Параметры плагина локального NLU
+ */
+export interface ILocalNluOptions extends IIntentClassifierOptions {
+    /**
+     * Обученная модель, сохраненная через `toJSON`. Если не передана, модель обучается на
+     * `platformParams.intents` при первом запросе и переобучается после `setPlatformParams`
+     */
+    model?: IIntentClassifierModel;
+    /**
+     * Максимальное количество интентов, которые добавляются в NLU
+     * @defaultValue 3
+     */
+    topK?: number;
+    /**
+     * Минимальная уверенность в процентах, при которой интент добавляется в NLU
+     * @defaultValue 50
+     */
+    threshold?: number;
+}
+
+/**
+ * Плагин локального NLU. Определяет интенты запроса с помощью `IntentClassifier`, обученного на фразах из
+ * `bot.setPlatformParams({ intents })`, и добавляет их с уверенностью в `controller.nlu`. Работает без сети и GPU.
+ *
+ * Найденные интенты доступны через `controller.nlu.getTopIntents()`. Если интент не найден по подстроке или
+ * регулярному выражению, используется интент с наибольшей уверенностью.
+ *
+ * @example
+ * ```ts
+ * import { LocalNluPlugin } from 'umbot/plugins';
+ *
+ * bot.setPlatformParams({
+ *     intents: [
+ *         { name: 'weather', slots: ['какая погода', 'прогноз погоды на завтра'] },
+ *         { name: 'music', slots: ['включи музыку', 'поставь песню'] },
+ *     ],
+ * });
+ * const nlu = new LocalNluPlugin({ threshold: 60 });
+ * bot.use(nlu);
+ *
+ * // Сохранение модели для быстрого запуска
+ * fs.writeFileSync('model.json', JSON.stringify(nlu.classifier));
+ * bot.use(new LocalNluPlugin({ model: JSON.parse(fs.readFileSync('model.json', 'utf-8')) }));
+ * ```
+ */
+export class LocalNluPlugin extends BasePlugin {
+    /**
+     * Параметры плагина
+     */
+    readonly #options: ILocalNluOptions;
+
+    /**
+     * Классификатор интентов
+     */
+    readonly #classifier: IntentClassifier;
+
+    /**
+     * Интенты, на которых обучена модель
+     */
+    #trainedIntents: IAppIntent[] | null = null;
+
+    /**
+     * Контекст приложения, к которому подключен плагин
+     */
+    #appContext: AppContext | null = null;
+
+    /**
+     * @param options - Параметры плагина
+     */
+    constructor(options: ILocalNluOptions = {}) {
+        super();
+        this.#options = options;
+        this.#classifier = options.model
+            ? IntentClassifier.fromJSON(options.model)
+            : new IntentClassifier(options);
+    }
+
+    /**
+     * Классификатор интентов. Если модель не передана в параметрах, классификатор обучается на текущих интентах
+     * приложения
+     */
+    public get classifier(): IntentClassifier {
+        this.#train();
+        return this.#classifier;
+    }
+
+    /**
+     * Подключает плагин в качестве NLU приложения
+     * @param appContext - Контекст приложения
+     */
+    public init(appContext: AppContext): void {
+        this.#appContext = appContext;
+        appContext.plugins.nlu = this;
+    }
+
+    /**
+     * Отключает плагин
+     * @param _bot - Основной класс приложения
+     */
+    public destroy(_bot: Bot): void {
+        if (this.#appContext?.plugins.nlu === this) {
+            this.#appContext.plugins.nlu = undefined;
+        }
+        this.#appContext = null;
+    }
+
+    /**
+     * Добавляет найденные интенты в NLU платформы
+     * @param text - Текст запроса
+     * @param platformNlu - NLU, заполненный платформой
+     * @returns NLU с найденными интентами
+     */
+    public getData(text: string, platformNlu: INlu): INlu {
+        if (!text) {
+            return platformNlu;
+        }
+        const threshold = this.#options.threshold ?? 50;
+        const predictions = this.classifier.classify(text, this.#options.topK ?? 3);
+        let intents: INluIntents | null = null;
+        for (const prediction of predictions) {
+            if (prediction.confidence >= threshold) {
+                intents ??= { ...platformNlu.intents };
+                intents[prediction.name] = {
+                    slots: intents[prediction.name]?.slots ?? [],
+                    confidence: prediction.confidence,
+                };
+            }
+        }
+        return intents ? { ...platformNlu, intents } : platformNlu;
+    }
+
+    /**
+     * Обучает модель на интентах приложения, если они изменились
+     */
+    #train(): void {
+        if (this.#options.model || !this.#appContext) {
+            return;
+        }
+        const intents = this.#appContext.platformParams.intents;
+        if (intents !== this.#trainedIntents) {
+            this.#classifier.train(intents ?? []);
+            this.#trainedIntents = intents;
+        }
+    }
+}
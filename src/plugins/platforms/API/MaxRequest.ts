@@ -1,14 +1,27 @@
 import { IMaxSendMessage, IMaxParams, IMaxAppApi } from './interfaces';
 import { IMaxUploadFile, TMaxUploadFile } from './interfaces/IMaxAppApi';
-import { AppContext, keysCount, Request } from '../../../index';
+import {
+    AppContext,
+    IOutboundQueued,
+    isOutboundQueued,
+    keysCount,
+    Request,
+    TOutboundResult,
+} from '../../../index';
 import { T_MAX_APP } from '../Max/constants';
-import { getErrorMsg, getErrorToken } from './constants';
+import { getErrorMsg, getErrorToken, getOutboundHttpResult, isOutboundPost } from './constants';
+import { reportDelivery } from '../Base/Delivery';
 
 /**
  * Базовый URL для всех методов Max API
  */
 const MAX_API_ENDPOINT = 'https://platform-api.max.ru/';
 
+/**
+ * Методы MAX API, которые отправляются через очередь исходящих сообщений
+ */
+const OUTBOUND_METHODS = ['messages'];
+
 /**
  * Класс для взаимодействия с API Max
  * Предоставляет методы для отправки сообщений, загрузки файлов
@@ -88,7 +101,34 @@ export class MaxRequest {
      * @returns Результат выполнения метода или null при ошибке
      */
     public async call<T extends IMaxAppApi>(method: string): Promise<T | null> {
+        const res = await this.#call<T>(method);
+        if (OUTBOUND_METHODS.includes(method)) {
+            reportDelivery(res);
+        }
+        return isOutboundQueued(res) ? null : res;
+    }
+
+    /**
+     * Выполняет запрос к MAX API напрямую или через очередь исходящих сообщений
+     * @param method Название метода MAX API
+     */
+    async #call<T extends IMaxAppApi>(method: string): Promise<T | IOutboundQueued | null> {
         if (this.token) {
+            const queue = this.#appContext.outboundQueue;
+            const post = this.#request.post;
+            if (
+                queue &&
+                OUTBOUND_METHODS.includes(method) &&
+                isOutboundPost(post, this.#request.attach)
+            ) {
+                this.#request.post = null;
+                return (await queue.push({
+                    platform: T_MAX_APP,
+                    method,
+                    params: post ?? {},
+                    token: this.token,
+                })) as T | IOutboundQueued | null;
+            }
             this.#request.header = null;
             this.#setAccessToken(this.token);
             const data = await this.#request.send<T>(MAX_API_ENDPOINT + method);
@@ -103,6 +143,35 @@ export class MaxRequest {
         return null;
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * Повторные попытки по политике `requestPolicy.retry` не выполняются, так как ими управляет очередь
+     * @param method Название метода MAX API
+     * @param params Параметры запроса
+     * @param token Токен, с которым сообщение было добавлено в очередь. Если не указан, используется токен из настроек
+     * приложения
+     * @returns Результат выполнения запроса
+     */
+    public async execute(
+        method: string,
+        params: Record<string, unknown>,
+        token?: string | null,
+    ): Promise<TOutboundResult> {
+        if (token) {
+            this.initToken(token);
+        }
+        if (!this.token) {
+            return { status: 'fail', error: getErrorToken(T_MAX_APP, 'execute') };
+        }
+        this.#request.header = null;
+        this.#request.retry = { retries: 0 };
+        this.#request.post = { ...params };
+        this.#setAccessToken(this.token);
+        return getOutboundHttpResult(
+            await this.#request.send<IMaxAppApi>(MAX_API_ENDPOINT + method),
+        );
+    }
+
     /**
      * Загружает файл на сервера Max
      * @param file Путь к файлу или его содержимое
@@ -1,18 +1,49 @@
 import {
+    ITelegramContent,
+    ITelegramFile,
     ITelegramMedia,
     ITelegramParams,
     ITelegramResult,
     TTelegramChatId,
 } from '../Telegram/interfaces/ITelegramPlatform';
-import { AppContext, Request, Text } from '../../../index';
+import {
+    AppContext,
+    IOutboundQueued,
+    isOutboundQueued,
+    IRequestSendOptions,
+    Request,
+    Text,
+    TOutboundResult,
+} from '../../../index';
 import { T_TELEGRAM } from '../Telegram/constants';
-import { getErrorMsg, getErrorToken } from './constants';
+import { getErrorMsg, getErrorToken, getOutboundHttpResult, isOutboundPost } from './constants';
+import { reportDelivery } from '../Base/Delivery';
 
 /**
  * Базовый URL для всех методов Telegram API
  */
 const API_ENDPOINT = 'https://api.telegram.org/bot';
 
+/**
+ * Регулярное выражение для методов, которые отправляются через очередь исходящих сообщений
+ */
+const OUTBOUND_METHOD = /^(send|edit|delete|answer)[A-Z]/;
+
+/**
+ * Регулярное выражение для методов, результат которых определяет, доставлено ли сообщение пользователю
+ */
+const DELIVERY_METHOD = /^(send|edit)[A-Z]/;
+
+/**
+ * Базовый URL для скачивания файлов
+ */
+const FILE_ENDPOINT = 'https://api.telegram.org/file/bot';
+
+/**
+ * Максимальное время ожидания ответа от Telegram API в миллисекундах
+ */
+const TIMEOUT = 5500;
+
 /**
  * Класс для взаимодействия с API Telegram
  * Предоставляет методы для отправки сообщений, файлов и других типов контента
@@ -89,7 +120,7 @@ export class TelegramRequest {
      */
     public constructor(appContext: AppContext) {
         this.#request = new Request(appContext);
-        this.#request.maxTimeQuery = 5500;
+        this.#request.maxTimeQuery = TIMEOUT;
         this.token = null;
         this.#error = null;
         this.#appContext = appContext;
@@ -112,7 +143,7 @@ export class TelegramRequest {
      *
      */
     protected _getUrl(): string {
-        return `${API_ENDPOINT}${this.#appContext.appConfig.tokens[T_TELEGRAM].token}/`;
+        return `${API_ENDPOINT}${this.token}/`;
     }
 
     /**
@@ -163,6 +194,24 @@ export class TelegramRequest {
         method: string,
         userId: TTelegramChatId | null = null,
     ): Promise<ITelegramResult | null> {
+        const res = await this.#call(method, userId);
+        if (DELIVERY_METHOD.test(method)) {
+            reportDelivery(res);
+        }
+        return isOutboundQueued(res) ? null : res;
+    }
+
+    /**
+     * Выполняет запрос к Telegram API напрямую или через очередь исходящих сообщений
+     * @param method Название метода API
+     * @param userId ID пользователя или чата
+     * @param options Параметры HTTP-запроса
+     */
+    async #call(
+        method: string,
+        userId: TTelegramChatId | null,
+        options: IRequestSendOptions = {},
+    ): Promise<ITelegramResult | IOutboundQueued | null> {
         if (userId) {
             if (this.#request.post instanceof FormData) {
                 this.#request.post.append('chat_id', userId.toString());
@@ -173,7 +222,25 @@ export class TelegramRequest {
         }
         if (this.token) {
             if (method) {
-                const data = await this.#request.send<ITelegramResult>(this._getUrl() + method);
+                const queue = this.#appContext.outboundQueue;
+                const post = this.#request.post;
+                if (
+                    queue &&
+                    OUTBOUND_METHOD.test(method) &&
+                    isOutboundPost(post, this.#request.attach)
+                ) {
+                    this.#request.post = null;
+                    return (await queue.push({
+                        platform: T_TELEGRAM,
+                        method,
+                        params: post ?? {},
+                        token: this.token,
+                    })) as ITelegramResult | IOutboundQueued | null;
+                }
+                const data = await this.#request.send<ITelegramResult>(
+                    this._getUrl() + method,
+                    options,
+                );
                 if (data.status && data.data) {
                     if (!data.data.ok) {
                         this.#error = data;
@@ -182,7 +249,9 @@ export class TelegramRequest {
                     }
                     return data.data;
                 }
-                this.#log(data.err);
+                if (data.error?.code !== 'aborted') {
+                    this.#log(data.err);
+                }
             }
         } else {
             this.#log(getErrorToken(T_TELEGRAM, 'call'));
@@ -190,6 +259,47 @@ export class TelegramRequest {
         return null;
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * Повторные попытки по политике `requestPolicy.retry` не выполняются, так как ими управляет очередь
+     * @param method Название метода API
+     * @param params Параметры запроса
+     * @param token Токен, с которым сообщение было добавлено в очередь. Если не указан, используется токен из настроек
+     * приложения
+     * @returns Результат выполнения запроса
+     */
+    public async execute(
+        method: string,
+        params: Record<string, unknown>,
+        token?: string | null,
+    ): Promise<TOutboundResult> {
+        if (token) {
+            this.initToken(token);
+        }
+        if (!this.token) {
+            return { status: 'fail', error: getErrorToken(T_TELEGRAM, 'execute') };
+        }
+        this.#request.retry = { retries: 0 };
+        this.#request.post = { ...params };
+        const res = await this.#request.send<ITelegramResult>(this._getUrl() + method);
+        const data = (res.status ? res.data : res.errorData) as ITelegramResult | null | undefined;
+        if (data?.ok) {
+            return { status: 'ok', data };
+        }
+        const retryAfter = data?.parameters?.retry_after;
+        if (data?.error_code === 429) {
+            return {
+                status: 'retry',
+                error: data.description || 'Too Many Requests',
+                retryAfter: retryAfter === undefined ? undefined : retryAfter * 1000,
+            };
+        }
+        if (res.status) {
+            return { status: 'fail', error: data?.description || 'Запрос завершился с ошибкой' };
+        }
+        return getOutboundHttpResult(res);
+    }
+
     /**
      * Санитизировать текст сообщения
      * @param text
@@ -281,6 +391,62 @@ export class TelegramRequest {
         return this.call('sendMessage');
     }
 
+    /**
+     * Изменяет текст ранее отправленного сообщения.
+     * Используется для обновления сообщения с inline-клавиатурой, например при постраничной навигации
+     * @param chatId ID чата или пользователя
+     * @param messageId ID изменяемого сообщения
+     * @param message Новый текст сообщения
+     * @param params Дополнительные параметры (parse_mode, reply_markup и т.д.)
+     *
+     * @example
+     * ```ts
+     * await telegram.editMessageText(12345, 10, 'Страница 2', {
+     *   reply_markup: JSON.stringify({ inline_keyboard: [[{ text: 'Назад', callback_data: 'prev' }]] })
+     * });
+     * ```
+     *
+     * @returns Информация об измененном сообщении или null при ошибке
+     */
+    public editMessageText(
+        chatId: TTelegramChatId,
+        messageId: number,
+        message: string,
+        params: ITelegramParams | null = null,
+    ): Promise<ITelegramResult | null> {
+        const safeMessage = this.#sanitizeTelegramMessage(message, params?.parse_mode);
+        this.#request.post = {
+            chat_id: chatId,
+            message_id: messageId,
+            text: safeMessage,
+        };
+        if (params) {
+            this.#request.post = { ...params, ...this.#request.post };
+        }
+        return this.call('editMessageText');
+    }
+
+    /**
+     * Изменяет inline-клавиатуру ранее отправленного сообщения
+     * @param chatId ID чата или пользователя
+     * @param messageId ID изменяемого сообщения
+     * @param replyMarkup Новая inline-клавиатура в JSON формате. Если не передана, клавиатура будет удалена
+     *
+     * @returns Информация об измененном сообщении или null при ошибке
+     */
+    public editMessageReplyMarkup(
+        chatId: TTelegramChatId,
+        messageId: number,
+        replyMarkup?: string,
+    ): Promise<ITelegramResult | null> {
+        this.#request.post = {
+            chat_id: chatId,
+            message_id: messageId,
+            reply_markup: replyMarkup,
+        };
+        return this.call('editMessageReplyMarkup');
+    }
+
     /**
      * Отправляет опрос
      * @param chatId ID чата или пользователя
@@ -516,6 +682,89 @@ export class TelegramRequest {
         return this.call('sendMediaGroup', userId);
     }
 
+    /**
+     * Получает список входящих обновлений через long polling.
+     * Не работает, если для бота установлен webhook.
+     * @param offset Идентификатор первого обновления, которое нужно вернуть. Все обновления с меньшим идентификатором считаются подтвержденными
+     * @param timeout Время ожидания новых обновлений в секундах. 0 - короткий опрос
+     * @param limit Максимальное количество обновлений в ответе (1-100)
+     * @param allowedUpdates Список типов обновлений, которые необходимо получать
+     * @param signal Сигнал для отмены запроса, например при остановке получения обновлений
+     * @returns Массив обновлений или null при ошибке
+     *
+     * @example
+     * ```ts
+     * const updates = await telegram.getUpdates(0, 25);
+     * updates?.forEach((update) => console.log(update.update_id));
+     * ```
+     */
+    public async getUpdates(
+        offset?: number,
+        timeout: number = 0,
+        limit?: number,
+        allowedUpdates?: string[],
+        signal?: AbortSignal,
+    ): Promise<ITelegramContent[] | null> {
+        this.#request.post = {
+            offset,
+            timeout,
+            limit,
+            allowed_updates: allowedUpdates,
+        };
+        const res = await this.#call('getUpdates', null, {
+            // Сервер держит соединение открытым до timeout секунд, поэтому ожидание ответа должно быть больше
+            timeout: Math.max(timeout * 1000 + 5000, TIMEOUT),
+            signal,
+        });
+        // getUpdates не отправляется через очередь исходящих сообщений
+        return res && !isOutboundQueued(res) ? (res.result as unknown as ITelegramContent[]) : null;
+    }
+
+    /**
+     * Получает информацию о файле, необходимую для его скачивания.
+     * Ссылка на файл действует не менее часа.
+     * @param fileId Идентификатор файла, например `controller.attachments[0].fileId`
+     * @returns Информация о файле или null при ошибке
+     */
+    public async getFile(fileId: string): Promise<ITelegramFile | null> {
+        this.#request.post = { file_id: fileId };
+        const res = await this.call('getFile');
+        return res ? (res.result as unknown as ITelegramFile) : null;
+    }
+
+    /**
+     * Скачивает файл, отправленный пользователем.
+     * Telegram позволяет скачивать файлы размером не более 20MB.
+     * @param fileId Идентификатор файла, например `controller.attachments[0].fileId`
+     * @returns Содержимое файла или null при ошибке
+     *
+     * @example
+     * ```ts
+     * const photo = controller.attachments.find((item) => item.type === 'photo');
+     * if (photo?.fileId) {
+     *   const content = await telegram.downloadFile(photo.fileId);
+     * }
+     * ```
+     */
+    public async downloadFile(fileId: string): Promise<ArrayBuffer | null> {
+        const file = await this.getFile(fileId);
+        if (!file?.file_path) {
+            return null;
+        }
+        this.#request.isConvertJson = false;
+        this.#request.isBinaryResponse = true;
+        const data = await this.#request.send<ArrayBuffer>(
+            `${FILE_ENDPOINT}${this.token}/${file.file_path}`,
+        );
+        this.#request.isConvertJson = true;
+        this.#request.isBinaryResponse = false;
+        if (data.status && data.data) {
+            return data.data;
+        }
+        this.#log(data.err);
+        return null;
+    }
+
     /**
      * Записывает информацию об ошибках в лог-файл
      * @param error Текст ошибки для логирования
@@ -8,9 +8,17 @@ import {
 } from './interfaces';
 import { IViberButton } from '../Viber/interfaces/IViberPlatform';
 
-import { AppContext, Request, Text } from '../../../index';
+import {
+    AppContext,
+    IOutboundQueued,
+    isOutboundQueued,
+    Request,
+    Text,
+    TOutboundResult,
+} from '../../../index';
 import { T_VIBER } from '../Viber/constants';
-import { getErrorMsg, getErrorToken } from './constants';
+import { getErrorMsg, getErrorToken, getOutboundHttpResult, isOutboundPost } from './constants';
+import { reportDelivery } from '../Base/Delivery';
 
 /**
  * Базовый URL для всех методов Viber API
@@ -18,6 +26,16 @@ import { getErrorMsg, getErrorToken } from './constants';
  */
 const API_ENDPOINT = 'https://chatapi.viber.com/pa/';
 
+/**
+ * Методы Viber API, которые отправляются через очередь исходящих сообщений
+ */
+const OUTBOUND_METHODS = ['send_message'];
+
+/**
+ * Код ошибки Viber API при превышении лимита запросов
+ */
+const VIBER_TOO_MANY_REQUESTS = 12;
+
 /**
  * Класс для взаимодействия с API Viber
  * Предоставляет методы для отправки сообщений, файлов и других типов контента
@@ -75,15 +93,36 @@ export class ViberRequest {
      * @returns Результат выполнения метода или null при ошибке
      */
     public async call<T extends IViberApi>(method: string): Promise<T | null> {
+        const res = await this.#call<T>(method);
+        if (OUTBOUND_METHODS.includes(method)) {
+            reportDelivery(res);
+        }
+        return isOutboundQueued(res) ? null : res;
+    }
+
+    /**
+     * Выполняет запрос к Viber API напрямую или через очередь исходящих сообщений
+     * @param method Название метода API
+     */
+    async #call<T extends IViberApi>(method: string): Promise<T | IOutboundQueued | null> {
         if (this.token) {
             if (method) {
-                this.#request.header = {
-                    ...this.#request.header,
-                    'X-Viber-Auth-Token': this.token,
-                };
-                this.#request.post ??= {};
-                (this.#request.post as Record<string, unknown>).min_api_version =
-                    this.#appContext.appConfig.tokens[T_VIBER].api_version || 2;
+                const queue = this.#appContext.outboundQueue;
+                const post = this.#request.post;
+                if (
+                    queue &&
+                    OUTBOUND_METHODS.includes(method) &&
+                    isOutboundPost(post, this.#request.attach)
+                ) {
+                    this.#request.post = null;
+                    return (await queue.push({
+                        platform: T_VIBER,
+                        method,
+                        params: post ?? {},
+                        token: this.token,
+                    })) as T | IOutboundQueued | null;
+                }
+                this.#prepareRequest(this.token);
                 const sendData = await this.#request.send<IViberApi>(API_ENDPOINT + method);
                 if (sendData.status && sendData.data) {
                     const data = sendData.data;
@@ -109,6 +148,57 @@ export class ViberRequest {
         return null;
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * Повторные попытки по политике `requestPolicy.retry` не выполняются, так как ими управляет очередь
+     * @param method Название метода API
+     * @param params Параметры запроса
+     * @param token Токен, с которым сообщение было добавлено в очередь. Если не указан, используется токен из настроек
+     * приложения
+     * @returns Результат выполнения запроса
+     */
+    public async execute(
+        method: string,
+        params: Record<string, unknown>,
+        token?: string | null,
+    ): Promise<TOutboundResult> {
+        if (token) {
+            this.initToken(token);
+        }
+        if (!this.token) {
+            return { status: 'fail', error: getErrorToken(T_VIBER, 'execute') };
+        }
+        this.#request.retry = { retries: 0 };
+        this.#request.post = { ...params };
+        this.#prepareRequest(this.token);
+        const res = await this.#request.send<IViberApi>(API_ENDPOINT + method);
+        if (!res.status || !res.data) {
+            return getOutboundHttpResult(res);
+        }
+        if (res.data.status === 0) {
+            return { status: 'ok', data: res.data };
+        }
+        const error = res.data.status_message || `Код ошибки: ${res.data.status}`;
+        if (res.data.status === VIBER_TOO_MANY_REQUESTS) {
+            return { status: 'retry', error };
+        }
+        return { status: 'fail', error };
+    }
+
+    /**
+     * Добавляет токен и версию API в параметры запроса
+     * @param token Токен доступа к Viber API
+     */
+    #prepareRequest(token: string): void {
+        this.#request.header = {
+            ...this.#request.header,
+            'X-Viber-Auth-Token': token,
+        };
+        this.#request.post ??= {};
+        (this.#request.post as Record<string, unknown>).min_api_version =
+            this.#appContext.appConfig.tokens[T_VIBER].api_version || 2;
+    }
+
     /**
      * Получает информацию о пользователе Viber
      * Запрос можно отправлять не более 2 раз в течение 12 часов для каждого пользователя
@@ -1,6 +1,10 @@
 import {
     IVkApi,
+    IVkApiError,
     IVkDocSave,
+    IVkLongPollOptions,
+    IVkLongPollResponse,
+    IVkLongPollServer,
     IVkParams,
     IVkParamsUsersGet,
     IVkPhotosSave,
@@ -11,9 +15,19 @@ import {
     TVkDocType,
     TVkPeerId,
 } from './interfaces';
-import { AppContext, Request, httpBuildQuery, keysCount } from '../../../index';
+import {
+    AppContext,
+    IOutboundQueued,
+    isOutboundQueued,
+    Request,
+    httpBuildQuery,
+    keysCount,
+    TOutboundResult,
+} from '../../../index';
 import { T_VK } from '../VK/constants';
-import { getErrorMsg, getErrorToken } from './constants';
+import { IVkRequestContent } from '../VK/interfaces/IVkPlatform';
+import { getErrorMsg, getErrorToken, getOutboundHttpResult, isOutboundPost } from './constants';
+import { reportDelivery } from '../Base/Delivery';
 
 /**
  * Версия VK API по умолчанию
@@ -25,6 +39,33 @@ const VK_API_VERSION = '5.103';
  */
 const VK_API_ENDPOINT = 'https://api.vk.ru/method/';
 
+/**
+ * Максимальное время ожидания ответа от VK API в миллисекундах
+ */
+const TIMEOUT = 5500;
+
+/**
+ * Методы VK API, которые отправляются через очередь исходящих сообщений
+ */
+const OUTBOUND_METHODS = [
+    'messages.send',
+    'messages.edit',
+    'messages.delete',
+    'messages.sendMessageEventAnswer',
+];
+
+/**
+ * Методы VK API, результат которых определяет, доставлено ли сообщение пользователю
+ */
+const DELIVERY_METHODS = ['messages.send', 'messages.edit'];
+
+/**
+ * Коды ошибок VK API, при которых запрос нужно повторить:
+ * 6 — слишком много запросов в секунду, 10 — внутренняя ошибка сервера
+ */
+const VK_TOO_MANY_REQUESTS = 6;
+const VK_INTERNAL_ERROR = 10;
+
 /**
  * Класс для взаимодействия с API ВКонтакте
  * Предоставляет методы для отправки сообщений, загрузки файлов и работы с другими функциями API
@@ -118,7 +159,7 @@ export class VkRequest {
         this._request.header = {
             'Content-Type': 'application/x-www-form-urlencoded',
         };
-        this._request.maxTimeQuery = 5500;
+        this._request.maxTimeQuery = TIMEOUT;
         this.isAttachContent = false;
         this._appContext = appContext;
         if (appContext.appConfig.tokens[T_VK]?.api_version) {
@@ -147,24 +188,35 @@ export class VkRequest {
      * @returns Результат выполнения метода или null при ошибке
      */
     public async call<T extends IVkApi>(method: string): Promise<T | null> {
+        const res = await this.#call<T>(method);
+        if (DELIVERY_METHODS.includes(method)) {
+            reportDelivery(res);
+        }
+        return isOutboundQueued(res) ? null : res;
+    }
+
+    /**
+     * Выполняет запрос к VK API напрямую или через очередь исходящих сообщений
+     * @param method Название метода VK API
+     */
+    async #call<T extends IVkApi>(method: string): Promise<T | IOutboundQueued | null> {
         if (this.token) {
-            if (!this._request.attach) {
-                // vk принимает post только в таком формате
-                this._request.header = {
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                };
-            }
-            this._request.post ??= {};
-            if (!(this._request.post instanceof FormData)) {
-                this._request.post.access_token = this.token;
-                this._request.post.v = this.#vkApiVersion;
-                if (!this._request.attach) {
-                    // vk принимает post только в таком формате
-                    this._request.postInString = httpBuildQuery(
-                        this._request.post as Record<string, string>,
-                    );
-                }
+            const queue = this._appContext.outboundQueue;
+            const post = this._request.post;
+            if (
+                queue &&
+                OUTBOUND_METHODS.includes(method) &&
+                isOutboundPost(post, this._request.attach)
+            ) {
+                this._request.post = null;
+                return (await queue.push({
+                    platform: T_VK,
+                    method,
+                    params: post ?? {},
+                    token: this.token,
+                })) as T | IOutboundQueued | null;
             }
+            this.#prepareRequest(this.token);
             const data = await this._request.send<T>(VK_API_ENDPOINT + method);
             if (data.status && data.data) {
                 this._error = data.err || [];
@@ -182,6 +234,74 @@ export class VkRequest {
         return null;
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * Повторные попытки по политике `requestPolicy.retry` не выполняются, так как ими управляет очередь
+     * @param method Название метода VK API
+     * @param params Параметры запроса
+     * @param token Токен, с которым сообщение было добавлено в очередь. Если не указан, используется токен из настроек
+     * приложения
+     * @returns Результат выполнения запроса
+     */
+    public async execute(
+        method: string,
+        params: Record<string, unknown>,
+        token?: string | null,
+    ): Promise<TOutboundResult> {
+        if (token) {
+            this.initToken(token);
+        }
+        if (!this.token) {
+            return { status: 'fail', error: getErrorToken(T_VK, 'execute') };
+        }
+        this._request.retry = { retries: 0 };
+        this._request.post = { ...params };
+        this.#prepareRequest(this.token);
+        const res = await this._request.send<IVkApi>(VK_API_ENDPOINT + method);
+        if (!res.status || !res.data) {
+            return getOutboundHttpResult(res);
+        }
+        if (res.data.error === undefined) {
+            return { status: 'ok', data: res.data.response ?? res.data };
+        }
+        const error = res.data.error as unknown as IVkApiError | string;
+        if (typeof error === 'string') {
+            return { status: 'fail', error };
+        }
+        const errorMsg = error.error_msg || `Код ошибки: ${error.error_code}`;
+        if (error.error_code === VK_TOO_MANY_REQUESTS) {
+            return { status: 'retry', error: errorMsg, retryAfter: 1000 };
+        }
+        if (error.error_code === VK_INTERNAL_ERROR) {
+            return { status: 'retry', error: errorMsg };
+        }
+        return { status: 'fail', error: errorMsg };
+    }
+
+    /**
+     * Добавляет токен и версию API в параметры запроса
+     * @param token Токен доступа к VK API
+     */
+    #prepareRequest(token: string): void {
+        if (!this._request.attach) {
+            // vk принимает post только в таком формате
+            this._request.header = {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            };
+        }
+        this._request.post ??= {};
+        if (!(this._request.post instanceof FormData)) {
+            this._request.post.access_token = token;
+            this._request.post.v = this.#vkApiVersion;
+            if (!this._request.attach) {
+                // vk принимает post только в таком формате
+                this._request.postInString = httpBuildQuery(
+                    this._request.post as Record<string, string>,
+                );
+            }
+        }
+    }
+
     /**
      * Загружает файл на сервера ВКонтакте
      * @param url URL для загрузки файла
@@ -471,6 +591,137 @@ export class VkRequest {
         return this.call<IVkDocSave>('docs.save');
     }
 
+    /**
+     * Получает данные для подключения к Bots Long Poll API
+     * @param groupId Идентификатор сообщества
+     * @returns Адрес сервера, ключ и номер последнего события или null при ошибке
+     */
+    public async groupsGetLongPollServer(groupId: TVkPeerId): Promise<IVkLongPollServer | null> {
+        this._request.post = { group_id: groupId };
+        return this.call<IVkLongPollServer>('groups.getLongPollServer');
+    }
+
+    /**
+     * Выполняет запрос к серверу Bots Long Poll API и ожидает новые события
+     * @param server Данные сервера, полученные через {@link groupsGetLongPollServer}
+     * @param wait Время ожидания новых событий в секундах
+     * @returns Ответ сервера или null при ошибке
+     */
+    public async longPollCheck(
+        server: IVkLongPollServer,
+        wait: number = 25,
+    ): Promise<IVkLongPollResponse | null> {
+        this._request.get = {
+            act: 'a_check',
+            key: server.key,
+            ts: server.ts,
+            wait: String(wait),
+        };
+        // Сервер держит соединение открытым до wait секунд, поэтому ожидание ответа должно быть больше
+        this._request.maxTimeQuery = Math.max(wait * 1000 + 5000, TIMEOUT);
+        const data = await this._request.send<IVkLongPollResponse>(server.server);
+        this._request.get = null;
+        this._request.maxTimeQuery = TIMEOUT;
+        if (data.status && data.data) {
+            return data.data;
+        }
+        this._log(data.err);
+        return null;
+    }
+
+    /**
+     * Цикл получения событий сообщества через Bots Long Poll API.
+     * Каждое событие передается в `cb`. Ошибка при обработке одного события не останавливает цикл.
+     * Цикл работает до тех пор, пока не будет отменен `options.signal`.
+     *
+     * Коды ошибок сервера обрабатываются следующим образом:
+     * - 1: используется новое значение `ts` из ответа
+     * - 2: запрашивается новый `key`, значение `ts` сохраняется
+     * - 3: запрашиваются новые `key` и `ts`
+     *
+     * @param groupId Идентификатор сообщества
+     * @param cb Обработчик события
+     * @param options Параметры цикла
+     *
+     * @example
+     * ```ts
+     * const controller = new AbortController();
+     * void vk.longPoll(123456, (event) => console.log(event.type), { signal: controller.signal });
+     * // ... позже
+     * controller.abort();
+     * ```
+     */
+    public async longPoll(
+        groupId: TVkPeerId,
+        cb: (event: IVkRequestContent) => unknown,
+        options: IVkLongPollOptions = {},
+    ): Promise<void> {
+        const { signal, wait = 25, retryDelay = 1000 } = options;
+        let server: IVkLongPollServer | null = null;
+        let ts: string | undefined;
+        while (!signal?.aborted) {
+            if (!server) {
+                server = await this.groupsGetLongPollServer(groupId);
+                if (!server) {
+                    await this.#delay(retryDelay, signal);
+                    continue;
+                }
+                if (ts) {
+                    server.ts = ts;
+                }
+            }
+            const res = await this.longPollCheck(server, wait);
+            if (signal?.aborted) {
+                break;
+            }
+            if (!res) {
+                await this.#delay(retryDelay, signal);
+                continue;
+            }
+            if (res.failed) {
+                if (res.failed === 1 && res.ts) {
+                    server.ts = res.ts;
+                } else {
+                    ts = res.failed === 2 ? server.ts : undefined;
+                    server = null;
+                }
+                continue;
+            }
+            if (res.ts) {
+                server.ts = res.ts;
+            }
+            for (const event of res.updates || []) {
+                try {
+                    await cb(event);
+                } catch (e) {
+                    this._appContext.logError(
+                        `VkRequest.longPoll(): Не удалось обработать событие "${event.type}": ${(e as Error).message}`,
+                        { error: e },
+                    );
+                }
+            }
+        }
+    }
+
+    /**
+     * Ожидание перед повторным запросом. Прерывается при отмене сигнала
+     * @param ms Время ожидания в миллисекундах
+     * @param signal Сигнал отмены
+     */
+    #delay(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve) => {
+            const onAbort = (): void => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
     /**
      * Записывает информацию об ошибках в лог-файл
      * @param error Текст ошибки для логирования
@@ -1,3 +1,6 @@
+import type { IRequestSend } from '../../../api/interfaces/IRequest';
+import type { TOutboundResult } from '../../../core/interfaces/IOutboundQueue';
+
 export function getErrorMsg(error: string, path: string, url: string | null): string {
     return `[${path}]: Произошла ошибка при отправке запроса "${url}"\nОшибка: ${error}`;
 }
@@ -5,3 +8,37 @@ export function getErrorMsg(error: string, path: string, url: string | null): st
 export function getErrorToken(platform: string, methodName: string): string {
     return `[${methodName}]: Не указан токен для платформы "${platform}". Убедитесь что приложение настроено корректно, и указаны все необходимые для работы токены.`;
 }
+
+/**
+ * Определяет результат выполнения исходящего сообщения по ответу HTTP-запроса.
+ * Ошибки сети, превышение лимита запросов (429) и ошибки сервера (5xx) считаются временными,
+ * остальные ошибки — постоянными.
+ * @param res - Результат HTTP-запроса
+ * @param retryAfter - Время ожидания перед повторной попыткой в миллисекундах
+ */
+export function getOutboundHttpResult(
+    res: IRequestSend<unknown>,
+    retryAfter?: number,
+): TOutboundResult {
+    if (res.status) {
+        return { status: 'ok', data: res.data };
+    }
+    const error = res.err ? String(res.err) : 'Неизвестная ошибка';
+    if (res.httpStatus === undefined || res.httpStatus === 429 || res.httpStatus >= 500) {
+        return { status: 'retry', error, retryAfter };
+    }
+    return { status: 'fail', error };
+}
+
+/**
+ * Проверяет, можно ли отправить данные запроса через очередь исходящих сообщений.
+ * Через очередь отправляются только запросы без файлов, параметры которых можно сохранить в базу данных.
+ * @param post - Данные запроса
+ * @param attach - Прикрепляемый файл
+ */
+export function isOutboundPost(
+    post: unknown,
+    attach: unknown,
+): post is Record<string, unknown> | null {
+    return !attach && (post === null || (typeof post === 'object' && !(post instanceof FormData)));
+}
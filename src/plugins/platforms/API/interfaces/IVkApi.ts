@@ -1,4 +1,4 @@
-import { IVkCard } from '../../VK/interfaces/IVkPlatform';
+import { IVkCard, IVkRequestContent } from '../../VK/interfaces/IVkPlatform';
 
 /**
  * Тип идентификатора получателя в VK
@@ -43,6 +43,29 @@ export interface IVkApi<T = Record<string, unknown> | unknown> {
     response?: T;
 }
 
+/**
+ * Описание ошибки VK API
+ *
+ * @example
+ * ```ts
+ * const error: IVkApiError = {
+ *   error_code: 6,
+ *   error_msg: "Too many requests per second"
+ * };
+ * ```
+ */
+export interface IVkApiError {
+    /**
+     * Код ошибки
+     */
+    error_code: number;
+
+    /**
+     * Описание ошибки
+     */
+    error_msg?: string;
+}
+
 /**
  * Интерфейс для загрузки файла в VK
  *
@@ -806,3 +829,87 @@ export interface IVkDocSave extends IVkDocInfo, IVkApi {
      */
     link_mp3?: string;
 }
+
+/**
+ * Интерфейс с данными сервера для подключения к Bots Long Poll API
+ *
+ * @example
+ * ```ts
+ * const server: IVkLongPollServer = {
+ *   key: "a1b2c3d4e5f6",
+ *   server: "https://lp.vk.ru/wh123456",
+ *   ts: "42"
+ * };
+ * ```
+ */
+export interface IVkLongPollServer extends IVkApi {
+    /**
+     * Секретный ключ сессии
+     */
+    key: string;
+
+    /**
+     * Адрес сервера
+     */
+    server: string;
+
+    /**
+     * Номер последнего события, начиная с которого нужно получать данные
+     */
+    ts: string;
+}
+
+/**
+ * Интерфейс ответа сервера Bots Long Poll API
+ *
+ * Возможные значения `failed`:
+ * - 1: история событий устарела или была частично утеряна, необходимо использовать новое значение `ts`
+ * - 2: истекло время действия ключа, необходимо заново получить `key`
+ * - 3: информация утрачена, необходимо заново получить `key` и `ts`
+ *
+ * @example
+ * ```ts
+ * const response: IVkLongPollResponse = {
+ *   ts: "43",
+ *   updates: [{ type: "message_new", object: {...}, group_id: "123456" }]
+ * };
+ * ```
+ */
+export interface IVkLongPollResponse {
+    /**
+     * Номер последнего события
+     */
+    ts?: string;
+
+    /**
+     * Список новых событий
+     */
+    updates?: IVkRequestContent[];
+
+    /**
+     * Код ошибки
+     */
+    failed?: 1 | 2 | 3;
+}
+
+/**
+ * Параметры цикла получения событий через Bots Long Poll API
+ */
+export interface IVkLongPollOptions {
+    /**
+     * Время ожидания новых событий в секундах (максимум 90).
+     * По умолчанию 25
+     */
+    wait?: number;
+
+    /**
+     * Задержка в миллисекундах перед повторным запросом, если предыдущий завершился ошибкой.
+     * По умолчанию 1000
+     */
+    retryDelay?: number;
+
+    /**
+     * Сигнал для остановки цикла
+     */
+    signal?: AbortSignal;
+}
@@ -7,6 +7,7 @@ import {
     IDatabaseInfo,
 } from '../../../index';
 import { createHmac, timingSafeEqual } from 'crypto';
+import { trackDelivery } from './Delivery';
 
 /**
  * Тип ответа, который может вернуть адаптер после обработки запроса
@@ -78,6 +79,13 @@ export abstract class BasePlatform<TQuery = unknown>
      */
     limit: number | null = null;
 
+    /**
+     * Максимальный размер тела запроса от платформы в байтах.
+     * Стоит указывать для платформ, запросы которых заведомо небольшие. Если не указан, используется `maxBodySize`
+     * из `bot.setServerOptions()`
+     */
+    maxBodySize: number | null = null;
+
     /**
      * Контекст приложения
      */
@@ -238,8 +246,14 @@ export abstract class BasePlatform<TQuery = unknown>
      * Если платформа не поддерживает возможность начать диалог самостоятельно, то можно оставить метод пустым, либо вывести любую заглушку.
      * @param userId Ид пользователя, которому нужно отправить сообщение
      * @param controllerOrText Контроллер приложения или текст. Если необходимо отправить просто текст, можно передать строку, в случае, если необходимо передать картинку звук и тд, то необходимо корректно заполнить контроллер.
+     * @returns Результат `getContent` или false, если платформа не приняла сообщение (текст, изменение сообщения,
+     * изображения или звуки). Если сообщение будет отправлено очередью исходящих сообщений повторно в фоне,
+     * возвращается `IOutboundQueued`
      */
-    send(userId: string | number, controllerOrText: BotController | string): TContent | boolean {
+    send(
+        userId: string | number,
+        controllerOrText: BotController | string,
+    ): TContent | boolean | Promise<object | string | boolean> {
         let controller: BotController;
         if (typeof controllerOrText === 'string') {
             controller = new BaseBotController(this.appContext as AppContext);
@@ -250,7 +264,7 @@ export abstract class BasePlatform<TQuery = unknown>
         if (!controller.userId) {
             controller.userId = userId;
         }
-        return this.getContent(controller);
+        return trackDelivery(() => this.getContent(controller));
     }
 
     /**
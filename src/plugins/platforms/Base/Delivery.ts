@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { IOutboundQueued, isOutboundQueued } from '../../../index';
+
+/**
+ * Результат отправки сообщений в рамках одного вызова `send`
+ */
+interface IDeliveryState {
+    /**
+     * Платформа не приняла хотя бы одно сообщение
+     */
+    isError: boolean;
+    /**
+     * Сообщение, которое не удалось отправить сразу и которое очередь исходящих сообщений отправит повторно в фоне
+     */
+    queued: IOutboundQueued | null;
+}
+
+const storage = new AsyncLocalStorage<IDeliveryState>();
+
+/**
+ * Выполняет отправку сообщения и отслеживает результат всех запросов к API платформы, которые были выполнены
+ * в процессе отправки: текста, изменения сообщения, изображений, звуков
+ * @param callback - Функция, которая отправляет сообщение
+ * @returns false, если платформа не приняла хотя бы одно сообщение, {@link IOutboundQueued}, если сообщение
+ * будет отправлено очередью повторно в фоне, иначе результат функции
+ */
+export function trackDelivery<T>(
+    callback: () => T | Promise<T>,
+): T | IOutboundQueued | false | Promise<T | IOutboundQueued | false> {
+    const state: IDeliveryState = { isError: false, queued: null };
+    const getResult = (data: T): T | IOutboundQueued | false => {
+        if (state.isError) {
+            return false;
+        }
+        return state.queued ?? data;
+    };
+    const res = storage.run(state, callback);
+    if (res instanceof Promise) {
+        return res.then(getResult);
+    }
+    return getResult(res);
+}
+
+/**
+ * Сообщает результат запроса к API платформы, отправляющего сообщение пользователю.
+ * Вызывается в классах запросов к API платформ. Вне {@link trackDelivery} ничего не делает
+ * @param res - Результат запроса. Пустое значение означает, что платформа не приняла сообщение
+ */
+export function reportDelivery(res: unknown): void {
+    const state = storage.getStore();
+    if (!state) {
+        return;
+    }
+    if (isOutboundQueued(res)) {
+        state.queued ??= res;
+    } else if (!res) {
+        state.isError = true;
+    }
+}
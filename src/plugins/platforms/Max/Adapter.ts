@@ -1,11 +1,49 @@
-import { AppContext, BotController, Text } from '../../../index';
+import {
+    AppContext,
+    BotController,
+    EBotEvent,
+    IInboundAttachment,
+    IOutboundMessage,
+    Text,
+    TOutboundResult,
+} from '../../../index';
 import { IMaxParams, MaxRequest } from '../API';
 import { BasePlatform, EMPTY_CONTEXT_ERROR, EMPTY_QUERY_ERROR } from '../Base/Base';
 import { buttonProcessing } from './Button';
 import { cardProcessing } from './Card';
 import { soundProcessing } from './Sound';
 import { T_MAX_APP } from './constants';
-import { IMaxButtonObject, IMaxRequestContent } from './interfaces/IMaxPlatform';
+import { tryParse } from '../Base/utils';
+import {
+    IMaxAttachment,
+    IMaxButtonObject,
+    IMaxMessage,
+    IMaxMessageBody,
+    IMaxRequestContent,
+    IMaxSender,
+} from './interfaces/IMaxPlatform';
+
+/**
+ * Соответствие событий MAX и событий фреймворка
+ */
+const MAX_EVENTS: Record<string, EBotEvent> = {
+    bot_started: EBotEvent.START,
+    bot_added: EBotEvent.JOIN,
+    user_added: EBotEvent.JOIN,
+    bot_removed: EBotEvent.LEAVE,
+    user_removed: EBotEvent.LEAVE,
+};
+
+/**
+ * Соответствие типов вложений MAX и типов вложений фреймворка
+ */
+const MAX_ATTACHMENT_TYPES: Record<string, IInboundAttachment['type']> = {
+    image: 'photo',
+    video: 'video',
+    audio: 'audio',
+    file: 'document',
+    sticker: 'sticker',
+};
 
 /**
  * Адаптер, обеспечивающий поддержку платформы MAX. Позволяет разрабатывать чат-ботов для мессенджера MAX на TypeScript с использованием кросс-платформенного функционала: обработка текстовых запросов, работа с карточками и кнопками.
@@ -23,6 +61,8 @@ import { IMaxButtonObject, IMaxRequestContent } from './interfaces/IMaxPlatform'
  * Поддерживает:
  * - голосовые и текстовые запросы;
  * - карточки, кнопки;
+ * - входящие вложения (изображения, видео, аудио, файлы, стикеры, геолокация, контакты) через `controller.attachments`;
+ * - события (`EBotEvent`): запуск бота, добавление и удаление пользователя или бота из чата;
  *
  * Подключается как любой другой адаптер: `bot.use(new MaxAdapter(token))`.
  * Несколько адаптеров могут работать одновременно — система сама выберет подходящий
@@ -66,7 +106,89 @@ export class MaxAdapter extends BasePlatform<string | IMaxRequestContent> {
             this.appContext?.logWarn(`MaxAdapter.isPlatformOnQuery(): ${EMPTY_QUERY_ERROR}`);
             return false;
         }
-        return !!(query.update_type && query.message.body);
+        return !!(query.update_type && (query.message?.body || MAX_EVENTS[query.update_type]));
+    }
+
+    /**
+     * Возвращает данные контакта из вложения
+     * @param payload Полезная нагрузка вложения
+     */
+    #getContact(payload: Record<string, unknown>): IInboundAttachment['contact'] {
+        const info = (payload.max_info || {}) as Record<string, unknown>;
+        const vcf = typeof payload.vcf_info === 'string' ? payload.vcf_info : '';
+        const phone = vcf.match(/^TEL[^:]*:(.+)$/m);
+        return {
+            phone: phone ? phone[1].trim() : '',
+            firstName: (info.first_name as string) || (info.name as string) || undefined,
+            lastName: (info.last_name as string) || undefined,
+            userId: info.user_id as number | undefined,
+        };
+    }
+
+    /**
+     * Возвращает вложения, отправленные в сообщении
+     * @param body Тело сообщения MAX
+     */
+    #getAttachments(body: IMaxMessageBody): IInboundAttachment[] {
+        if (!body.attachments) {
+            return [];
+        }
+        const attachments: IMaxAttachment[] = Array.isArray(body.attachments)
+            ? body.attachments
+            : [body.attachments];
+        const result: IInboundAttachment[] = [];
+        attachments.forEach((attachment) => {
+            const payload = attachment.payload || {};
+            if (attachment.type === 'location') {
+                if (attachment.latitude !== undefined && attachment.longitude !== undefined) {
+                    result.push({
+                        type: 'location',
+                        coordinates: { lat: attachment.latitude, lon: attachment.longitude },
+                        raw: attachment,
+                    });
+                }
+            } else if (attachment.type === 'contact') {
+                result.push({
+                    type: 'contact',
+                    contact: this.#getContact(payload),
+                    raw: attachment,
+                });
+            } else if (attachment.type && MAX_ATTACHMENT_TYPES[attachment.type]) {
+                result.push({
+                    type: MAX_ATTACHMENT_TYPES[attachment.type],
+                    fileId: (payload.token as string) || undefined,
+                    url: (payload.url as string) || undefined,
+                    size: attachment.size,
+                    name: attachment.filename,
+                    raw: attachment,
+                });
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Заполняет контроллер данными события, не связанного с отправкой сообщения
+     * @param query Запрос от MAX
+     * @param event Событие
+     * @param controller Контроллер приложения
+     */
+    #setEvent(query: IMaxRequestContent, event: EBotEvent, controller: BotController): void {
+        const user = query.user as IMaxSender;
+        controller.userId = user.user_id;
+        controller.chatId = query.chat_id ?? null;
+        controller.userCommand = '';
+        controller.originalUserCommand = '';
+        controller.messageId = 0;
+        controller.payload = query.payload ? tryParse(query.payload) : null;
+        controller.event = event;
+        controller.nlu.setNlu({
+            thisUser: {
+                username: user.username,
+                first_name: user.first_name || null,
+                last_name: user.last_name || null,
+            },
+        });
     }
 
     async setQueryData(query: IMaxRequestContent, controller: BotController): Promise<boolean> {
@@ -75,7 +197,7 @@ export class MaxAdapter extends BasePlatform<string | IMaxRequestContent> {
                 controller.requestObject = query;
                 if (query.update_type === 'message_created') {
                     if (query.message !== undefined) {
-                        const object: IMaxRequestContent['message'] = query.message;
+                        const object: IMaxMessage = query.message;
                         controller.userId = object.sender.user_id;
                         const raw = object.body.text ?? '';
                         controller.userCommand = raw.toLowerCase().trim();
@@ -83,6 +205,7 @@ export class MaxAdapter extends BasePlatform<string | IMaxRequestContent> {
                         controller.messageId = object.body.seq;
                         controller.payload =
                             (object.body.attachments as Record<string, unknown>) || null;
+                        controller.attachments = this.#getAttachments(object.body);
                         const thisUser = {
                             username: object.sender.username,
                             first_name: object.sender.first_name || null,
@@ -92,6 +215,9 @@ export class MaxAdapter extends BasePlatform<string | IMaxRequestContent> {
                         return true;
                     }
                     return false;
+                } else if (MAX_EVENTS[query.update_type] && query.user) {
+                    this.#setEvent(query, MAX_EVENTS[query.update_type], controller);
+                    return true;
                 } else {
                     controller.platformOptions.error =
                         'MaxAdapter:setQueryData(): Некорректный тип данных!';
@@ -135,6 +261,21 @@ export class MaxAdapter extends BasePlatform<string | IMaxRequestContent> {
         return 'ok';
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * @param message Исходящее сообщение
+     */
+    async executeOutbound(message: IOutboundMessage): Promise<TOutboundResult> {
+        if (!this.appContext) {
+            return { status: 'fail', error: EMPTY_CONTEXT_ERROR };
+        }
+        return new MaxRequest(this.appContext as AppContext).execute(
+            message.method,
+            message.params,
+            message.token,
+        );
+    }
+
     static isVoice(): boolean {
         return false;
     }
@@ -45,12 +45,41 @@ export interface IMaxAttachment {
     /**
      * Тип вложения.
      */
-    type?: 'image' | 'inline_keyboard';
+    type?:
+        | 'image'
+        | 'video'
+        | 'audio'
+        | 'file'
+        | 'sticker'
+        | 'contact'
+        | 'location'
+        | 'inline_keyboard';
 
     /**
      * Полезная нагрузка вложения, представленная в виде произвольного объекта.
+     * Для файлов, как правило, содержит `url` и `token`.
      */
     payload?: Record<string, unknown>;
+
+    /**
+     * Имя файла. Используется для type='file'
+     */
+    filename?: string;
+
+    /**
+     * Размер файла в байтах. Используется для type='file'
+     */
+    size?: number;
+
+    /**
+     * Широта. Используется для type='location'
+     */
+    latitude?: number;
+
+    /**
+     * Долгота. Используется для type='location'
+     */
+    longitude?: number;
 }
 
 /**
@@ -75,7 +104,7 @@ export interface IMaxMessageBody {
     /**
      * Вложения к сообщению.
      */
-    attachments?: IMaxAttachment;
+    attachments?: IMaxAttachment[] | IMaxAttachment;
 
     /**
      * Разметка текста (например, для выделения, ссылок).
@@ -191,7 +220,16 @@ export interface IMaxRequestContent {
     /**
      * Тип обновления.
      */
-    update_type: 'message_created' | 'message_callback' | 'message_editing' | 'message_removed';
+    update_type:
+        | 'message_created'
+        | 'message_callback'
+        | 'message_editing'
+        | 'message_removed'
+        | 'bot_started'
+        | 'bot_added'
+        | 'bot_removed'
+        | 'user_added'
+        | 'user_removed';
 
     /**
      * Временная метка обновления (предположительно, в формате Unix timestamp).
@@ -200,8 +238,24 @@ export interface IMaxRequestContent {
 
     /**
      * Объект сообщения, связанного с обновлением.
+     * Отсутствует для событий, не связанных с сообщением (bot_started, user_added и т.д.)
+     */
+    message?: IMaxMessage;
+
+    /**
+     * Идентификатор чата. Используется для событий bot_started, bot_added, user_added и т.д.
      */
-    message: IMaxMessage;
+    chat_id?: number;
+
+    /**
+     * Пользователь, с которым связано событие. Используется для событий bot_started, bot_added, user_added и т.д.
+     */
+    user?: IMaxSender;
+
+    /**
+     * Дополнительные данные, переданные при запуске бота по ссылке. Используется для события bot_started
+     */
+    payload?: string;
 
     /**
      * Языковой стандарт (locale) пользователя, инициировавшего обновление.
@@ -1,12 +1,40 @@
-import { AppContext, BotController, INluThisUser, Text } from '../../../index';
+import {
+    AppContext,
+    Bot,
+    BotController,
+    EBotEvent,
+    IInboundAttachment,
+    INluThisUser,
+    IOutboundMessage,
+    Text,
+    TOutboundResult,
+} from '../../../index';
 import { BasePlatform, EMPTY_CONTEXT_ERROR, EMPTY_QUERY_ERROR } from '../Base/Base';
 import { buttonProcessing } from './Button';
 import { cardProcessing } from './Card';
 import { soundProcessing } from './Sound';
 import { T_TELEGRAM } from './constants';
-import { ITelegramContent, ITelegramParams, ITelegramMedia } from './interfaces/ITelegramPlatform';
+import {
+    ITelegramContent,
+    ITelegramParams,
+    ITelegramMedia,
+    ITelegramMessage,
+    ITelegramInboundFile,
+    ITelegramChatMemberUpdated,
+} from './interfaces/ITelegramPlatform';
 import { TelegramRequest } from '../API';
 import { tryParse } from '../Base/utils';
+import { ITelegramPollingOptions, TelegramPolling } from './Polling';
+
+/**
+ * Типы групповых чатов Telegram
+ */
+const GROUP_CHAT_TYPES = ['group', 'supergroup'];
+
+/**
+ * Статусы, при которых бот является участником чата
+ */
+const ACTIVE_MEMBER_STATUSES = ['creator', 'administrator', 'member'];
 
 /**
  * Адаптер, обеспечивающий поддержку платформы Telegram. Позволяет разрабатывать чат-ботов для Телеграм на TypeScript с использованием кросс-платформенного функционала: обработка текстовых запросов, работа с карточками и кнопками.
@@ -24,6 +52,12 @@ import { tryParse } from '../Base/utils';
  * Поддерживает:
  * - голосовые и текстовые запросы;
  * - карточки, кнопки;
+ * - входящие вложения (фото, голосовые сообщения, документы, стикеры, геолокация, контакты) через `controller.attachments`;
+ * - групповые чаты: `controller.chatId`, `controller.isGroupChat` и `controller.isBotAddressed`.
+ *   Для определения упоминаний бота необходимо указать его имя в опции `username`;
+ * - отредактированные сообщения (`controller.userEvents.edit`) и изменение сообщения при нажатии на inline-кнопку
+ *   через `controller.editMessage`;
+ * - события (`EBotEvent`): редактирование сообщения, подписка и отписка в личном чате, вход и выход из группы;
  *
  * Подключается как любой другой адаптер: `bot.use(new TelegramAdapter(token))`.
  * Несколько адаптеров могут работать одновременно — система сама выберет подходящий
@@ -43,6 +77,13 @@ import { tryParse } from '../Base/utils';
  * bot.start('localhost', 3000);
  * ```
  *
+ * @example
+ * ```ts
+ * // Получение обновлений через long polling, без webhook
+ * const bot = new Bot().use(new TelegramAdapter('YOUR_BOT_TOKEN', { polling: { timeout: 30 } }));
+ * bot.startPolling(T_TELEGRAM);
+ * ```
+ *
  * @see Bot
  * @see BotController
  * @see BasePlatform
@@ -53,6 +94,11 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
     limit = 30;
     signatureName = 'x-telegram-bot-api-secret-token';
 
+    /**
+     * Получение обновлений через long polling
+     */
+    #polling?: TelegramPolling;
+
     init(appContext: AppContext): void {
         super.init(appContext);
         if (this._token) {
@@ -75,14 +121,192 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
                 query.inline_query ||
                 query.chosen_inline_result ||
                 query.channel_post ||
-                query.edited_message)
+                query.edited_message ||
+                query.my_chat_member)
         );
     }
 
+    /**
+     * Преобразует файл из сообщения Telegram во вложение
+     * @param type Тип вложения
+     * @param file Информация о файле
+     * @param caption Подпись к вложению
+     */
+    #getFileAttachment(
+        type: IInboundAttachment['type'],
+        file: ITelegramInboundFile,
+        caption?: string,
+    ): IInboundAttachment {
+        return {
+            type,
+            fileId: file.file_id,
+            mime: file.mime_type,
+            size: file.file_size,
+            name: file.file_name,
+            caption,
+            raw: file,
+        };
+    }
+
+    /**
+     * Возвращает вложения, отправленные в сообщении
+     * @param message Сообщение Telegram
+     */
+    #getAttachments(message: ITelegramMessage): IInboundAttachment[] {
+        const attachments: IInboundAttachment[] = [];
+        const caption = message.caption;
+        if (message.photo?.length) {
+            // Telegram присылает фото в нескольких размерах, берем самое большое
+            attachments.push(
+                this.#getFileAttachment('photo', message.photo[message.photo.length - 1], caption),
+            );
+        }
+        if (message.voice) {
+            attachments.push(this.#getFileAttachment('voice', message.voice, caption));
+        }
+        if (message.audio) {
+            attachments.push(this.#getFileAttachment('audio', message.audio, caption));
+        }
+        if (message.video) {
+            attachments.push(this.#getFileAttachment('video', message.video, caption));
+        }
+        if (message.document) {
+            attachments.push(this.#getFileAttachment('document', message.document, caption));
+        }
+        if (message.sticker) {
+            attachments.push(this.#getFileAttachment('sticker', message.sticker));
+        }
+        if (message.location) {
+            attachments.push({
+                type: 'location',
+                coordinates: {
+                    lat: message.location.latitude,
+                    lon: message.location.longitude,
+                },
+                raw: message.location,
+            });
+        }
+        if (message.contact) {
+            attachments.push({
+                type: 'contact',
+                contact: {
+                    phone: message.contact.phone_number,
+                    firstName: message.contact.first_name,
+                    lastName: message.contact.last_name,
+                    userId: message.contact.user_id,
+                },
+                raw: message.contact,
+            });
+        }
+        return attachments;
+    }
+
+    /**
+     * Возвращает имя бота в нижнем регистре без символа @.
+     * Берется из опции `username`, переданной в конструктор адаптера
+     */
+    #getBotName(): string | null {
+        const username = this._platformOptions?.username;
+        return typeof username === 'string' && username
+            ? username.replace(/^@/, '').toLowerCase()
+            : null;
+    }
+
+    /**
+     * Проверяет, обращаются ли к боту в сообщении: упоминание, команда или ответ на сообщение бота.
+     * Если имя бота не указано, то упоминания не учитываются
+     * @param message Сообщение Telegram
+     * @param text Текст или подпись сообщения
+     */
+    #isBotAddressed(message: ITelegramMessage, text: string): boolean {
+        const botName = this.#getBotName();
+        const replyFrom = message.reply_to_message?.from;
+        if (replyFrom?.is_bot && (!botName || replyFrom.username?.toLowerCase() === botName)) {
+            return true;
+        }
+        const entities = message.entities ?? message.caption_entities ?? [];
+        return entities.some((entity) => {
+            const value = text
+                .substring(entity.offset, entity.offset + entity.length)
+                .toLowerCase();
+            if (entity.type === 'bot_command') {
+                const name = value.split('@')[1];
+                return !name || name === botName;
+            }
+            return entity.type === 'mention' && !!botName && value === `@${botName}`;
+        });
+    }
+
+    /**
+     * Удаляет упоминание бота из текста
+     * @param text Текст сообщения
+     */
+    #removeMention(text: string): string {
+        const botName = this.#getBotName();
+        return botName ? text.replace(new RegExp(`@${botName}\\b`, 'ig'), '').trim() : text;
+    }
+
+    /**
+     * Заполняет контроллер данными из сообщения
+     * @param message Сообщение Telegram
+     * @param controller Контроллер приложения
+     */
+    #setMessage(message: ITelegramMessage, controller: BotController): void {
+        controller.userId = message.from?.id ?? message.chat.id;
+        controller.chatId = message.chat.id;
+        controller.isGroupChat = GROUP_CHAT_TYPES.includes(message.chat.type as string);
+        // Для сообщений с вложением текст команды берется из подписи
+        const text = message.text ?? message.caption ?? '';
+        controller.isBotAddressed = !controller.isGroupChat || this.#isBotAddressed(message, text);
+        const rawText = this.#removeMention(text);
+        controller.userCommand = rawText.toLowerCase().trim();
+        controller.originalUserCommand = rawText;
+        controller.messageId = message.message_id;
+        controller.attachments = this.#getAttachments(message);
+        if (message.new_chat_members?.length) {
+            controller.userId = message.new_chat_members[0].id;
+            controller.event = EBotEvent.JOIN;
+        } else if (message.left_chat_member) {
+            controller.userId = message.left_chat_member.id;
+            controller.event = EBotEvent.LEAVE;
+        }
+
+        const user = message.from ?? message.chat;
+        const thisUser: INluThisUser = {
+            username: user.username || null,
+            first_name: user.first_name || null,
+            last_name: user.last_name || null,
+        };
+        controller.nlu.setNlu({ thisUser });
+    }
+
+    /**
+     * Заполняет контроллер данными об изменении статуса бота в чате.
+     * В личном чате это подписка или отписка пользователя, в групповом - добавление или удаление бота из чата
+     * @param update Изменение статуса
+     * @param controller Контроллер приложения
+     */
+    #setChatMember(update: ITelegramChatMemberUpdated, controller: BotController): boolean {
+        controller.userId = update.from.id;
+        controller.chatId = update.chat.id;
+        controller.isGroupChat = GROUP_CHAT_TYPES.includes(update.chat.type as string);
+        controller.userCommand = '';
+        controller.originalUserCommand = '';
+        const isMember = ACTIVE_MEMBER_STATUSES.includes(update.new_chat_member.status);
+        if (controller.isGroupChat) {
+            controller.event = isMember ? EBotEvent.JOIN : EBotEvent.LEAVE;
+        } else {
+            controller.event = isMember ? EBotEvent.SUBSCRIBE : EBotEvent.UNSUBSCRIBE;
+        }
+        return true;
+    }
+
     #setCallbackQuery(query: ITelegramContent, controller: BotController): boolean {
         const cb = query.callback_query;
         if (cb) {
             controller.userId = cb.from?.id as number;
+            controller.chatId = cb.message?.chat?.id ?? controller.userId;
+            controller.isGroupChat = GROUP_CHAT_TYPES.includes(cb.message?.chat?.type as string);
             // callback_data может быть строкой или JSON-строкой
             controller.userCommand = (cb.data || '').toLowerCase().trim();
             controller.originalUserCommand = cb.data || '';
@@ -112,29 +336,31 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
                 controller.requestObject = query;
 
                 if (query.message !== undefined) {
-                    controller.userId = query.message.chat.id;
-                    controller.userCommand = query.message.text?.toLowerCase()?.trim() || '';
-                    controller.originalUserCommand = query.message.text;
-                    controller.messageId = query.message.message_id;
-
-                    const thisUser: INluThisUser = {
-                        username: query.message.chat.username || null,
-                        first_name: query.message.chat.first_name || null,
-                        last_name: query.message.chat.last_name || null,
+                    this.#setMessage(query.message, controller);
+                    return true;
+                }
+                // === 2. Отредактированное сообщение ===
+                if (query.edited_message) {
+                    this.#setMessage(query.edited_message, controller);
+                    controller.userEvents = {
+                        edit: { messageId: query.edited_message.message_id },
                     };
-                    controller.nlu.setNlu({ thisUser });
+                    controller.event = EBotEvent.EDIT;
                     return true;
                 }
-                // === 2. Callback query (нажатие на inline-кнопку) ===
+                // === 3. Callback query (нажатие на inline-кнопку) ===
                 if (query.callback_query) {
                     return this.#setCallbackQuery(query, controller);
                 }
                 // === 4. Сообщение в канале ===
                 if (query.channel_post) {
                     controller.userId = query.channel_post.chat?.id;
-                    controller.userCommand = query.channel_post.text?.toLowerCase().trim() || '';
-                    controller.originalUserCommand = query.channel_post.text || '';
+                    controller.chatId = query.channel_post.chat?.id;
+                    const rawText = query.channel_post.text ?? query.channel_post.caption ?? '';
+                    controller.userCommand = rawText.toLowerCase().trim();
+                    controller.originalUserCommand = rawText;
                     controller.messageId = query.channel_post.message_id;
+                    controller.attachments = this.#getAttachments(query.channel_post);
                     return true;
                 }
 
@@ -142,6 +368,10 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
                 if (query.inline_query) {
                     return this.#setInlineQuery(query, controller);
                 }
+                // === 6. Изменение статуса бота в чате ===
+                if (query.my_chat_member) {
+                    return this.#setChatMember(query.my_chat_member, controller);
+                }
             } else {
                 controller.platformOptions.error = `TelegramAdapter.setQueryData(): ${EMPTY_QUERY_ERROR}`;
             }
@@ -151,6 +381,33 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
         return false;
     }
 
+    /**
+     * Изменяет сообщение, на inline-кнопку которого нажал пользователь.
+     * Если текст ответа не указан, то изменяется только клавиатура
+     * @param telegramApi Экземпляр для отправки запросов
+     * @param controller Контроллер приложения
+     * @param chatId Идентификатор чата
+     * @param params Параметры сообщения
+     */
+    async #editMessage(
+        telegramApi: TelegramRequest,
+        controller: BotController,
+        chatId: string,
+        params: ITelegramParams,
+    ): Promise<void> {
+        const messageId = controller.messageId as number;
+        if (controller.text) {
+            await telegramApi.editMessageText(
+                chatId,
+                messageId,
+                Text.resize(controller.text, 4096),
+                params,
+            );
+        } else {
+            await telegramApi.editMessageReplyMarkup(chatId, messageId, params.reply_markup);
+        }
+    }
+
     async getContent(controller: BotController): Promise<string> {
         if (!controller.skipAutoReply) {
             const telegramApi = new TelegramRequest(controller.appContext);
@@ -161,11 +418,12 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
             }
             params.parse_mode = 'markdown';
 
-            await telegramApi.sendMessage(
-                controller.userId as string,
-                Text.resize(controller.text, 4096),
-                params,
-            );
+            const chatId = (controller.chatId ?? controller.userId) as string;
+            if (controller.editMessage && controller.platformOptions.callbackQueryId) {
+                await this.#editMessage(telegramApi, controller, chatId, params);
+            } else {
+                await telegramApi.sendMessage(chatId, Text.resize(controller.text, 4096), params);
+            }
 
             if (controller.card.images.length) {
                 const res: ITelegramMedia[] | null = await controller.card.getCards(
@@ -173,7 +431,10 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
                     controller,
                 );
                 if (res) {
-                    await telegramApi.sendMediaGroup(controller.userId as string, res);
+                    await telegramApi.sendMediaGroup(
+                        (controller.chatId ?? controller.userId) as string,
+                        res,
+                    );
                 }
             }
 
@@ -194,6 +455,49 @@ export class TelegramAdapter extends BasePlatform<string | ITelegramContent> {
         return 'ok';
     }
 
+    /**
+     * Запускает получение обновлений через getUpdates (long polling).
+     * Параметры берутся из опции `polling`, переданной в конструктор адаптера.
+     * @param bot Экземпляр приложения
+     * @returns true, если получение обновлений запущено
+     */
+    startPolling(bot: Bot): boolean {
+        if (!this.appContext) {
+            console.error(`TelegramAdapter.startPolling(): ${EMPTY_CONTEXT_ERROR}`);
+            return false;
+        }
+        this.#polling ??= new TelegramPolling(
+            this.appContext as AppContext,
+            bot,
+            this._platformOptions?.polling as ITelegramPollingOptions | undefined,
+        );
+        this.#polling.start();
+        return true;
+    }
+
+    /**
+     * Останавливает получение обновлений через getUpdates
+     */
+    async stopPolling(): Promise<void> {
+        await this.#polling?.stop();
+        this.#polling = undefined;
+    }
+
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * @param message Исходящее сообщение
+     */
+    async executeOutbound(message: IOutboundMessage): Promise<TOutboundResult> {
+        if (!this.appContext) {
+            return { status: 'fail', error: EMPTY_CONTEXT_ERROR };
+        }
+        return new TelegramRequest(this.appContext as AppContext).execute(
+            message.method,
+            message.params,
+            message.token,
+        );
+    }
+
     static isVoice(): boolean {
         return false;
     }
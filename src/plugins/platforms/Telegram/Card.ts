@@ -19,7 +19,11 @@ export async function getImageInDB(
     let isCbCalled = false;
     const result = await getImageToken(path, T_TELEGRAM, controller, async (model: ImageTokens) => {
         const api = new TelegramRequest(controller.appContext);
-        const photo = await api.sendPhoto(controller.userId as string, path, caption || undefined);
+        const photo = await api.sendPhoto(
+            (controller.chatId ?? controller.userId) as string,
+            path,
+            caption || undefined,
+        );
         isCbCalled = true;
 
         if (photo?.ok && photo.result?.photo?.file_id) {
@@ -33,7 +37,7 @@ export async function getImageInDB(
 
     if (!isCbCalled && result) {
         await new TelegramRequest(controller.appContext).sendPhoto(
-            controller.userId as string,
+            (controller.chatId ?? controller.userId) as string,
             result,
             caption || undefined,
         );
@@ -66,7 +70,7 @@ export async function cardProcessing(
                 }
             } else {
                 await new TelegramRequest(controller.appContext).sendPhoto(
-                    controller.userId as TTelegramChatId,
+                    (controller.chatId ?? controller.userId) as TTelegramChatId,
                     image.imageToken,
                     Text.resize(image.desc, 1024),
                 );
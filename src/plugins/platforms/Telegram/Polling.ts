@@ -0,0 +1,203 @@
+import { AppContext, Bot } from '../../../index';
+import { TelegramRequest } from '../API/TelegramRequest';
+import { T_TELEGRAM } from './constants';
+
+/**
+ * Параметры получения обновлений через long polling
+ */
+export interface ITelegramPollingOptions {
+    /**
+     * Время ожидания новых обновлений в секундах.
+     * По умолчанию 25
+     */
+    timeout?: number;
+    /**
+     * Максимальное количество обновлений, получаемых за один запрос (1-100).
+     * По умолчанию 100
+     */
+    limit?: number;
+    /**
+     * Список типов обновлений, которые необходимо получать.
+     * Если не указан, используется значение, сохраненное в Telegram ранее
+     */
+    allowedUpdates?: string[];
+    /**
+     * Задержка в миллисекундах перед повторным запросом, если предыдущий завершился ошибкой.
+     * По умолчанию 1000
+     */
+    retryDelay?: number;
+}
+
+/**
+ * Получение обновлений от Telegram через метод getUpdates (long polling).
+ * Позволяет запустить бота без публичного HTTPS-адреса, что удобно при локальной разработке.
+ *
+ * Каждое полученное обновление передается в `bot.run(T_TELEGRAM, update)`, после чего
+ * смещение (offset) увеличивается, и Telegram больше не присылает обработанное обновление.
+ * Ошибка при обработке одного обновления не останавливает получение следующих.
+ *
+ * Обычно запускается через `bot.startPolling(T_TELEGRAM)` и останавливается при вызове `bot.close()`.
+ *
+ * @example
+ * ```ts
+ * import { Bot } from 'umbot';
+ * import { TelegramAdapter, T_TELEGRAM } from 'umbot/plugins';
+ *
+ * const bot = new Bot();
+ * bot.use(new TelegramAdapter('YOUR_BOT_TOKEN', { polling: { timeout: 30 } }));
+ * bot.startPolling(T_TELEGRAM);
+ *
+ * // ... позже
+ * await bot.close();
+ * ```
+ */
+export class TelegramPolling {
+    /**
+     * Контекст приложения
+     */
+    readonly #appContext: AppContext;
+    /**
+     * Экземпляр приложения, в который передаются обновления
+     */
+    readonly #bot: Bot;
+    /**
+     * Параметры получения обновлений
+     */
+    readonly #options: ITelegramPollingOptions;
+    /**
+     * Смещение для следующего запроса getUpdates
+     */
+    #offset: number | undefined;
+    /**
+     * Признак того, что получение обновлений запущено
+     */
+    #isRunning: boolean = false;
+    /**
+     * Промис текущего цикла получения обновлений
+     */
+    #loop: Promise<void> | null = null;
+    /**
+     * Таймер ожидания перед повторным запросом
+     */
+    #retryTimer: ReturnType<typeof setTimeout> | null = null;
+    /**
+     * Функция, досрочно завершающая ожидание перед повторным запросом
+     */
+    #retryResolve: (() => void) | null = null;
+    /**
+     * Контроллер для отмены текущего запроса getUpdates при остановке
+     */
+    #abortController: AbortController | null = null;
+
+    /**
+     * @param appContext Контекст приложения
+     * @param bot Экземпляр приложения
+     * @param options Параметры получения обновлений
+     */
+    constructor(appContext: AppContext, bot: Bot, options: ITelegramPollingOptions = {}) {
+        this.#appContext = appContext;
+        this.#bot = bot;
+        this.#options = options;
+    }
+
+    /**
+     * Смещение, которое будет передано в следующий запрос getUpdates
+     */
+    get offset(): number | undefined {
+        return this.#offset;
+    }
+
+    /**
+     * Признак того, что получение обновлений запущено
+     */
+    get isRunning(): boolean {
+        return this.#isRunning;
+    }
+
+    /**
+     * Запускает получение обновлений.
+     * Повторный вызов для уже запущенного экземпляра ничего не делает.
+     */
+    public start(): void {
+        if (this.#isRunning) {
+            return;
+        }
+        this.#isRunning = true;
+        this.#abortController = new AbortController();
+        this.#loop = this.#poll(this.#abortController.signal);
+    }
+
+    /**
+     * Останавливает получение обновлений.
+     * Текущий запрос getUpdates отменяется, а обработка уже полученного обновления дожидается завершения.
+     * Обновления, которые были получены, но не обработаны, Telegram пришлет повторно при следующем запуске.
+     */
+    public async stop(): Promise<void> {
+        this.#isRunning = false;
+        if (this.#retryTimer) {
+            clearTimeout(this.#retryTimer);
+            this.#retryTimer = null;
+        }
+        this.#retryResolve?.();
+        this.#retryResolve = null;
+        this.#abortController?.abort();
+        this.#abortController = null;
+        if (this.#loop) {
+            await this.#loop;
+            this.#loop = null;
+        }
+    }
+
+    /**
+     * Ожидание перед повторным запросом после ошибки
+     */
+    #wait(): Promise<void> {
+        return new Promise((resolve) => {
+            this.#retryResolve = resolve;
+            this.#retryTimer = setTimeout(() => {
+                this.#retryTimer = null;
+                this.#retryResolve = null;
+                resolve();
+            }, this.#options.retryDelay ?? 1000);
+        });
+    }
+
+    /**
+     * Цикл получения и обработки обновлений
+     * @param signal Сигнал, который отменяет запрос getUpdates при остановке
+     */
+    async #poll(signal: AbortSignal): Promise<void> {
+        const api = new TelegramRequest(this.#appContext);
+        while (this.#isRunning) {
+            const updates = await api.getUpdates(
+                this.#offset,
+                this.#options.timeout ?? 25,
+                this.#options.limit ?? 100,
+                this.#options.allowedUpdates,
+                signal,
+            );
+            if (!this.#isRunning) {
+                break;
+            }
+            if (!updates) {
+                await this.#wait();
+                continue;
+            }
+            for (const update of updates) {
+                if (!this.#isRunning) {
+                    break;
+                }
+                // Смещение сдвигается до обработки, чтобы обновление, приводящее к ошибке, не приходило повторно
+                this.#offset = (update.update_id as number) + 1;
+                try {
+                    await this.#bot.run(T_TELEGRAM, update);
+                } catch (e) {
+                    this.#appContext.logError(
+                        `TelegramPolling: Не удалось обработать обновление ${update.update_id}: ${(e as Error).message}`,
+                        { error: e },
+                    );
+                }
+            }
+        }
+    }
+}
@@ -16,7 +16,7 @@ export async function getSoundInDB(
     let isCbCalled = false;
     const result = await getSoundToken(path, T_TELEGRAM, controller, async (model: SoundTokens) => {
         const api = new TelegramRequest(controller.appContext);
-        const sound = await api.sendAudio(controller.userId as string, path);
+        const sound = await api.sendAudio((controller.chatId ?? controller.userId) as string, path);
         isCbCalled = true;
 
         if (sound?.ok && sound.result?.audio?.file_id !== undefined) {
@@ -30,7 +30,7 @@ export async function getSoundInDB(
 
     if (!isCbCalled && result) {
         await new TelegramRequest(controller.appContext).sendAudio(
-            controller.userId as string,
+            (controller.chatId ?? controller.userId) as string,
             result,
         );
     }
@@ -58,7 +58,7 @@ export async function soundProcessing(
                     sText = await getSoundInDB(controller, sText);
                 } else {
                     await new TelegramRequest(controller.appContext).sendAudio(
-                        controller.userId as TTelegramChatId,
+                        (controller.chatId ?? controller.userId) as TTelegramChatId,
                         sText,
                     );
                 }
@@ -77,7 +77,7 @@ export async function soundProcessing(
         const content = await speechKit.getTts(text);
         if (content) {
             await new TelegramRequest(controller.appContext).sendAudio(
-                controller.userId as TTelegramChatId,
+                (controller.chatId ?? controller.userId) as TTelegramChatId,
                 content.fileName,
             );
             await unlink(content.fileName);
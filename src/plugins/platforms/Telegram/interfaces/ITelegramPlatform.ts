@@ -43,6 +43,19 @@ export interface ITelegramMessageChat {
     type?: string;
 }
 
+/**
+ * Специальная сущность в тексте сообщения
+ * @see https://core.telegram.org/bots/api#messageentity
+ */
+export interface ITelegramMessageEntity {
+    /** Тип сущности (mention, bot_command, url и т.д.) */
+    type: string;
+    /** Смещение в UTF-16 символах от начала текста */
+    offset: number;
+    /** Длина сущности в UTF-16 символах */
+    length: number;
+}
+
 /**
  * Сообщение Telegram
  */
@@ -55,8 +68,101 @@ export interface ITelegramMessage {
     chat: ITelegramMessageChat;
     /** Дата отправки */
     date?: number;
-    /** Текст сообщения */
-    text: string;
+    /** Текст сообщения. Отсутствует, если отправлено вложение */
+    text?: string;
+    /** Подпись к вложению */
+    caption?: string;
+    /** Специальные сущности в тексте (упоминания, команды, ссылки) */
+    entities?: ITelegramMessageEntity[];
+    /** Специальные сущности в подписи к вложению */
+    caption_entities?: ITelegramMessageEntity[];
+    /** Сообщение, на которое был дан ответ */
+    reply_to_message?: ITelegramMessage;
+    /** Фотография в разных размерах. Последний элемент - самый большой размер */
+    photo?: ITelegramInboundFile[];
+    /** Голосовое сообщение */
+    voice?: ITelegramInboundFile;
+    /** Аудиофайл */
+    audio?: ITelegramInboundFile;
+    /** Видео */
+    video?: ITelegramInboundFile;
+    /** Документ */
+    document?: ITelegramInboundFile;
+    /** Стикер */
+    sticker?: ITelegramInboundFile & { emoji?: string };
+    /** Геолокация */
+    location?: ITelegramLocation;
+    /** Контакт */
+    contact?: ITelegramContact;
+    /** Новые участники чата */
+    new_chat_members?: ITelegramMessageFrom[];
+    /** Участник, покинувший чат */
+    left_chat_member?: ITelegramMessageFrom;
+}
+
+/**
+ * Информация о файле во входящем сообщении.
+ * Описывает фото, голосовое сообщение, аудио, видео, документ и стикер
+ * @see https://core.telegram.org/bots/api#document
+ */
+export interface ITelegramInboundFile {
+    /** Идентификатор файла. Используется для скачивания через getFile */
+    file_id: string;
+    /** Уникальный идентификатор файла */
+    file_unique_id?: string;
+    /** Размер файла в байтах */
+    file_size?: number;
+    /** MIME-тип файла */
+    mime_type?: string;
+    /** Имя файла */
+    file_name?: string;
+    /** Ширина. Для фото, видео и стикеров */
+    width?: number;
+    /** Высота. Для фото, видео и стикеров */
+    height?: number;
+    /** Длительность в секундах. Для голосовых сообщений, аудио и видео */
+    duration?: number;
+}
+
+/**
+ * Геолокация, отправленная пользователем
+ * @see https://core.telegram.org/bots/api#location
+ */
+export interface ITelegramLocation {
+    /** Широта */
+    latitude: number;
+    /** Долгота */
+    longitude: number;
+}
+
+/**
+ * Контакт, отправленный пользователем
+ * @see https://core.telegram.org/bots/api#contact
+ */
+export interface ITelegramContact {
+    /** Номер телефона */
+    phone_number: string;
+    /** Имя */
+    first_name: string;
+    /** Фамилия */
+    last_name?: string;
+    /** Идентификатор пользователя в Telegram */
+    user_id?: number;
+}
+
+/**
+ * Информация о файле, полученная через метод getFile
+ * @see https://core.telegram.org/bots/api#file
+ */
+export interface ITelegramFile {
+    /** Идентификатор файла */
+    file_id: string;
+    /** Уникальный идентификатор файла */
+    file_unique_id?: string;
+    /** Размер файла в байтах */
+    file_size?: number;
+    /** Путь к файлу. Используется для скачивания по адресу https://api.telegram.org/file/bot<token>/<file_path> */
+    file_path?: string;
 }
 
 /**
@@ -73,7 +179,7 @@ export interface ITelegramContent {
      * Содержит новую версию сообщения после редактирования
      * @see ITelegramMessage
      */
-    edited_message?: Record<string, unknown>;
+    edited_message?: ITelegramMessage;
     /**
      * Пост в канале
      * Новое сообщение в канале (текст, фото, стикер и т.д.)
@@ -85,7 +191,7 @@ export interface ITelegramContent {
      * Новая версия поста после редактирования
      * @see ITelegramMessage
      */
-    edited_channel_post?: Record<string, unknown>;
+    edited_channel_post?: ITelegramMessage;
     /**
      * Встроенный запрос
      * Новый запрос для inline-режима
@@ -139,6 +245,40 @@ export interface ITelegramContent {
      * @see https://core.telegram.org/bots/api#poll_answer
      */
     poll_answer?: Record<string, unknown>;
+    /**
+     * Изменение статуса бота в чате.
+     * В личном чате приходит, когда пользователь заблокировал или разблокировал бота
+     * @see https://core.telegram.org/bots/api#chatmemberupdated
+     */
+    my_chat_member?: ITelegramChatMemberUpdated;
+}
+
+/**
+ * Изменение статуса участника чата
+ * @see https://core.telegram.org/bots/api#chatmemberupdated
+ */
+export interface ITelegramChatMemberUpdated {
+    /** Чат, в котором изменился статус */
+    chat: ITelegramMessageChat;
+    /** Пользователь, изменивший статус */
+    from: ITelegramMessageFrom;
+    /** Дата изменения */
+    date?: number;
+    /** Предыдущий статус участника */
+    old_chat_member?: ITelegramChatMember;
+    /** Новый статус участника */
+    new_chat_member: ITelegramChatMember;
+}
+
+/**
+ * Информация об участнике чата
+ * @see https://core.telegram.org/bots/api#chatmember
+ */
+export interface ITelegramChatMember {
+    /** Статус участника (creator, administrator, member, restricted, left, kicked) */
+    status: string;
+    /** Информация об участнике */
+    user: ITelegramMessageFrom;
 }
 
 /**
@@ -842,6 +982,21 @@ export interface ITelegramResult {
      * Присутствует только в случае ошибки
      */
     description?: string;
+
+    /**
+     * Дополнительные параметры ошибки.
+     * Присутствует только в случае ошибки
+     */
+    parameters?: {
+        /**
+         * Время в секундах, через которое можно повторить запрос при превышении лимита запросов
+         */
+        retry_after?: number;
+        /**
+         * Идентификатор супергруппы, в которую была преобразована группа
+         */
+        migrate_to_chat_id?: number;
+    };
 }
 
 export type TButtonPayload = Record<string, unknown>;
@@ -1,13 +1,56 @@
-import { BotController, AppContext, Text } from '../../../index';
-import { VkRequest, IVkParams } from '../API';
+import {
+    Bot,
+    BotController,
+    AppContext,
+    EBotEvent,
+    IInboundAttachment,
+    IOutboundMessage,
+    Text,
+    TOutboundResult,
+} from '../../../index';
+import { VkRequest, IVkParams, IVkLongPollOptions } from '../API';
 import { BasePlatform, EMPTY_CONTEXT_ERROR, EMPTY_QUERY_ERROR } from '../Base/Base';
 import { buttonProcessing } from './Button';
 import { cardProcessing } from './Card';
 import { soundProcessing } from './Sound';
 import { T_VK } from './constants';
-import { IVkRequestContent, IVkRequestObject, IVkCard } from './interfaces/IVkPlatform';
+import {
+    IVkRequestContent,
+    IVkRequestObject,
+    IVkCard,
+    IVkMessage,
+    IVkMediaObject,
+} from './interfaces/IVkPlatform';
 import { tryParse } from '../Base/utils';
 
+/**
+ * Начальное значение peer_id для бесед VK. Все peer_id бесед больше или равны этому значению
+ */
+const VK_CHAT_PEER_ID = 2000000000;
+
+/**
+ * Соответствие событий VK и событий фреймворка
+ */
+const VK_EVENTS: Record<string, EBotEvent> = {
+    group_join: EBotEvent.JOIN,
+    group_leave: EBotEvent.LEAVE,
+    message_allow: EBotEvent.SUBSCRIBE,
+    message_deny: EBotEvent.UNSUBSCRIBE,
+    message_typing_state: EBotEvent.TYPING,
+};
+
+/**
+ * Соответствие типов вложений VK и типов вложений фреймворка
+ */
+const VK_ATTACHMENT_TYPES: Record<string, IInboundAttachment['type']> = {
+    photo: 'photo',
+    audio_message: 'voice',
+    audio: 'audio',
+    video: 'video',
+    doc: 'document',
+    sticker: 'sticker',
+};
+
 /**
  * Адаптер, обеспечивающий поддержку платформы VK. Позволяет разрабатывать чат-ботов для мессенджера ВК на TypeScript с использованием кросс-платформенного функционала: обработка текстовых запросов, работа с карточками и кнопками.
  *
@@ -24,6 +67,9 @@ import { tryParse } from '../Base/utils';
  * Поддерживает:
  * - голосовые и текстовые запросы;
  * - карточки, кнопки;
+ * - входящие вложения (фото, голосовые сообщения, документы, стикеры, геолокация) через `controller.attachments`;
+ * - беседы: `controller.chatId`, `controller.isGroupChat` и `controller.isBotAddressed`;
+ * - события (`EBotEvent`): вступление и выход из сообщества, разрешение и запрет сообщений, набор текста;
  *
  * Подключается как любой другой адаптер: `bot.use(new VkAdapter(token))`.
  * Несколько адаптеров могут работать одновременно — система сама выберет подходящий
@@ -43,6 +89,13 @@ import { tryParse } from '../Base/utils';
  * bot.start('localhost', 3000);
  * ```
  *
+ * @example
+ * ```ts
+ * // Получение событий через Bots Long Poll API, без webhook
+ * const bot = new Bot().use(new VkAdapter('YOUR_VK_TOKEN', { polling: { groupId: 123456 } }));
+ * bot.startPolling(T_VK);
+ * ```
+ *
  * @see Bot
  * @see BotController
  * @see BasePlatform
@@ -53,6 +106,15 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
     limit = 30;
     signatureName = 'x-vk-signature';
 
+    /**
+     * Контроллер для остановки получения событий через Bots Long Poll API
+     */
+    #pollingAbort?: AbortController;
+    /**
+     * Промис цикла получения событий через Bots Long Poll API
+     */
+    #polling?: Promise<void>;
+
     init(appContext: AppContext): void {
         super.init(appContext);
         if (this._token) {
@@ -86,6 +148,132 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
         );
     }
 
+    /**
+     * Возвращает вложения, отправленные в сообщении
+     * @param message Сообщение VK
+     */
+    #getAttachments(message: IVkMessage): IInboundAttachment[] {
+        const attachments: IInboundAttachment[] = [];
+        for (const item of message.attachments || []) {
+            const type = VK_ATTACHMENT_TYPES[item.type];
+            const media = item[item.type] as IVkMediaObject | undefined;
+            if (!type || !media) {
+                continue;
+            }
+            let fileId = `${item.type}${media.owner_id}_${media.id}`;
+            if (media.access_key) {
+                fileId += `_${media.access_key}`;
+            }
+            attachments.push({
+                type,
+                fileId: media.id !== undefined ? fileId : media.sticker_id?.toString(),
+                url:
+                    media.url ||
+                    media.link_ogg ||
+                    media.sizes?.[media.sizes.length - 1]?.url ||
+                    undefined,
+                size: media.size,
+                name: media.title,
+                raw: item,
+            });
+        }
+        if (message.geo) {
+            attachments.push({
+                type: 'location',
+                coordinates: {
+                    lat: message.geo.coordinates.latitude,
+                    lon: message.geo.coordinates.longitude,
+                },
+                raw: message.geo,
+            });
+        }
+        return attachments;
+    }
+
+    /**
+     * Возвращает регулярное выражение для поиска упоминания сообщества в тексте.
+     * Упоминание имеет вид `[club123|@name]`
+     * @param groupId Идентификатор сообщества
+     */
+    #getMentionRegExp(groupId: string | number): RegExp {
+        return new RegExp(`\\[(?:club|public)${groupId}\\|[^\\]]*\\],?`, 'ig');
+    }
+
+    /**
+     * Проверяет, обращаются ли к боту в сообщении беседы: упоминание сообщества, ответ на его сообщение или нажатие кнопки
+     * @param message Сообщение VK
+     * @param groupId Идентификатор сообщества
+     */
+    #isBotAddressed(message: IVkMessage, groupId?: string | number): boolean {
+        if (message.payload) {
+            return true;
+        }
+        if (!groupId) {
+            return false;
+        }
+        return (
+            message.reply_message?.from_id === -Number(groupId) ||
+            this.#getMentionRegExp(groupId).test(message.text ?? '')
+        );
+    }
+
+    /**
+     * Удаляет упоминание сообщества из текста
+     * @param text Текст сообщения
+     * @param groupId Идентификатор сообщества
+     */
+    #removeMention(text: string, groupId?: string | number): string {
+        return groupId ? text.replace(this.#getMentionRegExp(groupId), '').trim() : text;
+    }
+
+    /**
+     * Заполняет информацию об отправителе и беседе
+     * @param message Сообщение VK
+     * @param controller Контроллер приложения
+     * @param groupId Идентификатор сообщества
+     */
+    #setChatData(message: IVkMessage, controller: BotController, groupId?: string | number): void {
+        controller.userId = message.from_id;
+        controller.chatId = message.peer_id ?? message.from_id;
+        controller.isGroupChat = controller.chatId >= VK_CHAT_PEER_ID;
+        controller.isBotAddressed =
+            !controller.isGroupChat || this.#isBotAddressed(message, groupId);
+    }
+
+    /**
+     * Заполняет контроллер данными о нажатии на callback-кнопку
+     * @param object Объект события
+     * @param controller Контроллер приложения
+     */
+    #setMessageEvent(object: IVkRequestObject | undefined, controller: BotController): boolean {
+        if (!object?.payload) {
+            return false;
+        }
+        controller.userCommand = (
+            typeof object.payload === 'string' ? object.payload : JSON.stringify(object.payload)
+        )?.toLowerCase();
+        controller.userId = object.user_id as number;
+        controller.chatId = object.peer_id ?? controller.userId;
+        controller.isGroupChat = controller.chatId >= VK_CHAT_PEER_ID;
+        controller.payload = tryParse(object.payload);
+        controller.messageId = object.conversation_message_id || 0;
+        return true;
+    }
+
+    /**
+     * Заполняет контроллер данными события, не связанного с отправкой сообщения
+     * @param object Объект события
+     * @param event Событие
+     * @param controller Контроллер приложения
+     */
+    #setEvent(object: IVkRequestObject, event: EBotEvent, controller: BotController): void {
+        controller.userId = (object.user_id ?? object.from_id) as number;
+        controller.chatId = controller.userId;
+        controller.userCommand = '';
+        controller.originalUserCommand = '';
+        controller.event = event;
+    }
+
     async setQueryData(query: IVkRequestContent, controller: BotController): Promise<boolean> {
         if (!this.appContext) {
             console.error(`VkAdapter.setQueryData(): ${EMPTY_CONTEXT_ERROR}`);
@@ -105,14 +293,15 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
             case 'message_new':
                 if (query.object !== undefined) {
                     const object: IVkRequestObject = query.object;
-                    controller.userId = object.message.from_id;
-                    const rawText = object.message.text ?? '';
+                    this.#setChatData(object.message, controller, query.group_id);
+                    const rawText = this.#removeMention(object.message.text ?? '', query.group_id);
                     controller.userCommand = rawText.toLowerCase().trim();
                     controller.originalUserCommand = rawText.trim();
                     controller.messageId = object.message.id;
                     controller.payload = tryParse(object.message.payload || null);
+                    controller.attachments = this.#getAttachments(object.message);
                     const user = await new VkRequest(this.appContext as AppContext).usersGet(
-                        controller.userId,
+                        object.message.from_id,
                     );
                     if (user) {
                         const thisUser = {
@@ -127,20 +316,13 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
                 return false;
 
             case 'message_event':
-                if (query.object?.payload) {
-                    controller.userCommand = (
-                        typeof query.object.payload === 'string'
-                            ? query.object.payload
-                            : JSON.stringify(query.object.payload)
-                    )?.toLowerCase();
-                    controller.userId = query.object.user_id as number;
-                    controller.payload = tryParse(query.object.payload);
-                    controller.messageId = query.object.conversation_message_id || 0;
-                    return true;
-                }
-                return false;
+                return this.#setMessageEvent(query.object, controller);
 
             default:
+                if (query.object && VK_EVENTS[query.type]) {
+                    this.#setEvent(query.object, VK_EVENTS[query.type], controller);
+                    return true;
+                }
                 controller.platformOptions.error =
                     'VkAdapter:setQueryData(): Некорректный тип данных!';
                 break;
@@ -175,7 +357,7 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
             }
             const vkApi = new VkRequest(this.appContext as AppContext);
             await vkApi.messagesSend(
-                controller.userId as string,
+                (controller.chatId ?? controller.userId) as string,
                 Text.resize(controller.text, 4096),
                 params,
             );
@@ -183,6 +365,62 @@ export class VkAdapter extends BasePlatform<string | IVkRequestContent> {
         return 'ok';
     }
 
+    /**
+     * Запускает получение событий через Bots Long Poll API.
+     * Параметры берутся из опции `polling`, переданной в конструктор адаптера. Обязательно указывается `groupId`.
+     * @param bot Экземпляр приложения
+     * @returns true, если получение событий запущено
+     */
+    startPolling(bot: Bot): boolean {
+        if (!this.appContext) {
+            console.error(`VkAdapter.startPolling(): ${EMPTY_CONTEXT_ERROR}`);
+            return false;
+        }
+        const options = this._platformOptions?.polling as
+            (IVkLongPollOptions & { groupId?: number | string }) | undefined;
+        if (!options?.groupId) {
+            this.appContext.logError(
+                'VkAdapter.startPolling(): Не указан идентификатор сообщества. Передайте его в опции polling.groupId.',
+            );
+            return false;
+        }
+        if (this.#polling) {
+            return true;
+        }
+        this.#pollingAbort = new AbortController();
+        this.#polling = new VkRequest(this.appContext as AppContext).longPoll(
+            options.groupId,
+            (event) => bot.run(T_VK, event),
+            { ...options, signal: this.#pollingAbort.signal },
+        );
+        return true;
+    }
+
+    /**
+     * Останавливает получение событий через Bots Long Poll API
+     */
+    async stopPolling(): Promise<void> {
+        this.#pollingAbort?.abort();
+        await this.#polling;
+        this.#pollingAbort = undefined;
+        this.#polling = undefined;
+    }
+
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * @param message Исходящее сообщение
+     */
+    async executeOutbound(message: IOutboundMessage): Promise<TOutboundResult> {
+        if (!this.appContext) {
+            return { status: 'fail', error: EMPTY_CONTEXT_ERROR };
+        }
+        return new VkRequest(this.appContext as AppContext).execute(
+            message.method,
+            message.params,
+            message.token,
+        );
+    }
+
     static isVoice(): boolean {
         return false;
     }
@@ -17,7 +17,9 @@ export async function getImageInDB(
 ): Promise<string | null> {
     return getImageToken(path, T_VK, controller, async (model: ImageTokens) => {
         const api = new VkRequest(controller.appContext);
-        const server = await api.photosGetMessagesUploadServer(controller.userId as string);
+        const server = await api.photosGetMessagesUploadServer(
+            (controller.chatId ?? controller.userId) as string,
+        );
         if (!server?.upload_url) {
             return null;
         }
@@ -18,7 +18,7 @@ export async function getSoundInDB(
         const vkApi = new VkRequest(controller.appContext);
         vkApi.isAttachContent = isAttachContent;
         const uploadServerResponse = await vkApi.docsGetMessagesUploadServer(
-            controller.userId as string,
+            (controller.chatId ?? controller.userId) as string,
             'audio_message',
         );
         if (uploadServerResponse) {
@@ -34,18 +34,82 @@ export interface IVkMessage {
     conversation_message_id?: number;
     /** Массив пересланных сообщений */
     fwd_messages?: string[];
+    /** Сообщение, на которое был дан ответ */
+    reply_message?: IVkMessage;
     /** Является ли сообщение важным */
     important?: boolean;
     /** Уникальный идентификатор сообщения */
     random_id?: number;
     /** Вложения (фото, видео, документы и т.д.) */
-    attachments?: Record<string, unknown>;
+    attachments?: IVkMessageAttachment[];
+    /** Геолокация, прикрепленная к сообщению */
+    geo?: {
+        /** Тип места */
+        type?: string;
+        /** Координаты */
+        coordinates: {
+            /** Широта */
+            latitude: number;
+            /** Долгота */
+            longitude: number;
+        };
+    };
     /** Скрыто ли сообщение */
     is_hidden?: boolean;
     /** Дополнительные данные */
     payload?: Record<string, unknown>;
 }
 
+/**
+ * Медиа-объект во вложении VK (фото, документ, аудио, голосовое сообщение, видео, стикер)
+ * @see https://dev.vk.ru/ru/reference/objects/attachments-message
+ */
+export interface IVkMediaObject {
+    /** ID объекта */
+    id?: number;
+    /** ID владельца объекта */
+    owner_id?: number;
+    /** Ключ доступа */
+    access_key?: string;
+    /** Название документа или аудиозаписи */
+    title?: string;
+    /** Расширение документа */
+    ext?: string;
+    /** Размер в байтах */
+    size?: number;
+    /** Ссылка на файл (документ, аудио) */
+    url?: string;
+    /** Ссылка на голосовое сообщение в формате ogg */
+    link_ogg?: string;
+    /** Ссылка на голосовое сообщение в формате mp3 */
+    link_mp3?: string;
+    /** Длительность в секундах */
+    duration?: number;
+    /** Копии изображения разных размеров. Для фотографий */
+    sizes?: {
+        /** Тип копии */
+        type?: string;
+        /** Ссылка на изображение */
+        url: string;
+        /** Ширина */
+        width?: number;
+        /** Высота */
+        height?: number;
+    }[];
+    /** ID стикера */
+    sticker_id?: number;
+}
+
+/**
+ * Вложение во входящем сообщении VK
+ */
+export interface IVkMessageAttachment {
+    /** Тип вложения (photo, doc, audio, audio_message, video, sticker и т.д.) */
+    type: string;
+    /** Данные вложения. Ключ совпадает с типом вложения */
+    [type: string]: IVkMediaObject | string;
+}
+
 /**
  * Информация о клиенте.
  * Содержит данные о возможностях клиента
@@ -75,6 +139,22 @@ export interface IVkRequestObject {
      * Идентификатор пользователя.
      */
     user_id?: number;
+    /**
+     * Идентификатор пользователя, который набирает текст. Используется в событии message_typing_state
+     */
+    from_id?: number;
+    /**
+     * Статус набора текста. Используется в событии message_typing_state
+     */
+    state?: string;
+    /**
+     * Способ вступления в сообщество (join, unsure, accepted, approved, request). Используется в событии group_join
+     */
+    join_type?: string;
+    /**
+     * Флаг, указывающий что пользователь покинул сообщество самостоятельно. Используется в событии group_leave
+     */
+    self?: number;
     /**
      * Идентификатор диалога со стороны бота.
      */
@@ -1,11 +1,28 @@
-import { AppContext, BotController } from '../../../index';
+import {
+    AppContext,
+    BotController,
+    EBotEvent,
+    IInboundAttachment,
+    IOutboundMessage,
+    TOutboundResult,
+} from '../../../index';
 import { ViberRequest, IViberParams, IViberSender } from '../API';
 import { BasePlatform, EMPTY_CONTEXT_ERROR, EMPTY_QUERY_ERROR } from '../Base/Base';
 import { buttonProcessing } from './Button';
 import { cardProcessing } from './Card';
 import { soundProcessing } from './Sound';
 import { T_VIBER } from './constants';
-import { IViberButtonObject, IViberContent } from './interfaces/IViberPlatform';
+import { IViberButtonObject, IViberContent, IViberMessage } from './interfaces/IViberPlatform';
+
+/**
+ * Соответствие типов сообщений Viber и типов вложений фреймворка
+ */
+const VIBER_ATTACHMENT_TYPES: Record<string, IInboundAttachment['type']> = {
+    picture: 'photo',
+    video: 'video',
+    file: 'document',
+    sticker: 'sticker',
+};
 
 /**
  * Адаптер, обеспечивающий поддержку платформы Viber. Позволяет разрабатывать чат-ботов для Viber на TypeScript с использованием кросс-платформенного функционала: обработка текстовых запросов, работа с карточками и кнопками.
@@ -23,6 +40,8 @@ import { IViberButtonObject, IViberContent } from './interfaces/IViberPlatform';
  * Поддерживает:
  * - голосовые и текстовые запросы;
  * - карточки, кнопки;
+ * - входящие вложения (фото, видео, файлы, стикеры, геолокация, контакты) через `controller.attachments`;
+ * - события (`EBotEvent`): начало диалога, подписка и отписка;
  *
  * Подключается как любой другой адаптер: `bot.use(new ViberAdapter(token))`.
  * Несколько адаптеров могут работать одновременно — система сама выберет подходящий
@@ -82,6 +101,48 @@ export class ViberAdapter extends BasePlatform<IViberContent | string> {
         );
     }
 
+    /**
+     * Возвращает вложения, отправленные в сообщении
+     * @param message Сообщение Viber
+     */
+    #getAttachments(message: IViberMessage): IInboundAttachment[] {
+        switch (message.type) {
+            case 'picture':
+            case 'video':
+            case 'file':
+            case 'sticker':
+                return [
+                    {
+                        type: VIBER_ATTACHMENT_TYPES[message.type],
+                        fileId: message.sticker_id?.toString(),
+                        url: message.media,
+                        size: message.file_size,
+                        name: message.file_name,
+                        caption: message.text || undefined,
+                        raw: message,
+                    },
+                ];
+            case 'location':
+                return message.location
+                    ? [{ type: 'location', coordinates: message.location, raw: message }]
+                    : [];
+            case 'contact':
+                return message.contact
+                    ? [
+                          {
+                              type: 'contact',
+                              contact: {
+                                  phone: message.contact.phone_number,
+                                  firstName: message.contact.name,
+                              },
+                              raw: message,
+                          },
+                      ]
+                    : [];
+        }
+        return [];
+    }
+
     async setQueryData(query: IViberContent, controller: BotController): Promise<boolean> {
         if (!this.appContext) {
             console.error(`ViberAdapter.setQueryData(): ${EMPTY_CONTEXT_ERROR}`);
@@ -93,36 +154,49 @@ export class ViberAdapter extends BasePlatform<IViberContent | string> {
         }
         controller.requestObject = query;
 
-        if (query.message) {
-            switch (query.event) {
-                case 'conversation_started':
-                    if (query.user) {
-                        controller.userId = query.user.id;
+        switch (query.event) {
+            case 'conversation_started':
+            case 'subscribed':
+                if (query.user) {
+                    controller.userId = query.user.id;
 
-                        controller.userCommand = '';
-                        controller.messageId = 0;
+                    controller.userCommand = '';
+                    controller.messageId = 0;
+                    controller.event =
+                        query.event === 'subscribed' ? EBotEvent.SUBSCRIBE : EBotEvent.START;
 
-                        this.appContext.appConfig.tokens[this.platformName].api_version =
-                            query.user.api_version || 2;
-                        this.setNlu(controller, query.sender.name);
-                    }
+                    this.appContext.appConfig.tokens[this.platformName].api_version =
+                        query.user.api_version || 2;
+                    this.setNlu(controller, query.user.name);
                     return true;
+                }
+                break;
 
-                case 'message':
+            case 'unsubscribed':
+                if (query.user_id) {
+                    controller.userId = query.user_id;
+                    controller.userCommand = '';
+                    controller.event = EBotEvent.UNSUBSCRIBE;
+                    return true;
+                }
+                break;
+
+            case 'message':
+                if (query.message) {
                     controller.userId = query.sender.id;
-                    {
-                        const raw = query.message?.text ?? '';
-                        controller.userCommand = raw.toLowerCase().trim();
-                        controller.originalUserCommand = raw;
-                    }
+                    const raw = query.message.text ?? '';
+                    controller.userCommand = raw.toLowerCase().trim();
+                    controller.originalUserCommand = raw;
                     controller.messageId = query.message_token;
+                    controller.attachments = this.#getAttachments(query.message);
 
                     this.appContext.appConfig.tokens[this.platformName].api_version = (query.sender
                         .api_version || 2) as unknown as string;
 
                     this.setNlu(controller, query.sender.name);
                     return true;
-            }
+                }
+                break;
         }
 
         return false;
@@ -143,8 +217,7 @@ export class ViberAdapter extends BasePlatform<IViberContent | string> {
             await viberApi.sendMessage(
                 <string>controller.userId,
                 controller.appContext.appConfig.tokens[this.platformName].sender as
-                    | string
-                    | IViberSender,
+                    string | IViberSender,
                 controller.text,
                 params,
             );
@@ -180,6 +253,21 @@ export class ViberAdapter extends BasePlatform<IViberContent | string> {
         controller.nlu.setNlu({ thisUser });
     }
 
+    /**
+     * Выполняет запрос исходящего сообщения из очереди
+     * @param message Исходящее сообщение
+     */
+    async executeOutbound(message: IOutboundMessage): Promise<TOutboundResult> {
+        if (!this.appContext) {
+            return { status: 'fail', error: EMPTY_CONTEXT_ERROR };
+        }
+        return new ViberRequest(this.appContext as AppContext).execute(
+            message.method,
+            message.params,
+            message.token,
+        );
+    }
+
     static isVoice(): boolean {
         return false;
     }
@@ -108,11 +108,16 @@ export interface IViberContent {
     sender: IViberUser;
     /**
      * Информация о пользователе
-     * Для event='message' содержит данные отправителя
+     * Для event='conversation_started' и event='subscribed' содержит данные пользователя
      */
     user?: IViberUser;
     /** Информация о сообщении */
     message?: IViberMessage;
+    /**
+     * Идентификатор отписавшегося пользователя.
+     * Для event='unsubscribed'
+     */
+    user_id?: string;
 }
 
 /**
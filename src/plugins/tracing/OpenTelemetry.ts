@@ -0,0 +1,198 @@
+import {
+    AppContext,
+    Bot,
+    ITraceSpan,
+    ITracer,
+    TTraceAttributes,
+    getRequestContext,
+    isPromise,
+} from '../../index';
+import { BasePlugin } from '../Base';
+
+/**
+ * Код статуса спана, который означает ошибку (`SpanStatusCode.ERROR` в `@opentelemetry/api`)
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Спан OpenTelemetry. Совместим со `Span` из `@opentelemetry/api`
+ */
+export interface IOpenTelemetrySpan {
+    setAttributes(attributes: TTraceAttributes): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error | string): unknown;
+    end(): void;
+}
+
+/**
+ * Трассировщик OpenTelemetry. Совместим с `Tracer` из `@opentelemetry/api`
+ */
+export interface IOpenTelemetryTracer {
+    startActiveSpan<T>(
+        name: string,
+        options: { attributes?: TTraceAttributes },
+        fn: (span: IOpenTelemetrySpan) => T,
+    ): T;
+}
+
+/**
+ * Параметры плагина трассировки
+ */
+export interface IOpenTelemetryOptions {
+    /**
+     * Атрибуты, которые добавляются ко всем спанам
+     */
+    attributes?: TTraceAttributes;
+    /**
+     * Добавлять ли идентификатор пользователя в атрибуты спанов
+     * @defaultValue false
+     */
+    includeUserId?: boolean;
+}
+
+/**
+ * Плагин трассировки обработки запросов через OpenTelemetry.
+ * Создает спаны для получения webhook-запроса, определения платформы, `setQueryData`, цепочки middleware, поиска шага
+ * или команды, выполнения обработчика, загрузки и сохранения данных пользователя, запросов к API платформ и
+ * `getContent`. К каждому спану добавляются идентификатор запроса, платформа, а также команда или шаг, которые
+ * обработали запрос.
+ *
+ * Плагин не зависит от `@opentelemetry/api` напрямую: в него передается уже настроенный трассировщик.
+ *
+ * @example
+ * ```ts
+ * import { trace } from '@opentelemetry/api';
+ * import { OpenTelemetryPlugin } from 'umbot/plugins';
+ *
+ * bot.use(new OpenTelemetryPlugin(trace.getTracer('my-bot')));
+ * ```
+ */
+export class OpenTelemetryPlugin extends BasePlugin implements ITracer {
+    /**
+     * Трассировщик OpenTelemetry
+     */
+    readonly #tracer: IOpenTelemetryTracer;
+
+    /**
+     * Параметры плагина
+     */
+    readonly #options: IOpenTelemetryOptions;
+
+    /**
+     * Контекст приложения, к которому подключен плагин
+     */
+    #appContext: AppContext | null = null;
+
+    /**
+     * @param tracer - Трассировщик OpenTelemetry, например `trace.getTracer('my-bot')`
+     * @param options - Параметры плагина
+     */
+    constructor(tracer: IOpenTelemetryTracer, options: IOpenTelemetryOptions = {}) {
+        super();
+        this.#tracer = tracer;
+        this.#options = options;
+    }
+
+    /**
+     * Подключает трассировку к приложению
+     * @param appContext - Контекст приложения
+     */
+    public init(appContext: AppContext): void {
+        this.#appContext = appContext;
+        appContext.setTracer(this);
+    }
+
+    /**
+     * Отключает трассировку
+     * @param _bot - Основной класс приложения
+     */
+    public destroy(_bot: Bot): void {
+        this.#appContext?.setTracer(null);
+        this.#appContext = null;
+    }
+
+    /**
+     * Выполняет функцию внутри спана OpenTelemetry
+     * @param name - Название спана
+     * @param attributes - Атрибуты спана
+     * @param fn - Отслеживаемая функция
+     * @returns Результат функции
+     */
+    public trace<T>(name: string, attributes: TTraceAttributes, fn: (span: ITraceSpan) => T): T {
+        return this.#tracer.startActiveSpan(
+            name,
+            { attributes: { ...this.#options.attributes, ...attributes } },
+            (span) => {
+                const traceSpan: ITraceSpan = {
+                    setAttributes: (values) => {
+                        span.setAttributes(values);
+                    },
+                    setError: (error) => {
+                        this.#setError(span, error);
+                    },
+                };
+                try {
+                    const result = fn(traceSpan);
+                    if (isPromise(result)) {
+                        return result.then(
+                            (value) => {
+                                this.#end(span);
+                                return value;
+                            },
+                            (error) => {
+                                this.#setError(span, error);
+                                this.#end(span);
+                                throw error;
+                            },
+                        ) as T;
+                    }
+                    this.#end(span);
+                    return result;
+                } catch (error) {
+                    this.#setError(span, error);
+                    this.#end(span);
+                    throw error;
+                }
+            },
+        );
+    }
+
+    /**
+     * Отмечает спан как завершившийся с ошибкой
+     * @param span - Спан
+     * @param error - Ошибка
+     */
+    #setError(span: IOpenTelemetrySpan, error: unknown): void {
+        const exception =
+            error instanceof Error
+                ? error
+                : new Error(typeof error === 'string' ? error : JSON.stringify(error));
+        span.recordException(exception);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+    }
+
+    /**
+     * Добавляет к спану поля контекста запроса и завершает его
+     * @param span - Спан
+     */
+    #end(span: IOpenTelemetrySpan): void {
+        const context = getRequestContext();
+        if (context) {
+            const attributes: TTraceAttributes = { 'umbot.request_id': context.requestId };
+            if (context.appType) {
+                attributes['umbot.platform'] = context.appType;
+            }
+            if (context.command) {
+                attributes['umbot.command'] = context.command;
+            }
+            if (context.step) {
+                attributes['umbot.step'] = context.step;
+            }
+            if (this.#options.includeUserId && context.userId !== null) {
+                attributes['umbot.user_id'] = context.userId;
+            }
+            span.setAttributes(attributes);
+        }
+        span.end();
+    }
+}
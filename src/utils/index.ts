@@ -90,4 +90,5 @@
 export * from './standard/util';
 export * from './standard/Text';
 export * from './standard/RegExp';
+export * from './standard/Cron';
 export * from './isPromise';
@@ -0,0 +1,187 @@
+/**
+ * Разобранное cron-выражение
+ */
+export interface ICronExpression {
+    /**
+     * Минуты (0-59)
+     */
+    minutes: Set<number>;
+    /**
+     * Часы (0-23)
+     */
+    hours: Set<number>;
+    /**
+     * Дни месяца (1-31)
+     */
+    days: Set<number>;
+    /**
+     * Месяцы (1-12)
+     */
+    months: Set<number>;
+    /**
+     * Дни недели (0-6, где 0 — воскресенье)
+     */
+    weekDays: Set<number>;
+    /**
+     * Флаг того, что день месяца не ограничен (`*`)
+     */
+    isAnyDay: boolean;
+    /**
+     * Флаг того, что день недели не ограничен (`*`)
+     */
+    isAnyWeekDay: boolean;
+}
+
+/**
+ * Допустимые границы значений для каждого поля cron-выражения
+ */
+const CRON_BOUNDS: [number, number][] = [
+    [0, 59],
+    [0, 23],
+    [1, 31],
+    [1, 12],
+    [0, 7],
+];
+
+/**
+ * Максимальное количество итераций при поиске следующей даты.
+ * Защищает от бесконечного цикла для выражений, которые никогда не срабатывают (например, 30 февраля)
+ */
+const MAX_ITERATIONS = 10000;
+
+/**
+ * Разбирает одно поле cron-выражения
+ * @param field Значение поля
+ * @param min Минимальное значение
+ * @param max Максимальное значение
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+    const result = new Set<number>();
+    for (const part of field.split(',')) {
+        const [range, stepValue] = part.split('/');
+        const step = stepValue === undefined ? 1 : Number(stepValue);
+        let from = min;
+        let to = max;
+        if (range !== '*') {
+            const [start, end] = range.split('-');
+            from = Number(start);
+            if (end !== undefined) {
+                to = Number(end);
+            } else if (stepValue === undefined) {
+                to = from;
+            }
+        }
+        if (
+            !Number.isInteger(from) ||
+            !Number.isInteger(to) ||
+            !Number.isInteger(step) ||
+            step < 1 ||
+            from < min ||
+            to > max ||
+            from > to
+        ) {
+            return null;
+        }
+        for (let i = from; i <= to; i += step) {
+            result.add(i);
+        }
+    }
+    return result;
+}
+
+/**
+ * Разбирает cron-выражение из 5 полей: минуты, часы, день месяца, месяц, день недели.
+ * Поддерживаются `*`, списки (`1,15`), диапазоны (`1-5`) и шаги (`*\/15`).
+ *
+ * @param expression Cron-выражение
+ * @returns Разобранное выражение или null, если выражение некорректно
+ *
+ * @example
+ * ```ts
+ * parseCron('0 9 * * *'); // каждый день в 9:00
+ * parseCron('*\/30 9-18 * * 1-5'); // каждые 30 минут с 9 до 18 по будням
+ * ```
+ */
+export function parseCron(expression: string): ICronExpression | null {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== CRON_BOUNDS.length) {
+        return null;
+    }
+    const values: Set<number>[] = [];
+    for (let i = 0; i < fields.length; i++) {
+        const value = parseCronField(fields[i], CRON_BOUNDS[i][0], CRON_BOUNDS[i][1]);
+        if (!value) {
+            return null;
+        }
+        values.push(value);
+    }
+    const weekDays = values[4];
+    if (weekDays.delete(7)) {
+        weekDays.add(0);
+    }
+    return {
+        minutes: values[0],
+        hours: values[1],
+        days: values[2],
+        months: values[3],
+        weekDays,
+        isAnyDay: fields[2] === '*',
+        isAnyWeekDay: fields[4] === '*',
+    };
+}
+
+/**
+ * Проверяет, подходит ли день под cron-выражение.
+ * Если ограничены и день месяца, и день недели, достаточно совпадения одного из них.
+ */
+function isCronDay(cron: ICronExpression, date: Date): boolean {
+    const isDay = cron.days.has(date.getDate());
+    const isWeekDay = cron.weekDays.has(date.getDay());
+    if (!cron.isAnyDay && !cron.isAnyWeekDay) {
+        return isDay || isWeekDay;
+    }
+    return isDay && isWeekDay;
+}
+
+/**
+ * Возвращает ближайшую дату срабатывания cron-выражения после указанной даты.
+ * Расчет ведется в локальном часовом поясе сервера.
+ *
+ * @param expression Cron-выражение или результат {@link parseCron}
+ * @param from Дата, после которой ищется срабатывание
+ * @returns Дата срабатывания или null, если выражение некорректно или никогда не срабатывает
+ *
+ * @example
+ * ```ts
+ * const next = getNextCronDate('0 9 * * *', new Date(2026, 0, 1, 10, 0));
+ * // 2 января 2026, 9:00
+ * ```
+ */
+export function getNextCronDate(
+    expression: string | ICronExpression,
+    from: Date = new Date(),
+): Date | null {
+    const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+    if (!cron) {
+        return null;
+    }
+    const date = new Date(from.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (!cron.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0);
+        } else if (!isCronDay(cron, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0);
+        } else if (!cron.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0);
+        } else if (!cron.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1);
+        } else {
+            return date;
+        }
+    }
+    return null;
+}
@@ -160,6 +160,8 @@ describe('Bot', () => {
                     user: '',
                 },
                 tokens: {},
+                storageScope: 'user',
+                groupChatMode: 'all',
             });
         });
     });
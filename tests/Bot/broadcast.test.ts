@@ -0,0 +1,287 @@
+import {
+    AppContext,
+    BaseBotController,
+    Bot,
+    BotController,
+    IUserData,
+    OutboundQueue,
+    UsersData,
+} from '../../src';
+import {
+    AlisaAdapter,
+    FileAdapter,
+    T_ALISA,
+    T_TELEGRAM,
+    T_VK,
+    TelegramAdapter,
+    TFileData,
+} from '../../src/plugins';
+
+describe('Broadcast', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let send: jest.SpyInstance;
+    let tables: Record<string, TFileData>;
+    let logError: jest.Mock;
+
+    function addUser(userId: string, platform: string, data: IUserData = {}): void {
+        tables.UsersData[userId] = { userId, meta: '', data: JSON.stringify(data), platform };
+    }
+
+    beforeEach(() => {
+        bot = new Bot();
+        logError = jest.fn();
+        bot.setLogger({ error: logError, warn: () => {} });
+        bot.use(new TelegramAdapter('123:token'));
+        bot.use(new AlisaAdapter());
+        appContext = bot.getAppContext();
+        appContext.saveFileData = jest.fn();
+        tables = { UsersData: {}, Broadcasts: {}, BroadcastDeliveries: {} };
+        const fileAdapter = new FileAdapter();
+        fileAdapter.getFileData = (tableName: string): TFileData => (tables[tableName] ??= {});
+        bot.use(fileAdapter);
+        send = jest.spyOn(bot, 'send').mockResolvedValue(true);
+
+        addUser('user1', T_TELEGRAM, { subscribed: true });
+        addUser('user2', T_TELEGRAM, { subscribed: false });
+        addUser('user3', T_TELEGRAM, { subscribed: true });
+        addUser('user4', T_VK, { subscribed: true });
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should send message to all users of platform', async () => {
+        const result = await bot.broadcast({
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            pageSize: 2,
+            limit: 0,
+        });
+
+        expect(result).toEqual({ id: 'news', total: 3, sent: 3, failed: 0, skipped: 0 });
+        expect(send.mock.calls.map((call) => call[0])).toEqual(['user1', 'user2', 'user3']);
+        expect(send).toHaveBeenCalledWith('user1', 'Новости', T_TELEGRAM);
+        expect(tables.BroadcastDeliveries['news:user2']).toEqual(
+            expect.objectContaining({ broadcastId: 'news', userId: 'user2', status: 'sent' }),
+        );
+        expect(tables.Broadcasts.news).toEqual(
+            expect.objectContaining({ status: 'done', cursor: 'user3', sent: 3 }),
+        );
+    });
+
+    it('should filter users and build personal message', async () => {
+        const result = await bot.broadcast({
+            platform: T_TELEGRAM,
+            filter: (user) => (user.data as IUserData).subscribed === true,
+            message: (user) => ({ text: `Привет, ${user.userId}`, buttons: ['Отписаться'] }),
+            limit: 0,
+        });
+
+        expect(result).toEqual(expect.objectContaining({ total: 2, sent: 2 }));
+        const controller = send.mock.calls[1][1] as BotController;
+        expect(controller.text).toBe('Привет, user3');
+        expect(controller.buttons.buttons[0].title).toBe('Отписаться');
+    });
+
+    it('should count recipients in dry run', async () => {
+        const result = await bot.broadcast({
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            filter: (user) => (user.data as IUserData).subscribed === true,
+            dryRun: true,
+        });
+
+        expect(result).toEqual(expect.objectContaining({ total: 2, sent: 0 }));
+        expect(send).not.toHaveBeenCalled();
+        expect(tables.Broadcasts).toEqual({});
+        expect(tables.BroadcastDeliveries).toEqual({});
+    });
+
+    it('should record failed deliveries', async () => {
+        send.mockResolvedValueOnce(false).mockRejectedValueOnce(new Error('blocked'));
+
+        const result = await bot.broadcast({
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            limit: 0,
+        });
+
+        expect(result).toEqual({ id: 'news', total: 3, sent: 1, failed: 2, skipped: 0 });
+        expect(tables.BroadcastDeliveries['news:user1'].status).toBe('failed');
+        expect(tables.BroadcastDeliveries['news:user2']).toEqual(
+            expect.objectContaining({ status: 'failed', error: 'blocked' }),
+        );
+    });
+
+    it('should resume interrupted broadcast', async () => {
+        tables.Broadcasts.news = {
+            broadcastId: 'news',
+            platform: T_TELEGRAM,
+            status: 'running',
+            cursor: 'user1',
+            total: 1,
+            sent: 1,
+            failed: 0,
+            skipped: 0,
+        };
+        tables.BroadcastDeliveries['news:user1'] = { deliveryId: 'news:user1', status: 'sent' };
+        tables.BroadcastDeliveries['news:user2'] = { deliveryId: 'news:user2', status: 'sent' };
+
+        const result = await bot.broadcast({
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            limit: 0,
+        });
+
+        expect(result).toEqual({ id: 'news', total: 3, sent: 2, failed: 0, skipped: 1 });
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith('user3', 'Новости', T_TELEGRAM);
+
+        send.mockClear();
+        expect(
+            await bot.broadcast({ id: 'news', platform: T_TELEGRAM, message: 'Новости' }),
+        ).toEqual(result);
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should keep broadcast running when users page fails', async () => {
+        const wherePage = jest
+            .spyOn(UsersData.prototype, 'wherePage')
+            .mockResolvedValueOnce({ status: true, data: [tables.UsersData.user1] })
+            .mockResolvedValueOnce({ status: false, error: 'connection lost' });
+
+        expect(
+            await bot.broadcast({
+                id: 'news',
+                platform: T_TELEGRAM,
+                message: 'Новости',
+                pageSize: 1,
+                limit: 0,
+            }),
+        ).toBeNull();
+        expect(logError.mock.calls[0][0]).toContain('connection lost');
+        expect(tables.Broadcasts.news).toEqual(
+            expect.objectContaining({ status: 'running', cursor: 'user1', sent: 1 }),
+        );
+
+        const result = await bot.broadcast({
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            pageSize: 1,
+            limit: 0,
+        });
+        wherePage.mockRestore();
+
+        expect(result).toEqual({ id: 'news', total: 3, sent: 3, failed: 0, skipped: 0 });
+        expect(send.mock.calls.map((call) => call[0])).toEqual(['user1', 'user2', 'user3']);
+        expect(tables.Broadcasts.news).toEqual(expect.objectContaining({ status: 'done' }));
+    });
+
+    it('should record failed delivery when platform api rejects message', async () => {
+        send.mockRestore();
+        const httpClient = jest.fn().mockResolvedValue({
+            ok: false,
+            status: 403,
+            headers: new Headers(),
+            json: async () => ({ ok: false, error_code: 403, description: 'Forbidden' }),
+        });
+        appContext.httpClient = httpClient;
+
+        const result = await bot.broadcast({
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            filter: (user) => user.userId === 'user1',
+            limit: 0,
+        });
+
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ id: 'news', total: 1, sent: 0, failed: 1, skipped: 0 });
+        expect(tables.BroadcastDeliveries['news:user1'].status).toBe('failed');
+    });
+
+    it('should not resend delivery queued for retry', async () => {
+        send.mockRestore();
+        bot.setOutboundQueue(new OutboundQueue({ baseDelay: 1000 }));
+        const httpClient = jest.fn().mockResolvedValue({
+            ok: false,
+            status: 502,
+            headers: new Headers(),
+            json: async () => ({ ok: false, error_code: 502, description: 'Bad Gateway' }),
+        });
+        appContext.httpClient = httpClient;
+        const options = {
+            id: 'news',
+            platform: T_TELEGRAM,
+            message: 'Новости',
+            filter: (user: { userId: string | number }): boolean => user.userId === 'user1',
+            limit: 0,
+        };
+
+        const result = await bot.broadcast(options);
+
+        expect(result).toEqual({ id: 'news', total: 1, sent: 1, failed: 0, skipped: 0 });
+        expect(tables.BroadcastDeliveries['news:user1'].status).toBe('queued');
+
+        tables.Broadcasts = {};
+        const resumed = await bot.broadcast(options);
+
+        expect(resumed).toEqual({ id: 'news', total: 1, sent: 0, failed: 0, skipped: 1 });
+        expect(httpClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send shared controller to each recipient', async () => {
+        send.mockRestore();
+        const httpClient = jest.fn().mockResolvedValue({
+            ok: true,
+            status: 200,
+            headers: new Headers(),
+            json: async () => ({ ok: true, result: { message_id: 1 } }),
+        });
+        appContext.httpClient = httpClient;
+        const controller = new BaseBotController(appContext);
+        controller.text = 'Новости';
+
+        const result = await bot.broadcast({
+            platform: T_TELEGRAM,
+            message: controller,
+            limit: 0,
+        });
+
+        expect(result).toEqual(expect.objectContaining({ total: 3, sent: 3 }));
+        expect(httpClient.mock.calls.map((call) => JSON.parse(call[1].body).chat_id)).toEqual([
+            'user1',
+            'user2',
+            'user3',
+        ]);
+    });
+
+    it('should throttle to platform limit', async () => {
+        jest.useFakeTimers();
+        const promise = bot.broadcast({ platform: T_TELEGRAM, message: 'Новости', limit: 2 });
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(send).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(500);
+        expect(send).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(500);
+        expect(send).toHaveBeenCalledTimes(3);
+        expect(await promise).toEqual(expect.objectContaining({ sent: 3 }));
+        jest.useRealTimers();
+    });
+
+    it('should reject voice platform and missing database', async () => {
+        expect(await bot.broadcast({ platform: T_ALISA, message: 'Новости' })).toBeNull();
+
+        appContext.database.adapter = undefined;
+        expect(await bot.broadcast({ platform: T_TELEGRAM, message: 'Новости' })).toBeNull();
+        expect(logError).toHaveBeenCalledTimes(2);
+        expect(send).not.toHaveBeenCalled();
+    });
+});
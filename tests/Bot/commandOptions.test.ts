@@ -0,0 +1,145 @@
+import { Bot, BotController } from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA, T_TELEGRAM } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text ||= 'не понял';
+    }
+}
+
+function getContent(query: string, isScreen: boolean = true, state: object = {}): object {
+    return {
+        meta: {
+            locale: 'ru-Ru',
+            timezone: 'UTC',
+            client_id: 'local',
+            interfaces: isScreen ? { screen: {} } : {},
+        },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        state: {
+            session: state,
+        },
+        version: '1.0',
+    };
+}
+
+describe('Command options', () => {
+    let bot: Bot;
+
+    async function send(query: string, isScreen: boolean = true): Promise<string | undefined> {
+        const res = (await bot.run(T_ALISA, getContent(query, isScreen))) as IAlisaWebhookResponse;
+        return res.response?.text;
+    }
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should keep boolean isPattern argument', async () => {
+        bot.addCommand('number', ['\\d+'], () => 'number', true);
+
+        expect(await send('осталось 5 минут')).toBe('number');
+        expect(bot.getAppContext().commands.get('number')?.isPattern).toBe(true);
+    });
+
+    it('should check commands by priority', async () => {
+        bot.addCommand('exact', ['погода'], () => 'exact');
+        bot.addCommand('low', ['погода'], () => 'low', { priority: 1 });
+        bot.addCommand('high', ['погод'], () => 'high', { priority: 5 });
+
+        expect(await send('погода')).toBe('high');
+        bot.removeCommand('high');
+        expect(await send('погода')).toBe('low');
+        bot.removeCommand('low');
+        expect(await send('погода')).toBe('exact');
+    });
+
+    it('should check negative priority after other commands', async () => {
+        bot.addCommand('any', ['.+'], () => 'any', { isPattern: true, priority: -1 });
+        bot.addCommand('help', ['помощь'], () => 'help');
+
+        expect(await send('помощь')).toBe('help');
+        expect(await send('что-то другое')).toBe('any');
+    });
+
+    it('should keep registration order for equal priority', async () => {
+        bot.addCommand('first', ['кот'], () => 'first', { priority: 2 });
+        bot.addCommand('second', ['кот'], () => 'second', { priority: 2 });
+
+        expect(await send('кот')).toBe('first');
+    });
+
+    it('should filter commands by platform', async () => {
+        bot.addCommand('telegram', ['оплата'], () => 'telegram', { platforms: [T_TELEGRAM] });
+        bot.addCommand('alisa', ['оплата'], () => 'alisa', { platforms: [T_ALISA] });
+
+        expect(await send('оплата')).toBe('alisa');
+    });
+
+    it('should filter commands by condition', async () => {
+        bot.addCommand('screen', ['картинка'], () => 'screen', {
+            when: (ctx) => ctx.isScreen,
+        });
+        bot.addCommand('voice', ['картинка'], () => 'voice');
+
+        expect(await send('покажи картинка', true)).toBe('screen');
+        expect(await send('картинка', false)).toBe('voice');
+    });
+
+    it('should filter commands by step', async () => {
+        bot.setAppConfig({ isLocalStorage: true });
+        bot.addCommand('confirm', ['да'], () => 'confirmed', { steps: ['order'] });
+
+        let res = (await bot.run(T_ALISA, getContent('да'))) as IAlisaWebhookResponse;
+        expect(res.response?.text).toBe('не понял');
+        res = (await bot.run(
+            T_ALISA,
+            getContent('да', true, { oldIntentName: 'order' }),
+        )) as IAlisaWebhookResponse;
+        expect(res.response?.text).toBe('confirmed');
+    });
+
+    it('should not group guarded pattern commands', async () => {
+        bot.setCommandGroupMode('group');
+        bot.addCommand('first', ['купить \\d+'], () => 'first', {
+            isPattern: true,
+            when: () => false,
+        });
+        bot.addCommand('second', ['купить \\d+ (яблок|груш)'], () => 'second', true);
+        bot.addCommand('third', ['продать \\d+'], () => 'third', true);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(bot.getAppContext().commands.get('first')?.__$groupName).toBe('first');
+        expect(bot.getAppContext().commands.get('third')?.__$groupName).toBe('second');
+        expect(await send('купить 5 яблок')).toBe('second');
+        expect(await send('продать 3')).toBe('third');
+    });
+
+    it('should respect guards in fuzzy match', async () => {
+        bot.setFuzzyMatch();
+        bot.addCommand('telegram', ['помощь'], () => 'telegram', { platforms: [T_TELEGRAM] });
+        bot.addCommand('alisa', ['погода'], () => 'alisa');
+
+        expect(await send('памощь')).toBe('не понял');
+        expect(await send('пагода')).toBe('alisa');
+    });
+});
@@ -0,0 +1,139 @@
+import { Bot, BotController, TCommandParams } from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text ||= 'не понял';
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+describe('Command params', () => {
+    let bot: Bot;
+    let params: TCommandParams | null;
+
+    async function send(query: string): Promise<string | undefined> {
+        const res = (await bot.run(T_ALISA, getContent(query))) as IAlisaWebhookResponse;
+        return res.response?.text;
+    }
+
+    beforeEach(() => {
+        params = null;
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should extract typed params from template', async () => {
+        bot.addCommand('transfer', ['перевести {amount:number} в {currency:word}'], (_cmd, ctx) => {
+            params = ctx.params;
+            return 'ok';
+        });
+
+        expect(await send('перевести 12,5 в рубли')).toBe('ok');
+        expect(params).toEqual({ amount: 12.5, currency: 'рубли' });
+        expect(await send('перевести много в рубли')).toBe('не понял');
+    });
+
+    it('should escape text of non-pattern template', async () => {
+        bot.addCommand('timer', ['таймер (мин) {minutes:int}'], (_cmd, ctx) => {
+            params = ctx.params;
+        });
+
+        await send('поставь таймер (мин) 15');
+        expect(params).toEqual({ minutes: 15 });
+    });
+
+    it('should extract params from template with pattern', async () => {
+        bot.addCommand(
+            'weather',
+            ['(погода|прогноз) в {city}'],
+            (_cmd, ctx) => {
+                params = ctx.params;
+            },
+            true,
+        );
+
+        await send('погода в Москве');
+        expect(params).toEqual({ city: 'Москве' });
+    });
+
+    it('should extract params from named groups', async () => {
+        bot.addCommand(
+            'order',
+            [/заказ (?<id>\d+)/i, /номер (?<id>\d+)/i],
+            (_cmd, ctx) => {
+                params = ctx.params;
+            },
+            true,
+        );
+
+        await send('покажи номер 42');
+        expect(params).toEqual({ id: '42' });
+    });
+
+    it('should reset params between commands', async () => {
+        bot.addCommand('sum', ['сумма {value:int}'], (_cmd, ctx) => {
+            params = ctx.params;
+        });
+        bot.addCommand('hello', ['привет'], (_cmd, ctx) => {
+            params = ctx.params;
+        });
+
+        await send('сумма 10');
+        expect(params).toEqual({ value: 10 });
+        await send('привет');
+        expect(params).toEqual({});
+    });
+
+    it('should extract params in grouped regex mode', async () => {
+        bot.setCommandGroupMode('group');
+        bot.addCommand(
+            'first',
+            ['купить {count:int} (яблок|груш)'],
+            (_cmd, ctx) => {
+                params = { ...ctx.params, command: 'first' };
+            },
+            true,
+        );
+        bot.addCommand(
+            'second',
+            ['продать {count:int} {item:word}'],
+            (_cmd, ctx) => {
+                params = { ...ctx.params, command: 'second' };
+            },
+            true,
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(bot.getAppContext().commands.get('second')?.__$groupName).toBe('first');
+        await send('продать 3 груши');
+        expect(params).toEqual({ count: 3, item: 'груши', command: 'second' });
+        await send('купить 5 яблок');
+        expect(params).toEqual({ count: 5, command: 'first' });
+    });
+});
@@ -0,0 +1,222 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import {
+    Bot,
+    BotController,
+    BotError,
+    CommandHandlerError,
+    EmptyRequestError,
+    IErrorContext,
+    InvalidJsonError,
+    InvalidSignatureError,
+    MethodNotAllowedError,
+    MiddlewareError,
+    PayloadTooLargeError,
+    PlatformNotDetectedError,
+} from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(_intentName: string | null, isCommand?: boolean): void {
+        if (!isCommand) {
+            this.text = 'test';
+        }
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getRequest(
+    body: string,
+    method: string = 'POST',
+    headers: Record<string, string> = {},
+): IncomingMessage {
+    const req = Readable.from([Buffer.from(body)]) as unknown as IncomingMessage;
+    req.method = method;
+    req.headers = headers;
+    return req;
+}
+
+function getResponse(): ServerResponse & { body?: string } {
+    const res = {
+        statusCode: 0,
+        setHeader: jest.fn(),
+        end: jest.fn((body: string) => {
+            res.body = body;
+        }),
+    } as unknown as ServerResponse & { body?: string };
+    return res;
+}
+
+describe('Bot errors', () => {
+    let bot: Bot;
+    let onError: jest.Mock;
+    let logError: jest.Mock;
+
+    beforeEach(() => {
+        bot = new Bot();
+        logError = jest.fn();
+        bot.setLogger({ error: logError, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+        onError = jest.fn();
+        bot.onError(onError);
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should throw typed errors from run', async () => {
+        await expect(bot.run(T_ALISA, '')).rejects.toBeInstanceOf(EmptyRequestError);
+        await expect(bot.run(null, { unknown: true })).rejects.toBeInstanceOf(
+            PlatformNotDetectedError,
+        );
+        await expect(bot.run(null, { unknown: true })).rejects.toBeInstanceOf(BotError);
+    });
+
+    it('should map webhook errors to response', async () => {
+        const cases: [IncomingMessage, typeof BotError, number, string][] = [
+            [getRequest('', 'GET'), MethodNotAllowedError, 405, 'Method Not Allowed'],
+            [getRequest(''), InvalidJsonError, 400, 'Invalid JSON'],
+            [getRequest('null'), EmptyRequestError, 400, 'Empty request'],
+            [
+                getRequest('', 'POST', { 'content-length': String(1024 * 1024 * 3) }),
+                PayloadTooLargeError,
+                413,
+                'Request entity too large',
+            ],
+            [getRequest('{invalid'), InvalidJsonError, 400, 'Invalid JSON'],
+            [getRequest('{"unknown":true}'), PlatformNotDetectedError, 400, 'Bad Request'],
+        ];
+        for (const [req, errorClass, statusCode, body] of cases) {
+            const res = getResponse();
+            onError.mockClear();
+
+            await bot.webhookHandle(req, res);
+
+            expect(res.statusCode).toBe(statusCode);
+            expect(res.body).toBe(body);
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(onError.mock.calls[0][0]).toBeInstanceOf(errorClass);
+        }
+    });
+
+    it('should pass invalid signature error with platform', async () => {
+        jest.spyOn(AlisaAdapter.prototype, 'isCorrectQuery').mockReturnValue(false);
+        const res = getResponse();
+
+        await bot.webhookHandle(getRequest(JSON.stringify(getContent('привет'))), res);
+
+        expect(res.statusCode).toBe(401);
+        const [error, ctx] = onError.mock.calls[0] as [InvalidSignatureError, IErrorContext];
+        expect(error).toBeInstanceOf(InvalidSignatureError);
+        expect(error.platform).toBe(T_ALISA);
+        expect(ctx.appType).toBe(T_ALISA);
+        jest.restoreAllMocks();
+    });
+
+    it('should allow handler to change response', async () => {
+        bot.onError((error, ctx) => {
+            if (error instanceof PlatformNotDetectedError && ctx.response) {
+                ctx.response.statusCode = 404;
+                ctx.response.body = { error: 'unknown platform' };
+            }
+        });
+        const res = getResponse();
+
+        await bot.webhookHandle(getRequest('{"unknown":true}'), res);
+
+        expect(res.statusCode).toBe(404);
+        expect(res.body).toBe('{"error":"unknown platform"}');
+    });
+
+    it('should pass command error and allow to change answer', async () => {
+        const cause = new Error('db is down');
+        bot.addCommand('fail', ['сломай'], () => {
+            throw cause;
+        });
+        bot.addCommand('asyncFail', ['асинхронно'], async () => {
+            throw cause;
+        });
+        bot.onError((error, ctx) => {
+            if (error instanceof CommandHandlerError && ctx.controller) {
+                ctx.controller.text = `Извините, команда ${error.commandName} не выполнена`;
+            }
+        });
+
+        let res = (await bot.run(T_ALISA, getContent('сломай'))) as IAlisaWebhookResponse;
+        expect(res.response?.text).toBe('Извините, команда fail не выполнена');
+        const [error, ctx] = onError.mock.calls[0] as [CommandHandlerError, IErrorContext];
+        expect(error).toBeInstanceOf(CommandHandlerError);
+        expect(error.cause).toBe(cause);
+        expect(ctx.controller).toBeInstanceOf(BotController);
+        expect(ctx.appType).toBe(T_ALISA);
+        expect(ctx.response).toBeNull();
+
+        res = (await bot.run(T_ALISA, getContent('асинхронно'))) as IAlisaWebhookResponse;
+        expect(res.response?.text).toBe('Извините, команда asyncFail не выполнена');
+    });
+
+    it('should keep default answer without handlers', async () => {
+        const app = new Bot();
+        app.setLogger({ error: () => {}, warn: () => {} });
+        app.initBotController(TestBotController);
+        app.use(new AlisaAdapter());
+        app.addCommand('fail', ['сломай'], () => {
+            throw new Error('error');
+        });
+
+        const res = (await app.run(T_ALISA, getContent('сломай'))) as IAlisaWebhookResponse;
+
+        expect(res.response?.text).toBe('Не удалось выполнить команду. Попробуйте ещё раз.');
+        await app.close();
+    });
+
+    it('should pass middleware errors', async () => {
+        bot.use(() => {
+            throw new Error('middleware');
+        });
+
+        await bot.run(T_ALISA, getContent('привет'));
+
+        expect(onError.mock.calls[0][0]).toBeInstanceOf(MiddlewareError);
+        expect(onError.mock.calls[0][1].controller).toBeInstanceOf(BotController);
+    });
+
+    it('should log errors of error handler', async () => {
+        onError.mockImplementation(() => {
+            throw new Error('handler failed');
+        });
+        const second = jest.fn();
+        bot.onError(second);
+        const res = getResponse();
+
+        await bot.webhookHandle(getRequest('{invalid'), res);
+
+        expect(res.statusCode).toBe(400);
+        expect(second).toHaveBeenCalledTimes(1);
+        expect(logError).toHaveBeenCalledWith(
+            expect.stringContaining('handler failed'),
+            expect.anything(),
+        );
+    });
+});
@@ -0,0 +1,255 @@
+import { AppContext, BaseBotController, Bot, BotController, EBotEvent } from '../../src';
+import {
+    IMaxRequestContent,
+    IViberContent,
+    MaxAdapter,
+    T_TELEGRAM,
+    T_VK,
+    TelegramAdapter,
+    ViberAdapter,
+    VkAdapter,
+} from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(intentName: string | null): void {
+        this.text = `action: ${intentName}`;
+    }
+}
+
+function jsonResponse(data: object): Response {
+    return {
+        ok: true,
+        status: 200,
+        json: async () => data,
+    } as Response;
+}
+
+function getChatMemberUpdate(status: string, chat: object = { id: 7, type: 'private' }): object {
+    return {
+        update_id: 1,
+        my_chat_member: {
+            chat,
+            from: { id: 7, is_bot: false, first_name: 'Иван' },
+            date: 1,
+            old_chat_member: { status: 'left', user: { id: 1, is_bot: true } },
+            new_chat_member: { status, user: { id: 1, is_bot: true } },
+        },
+    };
+}
+
+describe('Bot events', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new TelegramAdapter('123:token'));
+        bot.use(new VkAdapter('vk-token'));
+        appContext = bot.getAppContext();
+        httpClient = jest.fn(async () =>
+            jsonResponse({
+                ok: true,
+                result: { message_id: 1 },
+                response: [{ first_name: 'Иван' }],
+            }),
+        );
+        appContext.httpClient = httpClient;
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    function getSentMessages(): Record<string, unknown>[] {
+        return httpClient.mock.calls
+            .filter(([url]) => String(url).endsWith('sendMessage'))
+            .map(([, init]) => JSON.parse(init.body));
+    }
+
+    it('should call handler and send answer', async () => {
+        const handler = jest.fn((ctx: BotController) => {
+            ctx.text = 'Спасибо за подписку!';
+        });
+        bot.on(EBotEvent.SUBSCRIBE, handler);
+
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('member'));
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0].event).toBe(EBotEvent.SUBSCRIBE);
+        expect(getSentMessages()).toEqual([
+            expect.objectContaining({ chat_id: 7, text: 'Спасибо за подписку!' }),
+        ]);
+    });
+
+    it('should not send answer if text is empty', async () => {
+        const handler = jest.fn(async () => {});
+        bot.on(EBotEvent.UNSUBSCRIBE, handler);
+
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('kicked'));
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(getSentMessages()).toEqual([]);
+    });
+
+    it('should map group membership to join and leave', async () => {
+        const events: (EBotEvent | null)[] = [];
+        bot.on(EBotEvent.JOIN, (ctx) => {
+            events.push(ctx.event);
+        });
+        bot.on(EBotEvent.LEAVE, (ctx) => {
+            events.push(ctx.event);
+        });
+        const chat = { id: -100, type: 'supergroup' };
+
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('administrator', chat));
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('left', chat));
+
+        expect(events).toEqual([EBotEvent.JOIN, EBotEvent.LEAVE]);
+    });
+
+    it('should ignore event without handler', async () => {
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('member'));
+
+        expect(getSentMessages()).toEqual([]);
+    });
+
+    it('should process edited message as message without handler', async () => {
+        await bot.run(T_TELEGRAM, {
+            update_id: 2,
+            edited_message: {
+                message_id: 20,
+                from: { id: 7, is_bot: false },
+                chat: { id: 7, type: 'private' },
+                text: 'Привет',
+            },
+        });
+
+        expect(getSentMessages()).toHaveLength(1);
+    });
+
+    it('should remove handler with off', async () => {
+        const handler = jest.fn();
+        const otherHandler = jest.fn();
+        bot.on(EBotEvent.SUBSCRIBE, handler).on(EBotEvent.SUBSCRIBE, otherHandler);
+        bot.off(EBotEvent.SUBSCRIBE, handler);
+
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('member'));
+        expect(handler).not.toHaveBeenCalled();
+        expect(otherHandler).toHaveBeenCalledTimes(1);
+
+        bot.off(EBotEvent.SUBSCRIBE);
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('member'));
+        expect(otherHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log handler error', async () => {
+        const logError = jest.spyOn(appContext, 'logError').mockImplementation(() => {});
+        bot.on(EBotEvent.SUBSCRIBE, () => {
+            throw new Error('fail');
+        });
+
+        await bot.run(T_TELEGRAM, getChatMemberUpdate('member'));
+
+        expect(logError).toHaveBeenCalledWith(
+            expect.stringContaining('"subscribe"'),
+            expect.anything(),
+        );
+        expect(getSentMessages()).toEqual([]);
+    });
+
+    it('should handle VK group join', async () => {
+        const handler = jest.fn((ctx: BotController) => {
+            ctx.text = 'Добро пожаловать!';
+        });
+        bot.on(EBotEvent.JOIN, handler);
+
+        await bot.run(T_VK, {
+            type: 'group_join',
+            group_id: 55,
+            object: { user_id: 7, join_type: 'join' },
+        });
+
+        expect(handler.mock.calls[0][0].userId).toBe(7);
+        const call = httpClient.mock.calls.find(([url]) => String(url).includes('messages.send'));
+        expect(String(call?.[1].body)).toContain('peer_id=7');
+    });
+});
+
+describe('Adapter events', () => {
+    let appContext: AppContext;
+    let controller: BaseBotController;
+
+    beforeEach(() => {
+        appContext = new AppContext();
+        controller = new BaseBotController(appContext);
+    });
+
+    it('should map Viber events', async () => {
+        const adapter = new ViberAdapter('viber-token');
+        adapter.init(appContext);
+
+        await adapter.setQueryData(
+            {
+                event: 'subscribed',
+                timestamp: 1,
+                message_token: 1,
+                user: { id: 'user', name: 'Иван' },
+            } as unknown as IViberContent,
+            controller,
+        );
+        expect(controller.event).toBe(EBotEvent.SUBSCRIBE);
+        expect(controller.userId).toBe('user');
+
+        await adapter.setQueryData(
+            {
+                event: 'unsubscribed',
+                timestamp: 1,
+                message_token: 2,
+                user_id: 'user',
+            } as unknown as IViberContent,
+            controller,
+        );
+        expect(controller.event).toBe(EBotEvent.UNSUBSCRIBE);
+
+        controller.clearStoreData();
+        await adapter.setQueryData(
+            {
+                event: 'conversation_started',
+                timestamp: 1,
+                message_token: 3,
+                user: { id: 'user', name: 'Иван' },
+            } as unknown as IViberContent,
+            controller,
+        );
+        expect(controller.event).toBe(EBotEvent.START);
+        expect(controller.userCommand).toBe('');
+    });
+
+    it('should map MAX events', async () => {
+        const adapter = new MaxAdapter('max-token');
+        adapter.init(appContext);
+        const query = {
+            update_type: 'bot_started',
+            chat_id: 100,
+            user: { user_id: 7, name: 'Иван' },
+            payload: '{"ref":"promo"}',
+        } as unknown as IMaxRequestContent;
+
+        expect(adapter.isPlatformOnQuery(query)).toBe(true);
+        await adapter.setQueryData(query, controller);
+
+        expect(controller.event).toBe(EBotEvent.START);
+        expect(controller.userId).toBe(7);
+        expect(controller.chatId).toBe(100);
+        expect(controller.payload).toEqual({ ref: 'promo' });
+
+        await adapter.setQueryData(
+            { update_type: 'user_removed', chat_id: 100, user: { user_id: 8 } } as never,
+            controller,
+        );
+        expect(controller.event).toBe(EBotEvent.LEAVE);
+    });
+});
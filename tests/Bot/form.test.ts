@@ -0,0 +1,161 @@
+import {
+    AppContext,
+    BaseBotController,
+    Bot,
+    DEFAULT_FORM_ERROR,
+    Form,
+    IUserData,
+    INluDateTime,
+} from '../../src';
+
+interface IOrder {
+    count: number;
+    size: string;
+    email: string;
+    date: INluDateTime;
+}
+
+describe('Forms', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let userData: IUserData;
+    let onComplete: jest.Mock;
+
+    beforeEach(() => {
+        bot = new Bot();
+        appContext = bot.getAppContext();
+        userData = {};
+        onComplete = jest.fn((result: IOrder, ctx: BaseBotController) => {
+            ctx.text = `Заказ: ${result.count} шт.`;
+        });
+        bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('order'));
+    });
+
+    /**
+     * Имитирует обработку запроса приложением: восстанавливает userData и активный шаг, а после обработки сохраняет их
+     */
+    async function send(command: string, originalCommand = command): Promise<BaseBotController> {
+        const controller = new BaseBotController(appContext);
+        controller.userData = userData;
+        controller.oldIntentName = userData.oldIntentName || null;
+        controller.userCommand = command.toLowerCase();
+        controller.originalUserCommand = originalCommand;
+        controller.messageId = 1;
+        await controller.run();
+        userData.oldIntentName = controller.thisIntentName;
+        return controller;
+    }
+
+    function addOrderForm(): void {
+        bot.addForm<IOrder>(
+            'order',
+            {
+                count: {
+                    prompt: 'Сколько штук?',
+                    type: 'number',
+                    validate: (value) => (value > 0 ? true : 'Количество должно быть больше нуля'),
+                },
+                size: { prompt: 'Какой размер?', type: 'choice', choices: ['S', 'M', 'L'] },
+                email: { prompt: 'Ваш email?', type: 'email', error: 'Не похоже на email' },
+                date: { prompt: 'Дата доставки?', type: 'date' },
+            },
+            onComplete,
+        );
+    }
+
+    it('should fill fields and call onComplete', async () => {
+        addOrderForm();
+
+        expect((await send('заказ')).text).toBe('Сколько штук?');
+        expect((await send('3 штуки')).text).toBe('Какой размер?');
+        expect((await send('m')).text).toBe('Ваш email?');
+        expect((await send('mail@test.ru', 'Mail@test.ru')).text).toBe('Дата доставки?');
+        expect((await send('15.06.2026')).text).toBe('Заказ: 3 шт.');
+
+        expect(onComplete).toHaveBeenCalledWith(
+            { count: 3, size: 'M', email: 'Mail@test.ru', date: { day: 15, month: 6, year: 2026 } },
+            expect.any(BaseBotController),
+        );
+        expect(userData.sceneStack).toBeNull();
+        expect(userData.oldIntentName).toBeNull();
+    });
+
+    it('should re-prompt on invalid value', async () => {
+        addOrderForm();
+        await send('заказ');
+
+        expect((await send('много')).text).toBe(`${DEFAULT_FORM_ERROR}\nСколько штук?`);
+        expect((await send('0')).text).toBe('Количество должно быть больше нуля');
+        await send('2');
+        expect(userData.sceneStack?.[0].data).toEqual({ count: 2 });
+
+        const controller = await send('xxl');
+        expect(controller.text).toBe(`${DEFAULT_FORM_ERROR}\nКакой размер?`);
+        expect(controller.buttons.buttons.map((button) => button.title)).toEqual(['S', 'M', 'L']);
+
+        await send('l');
+        expect((await send('нет почты')).text).toBe('Не похоже на email');
+    });
+
+    it('should use custom extractor and nlu', async () => {
+        const form = new Form<{ name: string; city: string }>(
+            'order',
+            {
+                name: {
+                    prompt: 'Как вас зовут?',
+                    extract: (ctx): string | undefined => ctx.nlu.getFio().result?.[0]?.first_name,
+                },
+                city: { prompt: 'Ваш город?' },
+            },
+            (result, ctx) => {
+                ctx.text = `${result.name} из города ${result.city}`;
+            },
+        ).onCancel(['отмена'], (ctx) => {
+            ctx.text = 'Отменено';
+        });
+        bot.addScene(form);
+
+        expect((await send('заказ')).text).toBe('Как вас зовут?');
+
+        const controller = new BaseBotController(appContext);
+        controller.userData = userData;
+        controller.oldIntentName = userData.oldIntentName || null;
+        controller.userCommand = 'иван';
+        controller.messageId = 1;
+        controller.nlu.setNlu({
+            entities: [
+                {
+                    type: 'YANDEX.FIO',
+                    tokens: { start: 0, end: 1 },
+                    value: { first_name: 'Иван' },
+                },
+            ],
+        });
+        await controller.run();
+        userData.oldIntentName = controller.thisIntentName;
+        expect(controller.text).toBe('Ваш город?');
+
+        expect((await send('Москва')).text).toBe('Иван из города Москва');
+    });
+
+    it('should support cancel and prepend enter text', async () => {
+        bot.addScene(
+            new Form<{ count: number }>(
+                'order',
+                { count: { prompt: 'Сколько штук?', type: 'number' } },
+                onComplete,
+            )
+                .onEnter((ctx) => {
+                    ctx.text = 'Оформление заказа.';
+                })
+                .onCancel(['отмена'], (ctx) => {
+                    ctx.text = 'Отменено';
+                }),
+        );
+
+        expect((await send('заказ')).text).toBe('Оформление заказа.\nСколько штук?');
+        expect((await send('отмена')).text).toBe('Отменено');
+        expect(onComplete).not.toHaveBeenCalled();
+        expect(userData.sceneStack).toBeNull();
+    });
+});
@@ -0,0 +1,124 @@
+import { Bot, BotController, fuzzyScore, IFuzzyMatch } from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text ||= 'не понял';
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+describe('Fuzzy command matching', () => {
+    let bot: Bot;
+    let match: IFuzzyMatch | null;
+
+    async function send(query: string): Promise<string | undefined> {
+        const res = (await bot.run(T_ALISA, getContent(query))) as IAlisaWebhookResponse;
+        return res.response?.text;
+    }
+
+    beforeEach(() => {
+        match = null;
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+        bot.addCommand('help', ['помощь', 'что ты умеешь'], (_cmd, ctx) => {
+            match = ctx.fuzzyMatch;
+            return 'помощь';
+        });
+        bot.addCommand('weather', ['погода'], (_cmd, ctx) => {
+            match = ctx.fuzzyMatch;
+            return 'погода';
+        });
+        bot.addCommand('*', [], (_cmd, ctx) => {
+            match = ctx.fuzzyMatch;
+            return 'fallback';
+        });
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should be disabled by default', async () => {
+        expect(await send('памощь')).toBe('fallback');
+        expect(match).toBeNull();
+    });
+
+    it('should find command with typo', async () => {
+        bot.setFuzzyMatch();
+
+        expect(await send('памощь')).toBe('помощь');
+        expect(match?.commandName).toBe('help');
+        expect(match?.slot).toBe('помощь');
+        expect(match?.confidence).toBeGreaterThanOrEqual(80);
+        expect(await send('пагода')).toBe('погода');
+        expect(match?.commandName).toBe('weather');
+    });
+
+    it('should find typo inside phrase', async () => {
+        bot.setFuzzyMatch();
+
+        expect(await send('скажи что ты умееш')).toBe('помощь');
+        expect(match?.slot).toBe('что ты умеешь');
+    });
+
+    it('should not use fuzzy match for found command', async () => {
+        bot.setFuzzyMatch();
+
+        expect(await send('какая погода')).toBe('погода');
+        expect(match).toBeNull();
+    });
+
+    it('should fall back below threshold with best candidate', async () => {
+        bot.setFuzzyMatch({ threshold: 95 });
+
+        expect(await send('памощь')).toBe('fallback');
+        expect(match?.commandName).toBe('help');
+        expect(match?.confidence).toBeLessThan(95);
+    });
+
+    it('should use custom scorer', async () => {
+        const scorer = jest.fn((text: string, slot: string) => (slot[0] === text[0] ? 90 : 0));
+        bot.setFuzzyMatch({ scorer });
+
+        expect(await send('ппп')).toBe('помощь');
+        expect(match).toEqual({ commandName: 'help', slot: 'помощь', confidence: 90 });
+        expect(scorer).toHaveBeenCalledWith('ппп', 'помощь');
+        expect(scorer).not.toHaveBeenCalledWith('ппп', '*');
+    });
+
+    it('should be disabled by false', async () => {
+        bot.setFuzzyMatch();
+        bot.setFuzzyMatch(false);
+
+        expect(await send('памощь')).toBe('fallback');
+    });
+
+    it('should score phrase by words window', () => {
+        expect(fuzzyScore('помощь', 'помощь')).toBe(100);
+        expect(fuzzyScore('дай памощь', 'помощь')).toBeGreaterThan(
+            fuzzyScore('дай памощь', 'погода'),
+        );
+    });
+});
@@ -0,0 +1,251 @@
+import { AppContext, Bot, BotController, UsersData } from '../../src';
+import { FileAdapter, T_TELEGRAM, T_VK, TelegramAdapter, VkAdapter } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `echo: ${this.userCommand}`;
+    }
+}
+
+function jsonResponse(data: object): Response {
+    return {
+        ok: true,
+        status: 200,
+        json: async () => data,
+    } as Response;
+}
+
+function getTelegramUpdate(message: object): object {
+    return {
+        update_id: 1,
+        message: {
+            message_id: 10,
+            from: { id: 7, is_bot: false, first_name: 'Иван' },
+            chat: { id: -100, type: 'supergroup' },
+            ...message,
+        },
+    };
+}
+
+describe('Group chats', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new TelegramAdapter('123:token', { username: '@Test_Bot' }));
+        bot.use(new VkAdapter('vk-token'));
+        appContext = bot.getAppContext();
+        httpClient = jest.fn(async () =>
+            jsonResponse({
+                ok: true,
+                result: { message_id: 1 },
+                response: [{ first_name: 'Иван' }],
+            }),
+        );
+        appContext.httpClient = httpClient;
+    });
+
+    afterEach(async () => {
+        await bot.close();
+        jest.restoreAllMocks();
+    });
+
+    function getSentMessages(): Record<string, unknown>[] {
+        return httpClient.mock.calls
+            .filter(([url]) => String(url).endsWith('sendMessage'))
+            .map(([, init]) => JSON.parse(init.body));
+    }
+
+    describe('TelegramAdapter', () => {
+        it('should separate chat and user', async () => {
+            const controller = new TestBotController(appContext);
+            await appContext.platforms[T_TELEGRAM].setQueryData(
+                getTelegramUpdate({ text: 'Привет' }),
+                controller,
+            );
+            expect(controller.userId).toBe(7);
+            expect(controller.chatId).toBe(-100);
+            expect(controller.isGroupChat).toBe(true);
+            expect(controller.isBotAddressed).toBe(false);
+        });
+
+        it('should send answer to group chat', async () => {
+            await bot.run(T_TELEGRAM, getTelegramUpdate({ text: 'Привет' }));
+
+            expect(getSentMessages()[0]).toMatchObject({ chat_id: -100, text: 'echo: привет' });
+        });
+
+        it('should detect mention, command and reply', async () => {
+            const adapter = appContext.platforms[T_TELEGRAM];
+            const controller = new TestBotController(appContext);
+
+            await adapter.setQueryData(
+                getTelegramUpdate({
+                    text: '@test_bot Привет',
+                    entities: [{ type: 'mention', offset: 0, length: 9 }],
+                }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(true);
+            expect(controller.userCommand).toBe('привет');
+
+            await adapter.setQueryData(
+                getTelegramUpdate({
+                    text: '@other_bot Привет',
+                    entities: [{ type: 'mention', offset: 0, length: 10 }],
+                }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(false);
+
+            await adapter.setQueryData(
+                getTelegramUpdate({
+                    text: '/start@test_bot',
+                    entities: [{ type: 'bot_command', offset: 0, length: 15 }],
+                }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(true);
+            expect(controller.userCommand).toBe('/start');
+
+            await adapter.setQueryData(
+                getTelegramUpdate({
+                    text: 'Да',
+                    reply_to_message: {
+                        message_id: 5,
+                        chat: { id: -100 },
+                        from: { id: 1, is_bot: true, username: 'test_bot' },
+                    },
+                }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(true);
+        });
+
+        it('should treat private chat as addressed', async () => {
+            const controller = new TestBotController(appContext);
+            await appContext.platforms[T_TELEGRAM].setQueryData(
+                getTelegramUpdate({ chat: { id: 7, type: 'private' }, text: 'Привет' }),
+                controller,
+            );
+
+            expect(controller.chatId).toBe(7);
+            expect(controller.isGroupChat).toBe(false);
+            expect(controller.isBotAddressed).toBe(true);
+        });
+    });
+
+    describe('VkAdapter', () => {
+        function getVkMessage(message: object): object {
+            return {
+                type: 'message_new',
+                group_id: 55,
+                object: {
+                    message: { id: 1, from_id: 7, peer_id: 2000000001, text: '', ...message },
+                },
+            };
+        }
+
+        it('should detect conversation and mention', async () => {
+            const controller = new TestBotController(appContext);
+            await appContext.platforms[T_VK].setQueryData(
+                getVkMessage({ text: '[club55|@bot], Привет' }),
+                controller,
+            );
+
+            expect(controller.userId).toBe(7);
+            expect(controller.chatId).toBe(2000000001);
+            expect(controller.isGroupChat).toBe(true);
+            expect(controller.isBotAddressed).toBe(true);
+            expect(controller.userCommand).toBe('привет');
+        });
+
+        it('should detect reply to community message', async () => {
+            const controller = new TestBotController(appContext);
+            await appContext.platforms[T_VK].setQueryData(
+                getVkMessage({ text: 'Да', reply_message: { id: 2, from_id: -55, text: '' } }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(true);
+
+            await appContext.platforms[T_VK].setQueryData(
+                getVkMessage({ text: 'Привет всем' }),
+                controller,
+            );
+            expect(controller.isBotAddressed).toBe(false);
+        });
+
+        it('should send answer to conversation', async () => {
+            await bot.run(T_VK, getVkMessage({ text: 'Привет' }));
+
+            const [url, init] = httpClient.mock.calls.find(([url]) =>
+                String(url).includes('messages.send'),
+            );
+            expect(url).toContain('messages.send');
+            expect(String(init.body)).toContain('peer_id=2000000001');
+        });
+    });
+
+    describe('groupChatMode', () => {
+        it('should skip not addressed messages', async () => {
+            bot.setAppConfig({ groupChatMode: 'addressed' });
+
+            expect(await bot.run(T_TELEGRAM, getTelegramUpdate({ text: 'Привет' }))).toBe('ok');
+            expect(getSentMessages()).toEqual([]);
+
+            await bot.run(
+                T_TELEGRAM,
+                getTelegramUpdate({
+                    text: '@test_bot Привет',
+                    entities: [{ type: 'mention', offset: 0, length: 9 }],
+                }),
+            );
+            expect(getSentMessages()[0]).toMatchObject({ chat_id: -100, text: 'echo: привет' });
+        });
+    });
+
+    describe('storageScope', () => {
+        let storageIds: unknown[];
+
+        beforeEach(() => {
+            bot.use(new FileAdapter());
+            storageIds = [];
+            jest.spyOn(UsersData.prototype, 'whereOne').mockImplementation(async function (
+                this: UsersData,
+                query,
+            ) {
+                storageIds.push((query as Record<string, unknown>).userId);
+                return false;
+            });
+            jest.spyOn(UsersData.prototype, 'save').mockResolvedValue(true);
+        });
+
+        it.each([
+            [undefined, '7'],
+            ['user' as const, '7'],
+            ['chat' as const, '-100'],
+            ['userInChat' as const, '-100_7'],
+        ])('should use scope %s', async (storageScope, expected) => {
+            if (storageScope) {
+                bot.setAppConfig({ storageScope });
+            }
+            await bot.run(T_TELEGRAM, getTelegramUpdate({ text: 'Привет' }));
+
+            expect(storageIds).toEqual([expected]);
+        });
+
+        it('should use user id in private chat', async () => {
+            bot.setAppConfig({ storageScope: 'userInChat' });
+            await bot.run(
+                T_TELEGRAM,
+                getTelegramUpdate({ chat: { id: 7, type: 'private' }, text: 'Привет' }),
+            );
+
+            expect(storageIds).toEqual(['7']);
+        });
+    });
+});
@@ -0,0 +1,224 @@
+import { AppContext, Bot, BotController } from '../../src';
+import { T_TELEGRAM, T_VK, TelegramAdapter, TelegramPolling, VkAdapter } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `echo: ${this.userCommand}`;
+    }
+}
+
+function getUpdate(updateId: number, text: string): object {
+    return {
+        update_id: updateId,
+        message: {
+            message_id: updateId,
+            chat: { id: 1 },
+            text,
+        },
+    };
+}
+
+function jsonResponse(data: object): Response {
+    return {
+        ok: true,
+        status: 200,
+        json: async () => data,
+    } as Response;
+}
+
+describe('Telegram polling', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+    let batches: object[][];
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new TelegramAdapter('123:token', { polling: { timeout: 0, retryDelay: 5 } }));
+        appContext = bot.getAppContext();
+        batches = [];
+        httpClient = jest.fn(async (url: string) => {
+            if (url.endsWith('getUpdates')) {
+                const batch = batches.shift();
+                if (batch) {
+                    return jsonResponse({ ok: true, result: batch });
+                }
+                await new Promise((r) => setTimeout(r, 5));
+                return jsonResponse({ ok: true, result: [] });
+            }
+            return jsonResponse({ ok: true, result: { message_id: 1 } });
+        });
+        appContext.httpClient = httpClient;
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    function getUpdatesBodies(): Record<string, unknown>[] {
+        return httpClient.mock.calls
+            .filter(([url]) => (url as string).endsWith('getUpdates'))
+            .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    }
+
+    async function waitFor(cb: () => boolean): Promise<void> {
+        for (let i = 0; i < 200 && !cb(); i++) {
+            await new Promise((r) => setTimeout(r, 5));
+        }
+    }
+
+    it('should run every update and move offset', async () => {
+        batches.push([getUpdate(10, 'Привет'), getUpdate(11, 'Пока')]);
+        const runSpy = jest.spyOn(bot, 'run');
+
+        expect(bot.startPolling(T_TELEGRAM)).toBe(true);
+        await waitFor(() => getUpdatesBodies().length >= 2);
+
+        expect(runSpy).toHaveBeenCalledTimes(2);
+        expect(runSpy).toHaveBeenNthCalledWith(1, T_TELEGRAM, getUpdate(10, 'Привет'));
+        expect(getUpdatesBodies()[0].offset).toBeUndefined();
+        expect(getUpdatesBodies()[1].offset).toBe(12);
+
+        const sendBodies = httpClient.mock.calls
+            .filter(([url]) => (url as string).endsWith('sendMessage'))
+            .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+        expect(sendBodies[0].text).toBe('echo: привет');
+        expect(sendBodies[1].text).toBe('echo: пока');
+    });
+
+    it('should continue after handler error', async () => {
+        batches.push([getUpdate(1, 'a'), getUpdate(2, 'b')]);
+        const errorSpy = jest.fn();
+        bot.setLogger({ error: errorSpy, warn: () => {} });
+        jest.spyOn(bot, 'run').mockRejectedValueOnce(new Error('fail')).mockResolvedValue('ok');
+
+        bot.startPolling(T_TELEGRAM);
+        await waitFor(() => getUpdatesBodies().length >= 2);
+
+        expect(bot.run).toHaveBeenCalledTimes(2);
+        expect(getUpdatesBodies()[1].offset).toBe(3);
+        expect(errorSpy).toHaveBeenCalledWith(
+            expect.stringContaining('Не удалось обработать обновление 1'),
+            expect.anything(),
+        );
+    });
+
+    it('should retry after failed request', async () => {
+        httpClient.mockResolvedValueOnce({ ok: false, status: 502 } as Response);
+        batches.push([getUpdate(5, 'a')]);
+        const runSpy = jest.spyOn(bot, 'run');
+
+        bot.startPolling(T_TELEGRAM);
+        await waitFor(() => runSpy.mock.calls.length > 0);
+
+        expect(runSpy).toHaveBeenCalledWith(T_TELEGRAM, getUpdate(5, 'a'));
+    });
+
+    it('should stop polling on close', async () => {
+        bot.startPolling(T_TELEGRAM);
+        await waitFor(() => getUpdatesBodies().length > 0);
+        await bot.close();
+
+        const count = httpClient.mock.calls.length;
+        await new Promise((r) => setTimeout(r, 30));
+        expect(httpClient.mock.calls.length).toBe(count);
+    });
+
+    it('should abort pending request on stop', async () => {
+        const errorSpy = jest.fn();
+        bot.setLogger({ error: errorSpy, warn: () => {} });
+        let signal: AbortSignal | null | undefined;
+        httpClient.mockImplementation((_url: string, init: RequestInit) => {
+            signal = init.signal;
+            return new Promise((_resolve, reject) => {
+                init.signal?.addEventListener('abort', () =>
+                    reject(new DOMException('This operation was aborted', 'AbortError')),
+                );
+            });
+        });
+        const polling = new TelegramPolling(appContext, bot, { timeout: 30 });
+        polling.start();
+        await waitFor(() => httpClient.mock.calls.length > 0);
+
+        await polling.stop();
+
+        expect(signal?.aborted).toBe(true);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(errorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return false for platform without polling', () => {
+        expect(bot.startPolling('unknown')).toBe(false);
+    });
+
+    it('should not start twice', async () => {
+        const polling = new TelegramPolling(appContext, bot, { timeout: 0 });
+        polling.start();
+        polling.start();
+        expect(polling.isRunning).toBe(true);
+        await waitFor(() => getUpdatesBodies().length > 0);
+        await polling.stop();
+        expect(polling.isRunning).toBe(false);
+    });
+});
+
+describe('VK polling', () => {
+    let bot: Bot;
+    let httpClient: jest.Mock;
+    let events: object[][];
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        events = [];
+        httpClient = jest.fn(async (url: string) => {
+            if (url.includes('groups.getLongPollServer')) {
+                return jsonResponse({
+                    response: { key: 'k', server: 'https://lp.vk.ru/wh1', ts: '1' },
+                });
+            }
+            if (url.startsWith('https://lp.vk.ru/wh1')) {
+                const batch = events.shift();
+                if (!batch) {
+                    await new Promise((r) => setTimeout(r, 5));
+                }
+                return jsonResponse({ ts: '2', updates: batch || [] });
+            }
+            return jsonResponse({ response: 1 });
+        });
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should dispatch events into bot.run', async () => {
+        bot.use(new VkAdapter('token', { polling: { groupId: 1, wait: 0, retryDelay: 5 } }));
+        bot.getAppContext().httpClient = httpClient;
+        const event = {
+            type: 'message_new',
+            group_id: 1,
+            object: { message: { from_id: 5, text: 'Привет', id: 1 } },
+        };
+        events.push([event]);
+        const runSpy = jest.spyOn(bot, 'run');
+
+        expect(bot.startPolling(T_VK)).toBe(true);
+        for (let i = 0; i < 200 && !runSpy.mock.calls.length; i++) {
+            await new Promise((r) => setTimeout(r, 5));
+        }
+
+        expect(runSpy).toHaveBeenCalledWith(T_VK, event);
+    });
+
+    it('should not start without group id', () => {
+        bot.use(new VkAdapter('token'));
+        bot.getAppContext().httpClient = httpClient;
+
+        expect(bot.startPolling(T_VK)).toBe(false);
+        expect(httpClient).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,171 @@
+import {
+    Bot,
+    BotController,
+    EMetric,
+    getRequestContext,
+    IRequestContext,
+    Request,
+} from '../../src';
+import {
+    AlisaAdapter,
+    FileAdapter,
+    IAlisaWebhookResponse,
+    T_ALISA,
+    TFileData,
+} from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `ответ: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string, userId: string = 'test'): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: userId,
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getText(body: unknown): string | undefined {
+    return (body as IAlisaWebhookResponse).response?.text;
+}
+
+describe('Bot request context', () => {
+    let bot: Bot;
+    let error: jest.Mock;
+    let metric: jest.Mock;
+
+    beforeEach(() => {
+        error = jest.fn();
+        metric = jest.fn();
+        bot = new Bot();
+        bot.setLogger({ error, warn: () => {}, metric });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should create context for each run', async () => {
+        const contexts: IRequestContext[] = [];
+        bot.use((ctx, next) => {
+            contexts.push({ ...(getRequestContext() as IRequestContext) });
+            return next();
+        });
+        bot.addCommand('hello', ['привет'], () => {
+            contexts.push({ ...(getRequestContext() as IRequestContext) });
+            return 'hi';
+        });
+
+        await Promise.all([
+            bot.run(T_ALISA, getContent('привет', 'first')),
+            bot.run(T_ALISA, getContent('пока', 'second')),
+        ]);
+
+        expect(contexts).toHaveLength(3);
+        const [first, second, command] = contexts;
+        expect(first).toMatchObject({ appType: T_ALISA, userId: 'first', command: null });
+        expect(second).toMatchObject({ appType: T_ALISA, userId: 'second', command: null });
+        expect(command).toMatchObject({ requestId: first.requestId, command: 'hello' });
+        expect(first.requestId).not.toBe(second.requestId);
+        expect(typeof first.startTime).toBe('number');
+        expect(getRequestContext()).toBeUndefined();
+    });
+
+    it('should add context to logs and metrics', async () => {
+        bot.addCommand('fail', ['ошибка'], () => {
+            throw new Error('fail');
+        });
+
+        await bot.handleRequest({
+            headers: { 'x-request-id': 'req-1' },
+            body: getContent('ошибка'),
+        });
+
+        expect(error).toHaveBeenCalledWith(
+            expect.stringContaining('"fail"'),
+            expect.objectContaining({
+                requestId: 'req-1',
+                appType: T_ALISA,
+                userId: 'test',
+                command: 'fail',
+            }),
+        );
+        expect(metric).toHaveBeenCalledWith(
+            expect.any(String),
+            expect.anything(),
+            expect.objectContaining({ requestId: 'req-1' }),
+        );
+        for (const [, , labels] of metric.mock.calls) {
+            expect(labels.requestId).toBe('req-1');
+        }
+    });
+
+    it('should add context to database metrics', async () => {
+        const tables: Record<string, TFileData> = {};
+        const fileAdapter = new FileAdapter();
+        fileAdapter.getFileData = (tableName: string): TFileData => (tables[tableName] ??= {});
+        bot.getAppContext().saveFileData = jest.fn();
+        bot.use(fileAdapter);
+
+        const response = await bot.handleRequest({
+            headers: { 'x-request-id': 'req-db' },
+            body: getContent('база'),
+        });
+
+        expect(getText(response.body)).toBe('ответ: база');
+        const dbLabels = metric.mock.calls
+            .filter(([name]) =>
+                [EMetric.DB_SELECT, EMetric.DB_INSERT, EMetric.DB_UPDATE].includes(name),
+            )
+            .map(([, , labels]) => labels);
+        expect(dbLabels.length).toBeGreaterThan(0);
+        for (const labels of dbLabels) {
+            expect(labels).toMatchObject({ requestId: 'req-db', userId: 'test' });
+        }
+    });
+
+    it('should keep logs outside of request without context', () => {
+        bot.getAppContext().logError('error', { file: 'test' });
+        bot.getAppContext().logMetric('metric', 1, { label: 1 });
+
+        expect(error).toHaveBeenCalledWith('error', { file: 'test' });
+        expect(metric).toHaveBeenCalledWith('metric', 1, { label: 1 });
+    });
+
+    it('should add request id header to outgoing requests', async () => {
+        const appContext = bot.getAppContext();
+        const httpClient = jest.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+        appContext.httpClient = httpClient;
+        let requestId: string | undefined;
+        bot.addCommand('hello', ['привет'], async () => {
+            requestId = getRequestContext()?.requestId;
+            await new Request(appContext).send('https://api.test/method');
+            return 'hi';
+        });
+
+        await bot.run(T_ALISA, getContent('привет'));
+        await new Request(appContext).send('https://api.test/method');
+
+        expect(typeof requestId).toBe('string');
+        const headers = new Headers(httpClient.mock.calls[0][1].headers);
+        expect(headers.get('X-Request-Id')).toBe(requestId);
+        expect(new Headers(httpClient.mock.calls[1][1].headers).has('X-Request-Id')).toBe(false);
+    });
+});
@@ -0,0 +1,164 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { Bot, BotController, BotRouter, IKoaContext, TNodeWebhookRequest } from '../../src';
+import {
+    AlisaAdapter,
+    IAlisaWebhookResponse,
+    T_TELEGRAM,
+    TelegramAdapter,
+} from '../../src/plugins';
+
+class BrandAController extends BotController {
+    action(): void {
+        this.text = `A: ${this.userCommand}`;
+    }
+}
+
+class BrandBController extends BotController {
+    action(): void {
+        this.text = `B: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getText(body: unknown): string | undefined {
+    const res = (typeof body === 'string' ? JSON.parse(body) : body) as IAlisaWebhookResponse;
+    return res.response?.text;
+}
+
+describe('BotRouter', () => {
+    let router: BotRouter;
+
+    beforeEach(() => {
+        router = new BotRouter();
+        router
+            .add('/a/alisa/', { platform: new AlisaAdapter(), controller: BrandAController })
+            .setLogger({ error: () => {}, warn: () => {} });
+        router
+            .add('/b/alisa', { platform: new AlisaAdapter(), controller: BrandBController })
+            .setLogger({ error: () => {}, warn: () => {} });
+    });
+
+    afterEach(async () => {
+        await router.close();
+    });
+
+    it('should route requests to bot of path', async () => {
+        const a = await router.handleRequest({ path: '/a/alisa', body: getContent('привет') });
+        const b = await router.handleRequest({ path: '/b/alisa/', body: getContent('привет') });
+
+        expect(getText(a.body)).toBe('A: привет');
+        expect(getText(b.body)).toBe('B: привет');
+        expect(router.paths).toEqual(['/a/alisa', '/b/alisa']);
+    });
+
+    it('should return 404 for unknown path', async () => {
+        const response = await router.handleRequest({ path: '/c', body: getContent('привет') });
+
+        expect(response).toEqual({ statusCode: 404, body: 'Not Found' });
+    });
+
+    it('should create separate app context for each route', () => {
+        const first = router.add('/a/tg', {
+            platform: new TelegramAdapter('token-a'),
+            controller: BrandAController,
+            config: { tokens: { [T_TELEGRAM]: { secret: 'config' } } },
+        });
+        const second = router.add('/b/tg', {
+            platform: new TelegramAdapter(),
+            controller: BrandBController,
+            tokens: { token: 'token-b', secret: 'secret-b' },
+            params: { welcome_text: 'Бренд B' },
+            setup: (bot) => bot.addCommand('help', ['помощь'], () => 'help'),
+        });
+
+        const firstContext = first.getAppContext();
+        const secondContext = second.getAppContext();
+        expect(firstContext).not.toBe(secondContext);
+        expect(firstContext.appConfig.tokens[T_TELEGRAM]).toEqual({
+            token: 'token-a',
+            secret: 'config',
+        });
+        expect(secondContext.appConfig.tokens[T_TELEGRAM]).toEqual({
+            token: 'token-b',
+            secret: 'secret-b',
+        });
+        expect(secondContext.platformParams.welcome_text).toBe('Бренд B');
+        expect(secondContext.command.commands.has('help')).toBe(true);
+        expect(firstContext.command.commands.has('help')).toBe(false);
+        expect(first.appType).toBe(T_TELEGRAM);
+    });
+
+    it('should accept configured bot and remove route', async () => {
+        const bot = new Bot().initBotController(BrandAController).use(new AlisaAdapter());
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        const close = jest.spyOn(bot, 'close');
+
+        expect(router.add('/c', bot)).toBe(bot);
+        expect(router.get('/c/')).toBe(bot);
+        const response = await router.handleRequest({ path: '/c', body: getContent('c') });
+        expect(getText(response.body)).toBe('A: c');
+
+        expect(await router.remove('/c')).toBe(true);
+        expect(close).toHaveBeenCalled();
+        expect(await router.remove('/c')).toBe(false);
+        expect(router.get('/c')).toBeUndefined();
+    });
+
+    it('should handle node requests', async () => {
+        const req = Readable.from([
+            Buffer.from(JSON.stringify(getContent('поток'))),
+        ]) as unknown as TNodeWebhookRequest;
+        req.method = 'POST';
+        req.headers = {};
+        req.url = '/b/alisa?id=1';
+        const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+
+        await router.createHandler()(req, res as unknown as ServerResponse);
+
+        expect(res.statusCode).toBe(200);
+        expect(getText(res.end.mock.calls[0][0])).toBe('B: поток');
+    });
+
+    it('should pass unknown paths to next middleware', async () => {
+        const middleware = router.middleware({ framework: 'koa' });
+        const next = jest.fn(() => Promise.resolve());
+        const getContext = (path: string): IKoaContext => ({
+            method: 'POST',
+            path,
+            headers: {},
+            req: Readable.from([]) as unknown as IncomingMessage,
+            request: { body: getContent('koa') },
+            status: 404,
+            body: undefined,
+        });
+
+        const other = getContext('/other');
+        await middleware(other, next);
+        const ctx = getContext('/a/alisa');
+        await middleware(ctx, next);
+
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(other.body).toBeUndefined();
+        expect(getText(ctx.body)).toBe('A: koa');
+    });
+});
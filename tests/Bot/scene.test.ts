@@ -0,0 +1,180 @@
+import { AppContext, BaseBotController, Bot, IUserData, Scene, Wizard } from '../../src';
+
+describe('Scenes', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let userData: IUserData;
+
+    beforeEach(() => {
+        bot = new Bot();
+        appContext = bot.getAppContext();
+        appContext.logError = jest.fn();
+        userData = {};
+        bot.addCommand('cancel', ['отмена'], () => 'Глобальная отмена');
+        bot.addCommand('order', ['заказ'], (_, ctx) => ctx.scene.enter('checkout'));
+    });
+
+    /**
+     * Имитирует обработку запроса приложением: восстанавливает userData и активный шаг, а после обработки сохраняет их
+     */
+    async function send(command: string): Promise<BaseBotController> {
+        const controller = new BaseBotController(appContext);
+        controller.userData = userData;
+        controller.oldIntentName = userData.oldIntentName || null;
+        controller.userCommand = command;
+        controller.messageId = 1;
+        await controller.run();
+        userData.oldIntentName = controller.thisIntentName;
+        return controller;
+    }
+
+    function addCheckout(): Scene {
+        const scene = new Scene('checkout')
+            .onEnter((ctx) => {
+                ctx.text = 'Введите адрес';
+            })
+            .onCancel(['отмена'], (ctx) => {
+                ctx.text = 'Заказ отменен';
+            })
+            .addCommand('pay', ['оплатить'], async () => 'Оплачено')
+            .onMessage((ctx) => {
+                ctx.text = `Адрес: ${ctx.userCommand}`;
+            });
+        bot.addScene(scene);
+        return scene;
+    }
+
+    it('should compile scene to step', () => {
+        addCheckout();
+
+        expect(appContext.scenes.get('checkout')).toBeInstanceOf(Scene);
+        expect(appContext.steps.has('scene:checkout')).toBe(true);
+
+        bot.removeScene('checkout');
+        expect(appContext.scenes.size).toBe(0);
+        expect(appContext.steps.size).toBe(0);
+    });
+
+    it('should enter scene and handle messages inside it', async () => {
+        addCheckout();
+
+        expect((await send('заказ')).text).toBe('Введите адрес');
+        expect(userData.sceneStack).toEqual([
+            { name: 'checkout', step: 0, updatedAt: expect.any(Number) },
+        ]);
+        expect((await send('москва')).text).toBe('Адрес: москва');
+        expect((await send('оплатить')).text).toBe('Оплачено');
+        expect(userData.oldIntentName).toBe('scene:checkout');
+    });
+
+    it('should prefer scene cancel over global command', async () => {
+        const onLeave = jest.fn();
+        addCheckout().onLeave(onLeave);
+
+        expect((await send('отмена')).text).toBe('Глобальная отмена');
+
+        await send('заказ');
+        expect((await send('отмена')).text).toBe('Заказ отменен');
+        expect(onLeave).toHaveBeenCalledTimes(1);
+        expect(userData.sceneStack).toBeNull();
+        expect(userData.oldIntentName).toBeNull();
+
+        expect((await send('отмена')).text).toBe('Глобальная отмена');
+    });
+
+    it('should pass unknown message to global commands and stay in scene', async () => {
+        bot.addScene(new Scene('checkout'));
+        bot.addCommand('help', ['помощь'], () => 'Справка');
+
+        await send('заказ');
+        expect((await send('помощь')).text).toBe('Справка');
+        expect(userData.oldIntentName).toBe('scene:checkout');
+    });
+
+    it('should leave scene on timeout', async () => {
+        bot.addScene(
+            new Scene('checkout').onTimeout(1000, (ctx) => {
+                ctx.text = 'Время вышло';
+            }),
+        );
+        const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+        await send('заказ');
+        now.mockReturnValue(5000);
+        expect((await send('москва')).text).toBe('Время вышло');
+        expect(userData.sceneStack).toBeNull();
+        now.mockRestore();
+    });
+
+    it('should support nested scenes', async () => {
+        addCheckout().addCommand('address', ['адрес'], (_, ctx) => ctx.scene.enter('address'));
+        bot.addScene(
+            new Scene('address')
+                .onEnter((ctx) => {
+                    ctx.text = 'Введите город';
+                })
+                .onMessage((ctx) => {
+                    ctx.text = 'Город сохранен';
+                    return ctx.scene.leave();
+                }),
+        );
+
+        await send('заказ');
+        expect((await send('адрес')).text).toBe('Введите город');
+        expect(userData.sceneStack?.map((frame) => frame.name)).toEqual(['checkout', 'address']);
+        expect(userData.oldIntentName).toBe('scene:address');
+
+        expect((await send('москва')).text).toBe('Город сохранен');
+        expect(userData.oldIntentName).toBe('scene:checkout');
+        expect((await send('оплатить')).text).toBe('Оплачено');
+    });
+
+    it('should log error for unknown scene', async () => {
+        await send('заказ');
+
+        expect(appContext.logError).toHaveBeenCalled();
+        expect(userData.sceneStack).toBeUndefined();
+    });
+
+    describe('Wizard', () => {
+        beforeEach(() => {
+            bot.addScene(
+                new Wizard('checkout', [
+                    (ctx): void => {
+                        ctx.userData.city = ctx.userCommand;
+                        ctx.text = 'Введите улицу';
+                        ctx.scene.next();
+                    },
+                    (ctx): void | Promise<void> => {
+                        ctx.text = `Доставка: ${ctx.userData.city}, ${ctx.userCommand}`;
+                        return ctx.scene.leave();
+                    },
+                ])
+                    .onEnter((ctx) => {
+                        ctx.text = 'Введите город';
+                    })
+                    .onBack(['назад'], (ctx) => {
+                        ctx.text = `Шаг ${ctx.scene.step}`;
+                    }),
+            );
+        });
+
+        it('should go through steps', async () => {
+            expect((await send('заказ')).text).toBe('Введите город');
+            expect((await send('москва')).text).toBe('Введите улицу');
+            expect((await send('тверская')).text).toBe('Доставка: москва, тверская');
+            expect(userData.sceneStack).toBeNull();
+        });
+
+        it('should go back', async () => {
+            await send('заказ');
+            await send('москва');
+
+            expect((await send('назад')).text).toBe('Шаг 0');
+            expect((await send('казань')).text).toBe('Введите улицу');
+            await send('назад');
+            await send('назад');
+            expect(userData.sceneStack).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,252 @@
+import { AppContext, Bot, BotController, OutboundQueue, Scheduler } from '../../src';
+import {
+    AlisaAdapter,
+    FileAdapter,
+    T_ALISA,
+    T_TELEGRAM,
+    TelegramAdapter,
+    TFileData,
+} from '../../src/plugins';
+
+describe('Scheduler', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let send: jest.SpyInstance;
+    let fileData: TFileData;
+    let logError: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date(2026, 0, 1, 10, 0) });
+        bot = new Bot();
+        logError = jest.fn();
+        bot.setLogger({ error: logError, warn: () => {} });
+        bot.use(new TelegramAdapter('123:token'));
+        bot.use(new AlisaAdapter());
+        appContext = bot.getAppContext();
+        appContext.saveFileData = jest.fn();
+        fileData = {};
+        const fileAdapter = new FileAdapter();
+        fileAdapter.getFileData = (): TFileData => fileData;
+        bot.use(fileAdapter);
+        send = jest.spyOn(bot, 'send').mockResolvedValue(true);
+    });
+
+    afterEach(async () => {
+        await bot.close();
+        jest.useRealTimers();
+    });
+
+    it('should send delayed message and remove job', async () => {
+        const jobId = await bot.schedule('user1', T_TELEGRAM, 5000, 'Напоминание');
+
+        expect(jobId).toEqual(expect.any(String));
+        expect(fileData[jobId as string]).toEqual(
+            expect.objectContaining({
+                userId: 'user1',
+                platform: T_TELEGRAM,
+                payload: '"Напоминание"',
+                cron: null,
+                attempts: 0,
+            }),
+        );
+
+        await bot.startScheduler();
+        await jest.advanceTimersByTimeAsync(4000);
+        expect(send).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(send).toHaveBeenCalledWith('user1', 'Напоминание', T_TELEGRAM);
+        expect(fileData[jobId as string]).toBeUndefined();
+    });
+
+    it('should build controller from message payload', async () => {
+        await bot.schedule('user1', T_TELEGRAM, new Date(2026, 0, 1, 10, 1), {
+            text: 'Доброе утро',
+            buttons: ['Погода'],
+        });
+        await bot.startScheduler();
+        await jest.advanceTimersByTimeAsync(60000);
+
+        const controller = send.mock.calls[0][1] as BotController;
+        expect(controller.text).toBe('Доброе утро');
+        expect(controller.buttons.buttons.map((button) => button.title)).toEqual(['Погода']);
+    });
+
+    it('should reschedule cron job', async () => {
+        const jobId = (await bot.schedule(
+            'user1',
+            T_TELEGRAM,
+            '0 9 * * *',
+            'Доброе утро',
+        )) as string;
+        expect(fileData[jobId].runAt).toBe(new Date(2026, 0, 2, 9, 0).getTime());
+
+        const scheduler = new Scheduler(appContext, send as unknown as () => Promise<unknown>);
+        await scheduler.load();
+        await scheduler.tick(new Date(2026, 0, 2, 9, 0).getTime());
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(scheduler.jobs[0].runAt).toBe(new Date(2026, 0, 3, 9, 0).getTime());
+        expect(fileData[jobId].runAt).toBe(new Date(2026, 0, 3, 9, 0).getTime());
+    });
+
+    it('should restore jobs after restart', async () => {
+        await bot.schedule('user1', T_TELEGRAM, 1000, 'Напоминание');
+
+        const scheduler = new Scheduler(appContext, send as unknown as () => Promise<unknown>);
+        await scheduler.load();
+        expect(scheduler.jobs).toHaveLength(1);
+        expect(scheduler.jobs[0].payload).toBe('Напоминание');
+
+        await scheduler.tick(Date.now() + 1000);
+        expect(send).toHaveBeenCalledWith('user1', 'Напоминание', T_TELEGRAM);
+        expect(fileData).toEqual({});
+    });
+
+    it('should retry on failure', async () => {
+        const sender = jest
+            .fn()
+            .mockRejectedValueOnce(new Error('network'))
+            .mockResolvedValueOnce(false)
+            .mockResolvedValue(false);
+        const scheduler = new Scheduler(appContext, sender);
+        await scheduler.start({ maxAttempts: 3, retryDelay: 1000 });
+        scheduler.stop();
+        const jobId = (await scheduler.schedule('user1', T_TELEGRAM, 0, 'Текст')) as string;
+        const now = Date.now();
+
+        await scheduler.tick(now);
+        expect(fileData[jobId]).toEqual(
+            expect.objectContaining({ attempts: 1, runAt: now + 1000 }),
+        );
+
+        await scheduler.tick(now + 500);
+        expect(sender).toHaveBeenCalledTimes(1);
+
+        await scheduler.tick(now + 1000);
+        expect(fileData[jobId]).toEqual(
+            expect.objectContaining({ attempts: 2, runAt: now + 3000 }),
+        );
+
+        await scheduler.tick(now + 3000);
+        expect(sender).toHaveBeenCalledTimes(3);
+        expect(scheduler.jobs).toHaveLength(0);
+        expect(fileData[jobId]).toBeUndefined();
+        expect(logError).toHaveBeenCalled();
+    });
+
+    it('should retry when platform api rejects message', async () => {
+        send.mockRestore();
+        const httpClient = jest.fn().mockResolvedValue({
+            ok: false,
+            status: 400,
+            headers: new Headers(),
+            json: async () => ({ ok: false, error_code: 400, description: 'Bad Request' }),
+        });
+        appContext.httpClient = httpClient;
+        const scheduler = new Scheduler(appContext, (userId, message, platform) =>
+            bot.send(userId, message, platform),
+        );
+        await scheduler.start({ maxAttempts: 3, retryDelay: 1000 });
+        scheduler.stop();
+        const jobId = (await scheduler.schedule('user1', T_TELEGRAM, 0, 'Текст')) as string;
+        const now = Date.now();
+
+        await scheduler.tick(now);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(fileData[jobId]).toEqual(expect.objectContaining({ attempts: 1 }));
+
+        httpClient.mockResolvedValue({
+            ok: true,
+            status: 200,
+            headers: new Headers(),
+            json: async () => ({ ok: true, result: { message_id: 1 } }),
+        });
+        await scheduler.tick(now + 1000);
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(fileData[jobId]).toBeUndefined();
+    });
+
+    it('should not resend message queued for retry', async () => {
+        send.mockRestore();
+        const queue = new OutboundQueue({ baseDelay: 500 });
+        bot.setOutboundQueue(queue);
+        const httpClient = jest
+            .fn()
+            .mockResolvedValueOnce({
+                ok: false,
+                status: 502,
+                headers: new Headers(),
+                json: async () => ({ ok: false, error_code: 502, description: 'Bad Gateway' }),
+            })
+            .mockResolvedValue({
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: async () => ({ ok: true, result: { message_id: 1 } }),
+            });
+        appContext.httpClient = httpClient;
+        const scheduler = new Scheduler(appContext, (userId, message, platform) =>
+            bot.send(userId, message, platform),
+        );
+        await scheduler.start({ maxAttempts: 3, retryDelay: 100 });
+        scheduler.stop();
+        const jobId = (await scheduler.schedule('user1', T_TELEGRAM, 0, 'Текст')) as string;
+        const now = Date.now();
+
+        await scheduler.tick(now);
+        expect(fileData[jobId]).toBeUndefined();
+        await jest.advanceTimersByTimeAsync(500);
+        await scheduler.tick(now + 1000);
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(queue.deadLetters).toEqual([]);
+    });
+
+    it('should respect platform limit', async () => {
+        for (let i = 0; i < 35; i++) {
+            await bot.schedule(`user${i}`, T_TELEGRAM, 0, 'Рассылка');
+        }
+        await bot.startScheduler();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(send).toHaveBeenCalledTimes(30);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(send).toHaveBeenCalledTimes(35);
+    });
+
+    it('should reject voice platform and invalid time', async () => {
+        expect(await bot.schedule('user1', T_ALISA, 1000, 'Текст')).toBeNull();
+        expect(await bot.schedule('user1', 'unknown', 1000, 'Текст')).toBeNull();
+        expect(await bot.schedule('user1', T_TELEGRAM, '* * *', 'Текст')).toBeNull();
+        expect(await bot.schedule('user1', T_TELEGRAM, new Date(NaN), 'Текст')).toBeNull();
+        expect(logError).toHaveBeenCalledTimes(4);
+        expect(fileData).toEqual({});
+    });
+
+    it('should cancel job', async () => {
+        const jobId = (await bot.schedule('user1', T_TELEGRAM, 1000, 'Текст')) as string;
+
+        expect(await bot.cancelSchedule(jobId)).toBe(true);
+        expect(await bot.cancelSchedule(jobId)).toBe(false);
+        expect(fileData).toEqual({});
+
+        await bot.startScheduler();
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should cancel saved job that was not loaded', async () => {
+        const jobId = (await bot.schedule('user1', T_TELEGRAM, 1000, 'Текст')) as string;
+
+        const scheduler = new Scheduler(appContext, send as unknown as () => Promise<unknown>);
+        expect(scheduler.jobs).toHaveLength(0);
+        expect(await scheduler.cancel(jobId)).toBe(true);
+        expect(fileData).toEqual({});
+        expect(await scheduler.cancel(jobId)).toBe(false);
+
+        await scheduler.load();
+        expect(scheduler.jobs).toHaveLength(0);
+    });
+});
@@ -0,0 +1,151 @@
+import { ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { Bot, BotController, TNodeWebhookRequest } from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `ответ: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getText(body: unknown): string | undefined {
+    return (body as IAlisaWebhookResponse).response?.text;
+}
+
+describe('Bot server options', () => {
+    let bot: Bot;
+    let alisa: AlisaAdapter;
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        alisa = new AlisaAdapter();
+        bot.use(alisa);
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should limit body size', async () => {
+        bot.setServerOptions({ maxBodySize: 100 });
+        const body = JSON.stringify(getContent('привет'));
+
+        const byHeader = await bot.handleRequest({ headers: { 'content-length': '101' } });
+        expect(byHeader).toEqual({ statusCode: 413, body: 'Request entity too large' });
+
+        const req = Readable.from([Buffer.from(body)]) as unknown as TNodeWebhookRequest;
+        req.method = 'POST';
+        req.headers = {};
+        const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+        await bot.webhookHandle(req, res as unknown as ServerResponse);
+        expect(res.statusCode).toBe(413);
+    });
+
+    it('should use platform body size limit', async () => {
+        alisa.maxBodySize = 100;
+        const body = JSON.stringify(getContent('привет'));
+
+        const detected = await bot.handleRequest({ body });
+        expect(detected.statusCode).toBe(413);
+
+        const routed = await bot.handleRequest({
+            appType: T_ALISA,
+            headers: { 'content-length': String(body.length) },
+        });
+        expect(routed.statusCode).toBe(413);
+
+        alisa.maxBodySize = 10000;
+        bot.setServerOptions({ maxBodySize: 10 });
+        const response = await bot.handleRequest({ body, appType: T_ALISA });
+        expect(getText(response.body)).toBe('ответ: привет');
+    });
+
+    it('should check allowed methods', async () => {
+        bot.setServerOptions({ allowedMethods: ['post', 'PUT'] });
+
+        const put = await bot.handleRequest({ method: 'PUT', body: getContent('put') });
+        expect(getText(put.body)).toBe('ответ: put');
+
+        const get = await bot.handleRequest({ method: 'GET' });
+        expect(get).toEqual({ statusCode: 405, body: 'Method Not Allowed' });
+    });
+
+    it('should parse body by content type', async () => {
+        const form = jest.fn(() => getContent('форма'));
+        bot.setServerOptions({
+            bodyParsers: {
+                'application/x-www-form-urlencoded': form,
+                'text/plain': (body) => getContent(body),
+            },
+        });
+
+        const text = await bot.handleRequest({
+            headers: { 'content-type': 'text/plain; charset=utf-8' },
+            body: 'текст',
+        });
+        expect(getText(text.body)).toBe('ответ: текст');
+
+        const formResponse = await bot.handleRequest({
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body: 'type=confirmation',
+        });
+        expect(form).toHaveBeenCalledWith('type=confirmation');
+        expect(getText(formResponse.body)).toBe('ответ: форма');
+
+        const json = await bot.handleRequest({
+            headers: { 'content-type': 'application/octet-stream' },
+            body: Buffer.from(JSON.stringify(getContent('json'))),
+        });
+        expect(getText(json.body)).toBe('ответ: json');
+    });
+
+    it('should parse form-encoded body by default', async () => {
+        const platformDetect = jest.fn(() => T_ALISA);
+        bot.setPlatformResolver(platformDetect);
+        const setQueryData = jest.spyOn(alisa, 'setQueryData').mockReturnValue(false);
+
+        await bot.handleRequest({
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body: 'type=confirmation&group_id=1',
+        });
+
+        expect(setQueryData.mock.calls[0][0]).toEqual({ type: 'confirmation', group_id: '1' });
+    });
+
+    it('should apply server options to built-in server', async () => {
+        bot.setLogger({ error: () => {}, warn: () => {}, log: () => {} });
+        bot.setServerOptions({ requestTimeout: 5000, keepAliveTimeout: 1000 });
+
+        const server = bot.start('localhost', 0);
+        await new Promise<void>((resolve) => {
+            server.on('listening', resolve);
+            server.on('error', resolve);
+        });
+
+        expect(server.requestTimeout).toBe(5000);
+        expect(server.keepAliveTimeout).toBe(1000);
+    });
+});
@@ -0,0 +1,147 @@
+import { Bot, BotController, IServerlessResponse } from '../../src';
+import {
+    AlisaAdapter,
+    FileAdapter,
+    IAlisaWebhookResponse,
+    T_ALISA,
+    TFileData,
+} from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `ответ: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getText(body: unknown): string | undefined {
+    const res = (typeof body === 'string' ? JSON.parse(body) : body) as IAlisaWebhookResponse;
+    return res.response?.text;
+}
+
+describe('Bot serverless handlers', () => {
+    let bot: Bot;
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await bot.close();
+    });
+
+    it('should handle api gateway event with base64 body', async () => {
+        const isCorrectQuery = jest.spyOn(AlisaAdapter.prototype, 'isCorrectQuery');
+        const body = JSON.stringify(getContent('лямбда'));
+
+        const response = await bot.createHandler({ framework: 'lambda' })({
+            httpMethod: 'POST',
+            headers: { 'X-Signature': 'sign', 'Content-Type': 'application/json' },
+            multiValueHeaders: { 'X-Forwarded-For': ['1.1.1.1', '2.2.2.2'] },
+            body: Buffer.from(body).toString('base64'),
+            isBase64Encoded: true,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+        expect(response.isBase64Encoded).toBe(false);
+        expect(getText(response.body)).toBe('ответ: лямбда');
+        expect(isCorrectQuery).toHaveBeenCalledWith(body, {
+            'x-signature': 'sign',
+            'content-type': 'application/json',
+            'x-forwarded-for': '1.1.1.1, 2.2.2.2',
+        });
+    });
+
+    it('should return error response for api gateway v2 event', async () => {
+        const response = await bot.createHandler({ framework: 'lambda' })({
+            requestContext: { http: { method: 'GET', path: '/' } },
+            rawPath: '/',
+        });
+
+        expect(response).toEqual({
+            statusCode: 405,
+            headers: { 'Content-Type': 'text/plain' },
+            body: 'Method Not Allowed',
+            isBase64Encoded: false,
+        });
+    });
+
+    it('should return platform response for direct yandex function call', async () => {
+        const handler = bot.createHandler({ framework: 'yandex', appType: T_ALISA });
+
+        const result = await handler(getContent('функция'));
+
+        expect(getText(result)).toBe('ответ: функция');
+    });
+
+    it('should handle yandex function http call', async () => {
+        const handler = bot.createHandler({ framework: 'yandex' });
+
+        const result = (await handler({
+            httpMethod: 'POST',
+            headers: {},
+            body: JSON.stringify(getContent('http')),
+            isBase64Encoded: false,
+        })) as IServerlessResponse;
+
+        expect(result.statusCode).toBe(200);
+        expect(getText(result.body)).toBe('ответ: http');
+    });
+
+    it('should handle fetch request', async () => {
+        const handler = bot.createHandler({ framework: 'fetch' });
+
+        const response = await handler(
+            new Request('https://example.com/alisa', {
+                method: 'POST',
+                body: JSON.stringify(getContent('fetch')),
+            }),
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('application/json');
+        expect(getText(await response.text())).toBe('ответ: fetch');
+
+        const error = await handler(new Request('https://example.com/alisa'));
+        expect(error.status).toBe(405);
+    });
+
+    it('should reuse app context and database connection between invocations', async () => {
+        const tables: Record<string, TFileData> = {};
+        const fileAdapter = new FileAdapter();
+        fileAdapter.getFileData = (tableName: string): TFileData => (tables[tableName] ??= {});
+        const connect = jest.spyOn(fileAdapter, 'connect');
+        bot.getAppContext().saveFileData = jest.fn();
+        bot.use(fileAdapter);
+        const handler = bot.createHandler({ framework: 'yandex', appType: T_ALISA });
+
+        expect(getText(await handler(getContent('первый')))).toBe('ответ: первый');
+        expect(getText(await handler(getContent('второй')))).toBe('ответ: второй');
+
+        expect(connect).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,140 @@
+import { Bot, BotController } from '../../src';
+import { AhoCorasick } from '../../src/core/utils/AhoCorasick';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text ||= 'не понял';
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+describe('AhoCorasick', () => {
+    it('should return lowest priority of found patterns', () => {
+        const automaton = new AhoCorasick();
+        automaton.add('погода', 2);
+        automaton.add('года', 1);
+        automaton.add('помощь', 0);
+        automaton.add('he', 3);
+
+        expect(automaton.search('какая сегодня погода')).toBe(1);
+        expect(automaton.search('помощь по погоде')).toBe(0);
+        expect(automaton.search('shell')).toBe(3);
+        expect(automaton.search('привет')).toBe(-1);
+        expect(automaton.search('')).toBe(-1);
+    });
+
+    it('should follow suffix links', () => {
+        const automaton = new AhoCorasick();
+        automaton.add('abcd', 1);
+        automaton.add('bce', 0);
+        automaton.add('c', 2);
+
+        expect(automaton.search('xabce')).toBe(0);
+        expect(automaton.search('xabcx')).toBe(2);
+        expect(automaton.search('aabcd')).toBe(1);
+    });
+
+    it('should rebuild after adding patterns', () => {
+        const automaton = new AhoCorasick();
+        automaton.add('кот', 5);
+        expect(automaton.search('котик')).toBe(5);
+        automaton.add('тик', 1);
+        expect(automaton.search('котик')).toBe(1);
+    });
+
+    it('should match empty pattern', () => {
+        const automaton = new AhoCorasick();
+        automaton.add('', 4);
+        automaton.add('да', 1);
+
+        expect(automaton.search('нет')).toBe(4);
+        expect(automaton.search('да')).toBe(1);
+    });
+});
+
+describe('Slot index', () => {
+    let bot: Bot;
+
+    async function send(query: string): Promise<string | undefined> {
+        const res = (await bot.run(T_ALISA, getContent(query))) as IAlisaWebhookResponse;
+        return res.response?.text;
+    }
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should keep registration order for substring slots', async () => {
+        bot.addCommand('second', ['погода'], () => 'second');
+        bot.addCommand('first', ['какая'], () => 'first');
+        bot.addCommand('third', ['сегодня погода'], () => 'third');
+
+        expect(await send('какая сегодня погода')).toBe('second');
+        expect(await send('какая сегодня')).toBe('first');
+    });
+
+    it('should keep registration order with regex commands', async () => {
+        bot.addCommand('number', ['\\d+'], () => 'number', true);
+        bot.addCommand('weather', ['погода'], () => 'weather');
+        bot.addCommand('date', [/\d+ число/], () => 'date');
+
+        expect(await send('погода на 5 число')).toBe('number');
+        expect(await send('погода на завтра')).toBe('weather');
+        bot.removeCommand('number');
+        expect(await send('погода на 5 число')).toBe('weather');
+        expect(await send('на 5 число')).toBe('date');
+    });
+
+    it('should rebuild index after changing commands', async () => {
+        bot.addCommand('cat', ['кот'], () => 'cat');
+        expect(await send('кот мурчит')).toBe('cat');
+
+        bot.removeCommand('cat');
+        expect(await send('кот мурчит')).toBe('не понял');
+
+        bot.addCommand('purr', ['мурчит'], () => 'purr');
+        expect(await send('кот мурчит')).toBe('purr');
+
+        bot.clearCommands();
+        expect(await send('кот мурчит')).toBe('не понял');
+    });
+
+    it('should find command among many slots', async () => {
+        for (let i = 0; i < 5000; i++) {
+            bot.addCommand(`cmd_${i}`, [`команда_${i}_`], () => `cmd_${i}`);
+        }
+        const index = bot.getAppContext().command.getSlotIndex();
+
+        expect(index.names).toHaveLength(5000);
+        expect(index.sequential).toEqual([]);
+        expect(await send('выполни команда_4321_ сейчас')).toBe('cmd_4321');
+        expect(bot.getAppContext().command.getSlotIndex()).toBe(index);
+    });
+});
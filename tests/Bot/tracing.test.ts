@@ -0,0 +1,211 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Request } from '../../src/api';
+import { Bot, BotController, ETraceSpan, TTraceAttributes } from '../../src';
+import {
+    AlisaAdapter,
+    FileAdapter,
+    IAlisaWebhookResponse,
+    IOpenTelemetrySpan,
+    IOpenTelemetryTracer,
+    OpenTelemetryPlugin,
+    T_ALISA,
+    TFileData,
+} from '../../src/plugins';
+
+interface IFinishedSpan {
+    name: string;
+    parent: string | null;
+    attributes: TTraceAttributes;
+    status: { code: number; message?: string } | null;
+    exceptions: (Error | string)[];
+}
+
+/**
+ * Трассировщик, который сохраняет завершенные спаны в памяти
+ */
+class InMemoryTracer implements IOpenTelemetryTracer {
+    public spans: IFinishedSpan[] = [];
+    readonly #active = new AsyncLocalStorage<IFinishedSpan>();
+
+    startActiveSpan<T>(
+        name: string,
+        options: { attributes?: TTraceAttributes },
+        fn: (span: IOpenTelemetrySpan) => T,
+    ): T {
+        const data: IFinishedSpan = {
+            name,
+            parent: this.#active.getStore()?.name ?? null,
+            attributes: { ...options.attributes },
+            status: null,
+            exceptions: [],
+        };
+        const span: IOpenTelemetrySpan = {
+            setAttributes: (attributes) => Object.assign(data.attributes, attributes),
+            setStatus: (status) => (data.status = status),
+            recordException: (exception) => data.exceptions.push(exception),
+            end: () => this.spans.push(data),
+        };
+        return this.#active.run(data, () => fn(span));
+    }
+
+    get(name: string): IFinishedSpan[] {
+        return this.spans.filter((span) => span.name === name);
+    }
+}
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text ||= `ответ: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+describe('OpenTelemetryPlugin', () => {
+    let bot: Bot;
+    let tracer: InMemoryTracer;
+    let plugin: OpenTelemetryPlugin;
+
+    beforeEach(() => {
+        tracer = new InMemoryTracer();
+        plugin = new OpenTelemetryPlugin(tracer, {
+            attributes: { 'service.name': 'test-bot' },
+            includeUserId: true,
+        });
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+        bot.use(plugin);
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should trace request lifecycle', async () => {
+        bot.addCommand('hello', ['привет'], () => 'Привет!');
+
+        const response = await bot.handleRequest({
+            headers: { 'x-request-id': 'req-1' },
+            body: getContent('привет'),
+        });
+
+        expect((response.body as IAlisaWebhookResponse).response?.text).toBe('Привет!');
+        expect(tracer.spans.map(({ name, parent }) => [name, parent])).toEqual([
+            [ETraceSpan.PLATFORM_DETECT, ETraceSpan.WEBHOOK],
+            [ETraceSpan.SET_QUERY_DATA, ETraceSpan.RUN],
+            [ETraceSpan.HANDLER, ETraceSpan.RESOLVE],
+            [ETraceSpan.HANDLER, ETraceSpan.RESOLVE],
+            [ETraceSpan.RESOLVE, ETraceSpan.RUN],
+            [ETraceSpan.GET_CONTENT, ETraceSpan.RUN],
+            [ETraceSpan.RUN, ETraceSpan.WEBHOOK],
+            [ETraceSpan.WEBHOOK, null],
+        ]);
+        const [command, action] = tracer.get(ETraceSpan.HANDLER);
+        expect(command.attributes).toMatchObject({
+            'umbot.handler': 'command',
+            'umbot.command': 'hello',
+        });
+        expect(action.attributes['umbot.handler']).toBe('action');
+        expect(tracer.get(ETraceSpan.WEBHOOK)[0].attributes).toEqual({
+            'service.name': 'test-bot',
+            'http.request.method': 'POST',
+            'http.response.status_code': 200,
+            'umbot.request_id': 'req-1',
+            'umbot.platform': T_ALISA,
+            'umbot.command': 'hello',
+            'umbot.user_id': 'test',
+        });
+        for (const span of tracer.spans) {
+            expect(span.attributes['umbot.request_id']).toBe('req-1');
+        }
+    });
+
+    it('should trace middleware, database and steps', async () => {
+        const tables: Record<string, TFileData> = {};
+        const fileAdapter = new FileAdapter();
+        fileAdapter.getFileData = (tableName: string): TFileData => (tables[tableName] ??= {});
+        bot.getAppContext().saveFileData = jest.fn();
+        bot.use(fileAdapter);
+        bot.use((_ctx, next) => next());
+        bot.addStep('name', (ctx) => {
+            ctx.text = 'шаг';
+        });
+        bot.addCommand('start', ['начать'], (_cmd, ctx) => {
+            ctx.thisIntentName = 'name';
+        });
+
+        await bot.run(T_ALISA, getContent('начать'));
+        tracer.spans = [];
+        await bot.run(T_ALISA, getContent('Иван'));
+
+        expect(tracer.get(ETraceSpan.MIDDLEWARE)[0].parent).toBe(ETraceSpan.RUN);
+        expect(tracer.get(ETraceSpan.DB_LOAD)[0].parent).toBe(ETraceSpan.RUN);
+        expect(tracer.get(ETraceSpan.DB_SAVE)[0].parent).toBe(ETraceSpan.RUN);
+        expect(tracer.get(ETraceSpan.HANDLER)[0].attributes).toMatchObject({
+            'umbot.handler': 'step',
+            'umbot.step': 'name',
+        });
+        expect(tracer.get(ETraceSpan.RUN)[0].attributes['umbot.step']).toBe('name');
+    });
+
+    it('should record handler errors', async () => {
+        bot.addCommand('fail', ['ошибка'], () => {
+            throw new Error('fail');
+        });
+
+        await bot.run(T_ALISA, getContent('ошибка'));
+
+        const [handler] = tracer.get(ETraceSpan.HANDLER);
+        expect(handler.status).toEqual({ code: 2, message: 'fail' });
+        expect(handler.exceptions).toHaveLength(1);
+        expect(tracer.get(ETraceSpan.RUN)[0].status).toBeNull();
+    });
+
+    it('should trace outbound requests', async () => {
+        const appContext = bot.getAppContext();
+        appContext.httpClient = jest.fn(() =>
+            Promise.resolve(new Response('{"error":"bad"}', { status: 400 })),
+        );
+        const request = new Request(appContext);
+        request.post = { text: 'hi' };
+
+        const res = await request.send('https://api.example.com/bot123:secret/sendMessage');
+
+        expect(res.status).toBe(false);
+        const [span] = tracer.get(ETraceSpan.REQUEST);
+        expect(span.attributes).toMatchObject({
+            'http.request.method': 'POST',
+            'server.address': 'api.example.com',
+            'http.response.status_code': 400,
+        });
+        expect(span.status?.code).toBe(2);
+    });
+
+    it('should disable tracing on destroy', async () => {
+        plugin.destroy(bot);
+        await bot.run(T_ALISA, getContent('привет'));
+
+        expect(bot.getAppContext().usedTracer).toBe(false);
+        expect(tracer.spans).toEqual([]);
+    });
+});
@@ -0,0 +1,209 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { Bot, BotController, IFastifyReply, IKoaContext, TNodeWebhookRequest } from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, T_ALISA } from '../../src/plugins';
+
+class TestBotController extends BotController {
+    action(): void {
+        this.text = `ответ: ${this.userCommand}`;
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+function getRequest(body: string | null, props: object = {}): TNodeWebhookRequest {
+    const req = Readable.from(
+        body === null ? [] : [Buffer.from(body)],
+    ) as unknown as TNodeWebhookRequest;
+    req.method = 'POST';
+    req.headers = {};
+    req.url = '/';
+    return Object.assign(req, props);
+}
+
+function getResponse(): ServerResponse & { body?: string } {
+    const res = {
+        statusCode: 0,
+        setHeader: jest.fn(),
+        end: jest.fn((body: string) => {
+            res.body = body;
+        }),
+    } as unknown as ServerResponse & { body?: string };
+    return res;
+}
+
+function getKoaContext(path: string, body?: unknown): IKoaContext {
+    return {
+        method: 'POST',
+        path,
+        headers: {},
+        req: Readable.from([]) as unknown as IncomingMessage,
+        request: { body },
+        status: 404,
+        body: undefined,
+    };
+}
+
+function getText(body: unknown): string | undefined {
+    const res = (typeof body === 'string' ? JSON.parse(body) : body) as IAlisaWebhookResponse;
+    return res.response?.text;
+}
+
+describe('Bot webhook handlers', () => {
+    let bot: Bot;
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await bot.close();
+    });
+
+    it('should use pre-parsed body without reading stream', async () => {
+        const req = getRequest(null, { body: getContent('привет') });
+        const onData = jest.spyOn(req, 'on');
+        const res = getResponse();
+
+        await bot.webhookHandle(req, res);
+
+        expect(onData).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(200);
+        expect(getText(res.body)).toBe('ответ: привет');
+    });
+
+    it('should read body from stream when it is not parsed', async () => {
+        const res = getResponse();
+
+        await bot.createHandler()(getRequest(JSON.stringify(getContent('поток'))), res);
+
+        expect(getText(res.body)).toBe('ответ: поток');
+    });
+
+    it('should use platform of handler instead of detection', async () => {
+        const detect = jest
+            .spyOn(AlisaAdapter.prototype, 'isPlatformOnQuery')
+            .mockReturnValue(false);
+        const res = getResponse();
+
+        await bot.createHandler({ appType: T_ALISA })(
+            getRequest(null, { body: getContent('привет') }),
+            res,
+        );
+
+        expect(detect).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(200);
+
+        await bot.createHandler()(getRequest(null, { body: getContent('привет') }), res);
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should check signature by raw body', async () => {
+        const isCorrectQuery = jest
+            .spyOn(AlisaAdapter.prototype, 'isCorrectQuery')
+            .mockReturnValue(false);
+        const rawBody = Buffer.from(JSON.stringify(getContent('привет')));
+
+        const response = await bot.handleRequest({
+            body: getContent('привет'),
+            rawBody,
+            headers: { 'x-signature': 'sign' },
+            appType: T_ALISA,
+        });
+
+        expect(response.statusCode).toBe(401);
+        expect(isCorrectQuery).toHaveBeenCalledWith(rawBody.toString(), {
+            'x-signature': 'sign',
+        });
+    });
+
+    it('should create fastify handler', async () => {
+        const reply = { code: jest.fn(), send: jest.fn((body: unknown) => body) };
+
+        const result = await bot.createHandler({ framework: 'fastify', appType: T_ALISA })(
+            { method: 'POST', headers: {}, body: getContent('fastify') },
+            reply as IFastifyReply,
+        );
+
+        expect(reply.code).toHaveBeenCalledWith(200);
+        expect(getText(result)).toBe('ответ: fastify');
+    });
+
+    it('should create koa handler', async () => {
+        const ctx = getKoaContext('/alisa', getContent('koa'));
+
+        await bot.createHandler({ framework: 'koa' })(ctx);
+
+        expect(ctx.status).toBe(200);
+        expect(getText(ctx.body)).toBe('ответ: koa');
+    });
+
+    it('should route express requests by path', async () => {
+        const middleware = bot.middleware({ routes: { '/alisa/': T_ALISA, '/auto': 'auto' } });
+        const next = jest.fn();
+        let res = getResponse();
+
+        await middleware(getRequest(null, { body: getContent('a'), url: '/tg' }), res, next);
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(res.end).not.toHaveBeenCalled();
+
+        await middleware(
+            getRequest(null, { body: getContent('alisa'), url: '/alisa?id=1' }),
+            res,
+            next,
+        );
+        expect(getText(res.body)).toBe('ответ: alisa');
+
+        res = getResponse();
+        await middleware(
+            getRequest(null, { body: getContent('auto'), path: '/auto', url: '/bots/auto' }),
+            res,
+            next,
+        );
+        expect(getText(res.body)).toBe('ответ: auto');
+        expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should route koa requests by path', async () => {
+        const middleware = bot.middleware({ framework: 'koa', routes: { '/alisa': T_ALISA } });
+        const next = jest.fn(() => Promise.resolve());
+
+        const other = getKoaContext('/vk', getContent('vk'));
+        await middleware(other, next);
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(other.status).toBe(404);
+
+        const ctx = getKoaContext('/alisa', getContent('alisa'));
+        await middleware(ctx, next);
+        expect(getText(ctx.body)).toBe('ответ: alisa');
+        expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return error response for not allowed method', async () => {
+        const response = await bot.handleRequest({ method: 'GET' });
+
+        expect(response).toEqual({ statusCode: 405, body: 'Method Not Allowed' });
+    });
+});
@@ -0,0 +1,47 @@
+import { getNextCronDate, parseCron } from '../../src';
+
+describe('Cron', () => {
+    it('should parse cron expression', () => {
+        const cron = parseCron('*/15 9-11 1,15 * 1-5');
+
+        expect(cron).not.toBeNull();
+        expect([...(cron?.minutes || [])]).toEqual([0, 15, 30, 45]);
+        expect([...(cron?.hours || [])]).toEqual([9, 10, 11]);
+        expect([...(cron?.days || [])]).toEqual([1, 15]);
+        expect(cron?.months.size).toBe(12);
+        expect([...(cron?.weekDays || [])]).toEqual([1, 2, 3, 4, 5]);
+        expect([...(parseCron('0 0 * * 7')?.weekDays || [])]).toEqual([0]);
+    });
+
+    it('should return null for invalid expression', () => {
+        expect(parseCron('* * * *')).toBeNull();
+        expect(parseCron('60 * * * *')).toBeNull();
+        expect(parseCron('* * 0 * *')).toBeNull();
+        expect(parseCron('*/0 * * * *')).toBeNull();
+        expect(parseCron('5-1 * * * *')).toBeNull();
+        expect(parseCron('a * * * *')).toBeNull();
+        expect(getNextCronDate('foo')).toBeNull();
+    });
+
+    it('should get next date', () => {
+        const from = new Date(2026, 0, 1, 10, 0);
+
+        expect(getNextCronDate('0 9 * * *', from)).toEqual(new Date(2026, 0, 2, 9, 0));
+        expect(getNextCronDate('*/30 * * * *', from)).toEqual(new Date(2026, 0, 1, 10, 30));
+        expect(getNextCronDate('0 9 1 * *', from)).toEqual(new Date(2026, 1, 1, 9, 0));
+        // 1 января 2026 — четверг
+        expect(getNextCronDate('0 9 * * 1', from)).toEqual(new Date(2026, 0, 5, 9, 0));
+        expect(getNextCronDate('0 9 * 3 *', from)).toEqual(new Date(2026, 2, 1, 9, 0));
+    });
+
+    it('should use OR for day of month and day of week', () => {
+        const from = new Date(2026, 0, 1, 10, 0);
+
+        expect(getNextCronDate('0 9 20 * 1', from)).toEqual(new Date(2026, 0, 5, 9, 0));
+        expect(getNextCronDate('0 9 2 * 1', from)).toEqual(new Date(2026, 0, 2, 9, 0));
+    });
+
+    it('should return null for impossible date', () => {
+        expect(getNextCronDate('0 0 30 2 *', new Date(2026, 0, 1))).toBeNull();
+    });
+});
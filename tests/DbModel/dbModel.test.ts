@@ -214,6 +214,28 @@ describe('Db file connect', () => {
         expect(await userData.whereOne(query)).toBe(false);
     });
 
+    it('Where page', async () => {
+        let res = await userData.wherePage('1', null, 2);
+        expect((res.data as Record<string, unknown>[]).map((item) => item.userId)).toEqual([
+            'userId1',
+            'userId13',
+        ]);
+
+        res = await userData.wherePage('1', 'userId13', 2);
+        expect((res.data as Record<string, unknown>[]).map((item) => item.userId)).toEqual([
+            'userId2',
+            'userId3',
+        ]);
+
+        res = await userData.wherePage({ meta: 'user meta 1' }, 'userId1', 2);
+        expect((res.data as Record<string, unknown>[]).map((item) => item.userId)).toEqual([
+            'userId13',
+        ]);
+
+        res = await userData.wherePage('1', 'userId3', 2);
+        expect(res).toEqual({ status: true, data: [] });
+    });
+
     it('Delete data', async () => {
         const query = '`userId`="userId1"';
         userData.userId = 'userId1';
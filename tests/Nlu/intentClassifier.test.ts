@@ -0,0 +1,172 @@
+import {
+    Bot,
+    BotController,
+    IAppIntent,
+    IIntentPrediction,
+    IntentClassifier,
+    stemRu,
+} from '../../src';
+import { AlisaAdapter, IAlisaWebhookResponse, LocalNluPlugin, T_ALISA } from '../../src/plugins';
+
+const INTENTS: IAppIntent[] = [
+    { name: 'weather', slots: ['какая погода', 'прогноз погоды на завтра', 'будет ли дождь'] },
+    { name: 'music', slots: ['включи музыку', 'поставь песню', 'хочу послушать музыку'] },
+    {
+        name: 'alarm',
+        slots: ['поставь будильник', 'разбуди меня в 7', 'установи будильник на утро'],
+    },
+    { name: 'number', slots: ['\\d+'], is_pattern: true },
+];
+
+class TestBotController extends BotController {
+    public predictions: IIntentPrediction[] = [];
+
+    action(intentName: string | null): void {
+        this.predictions = this.nlu.getTopIntents();
+        this.text = intentName || 'не понял';
+    }
+}
+
+function getContent(query: string): object {
+    return {
+        meta: { locale: 'ru-Ru', timezone: 'UTC', client_id: 'local', interfaces: {} },
+        session: {
+            message_id: 1,
+            session_id: 'local',
+            skill_id: 'local_test',
+            user_id: 'test',
+            new: false,
+        },
+        request: {
+            command: query,
+            original_utterance: query,
+            nlu: {},
+            type: 'SimpleUtterance',
+        },
+        version: '1.0',
+    };
+}
+
+describe('stemRu', () => {
+    it('should reduce word forms to one stem', () => {
+        expect(stemRu('погода')).toBe('погод');
+        expect(stemRu('погоды')).toBe('погод');
+        expect(stemRu('погоде')).toBe('погод');
+        expect(stemRu('включить')).toBe(stemRu('включи'));
+        expect(stemRu('музыку')).toBe(stemRu('музыка'));
+        expect(stemRu('радость')).toBe('радост');
+        expect(stemRu('ёлка')).toBe('елк');
+        expect(stemRu('я')).toBe('я');
+    });
+});
+
+describe('IntentClassifier', () => {
+    let classifier: IntentClassifier;
+
+    beforeEach(() => {
+        classifier = new IntentClassifier().train(INTENTS);
+    });
+
+    it('should classify other word forms and typos', () => {
+        expect(classifier.classify('какой прогноз погоды')[0].name).toBe('weather');
+        expect(classifier.classify('включи музыкк')[0].name).toBe('music');
+        expect(classifier.classify('будильник на завтра')[0].name).toBe('alarm');
+    });
+
+    it('should return top-k intents sorted by confidence', () => {
+        const predictions = classifier.classify('поставь', 2);
+
+        expect(predictions).toHaveLength(2);
+        expect(predictions.map((prediction) => prediction.name)).toEqual(['music', 'alarm']);
+        expect(predictions[0].confidence).toBeGreaterThan(predictions[1].confidence);
+        expect(predictions[0].confidence).toBeLessThanOrEqual(100);
+    });
+
+    it('should give low confidence for unknown text', () => {
+        expect(classifier.classify('абракадабра')[0].confidence).toBeLessThan(50);
+        expect(classifier.classify('xyz')).toEqual([]);
+        expect(classifier.classify('')).toEqual([]);
+    });
+
+    it('should skip pattern intents', () => {
+        expect(classifier.toJSON().classes.map((data) => data.name)).toEqual([
+            'weather',
+            'music',
+            'alarm',
+        ]);
+    });
+
+    it('should restore model from JSON', () => {
+        const model = JSON.parse(JSON.stringify(classifier));
+        const restored = IntentClassifier.fromJSON(model);
+
+        expect(restored.isTrained).toBe(true);
+        expect(restored.classify('погоду покажи')).toEqual(classifier.classify('погоду покажи'));
+        expect(() => IntentClassifier.fromJSON({ ...model, version: 2 })).toThrow();
+    });
+});
+
+describe('LocalNluPlugin', () => {
+    let bot: Bot;
+
+    async function send(query: string): Promise<string | undefined> {
+        const res = (await bot.run(T_ALISA, getContent(query))) as IAlisaWebhookResponse;
+        return res.response?.text;
+    }
+
+    beforeEach(() => {
+        bot = new Bot();
+        bot.setLogger({ error: () => {}, warn: () => {} });
+        bot.initBotController(TestBotController);
+        bot.use(new AlisaAdapter());
+        bot.setPlatformParams({ intents: INTENTS });
+    });
+
+    afterEach(async () => {
+        await bot.close();
+    });
+
+    it('should find intent by classifier', async () => {
+        expect(await send('погоду покажи')).toBe('не понял');
+
+        bot.use(new LocalNluPlugin());
+        expect(await send('погоду покажи')).toBe('weather');
+        expect(await send('какая погода')).toBe('weather');
+        expect(await send('абракадабра')).toBe('не понял');
+    });
+
+    it('should add top intents with confidence to nlu', async () => {
+        let predictions: IIntentPrediction[] = [];
+        bot.use(new LocalNluPlugin({ threshold: 10, topK: 2 }));
+        bot.use((ctx, next) => {
+            predictions = ctx.nlu.getTopIntents();
+            return next();
+        });
+
+        await send('поставь');
+        expect(predictions.map((prediction) => prediction.name)).toEqual(['music', 'alarm']);
+        expect(predictions[0].confidence).toBeGreaterThan(50);
+    });
+
+    it('should retrain after changing intents', async () => {
+        const plugin = new LocalNluPlugin();
+        bot.use(plugin);
+        expect(await send('закажи пиццу')).toBe('не понял');
+
+        bot.setPlatformParams({
+            intents: [...INTENTS, { name: 'food', slots: ['заказать пиццу'] }],
+        });
+        expect(await send('закажи пиццу')).toBe('food');
+        expect(plugin.classifier.toJSON().classes).toHaveLength(4);
+    });
+
+    it('should use saved model', async () => {
+        const model = new IntentClassifier().train(INTENTS).toJSON();
+        bot.setPlatformParams({ intents: [...INTENTS, { name: 'food', slots: ['пицца'] }] });
+        bot.use(new LocalNluPlugin({ model }));
+
+        expect(await send('включи музыкк')).toBe('music');
+        expect(await send('пицца')).toBe('food');
+        expect(await send('закажи пиццу')).toBe('не понял');
+    });
+});
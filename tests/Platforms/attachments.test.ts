@@ -0,0 +1,274 @@
+import { AppContext, BaseBotController } from '../../src';
+import {
+    IMaxRequestContent,
+    IViberContent,
+    IVkRequestContent,
+    MaxAdapter,
+    ViberAdapter,
+    VkAdapter,
+} from '../../src/plugins';
+
+describe('Inbound attachments', () => {
+    let appContext: AppContext;
+    let controller: BaseBotController;
+
+    beforeEach(() => {
+        appContext = new AppContext();
+        appContext.logError = jest.fn();
+        appContext.httpClient = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ response: [{ first_name: 'Иван', last_name: 'Иванов' }] }),
+        });
+        controller = new BaseBotController(appContext);
+    });
+
+    describe('VkAdapter', () => {
+        let adapter: VkAdapter;
+
+        beforeEach(() => {
+            adapter = new VkAdapter('vk-token');
+            adapter.init(appContext);
+        });
+
+        function getMessage(message: object): IVkRequestContent {
+            return {
+                type: 'message_new',
+                group_id: 1,
+                object: { message: { id: 5, from_id: 7, text: '', ...message } },
+            } as unknown as IVkRequestContent;
+        }
+
+        it('should map photo, voice and document', async () => {
+            await adapter.setQueryData(
+                getMessage({
+                    attachments: [
+                        {
+                            type: 'photo',
+                            photo: {
+                                id: 1,
+                                owner_id: 7,
+                                access_key: 'key',
+                                sizes: [
+                                    { type: 's', url: 'https://vk.com/s.jpg' },
+                                    { type: 'x', url: 'https://vk.com/x.jpg' },
+                                ],
+                            },
+                        },
+                        {
+                            type: 'audio_message',
+                            audio_message: { id: 2, owner_id: 7, link_ogg: 'https://vk.com/a.ogg' },
+                        },
+                        {
+                            type: 'doc',
+                            doc: {
+                                id: 3,
+                                owner_id: 7,
+                                title: 'a.pdf',
+                                size: 10,
+                                url: 'https://vk.com/a.pdf',
+                            },
+                        },
+                    ],
+                }),
+                controller,
+            );
+
+            expect(controller.attachments).toEqual([
+                expect.objectContaining({
+                    type: 'photo',
+                    fileId: 'photo7_1_key',
+                    url: 'https://vk.com/x.jpg',
+                }),
+                expect.objectContaining({
+                    type: 'voice',
+                    fileId: 'audio_message7_2',
+                    url: 'https://vk.com/a.ogg',
+                }),
+                expect.objectContaining({
+                    type: 'document',
+                    name: 'a.pdf',
+                    size: 10,
+                    url: 'https://vk.com/a.pdf',
+                }),
+            ]);
+            expect(controller.hasAttachment()).toBe(true);
+            expect(controller.hasAttachment('voice')).toBe(true);
+            expect(controller.hasAttachment('video')).toBe(false);
+        });
+
+        it('should map geo to location', async () => {
+            await adapter.setQueryData(
+                getMessage({ geo: { coordinates: { latitude: 55.75, longitude: 37.61 } } }),
+                controller,
+            );
+
+            expect(controller.attachments).toEqual([
+                expect.objectContaining({
+                    type: 'location',
+                    coordinates: { lat: 55.75, lon: 37.61 },
+                }),
+            ]);
+        });
+    });
+
+    describe('ViberAdapter', () => {
+        let adapter: ViberAdapter;
+
+        beforeEach(() => {
+            adapter = new ViberAdapter('viber-token');
+            adapter.init(appContext);
+        });
+
+        function getMessage(message: object): IViberContent {
+            return {
+                event: 'message',
+                message_token: 1,
+                sender: { id: 'user', name: 'Иван' },
+                message: { text: '', ...message },
+            } as unknown as IViberContent;
+        }
+
+        it('should map picture and file', async () => {
+            await adapter.setQueryData(
+                getMessage({
+                    type: 'picture',
+                    text: 'Чек',
+                    media: 'https://viber.com/p.jpg',
+                }),
+                controller,
+            );
+            expect(controller.attachments).toEqual([
+                expect.objectContaining({
+                    type: 'photo',
+                    url: 'https://viber.com/p.jpg',
+                    caption: 'Чек',
+                }),
+            ]);
+
+            await adapter.setQueryData(
+                getMessage({
+                    type: 'file',
+                    media: 'https://viber.com/a.pdf',
+                    file_name: 'a.pdf',
+                    file_size: 20,
+                }),
+                controller,
+            );
+            expect(controller.attachments[0]).toMatchObject({
+                type: 'document',
+                name: 'a.pdf',
+                size: 20,
+            });
+        });
+
+        it('should map location and contact', async () => {
+            await adapter.setQueryData(
+                getMessage({ type: 'location', location: { lat: 1, lon: 2 } }),
+                controller,
+            );
+            expect(controller.attachments[0]).toMatchObject({
+                type: 'location',
+                coordinates: { lat: 1, lon: 2 },
+            });
+
+            await adapter.setQueryData(
+                getMessage({
+                    type: 'contact',
+                    contact: { name: 'Пётр', phone_number: '+79990000000' },
+                }),
+                controller,
+            );
+            expect(controller.attachments[0]).toMatchObject({
+                type: 'contact',
+                contact: { phone: '+79990000000', firstName: 'Пётр' },
+            });
+        });
+
+        it('should leave attachments empty for text', async () => {
+            await adapter.setQueryData(getMessage({ type: 'text', text: 'Привет' }), controller);
+
+            expect(controller.attachments).toEqual([]);
+            expect(controller.hasAttachment()).toBe(false);
+        });
+    });
+
+    describe('MaxAdapter', () => {
+        let adapter: MaxAdapter;
+
+        beforeEach(() => {
+            adapter = new MaxAdapter('max-token');
+            adapter.init(appContext);
+        });
+
+        function getMessage(attachments: object): IMaxRequestContent {
+            return {
+                update_type: 'message_created',
+                message: {
+                    sender: { user_id: 7, username: 'user' },
+                    body: { mid: '1', seq: 1, text: '', attachments },
+                },
+            } as unknown as IMaxRequestContent;
+        }
+
+        it('should map image, file and location', async () => {
+            await adapter.setQueryData(
+                getMessage([
+                    { type: 'image', payload: { url: 'https://max.ru/i.jpg', token: 't1' } },
+                    {
+                        type: 'file',
+                        payload: { url: 'https://max.ru/a.pdf', token: 't2' },
+                        filename: 'a.pdf',
+                        size: 30,
+                    },
+                    { type: 'location', latitude: 55.75, longitude: 37.61 },
+                ]),
+                controller,
+            );
+
+            expect(controller.attachments).toEqual([
+                expect.objectContaining({
+                    type: 'photo',
+                    fileId: 't1',
+                    url: 'https://max.ru/i.jpg',
+                }),
+                expect.objectContaining({
+                    type: 'document',
+                    fileId: 't2',
+                    name: 'a.pdf',
+                    size: 30,
+                }),
+                expect.objectContaining({
+                    type: 'location',
+                    coordinates: { lat: 55.75, lon: 37.61 },
+                }),
+            ]);
+        });
+
+        it('should map single contact attachment', async () => {
+            await adapter.setQueryData(
+                getMessage({
+                    type: 'contact',
+                    payload: {
+                        vcf_info: 'BEGIN:VCARD\nTEL;TYPE=cell:+79990000000\nEND:VCARD',
+                        max_info: { user_id: 8, first_name: 'Пётр' },
+                    },
+                }),
+                controller,
+            );
+
+            expect(controller.attachments[0]).toMatchObject({
+                type: 'contact',
+                contact: { phone: '+79990000000', firstName: 'Пётр', userId: 8 },
+            });
+        });
+
+        it('should skip inline keyboard', async () => {
+            await adapter.setQueryData(
+                getMessage([{ type: 'inline_keyboard', payload: { buttons: [] } }]),
+                controller,
+            );
+
+            expect(controller.attachments).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,338 @@
+import { AppContext, Bot, DbOutboundQueue, isOutboundQueued, OutboundQueue } from '../../src';
+import {
+    FileAdapter,
+    T_TELEGRAM,
+    T_VK,
+    TelegramAdapter,
+    TelegramRequest,
+    TFileData,
+    VkAdapter,
+    VkRequest,
+} from '../../src/plugins';
+
+function getResponse(status: number, body: object): object {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body,
+    };
+}
+
+const TELEGRAM_OK = { ok: true, result: { message_id: 1 } };
+
+describe('OutboundQueue', () => {
+    let bot: Bot;
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+    let logError: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        bot = new Bot();
+        logError = jest.fn();
+        bot.setLogger({ error: logError, warn: () => {} });
+        bot.use(new TelegramAdapter('123:token'));
+        bot.use(new VkAdapter('vk-token'));
+        appContext = bot.getAppContext();
+        httpClient = jest.fn();
+        appContext.httpClient = httpClient;
+    });
+
+    afterEach(async () => {
+        await bot.close();
+        jest.useRealTimers();
+    });
+
+    it('should use queue by default', async () => {
+        expect(appContext.outboundQueue).toBeInstanceOf(OutboundQueue);
+        httpClient
+            .mockResolvedValueOnce(getResponse(502, {}))
+            .mockResolvedValueOnce(getResponse(200, TELEGRAM_OK));
+
+        await new TelegramRequest(appContext).sendMessage(1, 'Привет');
+        await jest.advanceTimersByTimeAsync(500);
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send message directly without queue', async () => {
+        bot.setOutboundQueue(null);
+        httpClient.mockResolvedValue(getResponse(502, {}));
+
+        const res = await new TelegramRequest(appContext).sendMessage(1, 'Привет');
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(res).toBeNull();
+        expect(httpClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait retry_after on telegram 429', async () => {
+        const queue = new OutboundQueue();
+        bot.setOutboundQueue(queue);
+        httpClient
+            .mockResolvedValueOnce(
+                getResponse(429, {
+                    ok: false,
+                    error_code: 429,
+                    description: 'Too Many Requests: retry after 2',
+                    parameters: { retry_after: 2 },
+                }),
+            )
+            .mockResolvedValueOnce(getResponse(200, TELEGRAM_OK));
+
+        expect(await new TelegramRequest(appContext).sendMessage(1, 'Привет')).toBeNull();
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(httpClient.mock.calls[1][0]).toBe(
+            'https://api.telegram.org/bot123:token/sendMessage',
+        );
+        expect(JSON.parse(httpClient.mock.calls[1][1].body)).toEqual(
+            expect.objectContaining({ chat_id: 1, text: 'Привет' }),
+        );
+        expect(queue.deadLetters).toEqual([]);
+    });
+
+    it('should return before retry delay and limit retry_after by maxDelay', async () => {
+        const queue = new OutboundQueue({ maxDelay: 5000 });
+        bot.setOutboundQueue(queue);
+        httpClient
+            .mockResolvedValueOnce(
+                getResponse(429, {
+                    ok: false,
+                    error_code: 429,
+                    description: 'Too Many Requests: retry after 60',
+                    parameters: { retry_after: 60 },
+                }),
+            )
+            .mockResolvedValueOnce(getResponse(200, TELEGRAM_OK));
+
+        let isDone = false;
+        const promise = new TelegramRequest(appContext).sendMessage(1, 'Привет').then((res) => {
+            isDone = true;
+            return res;
+        });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(isDone).toBe(true);
+        expect(await promise).toBeNull();
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(queue.deadLetters).toEqual([]);
+    });
+
+    it('should return queued result for message retried in background', async () => {
+        const queue = new OutboundQueue();
+        bot.setOutboundQueue(queue);
+        httpClient
+            .mockResolvedValueOnce(getResponse(502, {}))
+            .mockResolvedValueOnce(getResponse(400, { ok: false, error_code: 400 }));
+
+        const queued = await queue.push({
+            platform: T_TELEGRAM,
+            method: 'sendMessage',
+            params: { chat_id: 1, text: 'Привет' },
+        });
+        const failed = await queue.push({
+            platform: T_TELEGRAM,
+            method: 'sendMessage',
+            params: { chat_id: 2, text: 'Привет' },
+        });
+
+        expect(queued).toEqual({ status: 'queued', messageId: expect.any(String) });
+        expect(isOutboundQueued(queued)).toBe(true);
+        expect(failed).toBeNull();
+    });
+
+    it('should retry vk error 6 and add token on execution', async () => {
+        bot.setOutboundQueue(new OutboundQueue());
+        httpClient
+            .mockResolvedValueOnce(
+                getResponse(200, {
+                    error: { error_code: 6, error_msg: 'Too many requests per second' },
+                }),
+            )
+            .mockResolvedValueOnce(getResponse(200, { response: 10 }));
+
+        expect(await new VkRequest(appContext).messagesSend(1, 'Привет')).toBeNull();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(httpClient.mock.calls[1][1].body).toContain('access_token=vk-token');
+    });
+
+    it('should retry with token passed to request', async () => {
+        bot.setOutboundQueue(new OutboundQueue({ baseDelay: 100 }));
+        httpClient
+            .mockResolvedValueOnce(getResponse(502, {}))
+            .mockResolvedValueOnce(getResponse(200, TELEGRAM_OK))
+            .mockResolvedValueOnce(getResponse(502, {}))
+            .mockResolvedValueOnce(getResponse(200, { response: 10 }));
+
+        const telegram = new TelegramRequest(appContext);
+        telegram.initToken('456:other');
+        await telegram.sendMessage(1, 'Привет');
+        await jest.advanceTimersByTimeAsync(100);
+        const vk = new VkRequest(appContext);
+        vk.initToken('vk-other');
+        await vk.messagesSend(1, 'Привет');
+        await jest.advanceTimersByTimeAsync(100);
+
+        expect(httpClient).toHaveBeenCalledTimes(4);
+        expect(httpClient.mock.calls[0][0]).toBe(
+            'https://api.telegram.org/bot456:other/sendMessage',
+        );
+        expect(httpClient.mock.calls[1][0]).toBe(
+            'https://api.telegram.org/bot456:other/sendMessage',
+        );
+        expect(httpClient.mock.calls[3][1].body).toContain('access_token=vk-other');
+    });
+
+    it('should use exponential backoff and move message to dead letters', async () => {
+        const queue = new OutboundQueue({ maxAttempts: 3, baseDelay: 100 });
+        bot.setOutboundQueue(queue);
+        httpClient.mockResolvedValue(getResponse(502, {}));
+
+        expect(await new TelegramRequest(appContext).sendMessage(1, 'Привет')).toBeNull();
+        await jest.advanceTimersByTimeAsync(99);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(200);
+
+        expect(httpClient).toHaveBeenCalledTimes(3);
+        expect(queue.deadLetters).toEqual([
+            expect.objectContaining({ platform: T_TELEGRAM, method: 'sendMessage', attempts: 3 }),
+        ]);
+        expect(logError).toHaveBeenCalledWith(expect.stringContaining('OutboundQueue'), undefined);
+    });
+
+    it('should not multiply queue attempts by request policy retries', async () => {
+        const queue = new OutboundQueue({ maxAttempts: 2, baseDelay: 100 });
+        bot.setOutboundQueue(queue);
+        bot.setRequestPolicy({ retry: { retries: 3, baseDelay: 10, jitter: 0 } });
+        httpClient.mockResolvedValue(getResponse(502, {}));
+
+        await new TelegramRequest(appContext).sendMessage(1, 'Привет');
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(queue.deadLetters).toHaveLength(1);
+    });
+
+    it('should not retry permanent error', async () => {
+        const queue = new OutboundQueue();
+        bot.setOutboundQueue(queue);
+        httpClient.mockResolvedValue(
+            getResponse(400, { ok: false, error_code: 400, description: 'chat not found' }),
+        );
+
+        expect(await new TelegramRequest(appContext).sendMessage(1, 'Привет')).toBeNull();
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(queue.deadLetters[0]).toEqual(
+            expect.objectContaining({ attempts: 1, error: expect.stringContaining('400') }),
+        );
+    });
+
+    it('should not retry vk permanent error', async () => {
+        const queue = new OutboundQueue();
+        bot.setOutboundQueue(queue);
+        httpClient.mockResolvedValue(
+            getResponse(200, { error: { error_code: 901, error_msg: 'Can not send' } }),
+        );
+
+        expect(await new VkRequest(appContext).messagesSend(1, 'Привет')).toBeNull();
+        expect(queue.deadLetters[0]).toEqual(
+            expect.objectContaining({ platform: T_VK, error: 'Can not send' }),
+        );
+    });
+
+    it('should stop retries on close', async () => {
+        const queue = new OutboundQueue();
+        bot.setOutboundQueue(queue);
+        httpClient.mockResolvedValue(getResponse(500, {}));
+
+        expect(await new TelegramRequest(appContext).sendMessage(1, 'Привет')).toBeNull();
+        await bot.close();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(httpClient).toHaveBeenCalledTimes(1);
+    });
+
+    describe('DbOutboundQueue', () => {
+        let tables: Record<string, TFileData>;
+
+        beforeEach(() => {
+            appContext.saveFileData = jest.fn();
+            tables = {};
+            const fileAdapter = new FileAdapter();
+            fileAdapter.getFileData = (tableName: string): TFileData => (tables[tableName] ??= {});
+            bot.use(fileAdapter);
+        });
+
+        it('should store message until it is sent', async () => {
+            bot.setOutboundQueue(new DbOutboundQueue({ baseDelay: 100 }));
+            httpClient
+                .mockResolvedValueOnce(getResponse(500, {}))
+                .mockResolvedValueOnce(getResponse(200, TELEGRAM_OK));
+
+            expect(await new TelegramRequest(appContext).sendMessage(1, 'Привет')).toBeNull();
+            const stored = Object.values(tables.OutboundMessages);
+            expect(stored).toEqual([
+                expect.objectContaining({
+                    platform: T_TELEGRAM,
+                    method: 'sendMessage',
+                    attempts: 1,
+                }),
+            ]);
+            expect(JSON.parse(stored[0].params as string)).toEqual(
+                expect.objectContaining({ chat_id: 1, text: 'Привет' }),
+            );
+            await jest.advanceTimersByTimeAsync(100);
+
+            expect(httpClient).toHaveBeenCalledTimes(2);
+            expect(tables.OutboundMessages).toEqual({});
+        });
+
+        it('should save dead letters', async () => {
+            bot.setOutboundQueue(new DbOutboundQueue());
+            httpClient.mockResolvedValue(getResponse(403, { ok: false, error_code: 403 }));
+
+            await new TelegramRequest(appContext).sendMessage(1, 'Привет');
+
+            expect(tables.OutboundMessages).toEqual({});
+            expect(Object.values(tables.DeadLetters)).toEqual([
+                expect.objectContaining({ platform: T_TELEGRAM, method: 'sendMessage' }),
+            ]);
+        });
+
+        it('should restore messages after restart', async () => {
+            tables.OutboundMessages = {
+                saved: {
+                    messageId: 'saved',
+                    platform: T_TELEGRAM,
+                    method: 'sendMessage',
+                    params: JSON.stringify({ chat_id: 5, text: 'Сохраненное' }),
+                    attempts: 2,
+                    error: 'error',
+                    createdAt: 1,
+                },
+            };
+            const queue = new DbOutboundQueue();
+            bot.setOutboundQueue(queue);
+            httpClient.mockResolvedValue(getResponse(200, TELEGRAM_OK));
+
+            await queue.restore();
+
+            expect(httpClient).toHaveBeenCalledTimes(1);
+            expect(JSON.parse(httpClient.mock.calls[0][1].body)).toEqual({
+                chat_id: 5,
+                text: 'Сохраненное',
+            });
+            expect(tables.OutboundMessages).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,306 @@
+import { AppContext, BaseBotController } from '../../src';
+import { ITelegramContent, TelegramAdapter, TelegramRequest } from '../../src/plugins';
+
+function getMessageUpdate(message: object): ITelegramContent {
+    return {
+        update_id: 1,
+        message: {
+            message_id: 10,
+            chat: { id: 42 },
+            ...message,
+        },
+    } as ITelegramContent;
+}
+
+describe('TelegramAdapter attachments', () => {
+    let appContext: AppContext;
+    let adapter: TelegramAdapter;
+    let controller: BaseBotController;
+
+    beforeEach(() => {
+        appContext = new AppContext();
+        adapter = new TelegramAdapter('123:token');
+        adapter.init(appContext);
+        controller = new BaseBotController(appContext);
+    });
+
+    it('should use caption as command text and take largest photo', async () => {
+        await adapter.setQueryData(
+            getMessageUpdate({
+                caption: 'Мой Чек',
+                photo: [
+                    { file_id: 'small', file_size: 100, width: 90, height: 90 },
+                    { file_id: 'big', file_size: 1000, width: 800, height: 800 },
+                ],
+            }),
+            controller,
+        );
+
+        expect(controller.userCommand).toBe('мой чек');
+        expect(controller.originalUserCommand).toBe('Мой Чек');
+        expect(controller.attachments).toEqual([
+            expect.objectContaining({
+                type: 'photo',
+                fileId: 'big',
+                size: 1000,
+                caption: 'Мой Чек',
+            }),
+        ]);
+    });
+
+    it('should fill voice, document and sticker', async () => {
+        await adapter.setQueryData(
+            getMessageUpdate({
+                voice: { file_id: 'v1', mime_type: 'audio/ogg', file_size: 5, duration: 2 },
+            }),
+            controller,
+        );
+        expect(controller.userCommand).toBe('');
+        expect(controller.attachments[0]).toMatchObject({
+            type: 'voice',
+            fileId: 'v1',
+            mime: 'audio/ogg',
+            size: 5,
+        });
+
+        await adapter.setQueryData(
+            getMessageUpdate({
+                document: { file_id: 'd1', mime_type: 'application/pdf', file_name: 'a.pdf' },
+            }),
+            controller,
+        );
+        expect(controller.attachments[0]).toMatchObject({
+            type: 'document',
+            fileId: 'd1',
+            mime: 'application/pdf',
+            name: 'a.pdf',
+        });
+
+        await adapter.setQueryData(
+            getMessageUpdate({ sticker: { file_id: 's1', emoji: '👍' } }),
+            controller,
+        );
+        expect(controller.attachments[0]).toMatchObject({ type: 'sticker', fileId: 's1' });
+    });
+
+    it('should fill location and contact', async () => {
+        await adapter.setQueryData(
+            getMessageUpdate({ location: { latitude: 55.75, longitude: 37.61 } }),
+            controller,
+        );
+        expect(controller.attachments[0]).toMatchObject({
+            type: 'location',
+            coordinates: { lat: 55.75, lon: 37.61 },
+        });
+
+        await adapter.setQueryData(
+            getMessageUpdate({
+                contact: { phone_number: '+79990000000', first_name: 'Иван', user_id: 7 },
+            }),
+            controller,
+        );
+        expect(controller.attachments[0]).toMatchObject({
+            type: 'contact',
+            contact: { phone: '+79990000000', firstName: 'Иван', userId: 7 },
+        });
+    });
+
+    it('should leave attachments empty for text message', async () => {
+        await adapter.setQueryData(getMessageUpdate({ text: 'Привет' }), controller);
+
+        expect(controller.userCommand).toBe('привет');
+        expect(controller.attachments).toEqual([]);
+    });
+
+    it('should clear attachments with store data', async () => {
+        await adapter.setQueryData(
+            getMessageUpdate({ location: { latitude: 1, longitude: 2 } }),
+            controller,
+        );
+        controller.clearStoreData();
+
+        expect(controller.attachments).toEqual([]);
+    });
+});
+
+describe('TelegramAdapter edits', () => {
+    let appContext: AppContext;
+    let adapter: TelegramAdapter;
+    let controller: BaseBotController;
+    let httpClient: jest.Mock;
+
+    beforeEach(() => {
+        appContext = new AppContext();
+        adapter = new TelegramAdapter('123:token');
+        adapter.init(appContext);
+        httpClient = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ ok: true, result: {} }),
+        });
+        appContext.httpClient = httpClient;
+        controller = new BaseBotController(appContext);
+    });
+
+    function getCallbackQuery(): ITelegramContent {
+        return {
+            update_id: 2,
+            callback_query: {
+                id: 'cb1',
+                from: { id: 7, is_bot: false },
+                message: { message_id: 15, chat: { id: 42, type: 'private' } },
+                data: 'next',
+            },
+        } as unknown as ITelegramContent;
+    }
+
+    function getCalledMethods(): string[] {
+        return httpClient.mock.calls.map(([url]) => String(url).split('/').pop() as string);
+    }
+
+    it('should handle edited message as edit event', async () => {
+        const result = await adapter.setQueryData(
+            {
+                update_id: 3,
+                edited_message: {
+                    message_id: 20,
+                    from: { id: 7, is_bot: false },
+                    chat: { id: 42, type: 'private' },
+                    text: 'Исправленный текст',
+                },
+            } as ITelegramContent,
+            controller,
+        );
+
+        expect(result).toBe(true);
+        expect(controller.userCommand).toBe('исправленный текст');
+        expect(controller.messageId).toBe(20);
+        expect(controller.userEvents).toEqual({ edit: { messageId: 20 } });
+    });
+
+    it('should edit message on callback query', async () => {
+        await adapter.setQueryData(getCallbackQuery(), controller);
+        controller.text = 'Страница 2';
+        controller.editMessage = true;
+
+        await adapter.getContent(controller);
+
+        expect(getCalledMethods()).toEqual(['editMessageText', 'answerCallbackQuery']);
+        expect(JSON.parse(httpClient.mock.calls[0][1].body)).toMatchObject({
+            chat_id: 42,
+            message_id: 15,
+            text: 'Страница 2',
+        });
+    });
+
+    it('should edit only reply markup if text is empty', async () => {
+        await adapter.setQueryData(getCallbackQuery(), controller);
+        controller.editMessage = true;
+
+        await adapter.getContent(controller);
+
+        expect(getCalledMethods()[0]).toBe('editMessageReplyMarkup');
+    });
+
+    it('should send new message without editMessage flag', async () => {
+        await adapter.setQueryData(getCallbackQuery(), controller);
+        controller.text = 'Страница 2';
+
+        await adapter.getContent(controller);
+
+        expect(getCalledMethods()).toEqual(['sendMessage', 'answerCallbackQuery']);
+    });
+
+    it('should return false from send if platform rejects edit', async () => {
+        appContext.setLogger({ error: () => {}, warn: () => {} });
+        httpClient.mockResolvedValueOnce({
+            ok: false,
+            status: 400,
+            json: async () => ({ ok: false, error_code: 400, description: 'Bad Request' }),
+        });
+        await adapter.setQueryData(getCallbackQuery(), controller);
+        controller.text = 'Страница 2';
+        controller.editMessage = true;
+
+        const result = await adapter.send(42, controller);
+
+        expect(result).toBe(false);
+        expect(getCalledMethods()).toEqual(['editMessageText', 'answerCallbackQuery']);
+    });
+
+    it('should not return false from send if only callback answer fails', async () => {
+        appContext.setLogger({ error: () => {}, warn: () => {} });
+        httpClient.mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: true, result: {} }),
+        });
+        httpClient.mockResolvedValueOnce({
+            ok: false,
+            status: 400,
+            json: async () => ({ ok: false, error_code: 400, description: 'Query is too old' }),
+        });
+        await adapter.setQueryData(getCallbackQuery(), controller);
+        controller.text = 'Страница 2';
+
+        const result = await adapter.send(42, controller);
+
+        expect(result).toBe('ok');
+    });
+});
+
+describe('TelegramRequest files', () => {
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+
+    beforeEach(() => {
+        appContext = new AppContext();
+        appContext.appConfig.tokens.telegram = { token: '123:token' };
+        appContext.logError = jest.fn();
+        httpClient = jest.fn();
+        appContext.httpClient = httpClient;
+    });
+
+    it('should get file info', async () => {
+        httpClient.mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: true, result: { file_id: 'f1', file_path: 'photos/1.jpg' } }),
+        });
+
+        const file = await new TelegramRequest(appContext).getFile('f1');
+
+        expect(file).toEqual({ file_id: 'f1', file_path: 'photos/1.jpg' });
+        const [url, init] = httpClient.mock.calls[0];
+        expect(url).toBe('https://api.telegram.org/bot123:token/getFile');
+        expect(JSON.parse(init.body)).toEqual({ file_id: 'f1' });
+    });
+
+    it('should download file content', async () => {
+        const content = new Uint8Array([1, 2, 3]).buffer;
+        httpClient
+            .mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    ok: true,
+                    result: { file_id: 'f1', file_path: 'docs/a.pdf' },
+                }),
+            })
+            .mockResolvedValueOnce({ ok: true, arrayBuffer: async () => content });
+
+        const result = await new TelegramRequest(appContext).downloadFile('f1');
+
+        expect(result).toBe(content);
+        expect(httpClient.mock.calls[1][0]).toBe(
+            'https://api.telegram.org/file/bot123:token/docs/a.pdf',
+        );
+    });
+
+    it('should return null if file info is not received', async () => {
+        httpClient.mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: false, description: 'Bad Request: invalid file_id' }),
+        });
+
+        expect(await new TelegramRequest(appContext).downloadFile('bad')).toBeNull();
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(appContext.logError).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,223 @@
+import { AppContext, Request } from '../../src';
+
+function getResponse(
+    status: number,
+    body: object = {},
+    headers: Record<string, string> = {},
+): object {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        headers: new Headers(headers),
+        json: async () => body,
+    };
+}
+
+describe('Request', () => {
+    let appContext: AppContext;
+    let httpClient: jest.Mock;
+    let request: Request;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        appContext = new AppContext();
+        appContext.logWarn = jest.fn();
+        httpClient = jest.fn();
+        appContext.httpClient = httpClient;
+        request = new Request(appContext);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should return structured http error without retries by default', async () => {
+        httpClient.mockResolvedValue(getResponse(503, { description: 'unavailable' }));
+
+        const res = await request.send('https://api.test/method');
+
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(res.status).toBe(false);
+        expect(res.httpStatus).toBe(503);
+        expect(res.errorData).toEqual({ description: 'unavailable' });
+        expect(res.error).toMatchObject({
+            name: 'RequestError',
+            code: 'http',
+            status: 503,
+            body: { description: 'unavailable' },
+            url: 'https://api.test/method',
+            attempts: 1,
+        });
+    });
+
+    it('should retry retryable status with exponential backoff', async () => {
+        appContext.requestPolicy = { retry: { retries: 2, baseDelay: 100, jitter: 0 } };
+        httpClient
+            .mockResolvedValueOnce(getResponse(502))
+            .mockResolvedValueOnce(getResponse(503))
+            .mockResolvedValueOnce(getResponse(200, { ok: true }));
+        request.post = { text: 'test' };
+
+        const promise = request.send('https://api.test/method');
+        await jest.advanceTimersByTimeAsync(99);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(200);
+
+        expect(await promise).toEqual({ status: true, data: { ok: true } });
+        expect(httpClient).toHaveBeenCalledTimes(3);
+        expect(httpClient.mock.calls[2][1].body).toBe('{"text":"test"}');
+    });
+
+    it('should use default values for undefined policy fields', async () => {
+        appContext.requestPolicy = {
+            retry: { retries: 1, baseDelay: undefined, jitter: 0, retryStatuses: undefined },
+        };
+        httpClient
+            .mockResolvedValueOnce(getResponse(503))
+            .mockResolvedValueOnce(getResponse(200, { ok: true }));
+
+        const promise = request.send('https://api.test/method');
+        await jest.advanceTimersByTimeAsync(299);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(await promise).toEqual({ status: true, data: { ok: true } });
+        expect(httpClient).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non retryable status', async () => {
+        appContext.requestPolicy = { retry: { retries: 3 } };
+        httpClient.mockResolvedValue(getResponse(400));
+
+        const res = await request.send('https://api.test/method');
+
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        expect(res.error?.status).toBe(400);
+    });
+
+    it('should use Retry-After header', async () => {
+        appContext.requestPolicy = { retry: { retries: 1, baseDelay: 10 } };
+        httpClient
+            .mockResolvedValueOnce(getResponse(429, {}, { 'Retry-After': '2' }))
+            .mockResolvedValueOnce(getResponse(200, { ok: true }));
+
+        const promise = request.send('https://api.test/method');
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(httpClient).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect((await promise).status).toBe(true);
+    });
+
+    it('should retry network errors and prefer request policy', async () => {
+        appContext.requestPolicy = { retry: { retries: 5 } };
+        request.retry = { retries: 1, baseDelay: 10, jitter: 0 };
+        httpClient.mockRejectedValue(new TypeError('fetch failed'));
+
+        const promise = request.send('https://api.test/method');
+        await jest.advanceTimersByTimeAsync(10);
+        const res = await promise;
+
+        expect(httpClient).toHaveBeenCalledTimes(2);
+        expect(res.error).toMatchObject({ code: 'network', message: 'fetch failed', attempts: 2 });
+        expect(res.err).toBeInstanceOf(TypeError);
+    });
+
+    it('should return url error', async () => {
+        const res = await request.send();
+
+        expect(res.error?.code).toBe('url');
+        expect(httpClient).not.toHaveBeenCalled();
+    });
+
+    describe('circuit breaker', () => {
+        beforeEach(() => {
+            appContext.requestPolicy = {
+                circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+            };
+        });
+
+        it('should open circuit after consecutive failures', async () => {
+            httpClient.mockResolvedValue(getResponse(500));
+
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+            expect(appContext.logWarn).toHaveBeenCalledWith(expect.stringContaining('api.test'));
+            const res = await request.send('https://api.test/method');
+
+            expect(httpClient).toHaveBeenCalledTimes(2);
+            expect(res.error?.code).toBe('circuit_open');
+            expect(Request.getCircuitBreaker(appContext).getState('api.test')).toBe('open');
+
+            httpClient.mockResolvedValue(getResponse(200, { ok: true }));
+            expect((await request.send('https://other.test/method')).status).toBe(true);
+        });
+
+        it('should close circuit after successful trial request', async () => {
+            httpClient.mockResolvedValue(getResponse(500));
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+
+            jest.advanceTimersByTime(1000);
+            httpClient.mockResolvedValue(getResponse(200, { ok: true }));
+            expect((await request.send('https://api.test/method')).status).toBe(true);
+            expect(Request.getCircuitBreaker(appContext).getState('api.test')).toBe('closed');
+        });
+
+        it('should open circuit again after failed trial request', async () => {
+            httpClient.mockResolvedValue(getResponse(503));
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+
+            jest.advanceTimersByTime(1000);
+            await request.send('https://api.test/method');
+
+            expect(httpClient).toHaveBeenCalledTimes(3);
+            expect(Request.getCircuitBreaker(appContext).getState('api.test')).toBe('open');
+        });
+
+        it('should close circuit after trial request with client error', async () => {
+            httpClient.mockResolvedValue(getResponse(503));
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+
+            jest.advanceTimersByTime(1000);
+            httpClient.mockResolvedValue(getResponse(400));
+            expect((await request.send('https://api.test/method')).error?.code).toBe('http');
+            expect(Request.getCircuitBreaker(appContext).getState('api.test')).toBe('closed');
+
+            httpClient.mockResolvedValue(getResponse(200, { ok: true }));
+            expect((await request.send('https://api.test/method')).status).toBe(true);
+            expect(httpClient).toHaveBeenCalledTimes(4);
+        });
+
+        it('should allow new trial request after trial without response', async () => {
+            httpClient.mockResolvedValue(getResponse(503));
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+
+            jest.advanceTimersByTime(1000);
+            httpClient.mockResolvedValue(getResponse(200, { ok: true }));
+            request.attach = '/not/exists/file.txt';
+            expect((await request.send('https://api.test/method')).error?.code).toBe('file');
+            expect(
+                Request.getCircuitBreaker(appContext).getState('api.test', { resetTimeout: 1000 }),
+            ).toBe('half-open');
+
+            expect((await request.send('https://api.test/method')).status).toBe(true);
+            expect(Request.getCircuitBreaker(appContext).getState('api.test')).toBe('closed');
+        });
+
+        it('should not count client errors', async () => {
+            httpClient.mockResolvedValue(getResponse(404));
+
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+            await request.send('https://api.test/method');
+
+            expect(httpClient).toHaveBeenCalledTimes(3);
+        });
+    });
+});
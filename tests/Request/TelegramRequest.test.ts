@@ -157,6 +157,72 @@ describe('TelegramRequest', () => {
         expect(global.fetch).not.toHaveBeenCalled();
     });
 
+    // === Получение обновлений ===
+    it('should get updates with offset and timeout', async () => {
+        const updates = [{ update_id: 7, message: { message_id: 1, chat: { id: 1 }, text: 'a' } }];
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: true, result: updates }),
+        });
+
+        const result = await telegram.getUpdates(7, 25, 50, ['message']);
+
+        expect(result).toEqual(updates);
+        const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(url).toContain('getUpdates');
+        expect(JSON.parse(init.body)).toEqual({
+            offset: 7,
+            timeout: 25,
+            limit: 50,
+            allowed_updates: ['message'],
+        });
+    });
+
+    it('should return null if getUpdates failed', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: false, error_code: 409, description: 'Conflict' }),
+        });
+
+        expect(await telegram.getUpdates()).toBeNull();
+        expect(appContext.logError).toHaveBeenCalled();
+    });
+
+    it('should edit message text', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: true, result: { message_id: 10 } }),
+        });
+
+        await telegram.editMessageText(12345, 10, 'Страница 2', { reply_markup: '{}' });
+
+        const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(url).toContain('editMessageText');
+        expect(JSON.parse(init.body)).toEqual({
+            chat_id: 12345,
+            message_id: 10,
+            text: 'Страница 2',
+            reply_markup: '{}',
+        });
+    });
+
+    it('should edit message reply markup', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ok: true, result: true }),
+        });
+
+        await telegram.editMessageReplyMarkup(12345, 10, '{"inline_keyboard":[]}');
+
+        const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(url).toContain('editMessageReplyMarkup');
+        expect(JSON.parse(init.body)).toEqual({
+            chat_id: 12345,
+            message_id: 10,
+            reply_markup: '{"inline_keyboard":[]}',
+        });
+    });
+
     // === Проверка URL ===
     it('should construct correct API URL', () => {
         const url = telegram['_getUrl']();
@@ -190,4 +190,89 @@ describe('VkRequest', () => {
             }),
         );
     });
+    // === Bots Long Poll API ===
+
+    it('should get long poll server', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ response: { key: 'k', server: 'https://lp.vk.ru/wh1', ts: '1' } }),
+        });
+
+        const result = await vk.groupsGetLongPollServer(123);
+
+        expect(result).toEqual({ key: 'k', server: 'https://lp.vk.ru/wh1', ts: '1' });
+        const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(url).toContain('groups.getLongPollServer');
+        expect(init.body).toContain('group_id=123');
+    });
+
+    it('should request events from long poll server', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ ts: '2', updates: [] }),
+        });
+
+        const result = await vk.longPollCheck({
+            key: 'k',
+            server: 'https://lp.vk.ru/wh1',
+            ts: '1',
+        });
+
+        expect(result).toEqual({ ts: '2', updates: [] });
+        expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+            'https://lp.vk.ru/wh1?act=a_check&key=k&ts=1&wait=25',
+        );
+    });
+
+    it('should handle failed codes in long poll loop', async () => {
+        const abort = new AbortController();
+        const serverResponse = (key: string, ts: string): object => ({
+            ok: true,
+            json: async () => ({ response: { key, server: 'https://lp.vk.ru/wh1', ts } }),
+        });
+        const lpResponse = (data: object): object => ({ ok: true, json: async () => data });
+        const event = { type: 'message_new', group_id: '1', object: {} };
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce(serverResponse('k1', '1'))
+            .mockResolvedValueOnce(lpResponse({ failed: 1, ts: '5' }))
+            .mockResolvedValueOnce(lpResponse({ failed: 2 }))
+            .mockResolvedValueOnce(serverResponse('k2', '100'))
+            .mockResolvedValueOnce(lpResponse({ failed: 3 }))
+            .mockResolvedValueOnce(serverResponse('k3', '200'))
+            .mockResolvedValueOnce(lpResponse({ ts: '201', updates: [event] }))
+            .mockImplementation(async () => {
+                abort.abort();
+                return lpResponse({ ts: '201', updates: [] });
+            });
+        const cb = jest.fn();
+
+        await vk.longPoll(1, cb, { signal: abort.signal, retryDelay: 1 });
+
+        expect(cb).toHaveBeenCalledTimes(1);
+        expect(cb).toHaveBeenCalledWith(event);
+        const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url as string);
+        expect(urls[2]).toContain('key=k1&ts=5');
+        // После failed=2 сохраняется ts, но используется новый ключ
+        expect(urls[4]).toContain('key=k2&ts=5');
+        // После failed=3 используются новые ключ и ts
+        expect(urls[6]).toContain('key=k3&ts=200');
+        expect(urls[7]).toContain('key=k3&ts=201');
+        (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should retry long poll after request error', async () => {
+        const abort = new AbortController();
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce({ ok: false, status: 500 })
+            .mockImplementation(async () => {
+                abort.abort();
+                return { ok: true, json: async (): Promise<object> => ({ response: {} }) };
+            });
+
+        await vk.longPoll(1, jest.fn(), { signal: abort.signal, retryDelay: 1 });
+
+        expect((global.fetch as jest.Mock).mock.calls[1][0]).toContain('groups.getLongPollServer');
+        expect(appContext.logError).toHaveBeenCalled();
+        (global.fetch as jest.Mock).mockReset();
+    });
 });